@@ -0,0 +1,146 @@
+// server/share-server.mjs
+// Local stand-in for the share backend (see src/utils/sharing.ts). No dependencies:
+//   npm run share-server            then start the app with VITE_SHARE_API_URL=http://localhost:8787
+// Shares are JSON files in SHARE_DATA_DIR (default .shares/). Not meant for production.
+import { createServer } from "node:http";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SHARE_DATA_DIR ?? ".shares");
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const ID_PATTERN = /^[\w-]+$/;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-Owner-Token",
+};
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const fileFor = (id) => join(DATA_DIR, `${id}.json`);
+
+function send(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body is too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+async function loadShare(id) {
+  if (!ID_PATTERN.test(id)) throw new HttpError(404, "Share not found");
+  try {
+    return JSON.parse(await readFile(fileFor(id), "utf8"));
+  } catch {
+    throw new HttpError(404, "Share not found");
+  }
+}
+
+function checkOwner(stored, req) {
+  const given = Buffer.from(String(req.headers["x-owner-token"] ?? ""));
+  const expected = Buffer.from(stored.ownerToken);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError(403, "Only the owner can change this share");
+  }
+}
+
+// Create and update accept the same expiry values: an ISO date string, or nothing
+function checkExpiry(value) {
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw new HttpError(400, "expiresAt is not a valid date");
+  }
+  return value;
+}
+
+function statusOf(analysis, now = Date.now()) {
+  if (!analysis.isPublic) return "revoked";
+  if (analysis.expiresAt && Date.parse(analysis.expiresAt) <= now) return "expired";
+  return "active";
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const [, collection, id] = url.pathname.split("/");
+  if (collection !== "shares") throw new HttpError(404, "Not found");
+
+  if (req.method === "POST" && !id) {
+    const draft = await readBody(req);
+    if (typeof draft.name !== "string" || !draft.name.trim() || !Array.isArray(draft.data)) {
+      throw new HttpError(400, "A share needs a name and data rows");
+    }
+    // The viewer maps over these, so a share without them could never be opened
+    for (const field of ["insights", "queries", "comments"]) {
+      if (!Array.isArray(draft[field])) throw new HttpError(400, `${field} must be an array`);
+    }
+    const now = new Date().toISOString();
+    const shareId = randomBytes(9).toString("base64url");
+    const analysis = { ...draft, id: shareId, shareLink: "", createdAt: now, lastModified: now, isPublic: true };
+    if (draft.expiresAt === null || draft.expiresAt === undefined) delete analysis.expiresAt;
+    else analysis.expiresAt = checkExpiry(draft.expiresAt);
+    const stored = { id: shareId, ownerToken: randomBytes(24).toString("hex"), analysis };
+    await writeFile(fileFor(shareId), JSON.stringify(stored));
+    return send(res, 201, { analysis, ownerToken: stored.ownerToken });
+  }
+
+  if (!id) throw new HttpError(404, "Not found");
+  const stored = await loadShare(id);
+
+  if (req.method === "GET") {
+    const status = statusOf(stored.analysis);
+    // Revoked and expired links say why, but never return the data
+    if (status !== "active") return send(res, 410, { status });
+    return send(res, 200, stored.analysis);
+  }
+
+  if (req.method === "PATCH") {
+    checkOwner(stored, req);
+    const patch = await readBody(req);
+    const analysis = { ...stored.analysis, lastModified: new Date().toISOString() };
+    if (typeof patch.isPublic === "boolean") analysis.isPublic = patch.isPublic;
+    if (patch.expiresAt === null) delete analysis.expiresAt;
+    else if (patch.expiresAt !== undefined) analysis.expiresAt = checkExpiry(patch.expiresAt);
+    await writeFile(fileFor(id), JSON.stringify({ ...stored, analysis }));
+    return send(res, 200, analysis);
+  }
+
+  if (req.method === "DELETE") {
+    checkOwner(stored, req);
+    await rm(fileFor(id), { force: true });
+    return send(res, 204);
+  }
+
+  throw new HttpError(405, "Method not allowed");
+}
+
+await mkdir(DATA_DIR, { recursive: true });
+
+createServer((req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  handle(req, res).catch((err) => {
+    if (err instanceof HttpError) return send(res, err.status, { error: err.message });
+    console.error(err);
+    send(res, 500, { error: "Internal server error" });
+  });
+}).listen(PORT, () => {
+  console.log(`Share server listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
@@ -1,29 +1,285 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { LayoutTemplate, Layers, LogOut } from "lucide-react";
 import LoginScreen from "./components/LoginScreen";
 import UploadScreen from "./components/UploadScreen";
 import CleaningScreen from "./components/CleaningScreen";
 import VisualizationScreen from "./components/VisualizationScreen";
 import SummaryScreen from "./components/SummaryScreen";
-import type { CleaningIssues, DataSummary, Statistics, Screen } from "./types";
-import { analyzeCsvFile } from "./utils/csvAnalysis";
+import SharedAnalysisViewer from "./components/SharedAnalysisViewer";
+import TemplateGallery from "./components/TemplateGallery";
+import WorkspacePanel from "./components/WorkspacePanel";
+import type { AnalysisTemplate, AuthUser, ChartConfig, ChatMessage, CleaningIssues, Comment, DataSummary, ExperimentConfig, StatisticalTest, Statistics, Screen } from "./types";
+import { getAuthProvider } from "./utils/auth";
+import { isAbortError, type CsvFormatOptions, type IngestProgress } from "./utils/csvAnalysis";
+import { findImporter, importFile } from "./utils/importers";
+import type { CleaningPlan } from "./utils/imputation";
+import { isEmpty } from "./utils/csvIngest";
+import {
+  addedColumns,
+  commitSteps,
+  createHistory,
+  createStep,
+  describeStep,
+  redo,
+  runPipeline,
+  undo,
+  type CleaningStep,
+  type CleaningStepInput,
+  type PipelineHistory,
+} from "./utils/cleaningPipeline";
+import { removeDatasetComments } from "./utils/comments";
+import { lineageTracker } from "./utils/dataLineage";
+import { exportToCSV } from "./utils/exports";
 import { generateMockRows } from "./utils/mockData";
+import { listSavedQueries, missingColumns, restoreSavedQueries, savedQueryConfig } from "./utils/savedQueries";
+import {
+  createSessionId,
+  deleteSession,
+  getStorageUsage,
+  isQuotaError,
+  listSessions,
+  loadSession,
+  saveSession,
+  type SessionSummary,
+  type StorageUsage,
+} from "./utils/sessionStore";
+import { parseShareRoute } from "./utils/sharing";
+import { applyTemplate } from "./utils/templates";
+import {
+  EMPTY_WORKSPACE,
+  activeDataset,
+  addDataset,
+  createDataset,
+  datasetColumns,
+  removeDataset,
+  renameDataset,
+  uniqueDatasetName,
+  updateDataset,
+  type Workspace,
+  type WorkspaceDataset,
+} from "./utils/workspace";
 
 type DataRow = Record<string, string | number | null | undefined>;
 
+// Wait for a pause in edits before writing the session to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
+
 export default function App() {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
   const [currentScreen, setCurrentScreen] = useState<Screen>("upload");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [dataSummary, setDataSummary] = useState<DataSummary | null>(null);
-  const [cleaningIssues, setCleaningIssues] = useState<CleaningIssues | null>(null);
-  const [rows, setRows] = useState<DataRow[]>([]);
-  const [cleanedRows, setCleanedRows] = useState<DataRow[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace>(EMPTY_WORKSPACE);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [session, setSession] = useState<{ id: string; createdAt: Date } | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [lineageVersion, setLineageVersion] = useState(0);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [resumingSessionId, setResumingSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string>("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [ingestProgress, setIngestProgress] = useState<IngestProgress | null>(null);
+  const [csvFormat, setCsvFormat] = useState<CsvFormatOptions>({ delimiter: "auto", encoding: "auto" });
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string>("");
+  const ingestAbortRef = useRef<AbortController | null>(null);
+  // Share links (#/share/<id>) open a read-only viewer, signed in or not
+  const [shareId, setShareId] = useState(() => parseShareRoute(window.location.hash));
+
+  // Every screen works on the active dataset
+  const active = activeDataset(workspace);
+  const dataSummary = active?.dataSummary ?? null;
+  const cleaningIssues = active?.cleaningIssues ?? null;
+  const rows = active?.rows ?? EMPTY_ROWS;
+  const cleanedRows = active?.cleanedRows ?? EMPTY_ROWS;
+  const pipeline = active?.pipeline ?? EMPTY_HISTORY;
+  const stepResults = active?.stepResults ?? [];
+
+  const activeColumns = useMemo(() => (active ? datasetColumns(active) : []), [active]);
+
+  const updateActive = (patch: Partial<WorkspaceDataset>) => {
+    if (!active) return;
+    setWorkspace((ws) => updateDataset(ws, active.id, patch));
+  };
+
+  const handleChartConfigChange = useCallback((chartConfig: ChartConfig) => {
+    setWorkspace((ws) => (ws.activeId ? updateDataset(ws, ws.activeId, { chartConfig }) : ws));
+  }, []);
+
+  const handleStatisticalTestsChange = (statisticalTests: StatisticalTest[]) => updateActive({ statisticalTests });
+  const handleExperimentChange = (experiment: ExperimentConfig) => updateActive({ experiment });
+
+  // Lineage lives outside React state; re-render on its changes so they get saved too
+  useEffect(() => lineageTracker.subscribe(() => setLineageVersion((v) => v + 1)), []);
+
+  // Queries, exports and the Lineage tab follow the active dataset
+  useEffect(() => lineageTracker.setActive(workspace.activeId), [workspace.activeId]);
+
+  // Saved queries travel with the session when they run against one of its datasets
+  const persistSession = useCallback(
+    async (target: { id: string; createdAt: Date }) => {
+      if (!currentUser || workspace.datasets.length === 0) return;
+      const library = await listSavedQueries();
+      const savedQueries = library.filter((q) =>
+        workspace.datasets.some((d) => missingColumns(savedQueryConfig(q), datasetColumns(d)).length === 0)
+      );
+      const summary = await saveSession(
+        target.id,
+        currentUser.id,
+        { workspace, screen: currentScreen, chatMessages, comments, savedQueries, lineage: lineageTracker.snapshot() },
+        target.createdAt
+      );
+      setRecentSessions((list) => [summary, ...list.filter((s) => s.id !== summary.id)]);
+    },
+    [currentUser, workspace, currentScreen, chatMessages, comments]
+  );
 
-  const handleFileSelect = (file: File) => {
+  const reportSaveError = (err: unknown) => {
+    console.error(err);
+    setError(
+      isQuotaError(err)
+        ? "Browser storage is full, so this analysis is no longer being saved. Delete older analyses from the upload screen."
+        : "Could not save this analysis in the browser."
+    );
+  };
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => {
+      persistSession(session).catch(reportSaveError);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, persistSession, lineageVersion]);
+
+  // Refresh the recent analyses list whenever the upload screen is shown
+  useEffect(() => {
+    if (!currentUser || currentScreen !== "upload") return;
+    let active = true;
+    Promise.all([listSessions(currentUser.id), getStorageUsage()])
+      .then(([sessions, usage]) => {
+        if (!active) return;
+        setRecentSessions(sessions);
+        setStorageUsage(usage);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      active = false;
+    };
+  }, [currentUser, currentScreen]);
+
+  useEffect(() => {
+    const onHashChange = () => setShareId(parseShareRoute(window.location.hash));
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  // Pick up a persisted session (or an OAuth redirect) before showing the login screen
+  useEffect(() => {
+    let active = true;
+    getAuthProvider()
+      .getSession()
+      .then((session) => {
+        if (active && session) setCurrentUser(session.user);
+      })
+      .catch((err) => console.error(err))
+      .finally(() => {
+        if (active) setIsRestoringSession(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Back to the upload screen; datasets already loaded stay in the workspace
+  const startNew = () => {
+    setCurrentScreen("upload");
+    setSelectedFile(null);
+  };
+
+  const clearWorkspace = () => {
+    startNew();
+    setWorkspace(EMPTY_WORKSPACE);
+    setShowWorkspace(false);
+    setShowTemplates(false);
+    setSession(null);
+    setChatMessages([]);
+    setComments([]);
+    lineageTracker.clear();
+  };
+
+  const handleSignOut = async () => {
+    if (currentUser?.provider !== "guest") {
+      try {
+        await getAuthProvider().signOut();
+      } catch (err) {
+        console.error(err);
+      }
+    }
+    if (session) await persistSession(session).catch(reportSaveError);
+    setCurrentUser(null);
+    clearWorkspace();
+  };
+
+  const handleFileSelect = async (file: File) => {
     setSelectedFile(file);
+    setSheetNames([]);
+    setSelectedSheet("");
     setError("");
+
+    const importer = findImporter(file.name);
+    if (!importer) {
+      setError(`Unsupported file type: ${file.name}`);
+      return;
+    }
+    if (importer.listSheets) {
+      try {
+        const sheets = await importer.listSheets(file);
+        setSheetNames(sheets);
+        setSelectedSheet(sheets[0] ?? "");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to read workbook");
+        console.error(err);
+      }
+    }
+  };
+
+  // Routes the file to its importer (CSV streams through the ingest worker), reporting progress
+  const ingestFile = async (file: File) => {
+    ingestAbortRef.current?.abort();
+    const controller = new AbortController();
+    ingestAbortRef.current = controller;
+    setIngestProgress(null);
+
+    try {
+      const { dataSummary: summary, cleaningIssues, rows: parsedRows } = await importFile(file, {
+        ...csvFormat,
+        sheet: selectedSheet || undefined,
+        signal: controller.signal,
+        onProgress: setIngestProgress,
+      });
+      const baseName = file.name.replace(/\.[^.]+$/, "") + (selectedSheet ? ` - ${selectedSheet}` : "");
+      const dataset = createDataset(uniqueDatasetName(workspace, baseName), "upload", file.name, parsedRows as DataRow[], {
+        dataSummary: summary,
+        cleaningIssues,
+      });
+      // Every upload starts its own history; into an empty workspace it replaces whatever came before
+      if (workspace.datasets.length === 0) lineageTracker.clear();
+      lineageTracker.reset(dataset.id).initialize(summary.rows, file.name);
+      setWorkspace((ws) => addDataset(ws, dataset));
+      if (!session) setSession({ id: createSessionId(), createdAt: new Date() });
+      setCurrentScreen("cleaning");
+      setShowTemplates(true);
+    } finally {
+      if (ingestAbortRef.current === controller) ingestAbortRef.current = null;
+      setIngestProgress(null);
+    }
+  };
+
+  const handleCancelAnalyze = () => {
+    ingestAbortRef.current?.abort();
   };
 
   const handleAnalyze = async () => {
@@ -36,15 +292,12 @@ export default function App() {
     setError("");
 
     try {
-      const { dataSummary: summary, cleaningIssues, rows: parsedRows } = await analyzeCsvFile(selectedFile);
-      setDataSummary(summary);
-      setCleaningIssues(cleaningIssues);
-      setRows(parsedRows as DataRow[]);
-      setCleanedRows(parsedRows as DataRow[]);
-      setCurrentScreen("cleaning");
+      await ingestFile(selectedFile);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to analyze file. Please try another file.");
-      console.error(err);
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to analyze file. Please try another file.");
+        console.error(err);
+      }
     } finally {
       setIsAnalyzing(false);
     }
@@ -69,56 +322,195 @@ export default function App() {
       const file = new File([blob], "sample-data.csv", { type: "text/csv" });
       
       setSelectedFile(file);
-      
-      const { dataSummary: summary, cleaningIssues, rows: parsedRows } = await analyzeCsvFile(file);
-      setDataSummary(summary);
-      setCleaningIssues(cleaningIssues);
-      setRows(parsedRows as DataRow[]);
-      setCleanedRows(parsedRows as DataRow[]);
-      setCurrentScreen("cleaning");
+      setSheetNames([]);
+      setSelectedSheet("");
+
+      await ingestFile(file);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load sample data");
-      console.error(err);
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to load sample data");
+        console.error(err);
+      }
     } finally {
       setIsAnalyzing(false);
     }
   };
 
-  const handleClean = (type: "auto" | "missing" | "invalid") => {
-    if (!dataSummary || !cleaningIssues) return;
+  // Replays the pipeline from the raw upload; cleaned rows are never edited in place
+  const applyPipeline = (next: PipelineHistory) => {
+    if (!dataSummary || !cleaningIssues) return null;
+
+    const run = runPipeline(rows, next.present, dataSummary.columnDetails);
+
+    // Recalculate issues (structural problems come from the file itself, so they carry over)
+    const newCleaningIssues = calculateCleaningIssues(run.rows, dataSummary.columnDetails);
+    updateActive({
+      pipeline: next,
+      cleanedRows: run.rows,
+      stepResults: run.results,
+      cleaningIssues: { ...newCleaningIssues, structural: cleaningIssues.structural },
+    });
+    return run;
+  };
+
+  const addSteps = (inputs: CleaningStepInput[]) => {
+    const added = inputs.map(createStep);
+
+    const run = applyPipeline(commitSteps(pipeline, [...pipeline.present, ...added]));
+    if (!run || !active) return;
+
+    // One lineage event per step, with the row counts that step actually produced
+    const lineage = lineageTracker.for(active.id);
+    for (const step of added) {
+      const result = run.results.find((r) => r.stepId === step.id);
+      if (!result) continue;
+      lineage.recordEvent({
+        action: result.rowsAfter < result.rowsBefore ? "filtered" : "transformed",
+        description: describeStep(step),
+        affectedRows: result.rowsAfter,
+        previousRowCount: result.rowsBefore,
+        details: { stepId: step.id, kind: step.kind, cellsChanged: result.cellsChanged },
+      });
+    }
+  };
+
+  const handleClean = (type: "auto" | "missing" | "invalid", plan: CleaningPlan) => {
+    const inputs: CleaningStepInput[] =
+      type === "auto"
+        ? [{ kind: "fix_invalid" }, { kind: "impute", plan }, { kind: "remove_duplicates" }]
+        : type === "missing"
+          ? [{ kind: "impute", plan }]
+          : [{ kind: "fix_invalid" }];
+    addSteps(inputs);
+  };
+
+  // Appends steps to the pipeline, e.g. a derived column from the analysis screens
+  const handleAddPipelineStep = (input: CleaningStepInput) => {
+    addSteps([input]);
+  };
+
+  // Reorder / disable / remove / import, plus undo and redo, all replace the step list
+  const recordPipelineChange = (description: string, previousCount: number, newCount: number, steps: CleaningStep[]) => {
+    if (!active) return;
+    lineageTracker.for(active.id).recordEvent({
+      action: "transformed",
+      description,
+      affectedRows: newCount,
+      previousRowCount: previousCount,
+      details: { steps: steps.map((s) => ({ id: s.id, kind: s.kind, enabled: s.enabled })) },
+    });
+  };
 
-    const cleaned = cleanData(cleanedRows, type, dataSummary);
-    setCleanedRows(cleaned);
+  const handlePipelineChange = (steps: CleaningStep[], description: string) => {
+    const run = applyPipeline(commitSteps(pipeline, steps));
+    if (run) recordPipelineChange(description, cleanedRows.length, run.rows.length, steps);
+  };
 
-    // Recalculate issues
-    const newCleaningIssues = calculateCleaningIssues(cleaned, dataSummary.columnDetails);
-    setCleaningIssues(newCleaningIssues);
+  const handleUndo = () => {
+    const next = undo(pipeline);
+    if (next === pipeline) return;
+    const run = applyPipeline(next);
+    if (run) recordPipelineChange("Undid last cleaning change", cleanedRows.length, run.rows.length, next.present);
+  };
+
+  const handleRedo = () => {
+    const next = redo(pipeline);
+    if (next === pipeline) return;
+    const run = applyPipeline(next);
+    if (run) recordPipelineChange("Redid cleaning change", cleanedRows.length, run.rows.length, next.present);
   };
 
   const handleExport = () => {
     if (cleanedRows.length === 0) return;
 
-    const headers = Object.keys(cleanedRows[0]);
-    const csvContent = [
-      headers.join(","),
-      ...cleanedRows.map(row =>
-        headers
-          .map(h => {
-            const v = row[h];
-            const str = String(v ?? "");
-            return str.includes(",") ? `"${str}"` : str;
-          })
-          .join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `cleaned-data-${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    exportToCSV(cleanedRows, `cleaned-data-${new Date().toISOString().split("T")[0]}.csv`, {
+      columns: dataSummary ? [...dataSummary.columnDetails.map(c => c.name), ...addedColumns(pipeline.present)] : undefined,
+    });
+  };
+
+  const handleActivateDataset = (id: string) => {
+    setWorkspace((ws) => ({ ...ws, activeId: id }));
+    if (currentScreen === "upload" || currentScreen === "summary") setCurrentScreen("cleaning");
+  };
+
+  // Throws on an empty or duplicate name; the panel shows the message
+  const handleRenameDataset = (id: string, name: string) => {
+    setWorkspace(renameDataset(workspace, id, name));
+  };
+
+  const handleRemoveDataset = (id: string) => {
+    const next = removeDataset(workspace, id);
+    if (next.datasets.length === 0) {
+      // Nothing left to resume, so the saved copy goes too
+      if (session) void handleDeleteSession(session.id);
+      else clearWorkspace();
+      return;
+    }
+    setWorkspace(next);
+    setComments((list) => removeDatasetComments(list, id));
+    lineageTracker.remove(id);
+  };
+
+  const handleCreateDataset = (dataset: WorkspaceDataset, inputs: WorkspaceDataset[]) => {
+    setWorkspace((ws) => addDataset(ws, dataset));
+    lineageTracker
+      .reset(dataset.id)
+      .initializeDerived(
+        dataset.rows.length,
+        `Created ${dataset.name}: ${dataset.description}`,
+        inputs.reduce((sum, d) => sum + d.cleanedRows.length, 0),
+        { dataset: dataset.name, source: dataset.source, inputs: inputs.map((d) => d.name) }
+      );
+    setShowWorkspace(false);
+    setCurrentScreen("cleaning");
+  };
+
+  const handleApplyTemplate = async (template: AnalysisTemplate) => {
+    if (!active || !currentUser) return;
+    const result = await applyTemplate(template, activeColumns, active.chartConfig, currentUser.displayName);
+    handleChartConfigChange(result.chartConfig);
+    setShowTemplates(false);
+  };
+
+  const handleResumeSession = async (id: string) => {
+    if (id === session?.id) {
+      setCurrentScreen("cleaning");
+      return;
+    }
+    setResumingSessionId(id);
+    setError("");
+    try {
+      if (session) await persistSession(session);
+      const state = await loadSession(id);
+      if (!state) throw new Error("This analysis is no longer saved in this browser.");
+      await restoreSavedQueries(state.savedQueries);
+
+      setWorkspace(state.workspace);
+      setChatMessages(state.chatMessages);
+      setComments(state.comments);
+      lineageTracker.load(state.lineage);
+      setSession({ id, createdAt: recentSessions.find((s) => s.id === id)?.createdAt ?? new Date() });
+      setSelectedFile(null);
+      setCurrentScreen(state.screen === "upload" || state.screen === "login" ? "cleaning" : state.screen);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resume the analysis");
+      console.error(err);
+    } finally {
+      setResumingSessionId(null);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    // Close the open session first so a pending autosave cannot write it back
+    if (id === session?.id) clearWorkspace();
+    try {
+      await deleteSession(id);
+      setRecentSessions((list) => list.filter((s) => s.id !== id));
+      setStorageUsage(await getStorageUsage());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the analysis");
+      console.error(err);
+    }
   };
 
   const calculateStatistics = (): Statistics => {
@@ -148,8 +540,24 @@ export default function App() {
     return { mean, median, min, max, stdDev };
   };
 
-  if (!isLoggedIn) {
-    return <LoginScreen onSuccess={() => setIsLoggedIn(true)} />;
+  if (shareId) {
+    return (
+      <SharedAnalysisViewer
+        shareId={shareId}
+        onExit={() => {
+          window.history.replaceState(null, "", window.location.pathname + window.location.search);
+          setShareId(null);
+        }}
+      />
+    );
+  }
+
+  if (isRestoringSession) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  if (!currentUser) {
+    return <LoginScreen onSuccess={setCurrentUser} />;
   }
 
   return (
@@ -161,23 +569,104 @@ export default function App() {
         </div>
       )}
 
+      <div className="fixed bottom-4 left-4 z-40 flex items-center gap-3 bg-gray-800/80 backdrop-blur border border-gray-700/50 rounded-lg px-3 py-2 text-sm">
+        <span className="text-gray-300">
+          Signed in as <span className="font-medium text-white">{currentUser.displayName}</span>
+        </span>
+        {workspace.datasets.length > 0 && (
+          <button
+            onClick={() => setShowWorkspace(true)}
+            className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+            title={active ? `Active dataset: ${active.name}` : "Datasets"}
+          >
+            <Layers className="w-4 h-4" />
+            Datasets ({workspace.datasets.length})
+          </button>
+        )}
+        {active && (
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+            title="Analysis templates"
+          >
+            <LayoutTemplate className="w-4 h-4" />
+            Templates
+          </button>
+        )}
+        <button
+          onClick={handleSignOut}
+          className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+          title="Sign out"
+        >
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showWorkspace && (
+        <WorkspacePanel
+          workspace={workspace}
+          onActivate={handleActivateDataset}
+          onRename={handleRenameDataset}
+          onRemove={handleRemoveDataset}
+          onAddFile={() => {
+            setShowWorkspace(false);
+            startNew();
+          }}
+          onCreate={handleCreateDataset}
+          onClose={() => setShowWorkspace(false)}
+        />
+      )}
+
+      {showTemplates && active && (
+        <TemplateGallery
+          columns={activeColumns}
+          userName={currentUser.displayName}
+          appliedTemplateId={active.chartConfig?.template?.id}
+          onApply={handleApplyTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
       {currentScreen === "upload" && (
         <UploadScreen
           onFileSelect={handleFileSelect}
           selectedFile={selectedFile}
           onAnalyze={handleAnalyze}
           onLoadSample={handleLoadSample}
+          onCancel={handleCancelAnalyze}
           isAnalyzing={isAnalyzing}
+          progress={ingestProgress}
+          csvFormat={csvFormat}
+          onCsvFormatChange={setCsvFormat}
+          sheetNames={sheetNames}
+          selectedSheet={selectedSheet}
+          onSheetChange={setSelectedSheet}
+          recentSessions={recentSessions}
+          currentSessionId={session?.id ?? null}
+          storageUsage={storageUsage}
+          resumingSessionId={resumingSessionId}
+          onResumeSession={handleResumeSession}
+          onDeleteSession={handleDeleteSession}
         />
       )}
 
       {currentScreen === "cleaning" && dataSummary && cleaningIssues && (
         <CleaningScreen
+          key={active?.id}
           dataSummary={dataSummary}
           cleaningIssues={cleaningIssues}
           onClean={handleClean}
+          steps={pipeline.present}
+          stepResults={stepResults}
+          canUndo={pipeline.past.length > 0}
+          canRedo={pipeline.future.length > 0}
+          onPipelineChange={handlePipelineChange}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
           onNext={() => setCurrentScreen("visualization")}
           rows={cleanedRows}
+          chatMessages={chatMessages}
+          onChatMessagesChange={setChatMessages}
         />
       )}
 
@@ -185,11 +674,27 @@ export default function App() {
         <>
           {dataSummary && cleanedRows.length > 0 && (
             <VisualizationScreen
+              key={active?.id}
               statistics={calculateStatistics()}
               onNext={() => setCurrentScreen("summary")}
               rows={cleanedRows}
               dataSummary={dataSummary}
               cleaningIssues={cleaningIssues}
+              userName={currentUser.displayName}
+              userId={currentUser.id}
+              datasetName={active?.name}
+              chartConfig={active?.chartConfig}
+              onChartConfigChange={handleChartConfigChange}
+              chatMessages={chatMessages}
+              onChatMessagesChange={setChatMessages}
+              comments={comments}
+              onCommentsChange={setComments}
+              datasetId={active?.id}
+              statisticalTests={active?.statisticalTests}
+              onStatisticalTestsChange={handleStatisticalTestsChange}
+              experiment={active?.experiment}
+              onExperimentChange={handleExperimentChange}
+              onAddPipelineStep={handleAddPipelineStep}
             />
           )}
 
@@ -222,78 +727,22 @@ export default function App() {
           columnsAffected={dataSummary?.columns ?? 0}
           insightsGenerated={8}
           onExport={handleExport}
-          onStartNew={() => {
-            setCurrentScreen("upload");
-            setSelectedFile(null);
-            setDataSummary(null);
-            setCleaningIssues(null);
-            setRows([]);
-            setCleanedRows([]);
-          }}
+          onStartNew={startNew}
         />
       )}
     </div>
   );
 }
 
-// Helper functions
-function cleanData(rows: DataRow[], type: "auto" | "missing" | "invalid", summary: DataSummary): DataRow[] {
-  let cleaned = [...rows];
-
-  if (type === "auto" || type === "missing") {
-    // Impute missing values
-    cleaned = cleaned.map(row => {
-      const newRow = { ...row };
-      for (const col of summary.columnDetails) {
-        if (newRow[col.name] === null || newRow[col.name] === "" || newRow[col.name] === undefined) {
-          if (col.type === "number") {
-            newRow[col.name] = 0;
-          } else if (col.type === "date") {
-            newRow[col.name] = new Date().toISOString().split("T")[0];
-          } else {
-            newRow[col.name] = "Unknown";
-          }
-        }
-      }
-      return newRow;
-    });
-  }
-
-  if (type === "auto" || type === "invalid") {
-    // Fix invalid types
-    cleaned = cleaned.map(row => {
-      const newRow = { ...row };
-      for (const col of summary.columnDetails) {
-        const val = newRow[col.name];
-        if (col.type === "number" && typeof val !== "number") {
-          newRow[col.name] = Number(val) || 0;
-        } else if (col.type === "date" && typeof val !== "string") {
-          newRow[col.name] = new Date(val as any).toISOString().split("T")[0];
-        }
-      }
-      return newRow;
-    });
-  }
-
-  if (type === "auto") {
-    // Remove duplicates
-    const seen = new Set<string>();
-    cleaned = cleaned.filter(row => {
-      const sig = Object.values(row).join("||");
-      if (seen.has(sig)) return false;
-      seen.add(sig);
-      return true;
-    });
-  }
-
-  return cleaned;
-}
+// Stable fallbacks while no dataset is loaded
+const EMPTY_ROWS: DataRow[] = [];
+const EMPTY_HISTORY: PipelineHistory = createHistory();
 
+// Helper functions
 function calculateCleaningIssues(rows: DataRow[], columnDetails: DataSummary["columnDetails"]): CleaningIssues {
-  const missingValues = columnDetails.filter(col => {
-    const missing = rows.filter(r => r[col.name] === null || r[col.name] === "" || r[col.name] === undefined).length;
-    return missing > 0;
-  });
+  const missingValues = columnDetails
+    .map(col => ({ ...col, missing: rows.filter(r => isEmpty(r[col.name])).length }))
+    .filter(col => col.missing > 0);
 
   const invalidTypes = columnDetails.filter(col => {
     let invalid = 0;
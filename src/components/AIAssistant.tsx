@@ -21,8 +21,18 @@ interface AIAssistantProps {
   cleaningIssues?: CleaningIssues;
   context?: string;
   rows?: DataRow[];
+  initialMessages?: ChatMessage[]; // history kept with the session, read on mount
+  onMessagesChange?: (messages: ChatMessage[]) => void;
 }
 
+const welcomeMessage = (): ChatMessage => ({
+  id: '1',
+  role: 'assistant',
+  content:
+    "Hi! I'm your AI Data Analyst. I can help you understand your data, analyze quality issues, and provide insights. Upload a dataset to get started, or ask me anything!",
+  timestamp: new Date(),
+});
+
 interface MessageFeedback {
   messageId: string;
   rating: 'like' | 'dislike' | 'star';
@@ -36,16 +46,12 @@ export default function AIAssistant({
   cleaningIssues,
   context,
   rows,
+  initialMessages,
+  onMessagesChange,
 }: AIAssistantProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content:
-        "Hi! I'm your AI Data Analyst. I can help you understand your data, analyze quality issues, and provide insights. Upload a dataset to get started, or ask me anything!",
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() =>
+    initialMessages && initialMessages.length > 0 ? initialMessages : [welcomeMessage()]
+  );
 
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -191,24 +197,11 @@ export default function AIAssistant({
     return '';
   };
 
-  // Local storage for conversation memory
+  // Conversation memory is saved with the session
   useEffect(() => {
-    const saved = localStorage.getItem('chat_messages');
-    if (saved && messages.length === 1) {
-      try {
-        const parsed = JSON.parse(saved);
-        setMessages(parsed);
-      } catch (e) {
-        console.log('Could not load saved messages');
-      }
-    }
-  }, []);
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
 
-  useEffect(() => {
-    if (messages.length > 1) {
-      localStorage.setItem('chat_messages', JSON.stringify(messages));
-    }
-  }, [messages]);
   const renderFormattedMessage = (content: string) => {
     const lines = content.split('\n');
     const elements: JSX.Element[] = [];
@@ -975,13 +968,7 @@ Upload a file and ask me anything!`;
             <button
               onClick={() => {
                 if (window.confirm('Clear all chat history?')) {
-                  setMessages([{
-                    id: '1',
-                    role: 'assistant',
-                    content: "Hi! I'm your AI Data Analyst. I can help you understand your data, analyze quality issues, and provide insights. Upload a dataset to get started, or ask me anything!",
-                    timestamp: new Date(),
-                  }]);
-                  localStorage.removeItem('chat_messages');
+                  setMessages([welcomeMessage()]);
                 }
               }}
               className="text-white hover:bg-white/20 p-1.5 rounded transition-colors"
@@ -1,7 +1,5 @@
 import { useState } from 'react';
 import {
-  LineChart,
-  Line,
   BarChart,
   Bar,
   XAxis,
@@ -11,39 +9,55 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import {
-  TrendingUp,
-  TrendingDown,
-  Activity,
   AlertTriangle,
   Download,
   Zap,
   BarChart3,
 } from 'lucide-react';
-import type { DataRow, DataSummary } from '../types';
+import type { ChartConfig, DataRow, DataSummary } from '../types';
 import {
   generateDistribution,
   generateCategoryChart,
   isDateColumn,
   generateColumnStatistics,
-  generateTimeSeries,
 } from '../utils/dataVisualization';
-import { detectAnomaliesZScore, detectTrend } from '../utils/analytics';
+import { detectAnomaliesZScore } from '../utils/analytics';
 import { confidenceInterval, tTest, getSignificanceLabel } from '../utils/statistics';
+import { metricLabel, metricValue } from '../utils/templates';
+import CommentButton from './CommentButton';
+import ForecastPanel from './ForecastPanel';
+import TimeSeriesChart from './TimeSeriesChart';
 
 interface AnalyticsDashboardProps {
   data: DataRow[];
   dataSummary?: DataSummary;
   onExport?: () => void;
+  config?: ChartConfig; // restored settings, read on mount
+  onConfigChange?: (config: ChartConfig) => void;
+  onCommentChart?: (column: string) => void;
+  chartCommentCount?: (column: string) => number;
 }
 
 export default function AnalyticsDashboard({
   data,
   onExport,
+  config,
+  onConfigChange,
+  onCommentChart,
+  chartCommentCount,
 }: AnalyticsDashboardProps) {
-  const [selectedColumn, setSelectedColumn] = useState<string>(
-    Object.keys(data[0] || {})[0] || ''
-  );
-  const [showStatistics, setShowStatistics] = useState(false);
+  const [selectedColumn, setSelectedColumn] = useState<string>(() => {
+    const headers = Object.keys(data[0] || {});
+    return config && headers.includes(config.selectedColumn) ? config.selectedColumn : headers[0] || '';
+  });
+  const [showStatistics, setShowStatistics] = useState(config?.showStatistics ?? false);
+
+  const updateConfig = (patch: Partial<ChartConfig>) => {
+    const next = { ...config, selectedColumn, showStatistics, ...patch };
+    setSelectedColumn(next.selectedColumn);
+    setShowStatistics(next.showStatistics);
+    onConfigChange?.(next);
+  };
 
   if (data.length === 0) {
     return (
@@ -66,20 +80,79 @@ export default function AnalyticsDashboard({
   const stats = isNumeric ? generateColumnStatistics(data, selectedColumn) : null;
   const anomalies = isNumeric ? detectAnomaliesZScore(data, selectedColumn) : [];
 
-  // Trend analysis
-  const timeSeriesData = isDate ? generateTimeSeries(data, selectedColumn) : [];
-  const trend = timeSeriesData.length > 1 ? detectTrend(timeSeriesData.map((d) => d.value)) : null;
+  const pinned = (config?.pinnedColumns ?? []).filter((col) => headers.includes(col));
+  const metrics = config?.metrics ?? [];
 
   return (
     <div className="space-y-6">
+      {/* Template KPIs */}
+      {config?.template && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>
+              Template: <span className="text-gray-200">{config.template.name}</span>
+            </span>
+            <button
+              onClick={() => updateConfig({ pinnedColumns: undefined, metrics: undefined, template: undefined })}
+              className="hover:text-white"
+            >
+              Clear template
+            </button>
+          </div>
+          {metrics.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {metrics.map((spec) => {
+                const value = metricValue(data, spec);
+                return (
+                  <div key={spec} className="bg-indigo-900/30 border border-indigo-500/30 rounded-lg p-4">
+                    <div className="text-sm text-gray-400 truncate" title={metricLabel(spec)}>
+                      {metricLabel(spec)}
+                    </div>
+                    <div className="text-2xl font-bold text-indigo-300">
+                      {typeof value === 'number' ? value.toLocaleString() : (value ?? '—')}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {pinned.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pinned.map((col) => (
+                <button
+                  key={col}
+                  onClick={() => updateConfig({ selectedColumn: col })}
+                  className={`px-3 py-1 rounded-full text-xs border ${
+                    selectedColumn === col
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'bg-gray-700/50 border-gray-600/50 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {col}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Column Selector */}
       <div>
-        <label className="block text-sm font-semibold text-gray-300 mb-2">
-          📊 Select Column to Analyze
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-semibold text-gray-300">
+            📊 Select Column to Analyze
+          </label>
+          {onCommentChart && selectedColumn && (
+            <CommentButton
+              count={chartCommentCount?.(selectedColumn) ?? 0}
+              onClick={() => onCommentChart(selectedColumn)}
+              title={`Comment on the ${selectedColumn} chart`}
+            />
+          )}
+        </div>
         <select
           value={selectedColumn}
-          onChange={(e) => setSelectedColumn(e.target.value)}
+          onChange={(e) => updateConfig({ selectedColumn: e.target.value })}
           className="w-full px-4 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg"
         >
           {headers.map((col) => (
@@ -137,7 +210,7 @@ export default function AnalyticsDashboard({
 
           {/* Statistical Tests Toggle */}
           <button
-            onClick={() => setShowStatistics(!showStatistics)}
+            onClick={() => updateConfig({ showStatistics: !showStatistics })}
             className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600/30 hover:bg-indigo-600/50 border border-indigo-500/30 text-indigo-300 rounded-lg transition-all text-sm font-semibold"
           >
             <BarChart3 className="w-4 h-4" />
@@ -219,39 +292,19 @@ export default function AnalyticsDashboard({
       )}
 
       {/* Time Series */}
-      {isDate && timeSeriesData.length > 1 && (
-        <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-semibold text-white">📈 Time Series Trend</h3>
-            {trend && (
-              <div className="flex items-center gap-2">
-                {trend.trend === 'increasing' ? (
-                  <TrendingUp className="w-5 h-5 text-green-400" />
-                ) : trend.trend === 'decreasing' ? (
-                  <TrendingDown className="w-5 h-5 text-red-400" />
-                ) : (
-                  <Activity className="w-5 h-5 text-yellow-400" />
-                )}
-                <span className="text-sm text-gray-400">
-                  {trend.changePercent > 0 ? '+' : ''}{trend.changePercent}%
-                </span>
-              </div>
-            )}
-          </div>
-          <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={timeSeriesData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey="date" stroke="#9ca3af" />
-              <YAxis stroke="#9ca3af" />
-              <Tooltip
-                contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }}
-              />
-              <Line type="monotone" dataKey="value" stroke="#3b82f6" dot={false} />
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
+      {isDate && (
+        <TimeSeriesChart
+          data={data}
+          dateColumn={selectedColumn}
+          numericColumns={numericColumns}
+          settings={config?.timeSeries}
+          onSettingsChange={(timeSeries) => updateConfig({ timeSeries })}
+        />
       )}
 
+      {/* Forecast */}
+      {isDate && <ForecastPanel key={selectedColumn} data={data} dateColumn={selectedColumn} />}
+
       {/* Anomalies */}
       {isNumeric && anomalies.length > 0 && (
         <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Check, Columns2, Play } from 'lucide-react';
+import type { DataRow } from '../types';
+import type { CleaningStepInput } from '../utils/cleaningPipeline';
+import {
+  confusionAt,
+  guessPositiveLabel,
+  labelValues,
+  suggestFeatureColumns,
+  trainChurnModel,
+  type ChurnReport,
+} from '../utils/churnModel';
+
+interface ChurnModelPanelProps {
+  rows: DataRow[];
+  onAddPipelineStep?: (input: CleaningStepInput) => void;
+}
+
+const TEST_SHARES = [0.2, 0.25, 0.3, 0.4];
+const MAX_COEFFICIENTS = 15;
+const LABEL_HINT = /churn|cancel|attrit|lost|retained|active|status/i;
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+const pct = (val: number | null) => (val === null ? '—' : `${(val * 100).toFixed(1)}%`);
+
+/**
+ * Trains a churn classifier on the current rows: a logistic regression over the chosen
+ * features, evaluated on a held-out split (ROC AUC, confusion matrix, calibration), whose
+ * probabilities can be added to every row as a pipeline column.
+ */
+export default function ChurnModelPanel({ rows, onAddPipelineStep }: ChurnModelPanelProps) {
+  const headers = Object.keys(rows[0] || {});
+  const [labelColumn, setLabelColumn] = useState(
+    () => headers.find((h) => LABEL_HINT.test(h) && labelValues(rows, h).length === 2) ?? headers[0] ?? ''
+  );
+  const [positiveLabel, setPositiveLabel] = useState<string | undefined>();
+  const [features, setFeatures] = useState<string[] | undefined>();
+  const [testShare, setTestShare] = useState(0.25);
+  const [report, setReport] = useState<ChurnReport | null>(null);
+  const [error, setError] = useState('');
+  const [threshold, setThreshold] = useState(0.5);
+  const [newColumn, setNewColumn] = useState('Churn Probability');
+  const [added, setAdded] = useState(false);
+
+  const values = useMemo(() => labelValues(rows, labelColumn), [rows, labelColumn]);
+  const suggestedFeatures = useMemo(() => suggestFeatureColumns(rows, labelColumn), [rows, labelColumn]);
+  const positive = positiveLabel ?? guessPositiveLabel(rows, labelColumn) ?? values[0]?.value ?? '';
+  const selectedFeatures = features ?? suggestedFeatures;
+
+  const confusion = useMemo(() => (report ? confusionAt(report.test, threshold) : null), [report, threshold]);
+
+  const changeLabel = (column: string) => {
+    setLabelColumn(column);
+    setPositiveLabel(undefined);
+    setFeatures(undefined);
+  };
+
+  const toggleFeature = (column: string) => {
+    setFeatures(selectedFeatures.includes(column) ? selectedFeatures.filter((c) => c !== column) : [...selectedFeatures, column]);
+  };
+
+  const handleTrain = () => {
+    const featureColumns = headers.filter((h) => selectedFeatures.includes(h) && h !== labelColumn);
+    // Pin the selection so a score column added later is not picked up as a feature
+    setFeatures(featureColumns);
+    try {
+      setReport(trainChurnModel(rows, { labelColumn, positiveLabel: positive, featureColumns, testShare }));
+      setError('');
+      setAdded(false);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'The model could not be trained');
+    }
+  };
+
+  const columnTaken = headers.includes(newColumn.trim());
+  const handleAddColumn = () => {
+    if (!report || !onAddPipelineStep || !newColumn.trim() || columnTaken) return;
+    onAddPipelineStep({ kind: 'churn_score', model: report.model, column: newColumn.trim() });
+    setAdded(true);
+  };
+
+  const maxWeight = report ? Math.max(...report.coefficients.slice(0, MAX_COEFFICIENTS).map((c) => Math.abs(c.weight)), 1e-9) : 1;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300">Churn model</h3>
+        <p className="text-xs text-gray-400">
+          A logistic regression trained in your browser. Numeric and date columns are standardized and text columns one-hot
+          encoded; part of the labelled rows is held out to measure how well it ranks churners.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Label (churned or not)</span>
+          <select value={labelColumn} onChange={(e) => changeLabel(e.target.value)} className={selectClass}>
+            {headers.map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Value that means churned</span>
+          <select value={positive} onChange={(e) => setPositiveLabel(e.target.value)} className={selectClass}>
+            {values.slice(0, 50).map((v) => (
+              <option key={v.value} value={v.value}>
+                {v.value} ({v.count.toLocaleString()})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Held out for testing</span>
+          <select value={testShare} onChange={(e) => setTestShare(Number(e.target.value))} className={selectClass}>
+            {TEST_SHARES.map((s) => (
+              <option key={s} value={s}>
+                {s * 100}% of labelled rows
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Features</p>
+        <div className="flex flex-wrap gap-2">
+          {headers
+            .filter((h) => h !== labelColumn)
+            .map((h) => (
+              <button
+                key={h}
+                onClick={() => toggleFeature(h)}
+                className={`px-3 py-1 rounded-full text-xs border ${
+                  selectedFeatures.includes(h)
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-gray-700/50 border-gray-600/50 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {h}
+              </button>
+            ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleTrain}
+        disabled={!labelColumn || !positive || selectedFeatures.length === 0}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 text-white rounded-lg text-sm"
+      >
+        <Play className="w-4 h-4" />
+        Train model
+      </button>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {report && confusion && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'ROC AUC', value: report.auc.toFixed(3) },
+              { label: 'Churn rate (train)', value: pct(report.baseRate) },
+              { label: 'Brier score', value: report.brier.toFixed(3) },
+              { label: 'Rows (train / test)', value: `${report.trainRows.toLocaleString()} / ${report.testRows.toLocaleString()}` },
+            ].map((m) => (
+              <div key={m.label} className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-3">
+                <p className="text-xs text-gray-400">{m.label}</p>
+                <p className="text-lg font-semibold text-white">{m.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {(report.warnings.length > 0 || report.skippedRows > 0) && (
+            <div className="space-y-1">
+              {report.skippedRows > 0 && (
+                <p className="text-xs text-gray-500">
+                  {report.skippedRows.toLocaleString()} rows have no {labelColumn} and were not used for training.
+                </p>
+              )}
+              {report.warnings.map((w) => (
+                <div key={w} className="flex items-start gap-2 text-xs text-yellow-300">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {w}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Confusion matrix (test rows)</h4>
+              <label className="flex items-center gap-3 text-xs text-gray-400 mb-3">
+                Flag as churn at
+                <input
+                  type="range"
+                  min={0.05}
+                  max={0.95}
+                  step={0.05}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="text-white w-10 text-right">{threshold.toFixed(2)}</span>
+              </label>
+              <table className="w-full text-xs text-center">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th />
+                    <th className="py-1">Predicted churn</th>
+                    <th className="py-1">Predicted stay</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td className="py-2 text-gray-400 text-left">Churned</td>
+                    <td className="py-2 bg-green-500/20 text-white">{confusion.truePositives.toLocaleString()}</td>
+                    <td className="py-2 bg-red-500/20 text-white">{confusion.falseNegatives.toLocaleString()}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 text-gray-400 text-left">Stayed</td>
+                    <td className="py-2 bg-red-500/20 text-white">{confusion.falsePositives.toLocaleString()}</td>
+                    <td className="py-2 bg-green-500/20 text-white">{confusion.trueNegatives.toLocaleString()}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">
+                Accuracy {pct(confusion.accuracy)} · Precision {pct(confusion.precision)} · Recall {pct(confusion.recall)} · F1{' '}
+                {confusion.f1 === null ? '—' : confusion.f1.toFixed(3)}
+              </p>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">ROC curve</h4>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={report.roc}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis type="number" dataKey="fpr" domain={[0, 1]} stroke="#9ca3af" name="False positive rate" />
+                  <YAxis type="number" domain={[0, 1]} stroke="#9ca3af" />
+                  <Tooltip contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }} />
+                  <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#6b7280" strokeDasharray="4 4" />
+                  <Line type="stepAfter" dataKey="tpr" name="True positive rate" stroke="#3b82f6" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Calibration (predicted vs. observed churn)</h4>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={report.calibration}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis type="number" dataKey="predicted" domain={[0, 1]} stroke="#9ca3af" />
+                  <YAxis type="number" domain={[0, 1]} stroke="#9ca3af" />
+                  <Tooltip contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }} />
+                  <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#6b7280" strokeDasharray="4 4" />
+                  <Line type="linear" dataKey="observed" name="Observed churn rate" stroke="#f59e0b" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Strongest features</h4>
+              <div className="space-y-1">
+                {report.coefficients.slice(0, MAX_COEFFICIENTS).map((c) => (
+                  <div
+                    key={c.feature}
+                    className="grid grid-cols-[10rem_1fr_4rem] items-center gap-2 text-xs"
+                    title={`Odds ratio ${c.oddsRatio.toFixed(2)}`}
+                  >
+                    <span className="text-gray-300 truncate">{c.feature}</span>
+                    <div className="h-3 bg-gray-700/50 rounded">
+                      <div
+                        className={`h-3 rounded ${c.weight > 0 ? 'bg-red-500/70' : 'bg-green-500/70'}`}
+                        style={{ width: `${(Math.abs(c.weight) / maxWeight) * 100}%` }}
+                      />
+                    </div>
+                    <span className="text-right text-gray-300">
+                      {c.weight > 0 ? '+' : ''}
+                      {c.weight.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Log-odds per standard deviation for numbers and dates; red raises the churn risk, green lowers it.
+              </p>
+            </div>
+          </div>
+
+          {onAddPipelineStep && (
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>Probability column name</span>
+                <input
+                  value={newColumn}
+                  onChange={(e) => {
+                    setNewColumn(e.target.value);
+                    setAdded(false);
+                  }}
+                  className={selectClass}
+                />
+              </label>
+              <button
+                onClick={handleAddColumn}
+                disabled={!newColumn.trim() || columnTaken || added}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 text-white rounded-lg text-sm"
+              >
+                {added ? <Check className="w-4 h-4" /> : <Columns2 className="w-4 h-4" />}
+                {added ? 'Added to the cleaning pipeline' : 'Score every row'}
+              </button>
+              {columnTaken && !added && <span className="text-xs text-yellow-300">The dataset already has a column with this name.</span>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
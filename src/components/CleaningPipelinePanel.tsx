@@ -0,0 +1,185 @@
+import { useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Eye, EyeOff, FileDown, FileUp, ListChecks, Redo, Trash2, Undo } from "lucide-react";
+import type { DataColumn } from "../types";
+import {
+  describeStep,
+  exportRecipe,
+  moveStep,
+  parseRecipe,
+  removeStep,
+  toggleStep,
+  type CleaningStep,
+  type StepResult,
+} from "../utils/cleaningPipeline";
+import { downloadFile } from "../utils/exports";
+
+interface CleaningPipelinePanelProps {
+  steps: CleaningStep[];
+  stepResults: StepResult[];
+  columnDetails: DataColumn[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onChange: (steps: CleaningStep[], description: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/**
+ * Ordered list of applied cleaning steps.
+ * Every edit hands a new step list to the parent, which replays it from the raw rows.
+ */
+export default function CleaningPipelinePanel({
+  steps,
+  stepResults,
+  columnDetails,
+  canUndo,
+  canRedo,
+  onChange,
+  onUndo,
+  onRedo,
+}: CleaningPipelinePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [recipeError, setRecipeError] = useState("");
+  const [recipeWarnings, setRecipeWarnings] = useState<string[]>([]);
+
+  const resultFor = (stepId: string) => stepResults.find((r) => r.stepId === stepId);
+
+  const handleExportRecipe = () => {
+    downloadFile(
+      exportRecipe(steps, columnDetails),
+      `cleaning-recipe-${new Date().toISOString().split("T")[0]}.json`,
+      "application/json"
+    );
+  };
+
+  const handleImportRecipe = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setRecipeError("");
+    setRecipeWarnings([]);
+    try {
+      const { steps: imported, warnings } = parseRecipe(await file.text(), columnDetails);
+      setRecipeWarnings(warnings);
+      onChange(imported, `Applied cleaning recipe ${file.name}`);
+    } catch (err) {
+      setRecipeError(err instanceof Error ? err.message : "Could not read recipe");
+    }
+  };
+
+  const iconButton =
+    "p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-600/50 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur border border-gray-700/50 rounded-xl p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <ListChecks className="w-6 h-6 text-blue-400" />
+          <div>
+            <h2 className="text-xl font-semibold text-white">Cleaning Pipeline</h2>
+            <p className="text-sm text-gray-400">Steps are replayed in order on the original upload</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className={iconButton} title="Undo">
+            <Undo className="w-4 h-4" />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={iconButton} title="Redo">
+            <Redo className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 text-sm bg-gray-700 text-gray-100 px-3 py-1.5 rounded-lg border border-gray-600 hover:bg-gray-600 transition-colors"
+          >
+            <FileUp className="w-4 h-4" />
+            Import recipe
+          </button>
+          <button
+            onClick={handleExportRecipe}
+            disabled={steps.length === 0}
+            className="flex items-center gap-1.5 text-sm bg-gray-700 text-gray-100 px-3 py-1.5 rounded-lg border border-gray-600 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileDown className="w-4 h-4" />
+            Export recipe
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportRecipe} className="hidden" />
+        </div>
+      </div>
+
+      {recipeError && (
+        <div className="mb-3 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{recipeError}</div>
+      )}
+      {recipeWarnings.length > 0 && (
+        <div className="mb-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-200 space-y-1">
+          {recipeWarnings.map((w) => (
+            <p key={w}>⚠️ {w}</p>
+          ))}
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <p className="text-sm text-gray-400">No cleaning steps yet. Use the actions below or import a recipe.</p>
+      ) : (
+        <ol className="space-y-2">
+          {steps.map((step, idx) => {
+            const result = resultFor(step.id);
+            return (
+              <li
+                key={step.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border ${
+                  step.enabled ? "bg-gray-700/50 border-gray-600/50" : "bg-gray-800/40 border-gray-700/40 opacity-60"
+                }`}
+              >
+                <span className="w-6 text-sm font-semibold text-gray-400">{idx + 1}.</span>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-medium ${step.enabled ? "text-white" : "text-gray-400 line-through"}`}>
+                    {describeStep(step)}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {result
+                      ? `Rows ${result.rowsBefore.toLocaleString()} → ${result.rowsAfter.toLocaleString()} · ${result.cellsChanged.toLocaleString()} cells changed`
+                      : "Disabled"}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onChange(moveStep(steps, step.id, -1), `Moved "${describeStep(step)}" up`)}
+                  disabled={idx === 0}
+                  className={iconButton}
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onChange(moveStep(steps, step.id, 1), `Moved "${describeStep(step)}" down`)}
+                  disabled={idx === steps.length - 1}
+                  className={iconButton}
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() =>
+                    onChange(toggleStep(steps, step.id), `${step.enabled ? "Disabled" : "Enabled"} "${describeStep(step)}"`)
+                  }
+                  className={iconButton}
+                  title={step.enabled ? "Disable step" : "Enable step"}
+                >
+                  {step.enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onChange(removeStep(steps, step.id), `Removed "${describeStep(step)}"`)}
+                  className={iconButton}
+                  title="Remove step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,40 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { AlertCircle, CheckCircle, Database, Sparkles, Download } from "lucide-react";
-import type { DataSummary, CleaningIssues } from "../types";
+import type { ChatMessage, DataSummary, CleaningIssues } from "../types";
 import AIAssistant from "./AIAssistant";
+import CleaningPipelinePanel from "./CleaningPipelinePanel";
+import { addedColumns, type CleaningStep, type StepResult } from "../utils/cleaningPipeline";
+import { exportToCSV, type CsvSerializeOptions } from "../utils/exports";
+import {
+  applyImputation,
+  createDefaultPlan,
+  strategiesFor,
+  STRATEGY_LABELS,
+  type CleaningPlan,
+  type ColumnImputation,
+  type ImputationStrategy,
+} from "../utils/imputation";
 
 type DataRow = Record<string, string | number | null | undefined>;
 
+// Cells listed in the imputation preview
+const PREVIEW_LIMIT = 20;
+
 interface CleaningScreenProps {
   dataSummary: DataSummary;
   cleaningIssues: CleaningIssues;
-  onClean: (type: "auto" | "missing" | "invalid") => void;
+  onClean: (type: "auto" | "missing" | "invalid", plan: CleaningPlan) => void;
   onNext: () => void;
   rows?: DataRow[];
+  steps: CleaningStep[];
+  stepResults: StepResult[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onPipelineChange: (steps: CleaningStep[], description: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  chatMessages?: ChatMessage[];
+  onChatMessagesChange?: (messages: ChatMessage[]) => void;
 }
 
 export default function CleaningScreen({
@@ -19,6 +43,15 @@ export default function CleaningScreen({
   onClean,
   onNext,
   rows,
+  steps,
+  stepResults,
+  canUndo,
+  canRedo,
+  onPipelineChange,
+  onUndo,
+  onRedo,
+  chatMessages,
+  onChatMessagesChange,
 }: CleaningScreenProps) {
   const [cleaned, setCleaned] = useState(false);
   const [isAssistantOpen, setIsAssistantOpen] = useState(false);
@@ -27,14 +60,45 @@ export default function CleaningScreen({
   const [cleanedIssues, setCleanedIssues] = useState<CleaningIssues>(cleaningIssues);
   const [cleanedRows, setCleanedRows] = useState<number>(dataSummary.rows);
 
+  const [exportDelimiter, setExportDelimiter] = useState<NonNullable<CsvSerializeOptions["delimiter"]>>(",");
+  const [exportLineEnding, setExportLineEnding] = useState<NonNullable<CsvSerializeOptions["lineEnding"]>>("\n");
+  const [plan, setPlan] = useState<CleaningPlan>(() => createDefaultPlan(cleaningIssues.missingValues));
+
   // prevent stacking multiple timeouts
   const bannerTimeoutRef = useRef<number | null>(null);
 
   // keep UI synced if parent sends updated props later
   useEffect(() => {
     setCleanedIssues(cleaningIssues);
+    // Keep choices already made, add defaults for columns that newly have gaps
+    setPlan((prev) => {
+      const defaults = createDefaultPlan(cleaningIssues.missingValues);
+      return { orderBy: prev.orderBy ?? defaults.orderBy, columns: { ...defaults.columns, ...prev.columns } };
+    });
   }, [cleaningIssues]);
 
+  useEffect(() => {
+    if (rows) setCleanedRows(rows.length);
+  }, [rows]);
+
+  const dateColumns = dataSummary.columnDetails.filter((c) => c.type === "date");
+  const groupColumns = dataSummary.columnDetails.filter((c) => c.type === "string");
+
+  // Dry run of the plan so the user sees exactly which cells change before applying
+  const preview = useMemo(
+    () => (rows ? applyImputation(rows, plan, dataSummary.columnDetails) : null),
+    [rows, plan, dataSummary.columnDetails]
+  );
+
+  const updateColumnPlan = (column: string, patch: Partial<ColumnImputation>) => {
+    setPlan((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [column]: { ...(prev.columns[column] ?? { strategy: "none" }), ...patch } },
+    }));
+  };
+
+  const formatCell = (v: DataRow[string]) => (v === null || v === undefined || v === "" ? "—" : String(v));
+
   useEffect(() => {
     setCleanedRows(dataSummary.rows);
   }, [dataSummary.rows]);
@@ -53,65 +117,20 @@ export default function CleaningScreen({
     bannerTimeoutRef.current = window.setTimeout(() => setCleaned(false), 5000);
   };
 
+  // Issues and row counts come back from the parent once the pipeline has been replayed
   const handleClean = (type: "auto" | "missing" | "invalid") => {
-    onClean(type);
-
-    if (type === "auto") {
-      setCleanedIssues({
-        missingValues: [],
-        invalidTypes: [],
-        outliers: [],
-        duplicates: 0,
-      });
-      setCleanedRows(dataSummary.rows - dataSummary.duplicates);
-    } else if (type === "missing") {
-      setCleanedIssues((prev) => ({
-        ...prev,
-        missingValues: [],
-      }));
-    } else if (type === "invalid") {
-      setCleanedIssues((prev) => ({
-        ...prev,
-        invalidTypes: [],
-      }));
-    }
-
+    onClean(type, plan);
     showSuccessBanner();
   };
 
   const handleDownloadCleaned = () => {
-    // Demo CSV (replace with real cleaned data if you have it in state)
-    const csvHeader = "ID,Date,Customer Name,Product,Category,Score,Revenue,Status\n";
-    const csvRows = [
-      "1,2024-01-15,John Doe,Laptop,Electronics,95.2,1299.99,Active",
-      "2,2024-01-16,Jane Smith,Desk Chair,Furniture,87.5,249.99,Active",
-      "3,2024-01-17,Michael Brown,Monitor,Electronics,92.1,459.99,Active",
-      "4,2024-01-18,Sarah Wilson,Standing Desk,Furniture,88.7,799.99,Active",
-      "5,2024-01-19,David Lee,Keyboard,Electronics,91.3,129.99,Active",
-      "6,2024-01-20,Emily Chen,Office Chair,Furniture,89.8,349.99,Active",
-      "7,2024-01-21,James Taylor,Mouse Pad,Electronics,85.2,24.99,Active",
-      "8,2024-01-22,Lisa Anderson,Bookshelf,Furniture,90.5,199.99,Active",
-      "9,2024-01-23,Robert Garcia,Webcam,Electronics,93.4,89.99,Active",
-      "10,2024-01-24,Maria Martinez,Lamp,Furniture,86.9,59.99,Active",
-      `# Total: ${cleanedRows} rows`,
-      `# Duplicates removed: ${dataSummary.duplicates}`,
-      "# Missing values imputed: Mean for numeric, Mode for categorical",
-      "# Invalid dates corrected to ISO format (YYYY-MM-DD)",
-      "# Invalid numbers replaced with column median",
-      "# Outliers retained (can be filtered if needed)",
-      "# All data types validated and standardized",
-    ];
-
-    const csvContent = csvHeader + csvRows.join("\n");
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `cleaned-data-${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-
-    URL.revokeObjectURL(url);
+    if (!rows || rows.length === 0) return;
+    exportToCSV(rows, `cleaned-data-${new Date().toISOString().split("T")[0]}.csv`, {
+      // Same columns as the main export, including those added by RFM and churn steps
+      columns: [...dataSummary.columnDetails.map((c) => c.name), ...addedColumns(steps)],
+      delimiter: exportDelimiter,
+      lineEnding: exportLineEnding,
+    });
   };
 
   return (
@@ -184,20 +203,122 @@ export default function CleaningScreen({
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    {cleanedIssues.missingValues.map((col) => (
-                      <div
-                        key={col.name}
-                        className="flex items-center justify-between p-3 bg-gray-700/50 rounded-lg border border-gray-600/50"
-                      >
-                        <div>
-                          <p className="font-medium text-white">{col.name}</p>
-                          <p className="text-sm text-gray-400">Type: {col.type}</p>
+                    {dateColumns.length > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-gray-400 mb-2">
+                        <span>Order rows by</span>
+                        <select
+                          value={plan.orderBy ?? ""}
+                          onChange={(e) => setPlan((prev) => ({ ...prev, orderBy: e.target.value || undefined }))}
+                          className="px-2 py-1 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+                        >
+                          <option value="">File order</option>
+                          {dateColumns.map((c) => (
+                            <option key={c.name} value={c.name}>
+                              {c.name}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="text-xs text-gray-500">used by fills and interpolation</span>
+                      </div>
+                    )}
+
+                    {cleanedIssues.missingValues.map((col) => {
+                      const config = plan.columns[col.name] ?? { strategy: "none" as ImputationStrategy };
+                      return (
+                        <div
+                          key={col.name}
+                          className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-700/50 rounded-lg border border-gray-600/50"
+                        >
+                          <div>
+                            <p className="font-medium text-white">{col.name}</p>
+                            <p className="text-sm text-gray-400">Type: {col.type}</p>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              value={config.strategy}
+                              onChange={(e) =>
+                                updateColumnPlan(col.name, { strategy: e.target.value as ImputationStrategy })
+                              }
+                              className="px-2 py-1 bg-gray-800 border border-gray-600 text-white rounded-lg text-sm"
+                            >
+                              {strategiesFor(col.type).map((strategy) => (
+                                <option key={strategy} value={strategy}>
+                                  {STRATEGY_LABELS[strategy]}
+                                </option>
+                              ))}
+                            </select>
+                            {config.strategy === "constant" && (
+                              <input
+                                type={col.type === "number" ? "number" : col.type === "date" ? "date" : "text"}
+                                value={config.constant ?? ""}
+                                onChange={(e) => updateColumnPlan(col.name, { constant: e.target.value })}
+                                placeholder="Value"
+                                className="w-32 px-2 py-1 bg-gray-800 border border-gray-600 text-white rounded-lg text-sm"
+                              />
+                            )}
+                            {config.strategy === "group_median" && (
+                              <select
+                                value={config.groupBy ?? ""}
+                                onChange={(e) => updateColumnPlan(col.name, { groupBy: e.target.value || undefined })}
+                                className="px-2 py-1 bg-gray-800 border border-gray-600 text-white rounded-lg text-sm"
+                              >
+                                <option value="">Group by...</option>
+                                {groupColumns.map((c) => (
+                                  <option key={c.name} value={c.name}>
+                                    {c.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            <span className="px-3 py-1 bg-red-500/20 text-red-300 text-sm font-semibold rounded-full border border-red-500/30">
+                              {col.missing} missing
+                            </span>
+                          </div>
                         </div>
-                        <span className="px-3 py-1 bg-red-500/20 text-red-300 text-sm font-semibold rounded-full border border-red-500/30">
-                          {col.missing} missing
-                        </span>
+                      );
+                    })}
+
+                    {preview && (
+                      <div className="mt-3 p-3 bg-gray-900/40 rounded-lg border border-gray-700/50">
+                        <p className="text-sm text-gray-300 mb-2">
+                          Preview: <span className="font-semibold text-white">{preview.changes.length}</span> cells filled
+                          {preview.droppedRows.length > 0 && (
+                            <>
+                              , <span className="font-semibold text-white">{preview.droppedRows.length}</span> rows dropped
+                            </>
+                          )}
+                        </p>
+                        {preview.changes.length > 0 && (
+                          <div className="max-h-64 overflow-y-auto">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-gray-400 border-b border-gray-700/50">
+                                  <th className="py-1 pr-3 font-medium">Row</th>
+                                  <th className="py-1 pr-3 font-medium">Column</th>
+                                  <th className="py-1 pr-3 font-medium">Before</th>
+                                  <th className="py-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {preview.changes.slice(0, PREVIEW_LIMIT).map((change) => (
+                                  <tr key={`${change.rowIndex}-${change.column}`} className="border-b border-gray-800/60">
+                                    <td className="py-1 pr-3 text-gray-400">{change.rowIndex + 1}</td>
+                                    <td className="py-1 pr-3 text-gray-300">{change.column}</td>
+                                    <td className="py-1 pr-3 text-red-300">{formatCell(change.before)}</td>
+                                    <td className="py-1 text-green-300">{formatCell(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {preview.changes.length > PREVIEW_LIMIT && (
+                              <p className="text-xs text-gray-500 mt-2">
+                                Showing first {PREVIEW_LIMIT} of {preview.changes.length} changes
+                              </p>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    ))}
+                    )}
                   </div>
                 )}
               </div>
@@ -232,6 +353,36 @@ export default function CleaningScreen({
                 )}
               </div>
 
+              {cleanedIssues.structural && cleanedIssues.structural.total > 0 && (
+                <div>
+                  <h3 className="font-semibold text-white mb-3 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-yellow-500 rounded-full"></span>
+                    Structural Issues
+                  </h3>
+                  <div className="p-3 bg-gray-700/50 rounded-lg border border-gray-600/50">
+                    <p className="text-white mb-2">
+                      <span className="font-semibold">{cleanedIssues.structural.total}</span> rows don't match the header
+                      layout. Missing fields were left empty and extra fields were dropped.
+                    </p>
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                      {cleanedIssues.structural.rows.map((issue) => (
+                        <p key={`${issue.row}-${issue.kind}`} className="text-sm text-gray-400">
+                          Row {issue.row}:{" "}
+                          {issue.kind === "unterminated_quote"
+                            ? "quoted field is never closed"
+                            : `expected ${issue.expected} fields, found ${issue.found}`}
+                        </p>
+                      ))}
+                    </div>
+                    {cleanedIssues.structural.total > cleanedIssues.structural.rows.length && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Showing first {cleanedIssues.structural.rows.length} of {cleanedIssues.structural.total}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <h3 className="font-semibold text-white mb-3 flex items-center gap-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
@@ -253,6 +404,17 @@ export default function CleaningScreen({
             </div>
           </div>
 
+          <CleaningPipelinePanel
+            steps={steps}
+            stepResults={stepResults}
+            columnDetails={dataSummary.columnDetails}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onChange={onPipelineChange}
+            onUndo={onUndo}
+            onRedo={onRedo}
+          />
+
           <div className="bg-gray-800/50 backdrop-blur border border-gray-700/50 rounded-xl p-6 mb-6">
             <div className="flex items-start justify-between mb-4">
               <div>
@@ -286,19 +448,43 @@ export default function CleaningScreen({
                 Fix Invalid Rows
               </button>
 
-              <button
-                onClick={handleDownloadCleaned}
-                className="flex items-center gap-2 bg-green-600 text-white font-medium px-6 py-3 rounded-lg hover:bg-green-700 transition-colors shadow-lg ml-auto"
-              >
-                <Download className="w-5 h-5" />
-                Download Data
-              </button>
+              <div className="flex items-center gap-2 ml-auto">
+                <select
+                  value={exportDelimiter}
+                  onChange={(e) => setExportDelimiter(e.target.value as typeof exportDelimiter)}
+                  title="Delimiter"
+                  className="px-2 py-3 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+                >
+                  <option value=",">Comma</option>
+                  <option value=";">Semicolon</option>
+                  <option value={"\t"}>Tab</option>
+                  <option value="|">Pipe</option>
+                </select>
+                <select
+                  value={exportLineEnding}
+                  onChange={(e) => setExportLineEnding(e.target.value as typeof exportLineEnding)}
+                  title="Line ending"
+                  className="px-2 py-3 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+                >
+                  <option value={"\n"}>LF (Unix/macOS)</option>
+                  <option value={"\r\n"}>CRLF (Windows)</option>
+                </select>
+                <button
+                  onClick={handleDownloadCleaned}
+                  disabled={!rows || rows.length === 0}
+                  className="flex items-center gap-2 bg-green-600 text-white font-medium px-6 py-3 rounded-lg hover:bg-green-700 transition-colors shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-5 h-5" />
+                  Download Data
+                </button>
+              </div>
             </div>
 
             <div className="mt-4 p-3 bg-blue-500/20 rounded-lg border border-blue-500/30">
               <p className="text-sm text-gray-300">
-                <span className="font-semibold text-blue-300">Cleaning methodology:</span> Missing values are imputed using mean
-                (numeric) or mode (categorical). Invalid types are corrected to match expected format. Only duplicate rows are removed.
+                <span className="font-semibold text-blue-300">Cleaning methodology:</span> Missing values follow the plan above
+                (median for numbers and most frequent value for text by default). Unparseable numbers are treated as missing. Only
+                duplicate rows and rows you chose to drop are removed.
               </p>
             </div>
           </div>
@@ -320,6 +506,8 @@ export default function CleaningScreen({
         dataSummary={dataSummary}
         cleaningIssues={cleanedIssues}
         rows={rows}
+        initialMessages={chatMessages}
+        onMessagesChange={onChatMessagesChange}
       />
     </div>
   );
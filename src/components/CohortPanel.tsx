@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import type { DataRow } from '../types';
+import { buildCohorts, COHORT_BUCKETS, suggestCohortColumns, type CohortBucket, type CohortRow } from '../utils/cohorts';
+import { TIME_BUCKET_LABELS } from '../utils/resample';
+
+interface CohortPanelProps {
+  rows: DataRow[];
+}
+
+type CohortView = 'retention' | 'active' | 'revenue' | 'revenuePerMember' | 'ltv';
+
+const VIEW_LABELS: Record<CohortView, string> = {
+  retention: 'Retention %',
+  active: 'Active customers',
+  revenue: 'Revenue',
+  revenuePerMember: 'Revenue per customer',
+  ltv: 'Cumulative revenue per customer (LTV)',
+};
+
+const PERIOD_COUNTS = [6, 12, 24, 36];
+const MAX_LTV_LINES = 8;
+const LINE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+function formatCell(view: CohortView, value: number): string {
+  if (view === 'retention') return `${(value * 100).toFixed(1)}%`;
+  if (view === 'active') return value.toLocaleString();
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Retention cohorts from an orders export: customers grouped by the period of their
+ * first order, shown as a heatmap over the periods since, with LTV curves per cohort.
+ */
+export default function CohortPanel({ rows }: CohortPanelProps) {
+  const suggested = useMemo(() => suggestCohortColumns(rows), [rows]);
+  const headers = Object.keys(rows[0] || {});
+  const [entityColumn, setEntityColumn] = useState<string | undefined>();
+  const [dateColumn, setDateColumn] = useState<string | undefined>();
+  const [valueColumn, setValueColumn] = useState<string | null | undefined>(); // null: chosen "none"
+  const [bucket, setBucket] = useState<CohortBucket>('month');
+  const [periods, setPeriods] = useState(12);
+  const [view, setView] = useState<CohortView>('retention');
+
+  const entity = entityColumn ?? suggested.entityColumn ?? headers[0] ?? '';
+  const date = dateColumn ?? suggested.dateColumn ?? '';
+  const value = valueColumn === null ? undefined : (valueColumn ?? suggested.valueColumn);
+
+  const { matrix, error } = useMemo(() => {
+    if (!entity || !date) return { matrix: null, error: '' };
+    try {
+      return { matrix: buildCohorts(rows, { entityColumn: entity, dateColumn: date, valueColumn: value, bucket, periods }), error: '' };
+    } catch (err) {
+      return { matrix: null, error: err instanceof Error ? err.message : 'The cohorts could not be built' };
+    }
+  }, [rows, entity, date, value, bucket, periods]);
+
+  const activeView = !value && view !== 'retention' && view !== 'active' ? 'retention' : view;
+  const pick = (c: CohortRow) => c[activeView];
+
+  // Colour scale per view; period 0 is left out of retention since it is always 100%
+  const scaleMax = useMemo(() => {
+    if (!matrix) return 1;
+    const values = matrix.cohorts.flatMap((c) =>
+      c[activeView].filter((v, k): v is number => v !== null && (activeView !== 'retention' || k > 0))
+    );
+    return Math.max(...values.map(Math.abs), 0) || 1;
+  }, [matrix, activeView]);
+
+  const ltvData = useMemo(() => {
+    if (!matrix || !value) return [];
+    const recent = matrix.cohorts.slice(-MAX_LTV_LINES);
+    return Array.from({ length: matrix.periods + 1 }, (_, k) => {
+      const point: Record<string, number | null> = { period: k, Average: matrix.average.ltv[k] };
+      recent.forEach((c) => (point[c.cohort] = c.ltv[k]));
+      return point;
+    });
+  }, [matrix, value]);
+
+  const bucketName = TIME_BUCKET_LABELS[bucket].toLowerCase();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300">Retention cohorts</h3>
+        <p className="text-xs text-gray-400">
+          Each customer joins the cohort of their first order; the table follows each cohort {bucketName} by {bucketName}.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-5 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Customer</span>
+          <select value={entity} onChange={(e) => setEntityColumn(e.target.value)} className={selectClass}>
+            {headers.map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Order date</span>
+          <select value={date} onChange={(e) => setDateColumn(e.target.value)} className={selectClass}>
+            {!date && <option value="">Pick a column</option>}
+            {headers.map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Revenue</span>
+          <select value={value ?? ''} onChange={(e) => setValueColumn(e.target.value || null)} className={selectClass}>
+            <option value="">None</option>
+            {headers.map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Cohort by</span>
+          <select value={bucket} onChange={(e) => setBucket(e.target.value as CohortBucket)} className={selectClass}>
+            {COHORT_BUCKETS.map((b) => (
+              <option key={b} value={b}>
+                {TIME_BUCKET_LABELS[b]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Periods</span>
+          <select value={periods} onChange={(e) => setPeriods(Number(e.target.value))} className={selectClass}>
+            {PERIOD_COUNTS.map((p) => (
+              <option key={p} value={p}>
+                {p} {bucketName}s
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {matrix && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(VIEW_LABELS) as CohortView[])
+              .filter((v) => value || v === 'retention' || v === 'active')
+              .map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`px-3 py-1 rounded-full text-xs border ${
+                    activeView === v
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'bg-gray-700/50 border-gray-600/50 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {VIEW_LABELS[v]}
+                </button>
+              ))}
+            <span className="text-xs text-gray-500 ml-auto">
+              {matrix.entities.toLocaleString()} customers · {matrix.usedRows.toLocaleString()} rows
+              {matrix.skippedRows > 0 && ` · ${matrix.skippedRows.toLocaleString()} skipped (no customer or date)`}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="px-2 py-1 text-left sticky left-0 bg-gray-800">Cohort</th>
+                  <th className="px-2 py-1 text-right">Customers</th>
+                  {Array.from({ length: matrix.periods + 1 }, (_, k) => (
+                    <th key={k} className="px-2 py-1 text-right whitespace-nowrap">
+                      {bucketName} {k}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.cohorts.map((c) => (
+                  <tr key={c.cohort}>
+                    <td className="px-2 py-1 text-gray-300 whitespace-nowrap sticky left-0 bg-gray-800">{c.cohort}</td>
+                    <td className="px-2 py-1 text-right text-gray-300">{c.size.toLocaleString()}</td>
+                    {pick(c).map((v, k) => (
+                      <td
+                        key={k}
+                        className="px-2 py-1 text-right text-white whitespace-nowrap"
+                        style={
+                          v === null
+                            ? undefined
+                            : { backgroundColor: `rgba(59, 130, 246, ${(0.08 + 0.82 * Math.min(1, Math.abs(v) / scaleMax)).toFixed(2)})` }
+                        }
+                      >
+                        {v === null ? '' : formatCell(activeView, v)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {(activeView === 'retention' || activeView === 'ltv') && (
+                  <tr className="border-t border-gray-600">
+                    <td className="px-2 py-1 text-gray-300 font-semibold sticky left-0 bg-gray-800">Average</td>
+                    <td className="px-2 py-1 text-right text-gray-300">{matrix.entities.toLocaleString()}</td>
+                    {matrix.average[activeView].map((v, k) => (
+                      <td key={k} className="px-2 py-1 text-right text-gray-200 font-semibold">
+                        {v === null ? '' : formatCell(activeView, v)}
+                      </td>
+                    ))}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {matrix.lastPeriodPartial && (
+            <div className="flex items-start gap-2 text-xs text-yellow-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              The data ends part-way through the latest {bucketName}, so the last cell of each cohort is incomplete.
+            </div>
+          )}
+
+          {ltvData.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">LTV curves (cumulative revenue per customer)</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={ltvData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="period" stroke="#9ca3af" />
+                  <YAxis stroke="#9ca3af" />
+                  <Tooltip contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }} />
+                  <Legend />
+                  {matrix.cohorts.slice(-MAX_LTV_LINES).map((c, i) => (
+                    <Line
+                      key={c.cohort}
+                      type="monotone"
+                      dataKey={c.cohort}
+                      stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                      strokeOpacity={0.6}
+                      dot={false}
+                    />
+                  ))}
+                  <Line type="monotone" dataKey="Average" stroke="#ffffff" strokeWidth={3} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { MessageSquare } from 'lucide-react';
+
+interface CommentButtonProps {
+  count: number; // open threads on the target
+  onClick: () => void;
+  title?: string;
+}
+
+export default function CommentButton({ count, onClick, title = 'Comments' }: CommentButtonProps) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      title={title}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs transition-colors ${
+        count > 0 ? 'text-blue-300 bg-blue-500/20 hover:bg-blue-500/30' : 'text-gray-500 hover:text-gray-200 hover:bg-gray-700/50'
+      }`}
+    >
+      <MessageSquare className="w-3.5 h-3.5" />
+      {count > 0 && count}
+    </button>
+  );
+}
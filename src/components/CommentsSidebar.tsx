@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { AtSign, CheckCircle, MessageSquare, RotateCcw, Search, Send, Trash2, X } from 'lucide-react';
+import type { Comment } from '../types';
+import {
+  ANALYSIS_TARGET,
+  COMMENT_KIND_LABELS,
+  buildThreads,
+  createComment,
+  deleteComment,
+  filterThreads,
+  mentionHandle,
+  setThreadResolved,
+  splitMentions,
+  targetKey,
+  type CommentFilter,
+  type CommentKind,
+  type CommentTarget,
+  type CommentThread,
+  type MentionableUser,
+} from '../utils/comments';
+
+interface CommentsSidebarProps {
+  comments: Comment[];
+  onChange: (comments: Comment[]) => void;
+  users: MentionableUser[];
+  currentUser: { id: string; name: string };
+  datasetId?: string;
+  focus: CommentTarget | null; // new threads attach here; null means the whole analysis
+  onFocusChange: (target: CommentTarget | null) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-900/60 text-white text-sm rounded-lg border border-gray-600 focus:outline-none focus:border-blue-500';
+
+// Textarea that suggests @handles while the word under the cursor starts with @
+function MentionInput({
+  value,
+  onChange,
+  onSubmit,
+  users,
+  placeholder,
+}: {
+  value: string;
+  onChange: (text: string) => void;
+  onSubmit: () => void;
+  users: MentionableUser[];
+  placeholder: string;
+}) {
+  const partial = /(?:^|\s)@([\w.-]*)$/.exec(value)?.[1];
+  const suggestions =
+    partial === undefined
+      ? []
+      : users.filter((u) => u.handle.startsWith(partial.toLowerCase())).slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSubmit();
+          }
+        }}
+        rows={2}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((u) => (
+            <button
+              key={u.handle}
+              onClick={() => onChange(value.replace(/@[\w.-]*$/, `@${u.handle} `))}
+              className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-200 text-xs rounded hover:bg-blue-500/30"
+            >
+              <AtSign className="w-3 h-3" />
+              {u.handle}
+              <span className="text-blue-300/60">{u.displayName}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommentBody({ comment }: { comment: Comment }) {
+  return (
+    <p className="text-sm text-gray-200 whitespace-pre-wrap break-words">
+      {splitMentions(comment.text, comment.mentions).map((part, i) =>
+        part.mention ? (
+          <span key={i} className="text-blue-300 font-medium">
+            {part.text}
+          </span>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * Comment threads for the analysis, filterable by target type, status, mentions and text.
+ * Opening it from a row, chart or insight narrows the list to that target.
+ */
+export default function CommentsSidebar({
+  comments,
+  onChange,
+  users,
+  currentUser,
+  datasetId,
+  focus,
+  onFocusChange,
+  onClose,
+}: CommentsSidebarProps) {
+  const [filter, setFilter] = useState<CommentFilter>({ kind: 'all', status: 'open', search: '' });
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const myHandle = mentionHandle({ displayName: currentUser.name });
+  const myHandles = users.filter((u) => u.id === currentUser.id).map((u) => u.handle);
+  const mentionsMe = filter.mentioning !== undefined;
+
+  const threads = useMemo(() => {
+    const all = filterThreads(buildThreads(comments), { ...filter, datasetId });
+    return focus ? all.filter((t) => targetKey(t.root) === targetKey(focus)) : all;
+  }, [comments, filter, datasetId, focus]);
+
+  const target = focus ?? ANALYSIS_TARGET;
+
+  const post = (text: string, parent?: Comment): boolean => {
+    setError('');
+    try {
+      const comment = createComment({ author: currentUser.name, authorId: currentUser.id, text, target, parent }, users);
+      onChange([...comments, comment]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not post the comment');
+      return false;
+    }
+  };
+
+  const renderComment = (c: Comment, thread: CommentThread) => (
+    <div key={c.id} className={c.parentId ? 'pl-3 border-l-2 border-gray-700' : ''}>
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span className="font-medium text-gray-200">{c.author}</span>
+        <span>{c.timestamp.toLocaleString()}</span>
+        <span className="flex-1" />
+        {c.authorId === currentUser.id && (
+          <button
+            onClick={() =>
+              (c.parentId || thread.replies.length === 0 || window.confirm('Delete this thread and its replies?')) &&
+              onChange(deleteComment(comments, c.id))
+            }
+            className="p-0.5 text-gray-500 hover:text-red-300"
+            title={c.parentId ? 'Delete reply' : 'Delete thread'}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <CommentBody comment={c} />
+    </div>
+  );
+
+  return (
+    <div className="fixed top-0 right-0 z-40 h-full w-full max-w-md bg-gray-900 border-l border-gray-700 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-gray-700">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <MessageSquare className="w-5 h-5 text-blue-400" />
+          Comments
+        </h2>
+        <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-gray-700">
+        <div className="flex gap-2">
+          <select
+            value={filter.kind}
+            onChange={(e) => setFilter({ ...filter, kind: e.target.value as CommentKind | 'all' })}
+            className="flex-1 px-2 py-1.5 bg-gray-800 text-gray-200 text-sm rounded border border-gray-600/50"
+          >
+            <option value="all">All types</option>
+            {(Object.keys(COMMENT_KIND_LABELS) as CommentKind[]).map((k) => (
+              <option key={k} value={k}>
+                {COMMENT_KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filter.status}
+            onChange={(e) => setFilter({ ...filter, status: e.target.value as CommentFilter['status'] })}
+            className="flex-1 px-2 py-1.5 bg-gray-800 text-gray-200 text-sm rounded border border-gray-600/50"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+          <button
+            onClick={() => setFilter({ ...filter, mentioning: mentionsMe ? undefined : (myHandles[0] ?? myHandle) })}
+            className={`flex items-center gap-1 px-2 py-1.5 rounded text-sm border ${
+              mentionsMe ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-600/50 text-gray-300'
+            }`}
+            title="Only threads that mention me"
+          >
+            <AtSign className="w-4 h-4" />
+            Me
+          </button>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-gray-500" />
+          <input
+            value={filter.search}
+            onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+            placeholder="Search comments"
+            className={`${inputClass} pl-8`}
+          />
+        </div>
+        {focus && (
+          <div className="flex items-center gap-2 px-2 py-1 bg-blue-500/10 border border-blue-500/30 rounded text-xs text-blue-200">
+            <span className="flex-1 truncate">
+              {COMMENT_KIND_LABELS[focus.attachedTo]}: {focus.targetLabel}
+            </span>
+            <button onClick={() => onFocusChange(null)} className="hover:text-white">
+              Show all
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {threads.length === 0 && <p className="text-sm text-gray-500">No comments here yet.</p>}
+        {threads.map((thread) => {
+          const { root } = thread;
+          const reply = replyDrafts[root.id] ?? '';
+          return (
+            <div
+              key={root.id}
+              className={`p-3 rounded-lg border space-y-2 ${
+                root.resolved ? 'bg-gray-800/40 border-gray-700/50 opacity-75' : 'bg-gray-800 border-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="px-1.5 py-0.5 bg-gray-700 text-gray-300 text-[10px] uppercase rounded">
+                  {COMMENT_KIND_LABELS[root.attachedTo]}
+                </span>
+                <button
+                  onClick={() => onFocusChange(root)}
+                  className="flex-1 text-left text-xs text-gray-400 truncate hover:text-gray-200"
+                  title={root.targetLabel}
+                >
+                  {root.targetLabel}
+                </button>
+                <button
+                  onClick={() => onChange(setThreadResolved(comments, root.id, !root.resolved, currentUser.name))}
+                  className={`flex items-center gap-1 text-xs ${root.resolved ? 'text-gray-400 hover:text-white' : 'text-green-300 hover:text-green-200'}`}
+                >
+                  {root.resolved ? <RotateCcw className="w-3.5 h-3.5" /> : <CheckCircle className="w-3.5 h-3.5" />}
+                  {root.resolved ? 'Reopen' : 'Resolve'}
+                </button>
+              </div>
+              {root.resolved && root.resolvedBy && <p className="text-xs text-gray-500">Resolved by {root.resolvedBy}</p>}
+              {renderComment(root, thread)}
+              {thread.replies.map((c) => renderComment(c, thread))}
+              <div className="flex gap-2 items-start">
+                <div className="flex-1">
+                  <MentionInput
+                    value={reply}
+                    onChange={(text) => setReplyDrafts({ ...replyDrafts, [root.id]: text })}
+                    onSubmit={() => post(reply, root) && setReplyDrafts({ ...replyDrafts, [root.id]: '' })}
+                    users={users}
+                    placeholder="Reply…"
+                  />
+                </div>
+                <button
+                  onClick={() => post(reply, root) && setReplyDrafts({ ...replyDrafts, [root.id]: '' })}
+                  disabled={!reply.trim()}
+                  className="p-2 text-blue-300 hover:text-blue-200 disabled:opacity-40"
+                  title="Reply"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 border-t border-gray-700 space-y-2">
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        <p className="text-xs text-gray-400 truncate">
+          New thread on {COMMENT_KIND_LABELS[target.attachedTo].toLowerCase()}: {target.targetLabel}
+        </p>
+        <MentionInput
+          value={draft}
+          onChange={setDraft}
+          onSubmit={() => post(draft) && setDraft('')}
+          users={users}
+          placeholder="Add a comment. Use @ to mention someone, Ctrl+Enter to post."
+        />
+        <button
+          onClick={() => post(draft) && setDraft('')}
+          disabled={!draft.trim()}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg disabled:opacity-50"
+        >
+          <Send className="w-4 h-4" /> Comment
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,22 @@
 import { useState } from 'react';
 import { ChevronUp, ChevronDown, Download, Filter } from 'lucide-react';
 import type { DataRow } from '../types';
+import CommentButton from './CommentButton';
 
 interface DataPreviewProps {
   data: DataRow[];
   onExport?: () => void;
   maxRows?: number;
+  // Row indexes are positions in `data`, unaffected by filtering and sorting
+  onCommentRow?: (row: DataRow, index: number) => void;
+  rowCommentCount?: (index: number) => number;
 }
 
 export default function DataPreview({
   data,
   onExport,
+  onCommentRow,
+  rowCommentCount,
 }: DataPreviewProps) {
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
@@ -29,15 +35,17 @@ export default function DataPreview({
   const itemsPerPage = 10;
 
   // Filter data
-  let filteredData = data.filter((row) =>
-    Object.values(row).some((val) =>
-      String(val).toLowerCase().includes(filterText.toLowerCase())
-    )
-  );
+  let filteredData = data
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) =>
+      Object.values(row).some((val) =>
+        String(val).toLowerCase().includes(filterText.toLowerCase())
+      )
+    );
 
   // Sort data
   if (sortColumn) {
-    filteredData = [...filteredData].sort((a, b) => {
+    filteredData = [...filteredData].sort(({ row: a }, { row: b }) => {
       const aVal = a[sortColumn];
       const bVal = b[sortColumn];
 
@@ -119,17 +127,18 @@ export default function DataPreview({
                   </div>
                 </th>
               ))}
+              {onCommentRow && <th className="w-12" />}
             </tr>
           </thead>
           <tbody>
-            {displayData.map((row, idx) => (
+            {displayData.map(({ row, index }) => (
               <tr
-                key={idx}
+                key={index}
                 className="border-b border-gray-700 hover:bg-gray-800/30"
               >
                 {headers.map((header) => (
                   <td
-                    key={`${idx}-${header}`}
+                    key={`${index}-${header}`}
                     className="px-4 py-3 text-gray-300 truncate max-w-xs"
                     title={String(row[header])}
                   >
@@ -138,6 +147,15 @@ export default function DataPreview({
                       : String(row[header])}
                   </td>
                 ))}
+                {onCommentRow && (
+                  <td className="px-2 py-3 text-right">
+                    <CommentButton
+                      count={rowCommentCount?.(index) ?? 0}
+                      onClick={() => onCommentRow(row, index)}
+                      title={`Comment on row ${index + 1}`}
+                    />
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -0,0 +1,312 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Play, TestTubes } from 'lucide-react';
+import type { DataRow, ExperimentConfig } from '../types';
+import {
+  DEFAULT_EXPERIMENT_SETTINGS,
+  analyzeExperiment,
+  experimentVariants,
+  isBinaryMetric,
+  type MetricComparison,
+} from '../utils/experiments';
+import { categoricalColumns, numericColumns } from '../utils/statisticalWorkbench';
+
+interface ExperimentPanelProps {
+  rows: DataRow[];
+  config?: ExperimentConfig;
+  onConfigChange: (config: ExperimentConfig) => void;
+}
+
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+const percent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+function formatValue(c: MetricComparison, value: number): string {
+  return c.kind === 'binary' ? `${(value * 100).toFixed(2)}%` : String(value);
+}
+
+/**
+ * Set up an A/B test from a variant column and metric columns, then read the report:
+ * sample-ratio check, per-variant lift with intervals and (optionally) always-valid p-values.
+ * The saved setup travels with the dataset and is included in the exported report.
+ */
+export default function ExperimentPanel({ rows, config, onConfigChange }: ExperimentPanelProps) {
+  const [draft, setDraft] = useState<Partial<ExperimentConfig>>(() => config ?? { ...DEFAULT_EXPERIMENT_SETTINGS });
+
+  const categorical = useMemo(() => categoricalColumns(rows), [rows]);
+  const numeric = useMemo(() => numericColumns(rows), [rows]);
+
+  const variantColumn = draft.variantColumn && categorical.includes(draft.variantColumn) ? draft.variantColumn : (categorical[0] ?? '');
+  const variants = useMemo(() => (variantColumn ? experimentVariants(rows, variantColumn) : []), [rows, variantColumn]);
+  const labels = variants.map((v) => v.variant);
+  const control =
+    draft.control && labels.includes(draft.control)
+      ? draft.control
+      : (labels.find((l) => /control|baseline|^a$/i.test(l)) ?? labels[0] ?? '');
+  const binaryColumns = useMemo(() => Object.keys(rows[0] || {}).filter((c) => isBinaryMetric(rows, c)), [rows]);
+  const metricOptions = Object.keys(rows[0] || {}).filter(
+    (c) => c !== variantColumn && (numeric.includes(c) || binaryColumns.includes(c))
+  );
+  const metrics = (draft.metrics ?? []).filter((m) => metricOptions.includes(m));
+  const preMetric = draft.preMetric && numeric.includes(draft.preMetric) ? draft.preMetric : undefined;
+
+  const { report, error } = useMemo(() => {
+    if (!config) return { report: null, error: '' };
+    try {
+      return { report: analyzeExperiment(rows, config), error: '' };
+    } catch (err) {
+      return { report: null, error: err instanceof Error ? err.message : 'The experiment could not be analyzed' };
+    }
+  }, [rows, config]);
+
+  const update = (changes: Partial<ExperimentConfig>) => setDraft({ ...draft, ...changes });
+
+  const handleAnalyze = () =>
+    onConfigChange({
+      ...DEFAULT_EXPERIMENT_SETTINGS,
+      ...draft,
+      variantColumn,
+      control,
+      metrics,
+      preMetric,
+      expectedSplit: draft.expectedSplit
+        ? Object.fromEntries(labels.map((l) => [l, draft.expectedSplit?.[l] ?? 1]))
+        : undefined,
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Experiment setup</h3>
+          <label className="block text-xs text-gray-400 space-y-1">
+            <span>Variant column</span>
+            <select value={variantColumn} onChange={(e) => update({ variantColumn: e.target.value, control: undefined })} className={selectClass}>
+              {categorical.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-400 space-y-1">
+            <span>Control</span>
+            <select value={control} onChange={(e) => update({ control: e.target.value })} className={selectClass}>
+              {labels.map((l) => (
+                <option key={l} value={l}>
+                  {l}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-400 space-y-1">
+            <span>Pre-period column (CUPED)</span>
+            <select value={preMetric ?? ''} onChange={(e) => update({ preMetric: e.target.value || undefined })} className={selectClass}>
+              <option value="">None</option>
+              {numeric
+                .filter((c) => c !== variantColumn)
+                .map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Confidence</span>
+              <select
+                value={draft.confidence ?? DEFAULT_EXPERIMENT_SETTINGS.confidence}
+                onChange={(e) => update({ confidence: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {CONFIDENCE_LEVELS.map((c) => (
+                  <option key={c} value={c}>
+                    {Math.round(c * 100)}%
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Minimum lift (%)</span>
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={Math.round((draft.minimumDetectableLift ?? DEFAULT_EXPERIMENT_SETTINGS.minimumDetectableLift) * 1000) / 10}
+                onChange={(e) => update({ minimumDetectableLift: Math.max(0.001, Number(e.target.value) / 100) })}
+                className={selectClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-start gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.sequential ?? false}
+              onChange={(e) => update({ sequential: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              Sequential mode
+              <span className="block text-xs text-gray-400">Always-valid p-values, safe to check before the test ends.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Metrics</h3>
+          {metricOptions.length === 0 && <p className="text-sm text-yellow-300">No numeric or 0/1 columns to use as metrics.</p>}
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {metricOptions
+              .filter((m) => m !== preMetric)
+              .map((m) => (
+                <label key={m} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={metrics.includes(m)}
+                    onChange={(e) => update({ metrics: e.target.checked ? [...metrics, m] : metrics.filter((x) => x !== m) })}
+                  />
+                  {m}
+                  {binaryColumns.includes(m) && <span className="text-xs text-blue-300">conversion</span>}
+                </label>
+              ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-300">Planned traffic split</h3>
+          <p className="text-xs text-gray-400">Relative weights per variant; leave at 1 for an even split.</p>
+          {variants.map((v) => (
+            <label key={v.variant} className="flex items-center gap-3 text-sm text-gray-300">
+              <span className="flex-1 truncate">
+                {v.variant} <span className="text-xs text-gray-500">({v.count} rows)</span>
+              </span>
+              <input
+                type="number"
+                min={0.01}
+                step={0.5}
+                value={draft.expectedSplit?.[v.variant] ?? 1}
+                onChange={(e) =>
+                  update({ expectedSplit: { ...draft.expectedSplit, [v.variant]: Math.max(0.01, Number(e.target.value)) } })
+                }
+                className="w-20 px-2 py-1 bg-gray-700/50 border border-gray-600 text-white rounded text-sm"
+              />
+            </label>
+          ))}
+          <button
+            onClick={handleAnalyze}
+            disabled={!variantColumn || !control || metrics.length === 0}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" /> Analyze experiment
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {report && (
+        <div className="space-y-4">
+          <div
+            className={`flex items-start gap-3 p-4 rounded-lg border ${
+              report.sampleRatio.mismatch ? 'bg-red-900/20 border-red-500/30' : 'bg-green-900/20 border-green-500/30'
+            }`}
+          >
+            {report.sampleRatio.mismatch ? (
+              <AlertTriangle className="w-5 h-5 text-red-300 flex-shrink-0" />
+            ) : (
+              <CheckCircle className="w-5 h-5 text-green-300 flex-shrink-0" />
+            )}
+            <div className="text-sm">
+              <p className={report.sampleRatio.mismatch ? 'text-red-200 font-semibold' : 'text-green-200 font-semibold'}>
+                {report.sampleRatio.mismatch ? 'Sample ratio mismatch' : 'Traffic split looks as planned'} (p ={' '}
+                {report.sampleRatio.pValue})
+              </p>
+              <p className="text-xs text-gray-300">
+                {report.variants
+                  .map((v) => `${v.variant}: ${v.count} (expected ${report.sampleRatio.expected[v.variant]})`)
+                  .join(' · ')}
+              </p>
+            </div>
+          </div>
+
+          {report.warnings
+            .filter((w) => !w.startsWith('Sample ratio mismatch'))
+            .map((w) => (
+              <p key={w} className="flex items-start gap-2 text-xs text-yellow-300">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                {w}
+              </p>
+            ))}
+
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-800/50 border-b border-gray-700 text-left text-blue-300">
+                  <th className="px-3 py-2">Metric</th>
+                  <th className="px-3 py-2">Variant</th>
+                  <th className="px-3 py-2">Control</th>
+                  <th className="px-3 py-2">Variant value</th>
+                  <th className="px-3 py-2">Difference ({Math.round(report.config.confidence * 100)}% CI)</th>
+                  <th className="px-3 py-2">Lift</th>
+                  <th className="px-3 py-2">{report.config.sequential ? 'Always-valid p' : 'p'}</th>
+                  <th className="px-3 py-2">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.comparisons.map((c) => (
+                  <tr key={`${c.metric}:${c.variant}`} className="border-b border-gray-700 text-gray-300">
+                    <td className="px-3 py-2 font-medium text-white">{c.metric}</td>
+                    <td className="px-3 py-2">{c.variant}</td>
+                    <td className="px-3 py-2">
+                      {formatValue(c, c.control.mean)} <span className="text-xs text-gray-500">n={c.control.n}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatValue(c, c.treatment.mean)} <span className="text-xs text-gray-500">n={c.treatment.n}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {c.difference}{' '}
+                      <span className="text-xs text-gray-500">
+                        [{c.differenceCI[0]}, {c.differenceCI[1]}]
+                      </span>
+                    </td>
+                    <td className={`px-3 py-2 font-semibold ${c.significant ? (c.difference > 0 ? 'text-green-300' : 'text-red-300') : ''}`}>
+                      {c.lift === null ? '—' : percent(c.lift)}
+                      {c.liftCI && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          {percent(c.liftCI[0])} to {percent(c.liftCI[1])}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {c.sequentialPValue ?? c.pValue}
+                      {c.sequentialPValue !== undefined && (
+                        <span className="block text-xs text-gray-500">fixed-horizon {c.pValue}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-gray-400 space-y-0.5">
+                      <span className="block">{c.test === 'z' ? 'Two-proportion z-test' : 't-test'}</span>
+                      {c.cuped && (
+                        <span className="block">CUPED: {Math.round(c.cuped.varianceReduction * 100)}% less variance</span>
+                      )}
+                      {c.power && (
+                        <span className={`block ${c.power.reached ? 'text-green-300' : 'text-yellow-300'}`}>
+                          {c.power.reached ? 'Sample size reached' : `Needs ${c.power.requiredPerGroup} per group`}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="flex items-center gap-2 text-xs text-gray-500">
+            <TestTubes className="w-4 h-4" />
+            Intervals are fixed-horizon. The Full Report export includes this experiment.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, LineChart as LineChartIcon } from 'lucide-react';
+import type { DataRow } from '../types';
+import { forecastSeries, GRANULARITY_LABELS, type Granularity, type Seasonality } from '../utils/forecasting';
+import { resolveColumn } from '../utils/salesAI';
+import { numericColumns } from '../utils/statisticalWorkbench';
+
+interface ForecastPanelProps {
+  data: DataRow[];
+  dateColumn: string;
+}
+
+const HORIZONS = [3, 6, 12, 24];
+const SEASONALITY_LABELS: Record<Seasonality | 'auto', string> = {
+  auto: 'Detect automatically',
+  additive: 'Additive',
+  multiplicative: 'Multiplicative',
+  none: 'No seasonality',
+};
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+const tooltipStyle = { backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' };
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Holt-Winters forecast of a date column's totals with a prediction band,
+ * back-test accuracy and an optional trend/seasonal/residual breakdown.
+ */
+export default function ForecastPanel({ data, dateColumn }: ForecastPanelProps) {
+  const [valueColumn, setValueColumn] = useState<string | null>(null); // null until picked: default to revenue
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [horizon, setHorizon] = useState(6);
+  const [seasonality, setSeasonality] = useState<Seasonality | 'auto'>('auto');
+  const [showDecomposition, setShowDecomposition] = useState(false);
+
+  const numeric = useMemo(() => numericColumns(data).filter((c) => c !== dateColumn), [data, dateColumn]);
+  const value =
+    valueColumn === null ? (resolveColumn(numeric, 'revenue') ?? '') : numeric.includes(valueColumn) ? valueColumn : '';
+
+  const { result, error } = useMemo(() => {
+    try {
+      const forecast = forecastSeries(data, {
+        dateColumn,
+        valueColumn: value || undefined,
+        granularity,
+        horizon,
+        seasonality,
+      });
+      return { result: forecast, error: '' };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'The forecast could not be computed' };
+    }
+  }, [data, dateColumn, value, granularity, horizon, seasonality]);
+
+  // History and forecast share one x-axis; the band only covers the forecast
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    const history = result.series.map((p, i) => ({
+      period: p.period,
+      actual: round(p.value),
+      fitted: round(result.fitted[i]),
+    }));
+    const last = result.series[result.series.length - 1];
+    const future = result.forecast.map((p) => ({
+      period: p.period,
+      forecast: round(p.forecast),
+      band: [round(p.lower), round(p.upper)],
+    }));
+    // Join the forecast line to the last actual value
+    return [...history.slice(0, -1), { ...history[history.length - 1], forecast: round(last.value) }, ...future];
+  }, [result]);
+
+  const decompositionData = useMemo(() => {
+    const d = result?.decomposition;
+    if (!result || !d) return [];
+    return result.series.map((p, i) => ({
+      period: p.period,
+      trend: d.trend[i] === null ? null : round(d.trend[i]!),
+      seasonal: round(d.seasonal[i]),
+      residual: d.residual[i] === null ? null : round(d.residual[i]!),
+    }));
+  }, [result]);
+
+  const model = result?.model;
+  const measure = value || 'rows';
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <LineChartIcon className="w-5 h-5 text-blue-400" />
+        <h3 className="text-lg font-semibold text-white">Forecast</h3>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Value</span>
+          <select value={value} onChange={(e) => setValueColumn(e.target.value)} className={selectClass}>
+            <option value="">Row count</option>
+            {numeric.map((c) => (
+              <option key={c} value={c}>
+                Total {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Granularity</span>
+          <select value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)} className={selectClass}>
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map((g) => (
+              <option key={g} value={g}>
+                {GRANULARITY_LABELS[g]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Horizon</span>
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} className={selectClass}>
+            {HORIZONS.map((h) => (
+              <option key={h} value={h}>
+                {h} {granularity}s
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Seasonality</span>
+          <select
+            value={seasonality}
+            onChange={(e) => setSeasonality(e.target.value as Seasonality | 'auto')}
+            className={selectClass}
+          >
+            {(Object.keys(SEASONALITY_LABELS) as (Seasonality | 'auto')[]).map((s) => (
+              <option key={s} value={s}>
+                {SEASONALITY_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {result && model && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-900/40 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Model</div>
+              <div className="text-white">
+                {model.seasonality === 'none' ? "Holt's linear trend" : `Holt-Winters (${model.seasonality})`}
+              </div>
+            </div>
+            <div className="bg-gray-900/40 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Season length</div>
+              <div className="text-white">{model.seasonality === 'none' ? '—' : `${model.period} ${granularity}s`}</div>
+            </div>
+            <div className="bg-gray-900/40 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Back-test MAPE</div>
+              <div className="text-white">
+                {result.backtest?.mape != null ? `${result.backtest.mape.toFixed(1)}%` : '—'}
+              </div>
+            </div>
+            <div className="bg-gray-900/40 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Back-test RMSE</div>
+              <div className="text-white">{result.backtest ? result.backtest.rmse.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—'}</div>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="period" stroke="#9ca3af" />
+              <YAxis stroke="#9ca3af" />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Area
+                dataKey="band"
+                name={`${Math.round(result.confidence * 100)}% interval`}
+                stroke="none"
+                fill="#8b5cf6"
+                fillOpacity={0.2}
+              />
+              <Line type="monotone" dataKey="actual" name={measure} stroke="#3b82f6" dot={false} />
+              <Line type="monotone" dataKey="fitted" name="Fitted" stroke="#6b7280" strokeDasharray="4 4" dot={false} />
+              <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#a78bfa" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          {result.backtest && (
+            <p className="text-xs text-gray-400">
+              Back-test: the model was refitted without the last {result.backtest.holdout} {granularity}s and scored on
+              them.
+            </p>
+          )}
+
+          {result.warnings.map((w) => (
+            <div key={w} className="flex items-start gap-2 text-xs text-yellow-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {w}
+            </div>
+          ))}
+
+          {result.decomposition && (
+            <div className="space-y-3">
+              <button
+                onClick={() => setShowDecomposition(!showDecomposition)}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                {showDecomposition ? 'Hide' : 'Show'} seasonal decomposition
+              </button>
+              {showDecomposition &&
+                (['trend', 'seasonal', 'residual'] as const).map((part) => (
+                  <div key={part}>
+                    <div className="text-xs text-gray-400 capitalize mb-1">{part}</div>
+                    <ResponsiveContainer width="100%" height={120}>
+                      <LineChart data={decompositionData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                        <XAxis dataKey="period" stroke="#9ca3af" hide={part !== 'residual'} />
+                        <YAxis stroke="#9ca3af" domain={['auto', 'auto']} />
+                        <Tooltip contentStyle={tooltipStyle} />
+                        <Line type="monotone" dataKey={part} stroke="#10b981" dot={false} connectNulls={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import DataFreshness from './DataFreshness';
+import { lineageTracker, type DataLineageEvent } from '../utils/dataLineage';
+import { downloadFile } from '../utils/exports';
+
+const ACTION_STYLES: Record<DataLineageEvent['action'], { icon: string; color: string }> = {
+  uploaded: { icon: '📤', color: 'text-blue-300' },
+  filtered: { icon: '🔻', color: 'text-orange-300' },
+  aggregated: { icon: '🧮', color: 'text-purple-300' },
+  transformed: { icon: '🛠️', color: 'text-green-300' },
+  queried: { icon: '🔍', color: 'text-cyan-300' },
+  exported: { icon: '📥', color: 'text-gray-300' },
+};
+
+/**
+ * Trust score, freshness and the full audit trail for the current dataset.
+ * Re-renders whenever the tracker records something.
+ */
+export default function LineagePanel() {
+  const [history, setHistory] = useState(() => lineageTracker.current().getHistory());
+  const [showTimeline, setShowTimeline] = useState(false);
+
+  useEffect(() => lineageTracker.subscribe(() => setHistory(lineageTracker.current().getHistory())), []);
+
+  const handleDownloadTimeline = () => {
+    downloadFile(
+      lineageTracker.current().exportTimeline(),
+      `lineage-${new Date().toISOString().split('T')[0]}.txt`,
+      'text/plain'
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <DataFreshness history={history} onViewTimeline={() => setShowTimeline((v) => !v)} />
+
+      <div className="lg:col-span-2">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">🧾 Audit Trail</h3>
+          <button
+            onClick={handleDownloadTimeline}
+            disabled={history.events.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 text-gray-100 rounded-lg text-sm border border-gray-600 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+
+        {showTimeline ? (
+          <pre className="bg-gray-900/50 border border-gray-700/50 rounded-lg p-4 text-xs text-gray-300 whitespace-pre-wrap max-h-[32rem] overflow-y-auto">
+            {lineageTracker.current().exportTimeline()}
+          </pre>
+        ) : history.events.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing recorded yet.</p>
+        ) : (
+          <ol className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {[...history.events].reverse().map((event) => {
+              const style = ACTION_STYLES[event.action];
+              return (
+                <li key={event.id} className="p-3 bg-gray-700/30 border border-gray-600/40 rounded-lg">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className={`text-xs font-semibold uppercase ${style.color}`}>
+                      {style.icon} {event.action}
+                    </span>
+                    <span className="text-xs text-gray-500">{event.timestamp.toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-gray-200 mt-1 break-words">{event.description}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Rows: {event.previousRowCount.toLocaleString()} → {event.affectedRows.toLocaleString()}
+                    {event.rowCountChange !== 0 && ` (${event.rowCountChange > 0 ? '+' : ''}${event.rowCountChange})`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
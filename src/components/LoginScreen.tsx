@@ -1,10 +1,24 @@
 import { useEffect, useRef, useState } from "react";
-import { Lock, Mail } from "lucide-react";
+import { KeyRound, Lock, Mail, User } from "lucide-react";
+import type { AuthSession, AuthUser } from "../types";
+import { createGuestUser, getAuthProvider, MIN_PASSWORD_LENGTH, validateCredentials } from "../utils/auth";
 
 interface LoginScreenProps {
-  onSuccess: () => void;
+  onSuccess: (user: AuthUser) => void;
 }
 
+type Mode = "signin" | "signup" | "forgot" | "reset";
+
+const TITLES: Record<Mode, string> = {
+  signin: "Sign in",
+  signup: "Create account",
+  forgot: "Reset password",
+  reset: "Choose a new password",
+};
+
+const inputClass =
+  "w-full pl-10 pr-3 py-3 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
 /**
  * Fake drag-to-verify CAPTCHA (prototype).
  * User must drag the handle all the way to the right to verify.
@@ -153,11 +167,25 @@ function DragCaptcha({
 }
 
 export default function LoginScreen({ onSuccess }: LoginScreenProps) {
+  const auth = getAuthProvider();
+
+  const [mode, setMode] = useState<Mode>("signin");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [resetToken, setResetToken] = useState("");
 
   const [isVerified, setIsVerified] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setPassword("");
+    setError("");
+    setNotice("");
+  };
 
   const requireCaptcha = () => {
     if (!isVerified) {
@@ -167,31 +195,74 @@ export default function LoginScreen({ onSuccess }: LoginScreenProps) {
     return true;
   };
 
-  const handleEmailLogin = (e: React.FormEvent) => {
-    e.preventDefault();
+  // Shared busy/error handling for every auth call
+  const run = async (action: () => Promise<void>) => {
     setError("");
+    setNotice("");
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
 
+  const finish = (session: AuthSession) => onSuccess(session.user);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
     if (!requireCaptcha()) return;
 
-    // simple validation (prototype)
-    if (!email.includes("@")) {
-      setError("Please enter a valid email.");
-      return;
-    }
-    if (password.length < 4) {
-      setError("Password must be at least 4 characters.");
-      return;
+    if (mode === "signin") {
+      const problem = validateCredentials(email, password);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      void run(async () => finish(await auth.signIn(email, password)));
+    } else if (mode === "signup") {
+      const problem = validateCredentials(email, password);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+      void run(async () => {
+        const session = await auth.signUp({ email, password, displayName });
+        if (session) finish(session);
+        else {
+          switchMode("signin");
+          setNotice("Check your inbox to confirm your account, then sign in.");
+        }
+      });
+    } else if (mode === "forgot") {
+      void run(async () => {
+        await auth.requestPasswordReset(email);
+        switchMode("reset");
+        setResetToken("");
+        // Same message either way, so the form doesn't reveal which emails have accounts
+        setNotice(
+          auth.id === "local"
+            ? "If an account exists for this email, its reset code has been written to the browser console (development build)."
+            : "If an account exists for this email, a reset code is on its way."
+        );
+      });
+    } else {
+      void run(async () => finish(await auth.resetPassword({ email, token: resetToken, newPassword: password })));
     }
-
-    onSuccess();
   };
 
   const handleGoogleLogin = () => {
-    setError("");
-    if (!requireCaptcha()) return;
+    if (!requireCaptcha() || !auth.signInWithGoogle) return;
+    void run(() => auth.signInWithGoogle!());
+  };
 
-    // Fake Google login success
-    onSuccess();
+  const submitLabel: Record<Mode, string> = {
+    signin: "Login",
+    signup: "Create account",
+    forgot: "Send reset code",
+    reset: "Update password",
   };
 
   return (
@@ -202,12 +273,14 @@ export default function LoginScreen({ onSuccess }: LoginScreenProps) {
             <Lock className="w-8 h-8 text-blue-600" />
           </div>
           <h1 className="text-4xl font-bold text-gray-900 mb-2">AutoInsight</h1>
-          <p className="text-lg text-gray-600">Prototype login</p>
+          <p className="text-lg text-gray-600">
+            {auth.id === "local" ? "Accounts are stored on this device" : "Sign in to continue"}
+          </p>
         </div>
 
         <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-8">
           <h2 className="text-2xl font-semibold text-gray-900 mb-6 text-center">
-            Sign in
+            {TITLES[mode]}
           </h2>
 
           {error && (
@@ -216,22 +289,49 @@ export default function LoginScreen({ onSuccess }: LoginScreenProps) {
             </div>
           )}
 
-          {/* Fake Google Login */}
-          <button
-            type="button"
-            onClick={handleGoogleLogin}
-            disabled={!isVerified}
-            className="w-full flex items-center justify-center gap-3 border border-gray-300 rounded-lg py-3 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-            title={!isVerified ? "Complete verification first" : "Continue with Google"}
-          >
-            <span className="text-xl">G</span>
-            Continue with Google
-          </button>
-
-          <div className="my-5 text-center text-sm text-gray-500">or</div>
-
-          {/* Email/Password Login */}
-          <form onSubmit={handleEmailLogin} className="space-y-4">
+          {notice && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-700 text-sm">
+              {notice}
+            </div>
+          )}
+
+          {auth.supportsGoogle && (mode === "signin" || mode === "signup") && (
+            <>
+              <button
+                type="button"
+                onClick={handleGoogleLogin}
+                disabled={!isVerified || isBusy}
+                className="w-full flex items-center justify-center gap-3 border border-gray-300 rounded-lg py-3 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={!isVerified ? "Complete verification first" : "Continue with Google"}
+              >
+                <span className="text-xl">G</span>
+                Continue with Google
+              </button>
+
+              <div className="my-5 text-center text-sm text-gray-500">or</div>
+            </>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "signup" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <div className="relative">
+                  <User className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    placeholder="Ashish"
+                    autoComplete="name"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Email
@@ -243,26 +343,58 @@ export default function LoginScreen({ onSuccess }: LoginScreenProps) {
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
                   placeholder="ashish@example.com"
-                  className="w-full pl-10 pr-3 py-3 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoComplete="email"
+                  className={inputClass}
                 />
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter password"
-                  className="w-full pl-10 pr-3 py-3 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+            {mode === "reset" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reset code
+                </label>
+                <div className="relative">
+                  <KeyRound className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={resetToken}
+                    onChange={(e) => setResetToken(e.target.value)}
+                    placeholder="Code from the reset message"
+                    autoComplete="one-time-code"
+                    className={inputClass}
+                  />
+                </div>
               </div>
-            </div>
+            )}
+
+            {mode !== "forgot" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {mode === "reset" ? "New password" : "Password"}
+                </label>
+                <div className="relative">
+                  <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={mode === "signin" ? "Enter password" : `At least ${MIN_PASSWORD_LENGTH} characters`}
+                    autoComplete={mode === "signin" ? "current-password" : "new-password"}
+                    className={inputClass}
+                  />
+                </div>
+                {mode === "signin" && auth.supportsPasswordReset && (
+                  <button
+                    type="button"
+                    onClick={() => switchMode("forgot")}
+                    className="mt-2 text-sm text-blue-700 hover:text-blue-800"
+                  >
+                    Forgot password?
+                  </button>
+                )}
+              </div>
+            )}
 
             {/* Drag CAPTCHA */}
             <DragCaptcha
@@ -274,25 +406,42 @@ export default function LoginScreen({ onSuccess }: LoginScreenProps) {
 
             <button
               type="submit"
-              disabled={!isVerified}
+              disabled={!isVerified || isBusy}
               className="w-full bg-blue-600 text-white font-semibold py-3.5 px-6 rounded-lg hover:bg-blue-700 transition-colors shadow-sm disabled:bg-blue-300 disabled:cursor-not-allowed"
             >
-              Login
+              {isBusy ? "Please wait..." : submitLabel[mode]}
             </button>
 
-            <button
-              type="button"
-              onClick={() => {
-                setError("");
-                if (!requireCaptcha()) return;
-                onSuccess();
-              }}
-              disabled={!isVerified}
-              className="w-full bg-white text-gray-700 font-medium py-3 px-6 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              Continue as guest
-            </button>
+            {mode === "signin" && (
+              <button
+                type="button"
+                onClick={() => {
+                  setError("");
+                  if (!requireCaptcha()) return;
+                  onSuccess(createGuestUser());
+                }}
+                disabled={!isVerified || isBusy}
+                className="w-full bg-white text-gray-700 font-medium py-3 px-6 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue as guest
+              </button>
+            )}
           </form>
+
+          <p className="mt-6 text-center text-sm text-gray-600">
+            {mode === "signin" ? (
+              <>
+                New here?{" "}
+                <button type="button" onClick={() => switchMode("signup")} className="text-blue-700 hover:text-blue-800 font-medium">
+                  Create an account
+                </button>
+              </>
+            ) : (
+              <button type="button" onClick={() => switchMode("signin")} className="text-blue-700 hover:text-blue-800 font-medium">
+                Back to sign in
+              </button>
+            )}
+          </p>
         </div>
       </div>
     </div>
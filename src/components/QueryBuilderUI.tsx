@@ -1,11 +1,28 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Plus, Trash2, Play } from 'lucide-react';
-import type { QueryFilter, QueryConfig, FilterOperator } from '../utils/queryBuilder';
+import {
+  aggregationKey,
+  buildFilterFromInput,
+  type AggregationType,
+  type FilterOperator,
+  type QueryAggregation,
+  type QueryConfig,
+  type QueryFilter,
+  type QueryOrder,
+} from '../utils/queryBuilder';
 
 interface QueryBuilderUIProps {
   columns: string[];
   onExecute?: (config: QueryConfig) => void;
-  onGenerateSQL?: (sql: string) => void;
+  onChange?: (config: QueryConfig) => void; // fires on every edit, before the query is run
+  initialConfig?: QueryConfig; // read once on mount; remount with a new key to load another query
+}
+
+// Filters are edited as text and parsed into typed values when the query runs
+interface FilterDraft {
+  column: string;
+  operator: FilterOperator;
+  value: string;
 }
 
 const FILTER_OPERATORS: FilterOperator[] = [
@@ -19,111 +36,174 @@ const FILTER_OPERATORS: FilterOperator[] = [
   'isNotEmpty',
 ];
 
-export default function QueryBuilderUI({
-  columns,
-  onExecute,
-  onGenerateSQL,
-}: QueryBuilderUIProps) {
-  const [filters, setFilters] = useState<QueryFilter[]>([]);
-  const [selectedColumns, setSelectedColumns] = useState<string[]>(columns);
-  const [orderByColumn, setOrderByColumn] = useState<string>(columns[0] || '');
-  const [orderByDirection, setOrderByDirection] = useState<'asc' | 'desc'>('asc');
-  const [limit, setLimit] = useState<number>(100);
-
-  const addFilter = () => {
-    setFilters([
-      ...filters,
-      {
-        column: columns[0] || '',
-        operator: 'equals',
-        value: '',
-      },
-    ]);
-  };
-
-  const removeFilter = (idx: number) => {
-    setFilters(filters.filter((_, i) => i !== idx));
-  };
-
-  const updateFilter = (idx: number, field: keyof QueryFilter, value: any) => {
-    const newFilters = [...filters];
-    (newFilters[idx] as any)[field] = value;
-    setFilters(newFilters);
-  };
-
-  const executeQuery = () => {
-    const config: QueryConfig = {
-      select: { columns: selectedColumns },
-      filters: filters.length > 0 ? filters : undefined,
-      orderBy: orderByColumn ? { column: orderByColumn, direction: orderByDirection } : undefined,
+const HAVING_OPERATORS: FilterOperator[] = ['greater', 'less', 'equals', 'between'];
+
+const AGGREGATIONS: { value: AggregationType; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'count', label: 'Count' },
+  { value: 'distinctCount', label: 'Distinct count' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'median', label: 'Median' },
+  { value: 'percentile', label: 'Percentile' },
+];
+
+// Inverse of buildFilterFromInput, used when a saved query is loaded back into the builder
+function toDraft(filter: QueryFilter): FilterDraft {
+  const { value } = filter;
+  let text: string;
+  if (filter.operator === 'between' && Array.isArray(value)) text = `${value[0]} - ${value[1]}`;
+  else if (Array.isArray(value)) text = value.join(', ');
+  else text = String(value ?? '');
+  return { column: filter.column, operator: filter.operator, value: text };
+}
+
+function toFilters(drafts: FilterDraft[]): QueryFilter[] {
+  return drafts.filter((d) => d.column).map((d) => buildFilterFromInput(d.column, d.operator, d.value));
+}
+
+const VALUE_HINTS: Partial<Record<FilterOperator, string>> = {
+  between: 'min - max',
+  in: 'a, b, c',
+};
+
+const selectClass = 'px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50';
+const inputClass =
+  'px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600';
+const addButtonClass =
+  'flex items-center gap-1 px-2 py-1 bg-indigo-600/50 hover:bg-indigo-600/70 text-indigo-200 text-xs font-semibold rounded transition-all';
+const removeButtonClass = 'px-2 py-1 bg-red-600/30 hover:bg-red-600/50 text-red-300 text-xs rounded transition-all';
+
+export default function QueryBuilderUI({ columns, onExecute, onChange, initialConfig }: QueryBuilderUIProps) {
+  const [filters, setFilters] = useState<FilterDraft[]>(() => (initialConfig?.filters ?? []).map(toDraft));
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(() => initialConfig?.select?.columns ?? columns);
+  const [groupColumns, setGroupColumns] = useState<string[]>(() => initialConfig?.groupBy?.columns ?? []);
+  const [aggregations, setAggregations] = useState<QueryAggregation[]>(
+    () => initialConfig?.groupBy?.aggregations ?? []
+  );
+  const [having, setHaving] = useState<FilterDraft[]>(() => (initialConfig?.groupBy?.having ?? []).map(toDraft));
+  const [orderBy, setOrderBy] = useState<QueryOrder[]>(() => initialConfig?.orderBy ?? []);
+  const [limit, setLimit] = useState<number>(() => initialConfig?.limit ?? 100);
+
+  const isGrouped = groupColumns.length > 0 || aggregations.length > 0;
+  const aggregateKeys = aggregations.map(aggregationKey);
+  // After grouping only the group columns and aggregate outputs exist
+  const sortableColumns = isGrouped ? [...groupColumns, ...aggregateKeys] : columns;
+
+  const toggle = (list: string[], col: string) =>
+    list.includes(col) ? list.filter((c) => c !== col) : [...list, col];
+
+  const updateAt = <T,>(list: T[], idx: number, patch: Partial<T>): T[] =>
+    list.map((item, i) => (i === idx ? { ...item, ...patch } : item));
+
+  const config = useMemo<QueryConfig>(() => {
+    const grouped = groupColumns.length > 0 || aggregations.length > 0;
+    const keys = aggregations.map(aggregationKey);
+    const sortable = grouped ? [...groupColumns, ...keys] : columns;
+    const validOrder = orderBy.filter((o) => sortable.includes(o.column));
+    const validHaving = having.filter((h) => keys.includes(h.column));
+    return {
+      select: grouped ? undefined : { columns: selectedColumns },
+      filters: filters.length > 0 ? toFilters(filters) : undefined,
+      groupBy: grouped
+        ? { columns: groupColumns, aggregations, having: validHaving.length > 0 ? toFilters(validHaving) : undefined }
+        : undefined,
+      orderBy: validOrder.length > 0 ? validOrder : undefined,
       limit: limit > 0 ? limit : undefined,
     };
+  }, [columns, filters, selectedColumns, groupColumns, aggregations, having, orderBy, limit]);
+
+  useEffect(() => {
+    onChange?.(config);
+  }, [config, onChange]);
+
+  const executeQuery = () => onExecute?.(config);
 
-    if (onExecute) {
-      onExecute(config);
-    }
-
-    // Generate SQL
-    let sql = `SELECT ${selectedColumns.join(', ')} FROM data`;
-    if (filters.length > 0) {
-      const whereClauses = filters
-        .map((f) => {
-          if (f.operator === 'equals') return `${f.column} = '${f.value}'`;
-          if (f.operator === 'contains') return `${f.column} LIKE '%${f.value}%'`;
-          if (f.operator === 'greater') return `${f.column} > ${f.value}`;
-          if (f.operator === 'less') return `${f.column} < ${f.value}`;
-          return '';
-        })
-        .join(' AND ');
-      sql += ` WHERE ${whereClauses}`;
-    }
-    if (orderByColumn) {
-      sql += ` ORDER BY ${orderByColumn} ${orderByDirection.toUpperCase()}`;
-    }
-    if (limit) {
-      sql += ` LIMIT ${limit}`;
-    }
-
-    if (onGenerateSQL) {
-      onGenerateSQL(sql);
-    }
-  };
+  const renderColumnChips = (selected: string[], onToggle: (col: string) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {columns.map((col) => (
+        <button
+          key={col}
+          onClick={() => onToggle(col)}
+          className={`px-3 py-1 rounded-full text-xs font-semibold transition-all ${
+            selected.includes(col) ? 'bg-blue-600 text-white' : 'bg-gray-700/50 text-gray-400 hover:bg-gray-600/50'
+          }`}
+        >
+          {col}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderFilterRows = (
+    drafts: FilterDraft[],
+    setDrafts: (drafts: FilterDraft[]) => void,
+    columnOptions: string[],
+    operators: FilterOperator[]
+  ) => (
+    <div className="space-y-2">
+      {drafts.map((filter, idx) => (
+        <div key={idx} className="flex gap-2 items-center bg-gray-700/20 p-2 rounded">
+          <select
+            value={filter.column}
+            onChange={(e) => setDrafts(updateAt(drafts, idx, { column: e.target.value }))}
+            className={`flex-1 ${selectClass}`}
+          >
+            {columnOptions.map((col) => (
+              <option key={col} value={col}>
+                {col}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filter.operator}
+            onChange={(e) => setDrafts(updateAt(drafts, idx, { operator: e.target.value as FilterOperator }))}
+            className={`flex-1 ${selectClass}`}
+          >
+            {operators.map((op) => (
+              <option key={op} value={op}>
+                {op}
+              </option>
+            ))}
+          </select>
+
+          {filter.operator !== 'isEmpty' && filter.operator !== 'isNotEmpty' && (
+            <input
+              type="text"
+              value={filter.value}
+              onChange={(e) => setDrafts(updateAt(drafts, idx, { value: e.target.value }))}
+              placeholder={VALUE_HINTS[filter.operator] ?? 'Value'}
+              className={`flex-1 ${inputClass}`}
+            />
+          )}
+
+          <button onClick={() => setDrafts(drafts.filter((_, i) => i !== idx))} className={removeButtonClass}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
 
   return (
     <div className="space-y-6">
       {/* Column Selection */}
-      <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
-        <h3 className="text-sm font-semibold text-gray-300 mb-3">📋 Select Columns</h3>
-        <div className="flex flex-wrap gap-2">
-          {columns.map((col) => (
-            <button
-              key={col}
-              onClick={() => {
-                if (selectedColumns.includes(col)) {
-                  setSelectedColumns(selectedColumns.filter((c) => c !== col));
-                } else {
-                  setSelectedColumns([...selectedColumns, col]);
-                }
-              }}
-              className={`px-3 py-1 rounded-full text-xs font-semibold transition-all ${
-                selectedColumns.includes(col)
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-700/50 text-gray-400 hover:bg-gray-600/50'
-              }`}
-            >
-              {col}
-            </button>
-          ))}
+      {!isGrouped && (
+        <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-300 mb-3">📋 Select Columns</h3>
+          {renderColumnChips(selectedColumns, (col) => setSelectedColumns(toggle(selectedColumns, col)))}
         </div>
-      </div>
+      )}
 
       {/* Filters */}
       <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-sm font-semibold text-gray-300">🔍 Filters</h3>
           <button
-            onClick={addFilter}
-            className="flex items-center gap-1 px-2 py-1 bg-indigo-600/50 hover:bg-indigo-600/70 text-indigo-200 text-xs font-semibold rounded transition-all"
+            onClick={() => setFilters([...filters, { column: columns[0] || '', operator: 'equals', value: '' }])}
+            className={addButtonClass}
           >
             <Plus className="w-4 h-4" /> Add Filter
           </button>
@@ -131,47 +211,74 @@ export default function QueryBuilderUI({
 
         {filters.length === 0 ? (
           <p className="text-xs text-gray-500 italic">No filters applied</p>
+        ) : (
+          renderFilterRows(filters, setFilters, columns, FILTER_OPERATORS)
+        )}
+      </div>
+
+      {/* Grouping */}
+      <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
+        <h3 className="text-sm font-semibold text-gray-300 mb-3">🧩 Group By</h3>
+        {renderColumnChips(groupColumns, (col) => setGroupColumns(toggle(groupColumns, col)))}
+
+        <div className="flex items-center justify-between mt-4 mb-2">
+          <h4 className="text-xs font-semibold text-gray-400">Aggregations</h4>
+          <button
+            onClick={() => setAggregations([...aggregations, { column: columns[0] || '', type: 'sum' }])}
+            className={addButtonClass}
+          >
+            <Plus className="w-4 h-4" /> Add Aggregation
+          </button>
+        </div>
+        {aggregations.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">No aggregations</p>
         ) : (
           <div className="space-y-2">
-            {filters.map((filter, idx) => (
+            {aggregations.map((agg, idx) => (
               <div key={idx} className="flex gap-2 items-center bg-gray-700/20 p-2 rounded">
                 <select
-                  value={filter.column}
-                  onChange={(e) => updateFilter(idx, 'column', e.target.value)}
-                  className="flex-1 px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50"
+                  value={agg.type}
+                  onChange={(e) =>
+                    setAggregations(updateAt(aggregations, idx, { type: e.target.value as AggregationType }))
+                  }
+                  className={`flex-1 ${selectClass}`}
                 >
-                  {columns.map((col) => (
-                    <option key={col} value={col}>
-                      {col}
+                  {AGGREGATIONS.map((a) => (
+                    <option key={a.value} value={a.value}>
+                      {a.label}
                     </option>
                   ))}
                 </select>
-
                 <select
-                  value={filter.operator}
-                  onChange={(e) => updateFilter(idx, 'operator', e.target.value as FilterOperator)}
-                  className="flex-1 px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50"
+                  value={agg.column}
+                  onChange={(e) => setAggregations(updateAt(aggregations, idx, { column: e.target.value }))}
+                  className={`flex-1 ${selectClass}`}
                 >
-                  {FILTER_OPERATORS.map((op) => (
-                    <option key={op} value={op}>
-                      {op}
+                  {columns.map((col) => (
+                    <option key={col} value={col}>
+                      {col}
                     </option>
                   ))}
                 </select>
-
-                {filter.operator !== 'isEmpty' && filter.operator !== 'isNotEmpty' && (
+                {agg.type === 'percentile' && (
                   <input
-                    type="text"
-                    value={String(filter.value)}
-                    onChange={(e) => updateFilter(idx, 'value', e.target.value)}
-                    placeholder="Value"
-                    className="flex-1 px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={agg.percentile ?? 90}
+                    onChange={(e) =>
+                      setAggregations(updateAt(aggregations, idx, { percentile: Number(e.target.value) }))
+                    }
+                    className={`w-20 ${inputClass}`}
+                    title="Percentile (0-100)"
                   />
                 )}
-
+                <span className="text-xs text-gray-500 w-32 truncate" title={aggregationKey(agg)}>
+                  → {aggregationKey(agg)}
+                </span>
                 <button
-                  onClick={() => removeFilter(idx)}
-                  className="px-2 py-1 bg-red-600/30 hover:bg-red-600/50 text-red-300 text-xs rounded transition-all"
+                  onClick={() => setAggregations(aggregations.filter((_, i) => i !== idx))}
+                  className={removeButtonClass}
                 >
                   <Trash2 className="w-4 h-4" />
                 </button>
@@ -179,34 +286,74 @@ export default function QueryBuilderUI({
             ))}
           </div>
         )}
+
+        {aggregations.length > 0 && (
+          <>
+            <div className="flex items-center justify-between mt-4 mb-2">
+              <h4 className="text-xs font-semibold text-gray-400">Having</h4>
+              <button
+                onClick={() => setHaving([...having, { column: aggregateKeys[0], operator: 'greater', value: '' }])}
+                className={addButtonClass}
+              >
+                <Plus className="w-4 h-4" /> Add Condition
+              </button>
+            </div>
+            {having.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">Keep every group</p>
+            ) : (
+              renderFilterRows(having, setHaving, aggregateKeys, HAVING_OPERATORS)
+            )}
+          </>
+        )}
       </div>
 
       {/* Sorting */}
       <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
-        <h3 className="text-sm font-semibold text-gray-300 mb-3">↕️ Sort By</h3>
-        <div className="flex gap-2">
-          <select
-            value={orderByColumn}
-            onChange={(e) => setOrderByColumn(e.target.value)}
-            className="flex-1 px-3 py-2 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50"
-          >
-            <option value="">Select column...</option>
-            {columns.map((col) => (
-              <option key={col} value={col}>
-                {col}
-              </option>
-            ))}
-          </select>
-
-          <select
-            value={orderByDirection}
-            onChange={(e) => setOrderByDirection(e.target.value as 'asc' | 'desc')}
-            className="px-3 py-2 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50"
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-300">↕️ Sort By</h3>
+          <button
+            onClick={() => setOrderBy([...orderBy, { column: sortableColumns[0] || '', direction: 'asc' }])}
+            className={addButtonClass}
           >
-            <option value="asc">Ascending</option>
-            <option value="desc">Descending</option>
-          </select>
+            <Plus className="w-4 h-4" /> Add Sort Key
+          </button>
         </div>
+        {orderBy.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">Original order</p>
+        ) : (
+          <div className="space-y-2">
+            {orderBy.map((order, idx) => (
+              <div key={idx} className="flex gap-2 items-center">
+                <span className="text-xs text-gray-500 w-10">{idx === 0 ? 'by' : 'then'}</span>
+                <select
+                  value={order.column}
+                  onChange={(e) => setOrderBy(updateAt(orderBy, idx, { column: e.target.value }))}
+                  className={`flex-1 ${selectClass}`}
+                >
+                  {!sortableColumns.includes(order.column) && <option value={order.column}>Select column...</option>}
+                  {sortableColumns.map((col) => (
+                    <option key={col} value={col}>
+                      {col}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={order.direction}
+                  onChange={(e) =>
+                    setOrderBy(updateAt(orderBy, idx, { direction: e.target.value as 'asc' | 'desc' }))
+                  }
+                  className={selectClass}
+                >
+                  <option value="asc">Ascending</option>
+                  <option value="desc">Descending</option>
+                </select>
+                <button onClick={() => setOrderBy(orderBy.filter((_, i) => i !== idx))} className={removeButtonClass}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Limit */}
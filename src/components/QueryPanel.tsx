@@ -0,0 +1,168 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import QueryBuilderUI from './QueryBuilderUI';
+import DataPreview from './DataPreview';
+import SavedQueriesPanel from './SavedQueriesPanel';
+import SqlEditor from './SqlEditor';
+import { executeQuery, generateSQL, type ExecutionResult, type QueryConfig } from '../utils/queryBuilder';
+import { executeSql, sqlToQueryConfig, SqlSyntaxError } from '../utils/sqlEngine';
+import { exportToCSV } from '../utils/exports';
+
+type DataRow = Record<string, string | number | null | undefined>;
+
+interface QueryPanelProps {
+  rows: DataRow[];
+  userName: string; // recorded as createdBy on saved queries
+}
+
+type QueryMode = 'visual' | 'sql';
+
+/**
+ * Query the cleaned rows with the visual builder or SQL, with the result rendered beside it.
+ * Switching modes carries the query across whenever the builder can express it.
+ */
+export default function QueryPanel({ rows, userName }: QueryPanelProps) {
+  const [mode, setMode] = useState<QueryMode>('visual');
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [error, setError] = useState('');
+  const [sqlText, setSqlText] = useState('');
+  const [sqlError, setSqlError] = useState<SqlSyntaxError | null>(null);
+  const [lastConfig, setLastConfig] = useState<QueryConfig | null>(null);
+  // Bumping the key remounts the builder with a loaded query
+  const [loaded, setLoaded] = useState<{ key: number; config?: QueryConfig }>({ key: 0 });
+  const draftRef = useRef<QueryConfig | null>(null);
+
+  const columns = useMemo(() => Object.keys(rows[0] || {}), [rows]);
+
+  const handleDraftChange = useCallback((config: QueryConfig) => {
+    draftRef.current = config;
+  }, []);
+
+  const showError = (err: unknown) => {
+    setResult(null);
+    if (err instanceof SqlSyntaxError) setSqlError(err);
+    else setError(err instanceof Error ? err.message : 'Query failed');
+  };
+
+  const handleExecute = (config: QueryConfig) => {
+    setError('');
+    setLastConfig(config);
+    try {
+      setResult(executeQuery(rows, config));
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleRunSql = () => {
+    setError('');
+    setSqlError(null);
+    try {
+      setResult(executeSql(rows, sqlText));
+      // Only SQL the builder can express can be saved as a query
+      setLastConfig(sqlToQueryConfig(sqlText));
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const loadIntoBuilder = (config: QueryConfig) => setLoaded((prev) => ({ key: prev.key + 1, config }));
+
+  const switchMode = (next: QueryMode) => {
+    if (next === mode) return;
+    setError('');
+    setSqlError(null);
+
+    if (next === 'sql') {
+      setSqlText(draftRef.current ? generateSQL(draftRef.current) : 'SELECT * FROM data LIMIT 100');
+      setMode('sql');
+      return;
+    }
+
+    if (sqlText.trim()) {
+      try {
+        const config = sqlToQueryConfig(sqlText);
+        if (!config) {
+          setError('This SQL uses features the visual builder cannot show. Simplify it or keep working in SQL.');
+          return;
+        }
+        loadIntoBuilder(config);
+      } catch (err) {
+        showError(err);
+        return;
+      }
+    }
+    setMode('visual');
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+      <div className="xl:col-span-2 space-y-6">
+        <div className="flex gap-1 p-1 bg-gray-900/50 border border-gray-700/50 rounded-lg">
+          {(['visual', 'sql'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => switchMode(m)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-semibold transition-all ${
+                mode === m ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {m === 'visual' ? 'Visual builder' : 'SQL'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'visual' ? (
+          <QueryBuilderUI
+            key={loaded.key}
+            columns={columns}
+            initialConfig={loaded.config}
+            onExecute={handleExecute}
+            onChange={handleDraftChange}
+          />
+        ) : (
+          <SqlEditor value={sqlText} onChange={setSqlText} onRun={handleRunSql} error={sqlError} />
+        )}
+
+        <SavedQueriesPanel
+          columns={columns}
+          currentConfig={lastConfig}
+          createdBy={userName}
+          onRun={(config) => {
+            loadIntoBuilder(config);
+            if (mode === 'sql') setSqlText(generateSQL(config));
+            handleExecute(config);
+          }}
+        />
+      </div>
+
+      <div className="xl:col-span-3 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        {result ? (
+          <>
+            <div className="bg-gray-900/50 border border-gray-700/50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+                <span>
+                  {result.rowCount.toLocaleString()} rows · {result.executionTime.toFixed(1)} ms
+                </span>
+              </div>
+              <pre className="text-xs text-cyan-300 whitespace-pre-wrap break-words">{result.sql}</pre>
+            </div>
+            {result.results.length > 0 ? (
+              <DataPreview
+                data={result.results}
+                onExport={() => exportToCSV(result.results, `query-result-${new Date().toISOString().substring(0, 10)}.csv`)}
+              />
+            ) : (
+              <p className="text-sm text-gray-400">The query returned no rows.</p>
+            )}
+          </>
+        ) : (
+          !error && !sqlError && <p className="text-sm text-gray-400">Build a query and run it to see results here.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { Clock, HardDrive, Loader2, Play, Trash2 } from 'lucide-react';
+import type { SessionSummary, StorageUsage } from '../utils/sessionStore';
+
+interface RecentAnalysesProps {
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  storageUsage: StorageUsage | null;
+  resumingId: string | null;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SCREEN_LABELS: Record<SessionSummary['screen'], string> = {
+  login: 'Upload',
+  upload: 'Upload',
+  cleaning: 'Cleaning',
+  visualization: 'Analysis',
+  summary: 'Summary',
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+/**
+ * Analyses saved in this browser, newest first, with the storage they take up.
+ */
+export default function RecentAnalyses({
+  sessions,
+  currentSessionId,
+  storageUsage,
+  resumingId,
+  onResume,
+  onDelete,
+}: RecentAnalysesProps) {
+  if (sessions.length === 0 && !storageUsage) return null;
+
+  const usedPercent = storageUsage && storageUsage.quota > 0 ? (storageUsage.usage / storageUsage.quota) * 100 : 0;
+
+  return (
+    <div className="mt-6 bg-gray-800/50 backdrop-blur border border-gray-700/50 rounded-2xl shadow-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Clock className="w-5 h-5 text-blue-400" />
+          Recent analyses
+        </h2>
+        {storageUsage && (
+          <div className="flex items-center gap-2 text-xs text-gray-400" title={storageUsage.persisted ? 'Storage is persistent' : 'The browser may clear this storage when space runs low'}>
+            <HardDrive className="w-4 h-4" />
+            {formatSize(storageUsage.usage)} of {formatSize(storageUsage.quota)}
+            <div className="w-20 bg-gray-700/50 rounded-full h-1.5">
+              <div
+                className={`h-1.5 rounded-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, Math.max(usedPercent, 1))}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-400">Analyses are saved here automatically as you work.</p>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((s) => (
+            <div key={s.id} className="flex items-center gap-3 p-3 bg-gray-700/30 border border-gray-600/40 rounded-lg">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-white truncate">
+                  {s.name}
+                  {s.datasetNames.length > 1 && (
+                    <span className="text-gray-400 font-normal"> + {s.datasetNames.length - 1} more</span>
+                  )}
+                  {s.id === currentSessionId && <span className="ml-2 text-xs text-blue-300">open</span>}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {s.rowCount.toLocaleString()} rows · {SCREEN_LABELS[s.screen]} · ~{formatSize(s.approxBytes)} · saved{' '}
+                  {s.updatedAt.toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => onResume(s.id)}
+                disabled={resumingId !== null}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {resumingId === s.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                {s.id === currentSessionId ? 'Continue' : 'Resume'}
+              </button>
+              <button
+                onClick={() => window.confirm(`Delete "${s.name}"? This cannot be undone.`) && onDelete(s.id)}
+                disabled={resumingId !== null}
+                className="p-1.5 rounded-md text-gray-400 hover:text-red-300 hover:bg-red-600/20 disabled:opacity-50"
+                title="Delete analysis"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useMemo, useState } from 'react';
+import { Check, Columns2 } from 'lucide-react';
+import type { DataRow } from '../types';
+import type { CleaningStepInput } from '../utils/cleaningPipeline';
+import { suggestCohortColumns } from '../utils/cohorts';
+import { analyzeRfm, SEGMENT_DESCRIPTIONS, type RfmGridCell, type RfmSegment } from '../utils/rfm';
+
+interface RfmPanelProps {
+  rows: DataRow[];
+  onAddPipelineStep?: (input: CleaningStepInput) => void;
+}
+
+// Drill-through selection: a single grid cell or a whole segment
+type RfmSelection = { r: number; f: number } | { segment: RfmSegment };
+
+const SEGMENT_COLORS: Record<RfmSegment, string> = {
+  Champions: '#10b981',
+  'Loyal Customers': '#22c55e',
+  'Potential Loyalists': '#84cc16',
+  'New Customers': '#06b6d4',
+  Promising: '#3b82f6',
+  'Need Attention': '#eab308',
+  'About to Sleep': '#f59e0b',
+  'At Risk': '#f97316',
+  "Can't Lose Them": '#ef4444',
+  Hibernating: '#6b7280',
+};
+
+const MAX_LISTED = 200;
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+const money = (val: number) => val.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * RFM segmentation of an orders export: customers scored 1-5 on recency, frequency and
+ * spend, shown as a recency × frequency grid. Clicking a cell or a segment lists its
+ * customers, and the segments can be added to the dataset as a pipeline column.
+ */
+export default function RfmPanel({ rows, onAddPipelineStep }: RfmPanelProps) {
+  const suggested = useMemo(() => suggestCohortColumns(rows), [rows]);
+  const headers = Object.keys(rows[0] || {});
+  const [customerColumn, setCustomerColumn] = useState<string | undefined>();
+  const [dateColumn, setDateColumn] = useState<string | undefined>();
+  const [amountColumn, setAmountColumn] = useState<string | undefined>();
+  const [referenceDate, setReferenceDate] = useState('');
+  const [selection, setSelection] = useState<RfmSelection | null>(null);
+  const [newColumn, setNewColumn] = useState('RFM Segment');
+  const [added, setAdded] = useState(false);
+
+  const customer = customerColumn ?? suggested.entityColumn ?? headers[0] ?? '';
+  const date = dateColumn ?? suggested.dateColumn ?? '';
+  const amount = amountColumn ?? suggested.valueColumn ?? '';
+
+  const { result, error } = useMemo(() => {
+    if (!customer || !date || !amount) return { result: null, error: '' };
+    try {
+      const config = { customerColumn: customer, dateColumn: date, amountColumn: amount, referenceDate: referenceDate || undefined };
+      return { result: analyzeRfm(rows, config), error: '' };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'The RFM scores could not be computed' };
+    }
+  }, [rows, customer, date, amount, referenceDate]);
+
+  const drilled = useMemo(() => {
+    if (!result || !selection) return [];
+    return result.customers
+      .filter((c) => ('segment' in selection ? c.segment === selection.segment : c.r === selection.r && c.f === selection.f))
+      .sort((a, b) => b.monetary - a.monetary);
+  }, [result, selection]);
+
+  const isSelected = (cell: RfmGridCell) =>
+    !!selection && ('segment' in selection ? selection.segment === cell.segment : selection.r === cell.r && selection.f === cell.f);
+
+  const columnTaken = headers.includes(newColumn.trim());
+  const handleAddColumn = () => {
+    if (!result || !onAddPipelineStep || !newColumn.trim() || columnTaken) return;
+    onAddPipelineStep({ kind: 'rfm_segment', config: result.config, column: newColumn.trim() });
+    setAdded(true);
+  };
+
+  const columnSelect = (label: string, value: string, onChange: (value: string) => void) => (
+    <label className="text-xs text-gray-400 space-y-1">
+      <span>{label}</span>
+      <select
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setSelection(null);
+          setAdded(false);
+        }}
+        className={selectClass}
+      >
+        {!value && <option value="">Pick a column</option>}
+        {headers.map((h) => (
+          <option key={h} value={h}>
+            {h}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300">RFM segments</h3>
+        <p className="text-xs text-gray-400">
+          Customers scored 1-5 by quintile on Recency (days since the last order), Frequency (orders) and Monetary value
+          (total spend), then named by their recency and frequency scores.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-3">
+        {columnSelect('Customer', customer, setCustomerColumn)}
+        {columnSelect('Order date', date, setDateColumn)}
+        {columnSelect('Amount', amount, setAmountColumn)}
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Reference date</span>
+          <input
+            type="date"
+            value={referenceDate || result?.referenceDate || ''}
+            onChange={(e) => {
+              setReferenceDate(e.target.value);
+              setAdded(false);
+            }}
+            className={selectClass}
+          />
+        </label>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-500">
+            {result.customers.length.toLocaleString()} customers · recency measured to {result.referenceDate}
+            {!referenceDate && ' (the day after the latest order)'}
+            {result.skippedRows > 0 && ` · ${result.skippedRows.toLocaleString()} rows skipped (no customer or date)`}
+            {referenceDate && (
+              <button onClick={() => setReferenceDate('')} className="ml-2 text-blue-400 hover:text-blue-300">
+                Reset
+              </button>
+            )}
+          </p>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Recency × frequency</h4>
+              <div className="flex">
+                <div className="flex items-center pr-2">
+                  <span className="text-xs text-gray-400 [writing-mode:vertical-rl] rotate-180">Frequency score</span>
+                </div>
+                <div className="flex-1">
+                  <div className="grid grid-cols-5 gap-1">
+                    {/* Highest frequency on top, most recent on the right */}
+                    {[...result.grid]
+                      .sort((a, b) => b.f - a.f || a.r - b.r)
+                      .map((cell) => (
+                        <button
+                          key={`${cell.r}-${cell.f}`}
+                          onClick={() => setSelection({ r: cell.r, f: cell.f })}
+                          title={`R${cell.r} F${cell.f}: ${cell.segment}`}
+                          className={`h-16 rounded p-1 text-left text-white border-2 ${
+                            isSelected(cell) ? 'border-white' : 'border-transparent'
+                          }`}
+                          style={{ backgroundColor: SEGMENT_COLORS[cell.segment], opacity: cell.customers ? 1 : 0.35 }}
+                        >
+                          <div className="text-[10px] leading-tight truncate">{cell.segment}</div>
+                          <div className="text-sm font-semibold">{cell.customers.toLocaleString()}</div>
+                        </button>
+                      ))}
+                  </div>
+                  <div className="grid grid-cols-5 gap-1 mt-1 text-center text-xs text-gray-400">
+                    {[1, 2, 3, 4, 5].map((r) => (
+                      <span key={r}>R{r}</span>
+                    ))}
+                  </div>
+                  <p className="text-center text-xs text-gray-400">Recency score</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Segments</h4>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="py-1 pr-2">Segment</th>
+                    <th className="py-1 px-2 text-right">Customers</th>
+                    <th className="py-1 px-2 text-right">Revenue</th>
+                    <th className="py-1 px-2 text-right">Avg days</th>
+                    <th className="py-1 px-2 text-right">Avg orders</th>
+                    <th className="py-1 pl-2 text-right">Avg spend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.segments.map((s) => (
+                    <tr
+                      key={s.segment}
+                      onClick={() => setSelection({ segment: s.segment })}
+                      title={SEGMENT_DESCRIPTIONS[s.segment]}
+                      className={`cursor-pointer border-t border-gray-700/50 hover:bg-gray-700/40 ${
+                        selection && 'segment' in selection && selection.segment === s.segment ? 'bg-gray-700/60' : ''
+                      }`}
+                    >
+                      <td className="py-1 pr-2 text-white whitespace-nowrap">
+                        <span
+                          className="inline-block w-2 h-2 rounded-full mr-2"
+                          style={{ backgroundColor: SEGMENT_COLORS[s.segment] }}
+                        />
+                        {s.segment}
+                      </td>
+                      <td className="py-1 px-2 text-right text-gray-300">
+                        {s.customers.toLocaleString()} ({(s.share * 100).toFixed(1)}%)
+                      </td>
+                      <td className="py-1 px-2 text-right text-gray-300">{money(s.revenue)}</td>
+                      <td className="py-1 px-2 text-right text-gray-300">{s.avgRecency}</td>
+                      <td className="py-1 px-2 text-right text-gray-300">{s.avgFrequency}</td>
+                      <td className="py-1 pl-2 text-right text-gray-300">{money(s.avgMonetary)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {selection && (
+            <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-300">
+                  {'segment' in selection ? selection.segment : `R${selection.r} F${selection.f}`} ·{' '}
+                  {drilled.length.toLocaleString()} customers
+                </h4>
+                <button onClick={() => setSelection(null)} className="text-xs text-gray-400 hover:text-white">
+                  Close
+                </button>
+              </div>
+              {drilled.length === 0 ? (
+                <p className="text-xs text-gray-400">No customers in this cell.</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-800">
+                      <tr className="text-gray-400 text-left">
+                        <th className="py-1 pr-2">{customer}</th>
+                        <th className="py-1 px-2 text-right">Days since last order</th>
+                        <th className="py-1 px-2 text-right">Orders</th>
+                        <th className="py-1 px-2 text-right">Spend</th>
+                        <th className="py-1 px-2 text-right">RFM</th>
+                        <th className="py-1 pl-2">Segment</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {drilled.slice(0, MAX_LISTED).map((c) => (
+                        <tr key={c.customer} className="border-t border-gray-700/50">
+                          <td className="py-1 pr-2 text-white">{c.customer}</td>
+                          <td className="py-1 px-2 text-right text-gray-300">{c.recency}</td>
+                          <td className="py-1 px-2 text-right text-gray-300">{c.frequency}</td>
+                          <td className="py-1 px-2 text-right text-gray-300">{money(c.monetary)}</td>
+                          <td className="py-1 px-2 text-right text-gray-300 font-mono">{c.score}</td>
+                          <td className="py-1 pl-2 text-gray-300">{c.segment}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {drilled.length > MAX_LISTED && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Showing the top {MAX_LISTED} by spend of {drilled.length.toLocaleString()}.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {onAddPipelineStep && (
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>Segment column name</span>
+                <input
+                  value={newColumn}
+                  onChange={(e) => {
+                    setNewColumn(e.target.value);
+                    setAdded(false);
+                  }}
+                  className={selectClass}
+                />
+              </label>
+              <button
+                onClick={handleAddColumn}
+                disabled={!newColumn.trim() || columnTaken || added}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400 text-white rounded-lg text-sm"
+              >
+                {added ? <Check className="w-4 h-4" /> : <Columns2 className="w-4 h-4" />}
+                {added ? 'Added to the cleaning pipeline' : 'Add segments as a column'}
+              </button>
+              {columnTaken && !added && <span className="text-xs text-yellow-300">The dataset already has a column with this name.</span>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, FileDown, FileUp, Play, Save, Trash2 } from 'lucide-react';
+import type { SavedQuery } from '../types';
+import type { QueryConfig } from '../utils/queryBuilder';
+import {
+  allTags,
+  deleteSavedQuery,
+  exportSavedQueries,
+  importSavedQueries,
+  listSavedQueries,
+  markQueryRun,
+  missingColumns,
+  saveQuery,
+  savedQueryConfig,
+  searchSavedQueries,
+} from '../utils/savedQueries';
+import { downloadFile } from '../utils/exports';
+
+interface SavedQueriesPanelProps {
+  columns: string[]; // columns of the loaded dataset
+  currentConfig: QueryConfig | null; // last query run from the builder
+  createdBy: string;
+  onRun: (config: QueryConfig) => void;
+}
+
+/**
+ * Saved query library: save the last run query, search by name or tag,
+ * and re-run against the loaded dataset when its columns still line up.
+ */
+export default function SavedQueriesPanel({ columns, currentConfig, createdBy, onRun }: SavedQueriesPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [activeTag, setActiveTag] = useState<string | undefined>();
+  const [error, setError] = useState('');
+
+  const refresh = () =>
+    listSavedQueries()
+      .then(setQueries)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load saved queries'));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async () => {
+    if (!currentConfig) return;
+    setError('');
+    try {
+      await saveQuery({ name, description, tags: tagInput.split(','), config: currentConfig, createdBy });
+      setName('');
+      setDescription('');
+      setTagInput('');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save query');
+    }
+  };
+
+  const handleRun = async (query: SavedQuery) => {
+    onRun(savedQueryConfig(query));
+    const updated = await markQueryRun(query.id).catch(() => undefined);
+    if (updated) setQueries((prev) => prev.map((q) => (q.id === updated.id ? updated : q)));
+  };
+
+  const handleDelete = async (query: SavedQuery) => {
+    if (!confirm(`Delete saved query "${query.name}"?`)) return;
+    await deleteSavedQuery(query.id);
+    setQueries((prev) => prev.filter((q) => q.id !== query.id));
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      exportSavedQueries(queries),
+      `saved-queries-${new Date().toISOString().split('T')[0]}.json`,
+      'application/json'
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      await importSavedQueries(await file.text());
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import queries');
+    }
+  };
+
+  const tags = allTags(queries);
+  const visible = searchSavedQueries(queries, search, activeTag);
+
+  return (
+    <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">💾 Saved Queries</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 bg-gray-700 text-gray-200 text-xs rounded border border-gray-600 hover:bg-gray-600 transition-colors"
+          >
+            <FileUp className="w-3.5 h-3.5" /> Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={queries.length === 0}
+            className="flex items-center gap-1 px-2 py-1 bg-gray-700 text-gray-200 text-xs rounded border border-gray-600 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileDown className="w-3.5 h-3.5" /> Export
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {error && <div className="p-2 bg-red-500/20 border border-red-500/30 rounded text-xs text-red-300">{error}</div>}
+
+      {/* Save form */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Query name"
+          className="w-full px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600"
+        />
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="w-full px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600"
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="flex-1 px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!currentConfig || !name.trim()}
+            title={currentConfig ? 'Save the last query you ran' : 'Run a query first'}
+            className="flex items-center gap-1 px-3 py-1 bg-indigo-600/50 hover:bg-indigo-600/70 text-indigo-200 text-xs font-semibold rounded transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-3.5 h-3.5" /> Save
+          </button>
+        </div>
+      </div>
+
+      {/* Search */}
+      {queries.length > 0 && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search saved queries..."
+            className="w-full px-2 py-1 bg-gray-700/50 text-gray-200 text-xs rounded border border-gray-600/50 placeholder-gray-600"
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? undefined : tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs transition-all ${
+                    activeTag === tag ? 'bg-blue-600 text-white' : 'bg-gray-700/50 text-gray-400 hover:bg-gray-600/50'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* List */}
+      {queries.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">No saved queries yet</p>
+      ) : visible.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">No saved queries match</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {visible.map((query) => {
+            const missing = missingColumns(savedQueryConfig(query), columns);
+            return (
+              <li key={query.id} className="p-2 bg-gray-700/20 rounded border border-gray-600/30">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{query.name}</p>
+                    {query.description && <p className="text-xs text-gray-400">{query.description}</p>}
+                    <p className="text-xs text-gray-500">
+                      {query.createdBy} · {query.createdAt.toLocaleDateString()}
+                      {query.lastRun && ` · last run ${query.lastRun.toLocaleString()}`}
+                    </p>
+                    {query.tags.length > 0 && (
+                      <p className="text-xs text-blue-300 mt-0.5">{query.tags.map((t) => `#${t}`).join(' ')}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleRun(query)}
+                    disabled={missing.length > 0}
+                    title={missing.length > 0 ? 'Columns missing from this dataset' : 'Run on the loaded dataset'}
+                    className="p-1.5 rounded text-green-300 hover:bg-green-600/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(query)}
+                    className="p-1.5 rounded text-red-300 hover:bg-red-600/30 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {missing.length > 0 && (
+                  <p className="flex items-center gap-1 mt-1 text-xs text-yellow-300">
+                    <AlertTriangle className="w-3.5 h-3.5" /> Not in this dataset: {missing.join(', ')}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,24 @@
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
-import type { SegmentComparison } from '../utils/drillDown';
+import type { AllPairsComparison, SegmentComparison, SegmentTest } from '../utils/drillDown';
+import { P_VALUE_CORRECTION_LABELS, describeCliffsDelta, describeCohensD } from '../utils/statistics';
 
 interface SegmentComparisonUIProps {
   comparison: SegmentComparison;
+  allPairs?: AllPairsComparison; // every pair of segments, with corrected p-values
+  onSelectPair?: (segment1: string, segment2: string) => void;
 }
 
-export default function SegmentComparisonUI({ comparison }: SegmentComparisonUIProps) {
+const formatP = (p: number) => (p < 0.0001 ? '< 0.0001' : String(p));
+
+function effectSummary(test: SegmentTest): string {
+  if (test.test === 'chisquare') return `Cramér's V ${test.cramersV}`;
+  return `Cohen's d ${test.cohensD} (${describeCohensD(test.cohensD ?? 0)}), Cliff's δ ${test.cliffsDelta} (${describeCliffsDelta(test.cliffsDelta ?? 0)})`;
+}
+
+export default function SegmentComparisonUI({ comparison, allPairs, onSelectPair }: SegmentComparisonUIProps) {
+  const { test } = comparison;
+  const corrected = test !== undefined && test.adjustedPValue !== test.pValue;
+
   return (
     <div className="space-y-6">
       {/* Segment Overview */}
@@ -194,11 +207,108 @@ export default function SegmentComparisonUI({ comparison }: SegmentComparisonUIP
             ? 'text-orange-300'
             : 'text-green-300'
         }`}>
-          {comparison.isDifferentSignificant
-            ? '⚠️ Segments show significant differences (>10% variance)'
-            : '✅ Segments are relatively similar'}
+          {test
+            ? comparison.isDifferentSignificant
+              ? '⚠️ Segments differ significantly'
+              : '✅ No significant difference between the segments'
+            : comparison.isDifferentSignificant
+              ? '⚠️ Segments show significant differences (>10% variance)'
+              : '✅ Segments are relatively similar'}
         </p>
+        {test && (
+          <div className="mt-2 space-y-1 text-xs text-gray-300">
+            <p>
+              {test.test === 'welch' ? "Welch's t" : 'χ²'} = {test.statistic}, p = {formatP(test.pValue)}
+              {corrected && `, adjusted p = ${formatP(test.adjustedPValue)}`}
+            </p>
+            {test.meanDiffCI && (
+              <p>
+                Mean difference {test.meanDiff} ({Math.round(test.meanDiffCI.confidence * 100)}% bootstrap CI{' '}
+                {test.meanDiffCI.lower} to {test.meanDiffCI.upper})
+              </p>
+            )}
+            <p>{effectSummary(test)}</p>
+          </div>
+        )}
       </div>
+
+      {/* All-pairs comparison */}
+      {allPairs && (
+        <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-300 mb-1">🔀 All pairs</h3>
+          <p className="text-xs text-gray-400 mb-3">
+            {allPairs.significantCount} of {allPairs.pairs.length} pairs differ at α = {allPairs.alpha} after{' '}
+            {P_VALUE_CORRECTION_LABELS[allPairs.correction]}
+            {allPairs.correction !== 'none' && ` (${allPairs.uncorrectedSignificantCount} without correction)`}.
+            {allPairs.omittedSegments.length > 0 &&
+              ` Left out ${allPairs.omittedSegments.length} segment${allPairs.omittedSegments.length === 1 ? '' : 's'}: ${allPairs.omittedSegments.slice(0, 5).join(', ')}${allPairs.omittedSegments.length > 5 ? '…' : ''}.`}
+          </p>
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-blue-300 border-b border-gray-700">
+                  <th className="px-2 py-1">Pair</th>
+                  <th className="px-2 py-1">n</th>
+                  {allPairs.measure === 'numeric' ? (
+                    <>
+                      <th className="px-2 py-1">Mean diff (CI)</th>
+                      <th className="px-2 py-1">Cohen's d</th>
+                      <th className="px-2 py-1">Cliff's δ</th>
+                    </>
+                  ) : (
+                    <th className="px-2 py-1">Cramér's V</th>
+                  )}
+                  <th className="px-2 py-1">p</th>
+                  <th className="px-2 py-1">Adjusted p</th>
+                </tr>
+              </thead>
+              <tbody>
+                {allPairs.pairs.map((pair) => {
+                  const selected =
+                    pair.segment1 === comparison.segment1.name && pair.segment2 === comparison.segment2.name;
+                  return (
+                    <tr
+                      key={`${pair.segment1} vs ${pair.segment2}`}
+                      onClick={() => onSelectPair?.(pair.segment1, pair.segment2)}
+                      className={`border-b border-gray-700/50 text-gray-300 ${onSelectPair ? 'cursor-pointer hover:bg-gray-700/30' : ''} ${
+                        selected ? 'bg-blue-500/10' : ''
+                      }`}
+                    >
+                      <td className="px-2 py-1">
+                        {pair.segment1} vs {pair.segment2}
+                      </td>
+                      <td className="px-2 py-1 text-gray-400">
+                        {pair.n1} / {pair.n2}
+                      </td>
+                      {allPairs.measure === 'numeric' ? (
+                        <>
+                          <td className="px-2 py-1">
+                            {pair.meanDiff}
+                            {pair.meanDiffCI && (
+                              <span className="text-gray-500">
+                                {' '}
+                                [{pair.meanDiffCI.lower}, {pair.meanDiffCI.upper}]
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-2 py-1">{pair.cohensD}</td>
+                          <td className="px-2 py-1">{pair.cliffsDelta}</td>
+                        </>
+                      ) : (
+                        <td className="px-2 py-1">{pair.cramersV}</td>
+                      )}
+                      <td className="px-2 py-1">{formatP(pair.pValue)}</td>
+                      <td className={`px-2 py-1 font-semibold ${pair.significant ? 'text-orange-300' : 'text-gray-400'}`}>
+                        {formatP(pair.adjustedPValue)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
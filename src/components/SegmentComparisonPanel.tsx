@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react';
+import { Play } from 'lucide-react';
+import type { DataRow } from '../types';
+import SegmentComparisonUI from './SegmentComparison';
+import { compareAllSegments, compareSegments, type AllPairsComparison } from '../utils/drillDown';
+import { P_VALUE_CORRECTION_LABELS, type PValueCorrection } from '../utils/statistics';
+import { categoricalColumns, numericColumns } from '../utils/statisticalWorkbench';
+
+interface SegmentComparisonPanelProps {
+  rows: DataRow[];
+}
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+/**
+ * Compare every segment of a column against every other on one measure,
+ * with corrected p-values, effect sizes and bootstrap intervals; click a pair for its detail.
+ */
+export default function SegmentComparisonPanel({ rows }: SegmentComparisonPanelProps) {
+  const [segmentColumn, setSegmentColumn] = useState('');
+  const [measureColumn, setMeasureColumn] = useState('');
+  const [correction, setCorrection] = useState<PValueCorrection>('holm');
+  const [report, setReport] = useState<{ result: AllPairsComparison; rows: DataRow[] } | null>(null);
+  const [selected, setSelected] = useState<[string, string] | null>(null);
+  const [error, setError] = useState('');
+
+  const categorical = useMemo(() => categoricalColumns(rows), [rows]);
+  const numeric = useMemo(() => numericColumns(rows), [rows]);
+
+  const segment = categorical.includes(segmentColumn) ? segmentColumn : (categorical[0] ?? '');
+  const measures = [...numeric, ...categorical.filter((c) => !numeric.includes(c))].filter((c) => c !== segment);
+  const measure = measures.includes(measureColumn) ? measureColumn : (measures[0] ?? '');
+
+  // A report only applies to the data and settings it was run on
+  const stale =
+    !report ||
+    report.rows !== rows ||
+    report.result.column !== segment ||
+    report.result.analyzeColumn !== measure ||
+    report.result.correction !== correction;
+  const current = stale ? null : report.result;
+  const [first, second] = selected ?? [current?.pairs[0]?.segment1, current?.pairs[0]?.segment2];
+
+  const detail = useMemo(() => {
+    if (!current || first === undefined || second === undefined) return null;
+    const comparison = compareSegments(rows, segment, first, second, measure);
+    const tested = current.pairs.find((p) => p.segment1 === first && p.segment2 === second);
+    // Show the family-corrected test from the report rather than the lone-pair one
+    return tested ? { ...comparison, test: tested, isDifferentSignificant: tested.significant } : comparison;
+  }, [current, first, second, rows, segment, measure]);
+
+  const handleRun = () => {
+    setError('');
+    setSelected(null);
+    try {
+      const result = compareAllSegments(rows, segment, measure, { correction });
+      if (result.pairs.length === 0) throw new Error('Need at least two segments with data to compare.');
+      setReport({ result, rows });
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'The comparison could not be run');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-300">Compare segments</h3>
+        <p className="text-xs text-gray-400">
+          Tests every pair of segments and corrects the p-values, so comparing many segments does not flag differences by
+          chance.
+        </p>
+      </div>
+      <div className="grid md:grid-cols-4 gap-3 items-end">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Segment by</span>
+          <select value={segment} onChange={(e) => setSegmentColumn(e.target.value)} className={selectClass}>
+            {categorical.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Measure</span>
+          <select value={measure} onChange={(e) => setMeasureColumn(e.target.value)} className={selectClass}>
+            {measures.map((c) => (
+              <option key={c} value={c}>
+                {c}
+                {numeric.includes(c) ? '' : ' (categorical)'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Correction</span>
+          <select value={correction} onChange={(e) => setCorrection(e.target.value as PValueCorrection)} className={selectClass}>
+            {(Object.keys(P_VALUE_CORRECTION_LABELS) as PValueCorrection[]).map((m) => (
+              <option key={m} value={m}>
+                {P_VALUE_CORRECTION_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!segment || !measure}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Play className="w-4 h-4" /> Compare all pairs
+        </button>
+      </div>
+
+      {!segment && <p className="text-sm text-yellow-300">This dataset has no categorical columns to segment by.</p>}
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {current && detail && (
+        <SegmentComparisonUI comparison={detail} allPairs={current} onSelectPair={(a, b) => setSelected([a, b])} />
+      )}
+    </div>
+  );
+}
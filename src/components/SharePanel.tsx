@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Copy, Link2, Loader2, Share2, Trash2, X } from 'lucide-react';
+import type { Comment, DataRow, SavedQuery } from '../types';
+import { generateInsights } from '../utils/advancedAnalysis';
+import { listSavedQueries, missingColumns, savedQueryConfig } from '../utils/savedQueries';
+import {
+  EXPIRY_OPTIONS,
+  deleteOwnedShare,
+  expiryFromDays,
+  getShareBackend,
+  listOwnedShares,
+  ownedShareStatus,
+  publishAnalysis,
+  updateOwnedShare,
+  type OwnedShare,
+  type ShareStatus,
+} from '../utils/sharing';
+
+interface SharePanelProps {
+  rows: DataRow[];
+  ownerId: string;
+  ownerName: string;
+  defaultName: string;
+  comments?: Comment[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ShareStatus, string> = {
+  active: 'bg-green-500/20 text-green-300 border-green-500/30',
+  revoked: 'bg-red-500/20 text-red-300 border-red-500/30',
+  expired: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900/60 text-white text-sm rounded-lg border border-gray-600 focus:outline-none focus:border-blue-500';
+
+/**
+ * Publish the current data, its insights, matching saved queries and comments as a read-only
+ * link, and manage the links already published from this browser.
+ */
+export default function SharePanel({ rows, ownerId, ownerName, defaultName, comments = [], onClose }: SharePanelProps) {
+  const backend = getShareBackend();
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState('');
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [includeQueries, setIncludeQueries] = useState(true);
+  const [queries, setQueries] = useState<SavedQuery[]>([]);
+  const [owned, setOwned] = useState<OwnedShare[]>(() => listOwnedShares(ownerId));
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const columns = useMemo(() => Object.keys(rows[0] || {}), [rows]);
+  const insights = useMemo(() => generateInsights(rows, columns), [rows, columns]);
+
+  // Only queries that can run against this data travel with it
+  useEffect(() => {
+    let active = true;
+    listSavedQueries()
+      .then((all) => {
+        if (active) setQueries(all.filter((q) => missingColumns(savedQueryConfig(q), columns).length === 0));
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      active = false;
+    };
+  }, [columns]);
+
+  const run = async (id: string, fn: () => Promise<void>) => {
+    setBusyId(id);
+    setError('');
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePublish = () =>
+    run('new', async () => {
+      const share = await publishAnalysis(backend, ownerId, {
+        name,
+        description,
+        createdBy: ownerName,
+        data: rows,
+        insights,
+        queries: includeQueries ? queries : [],
+        comments,
+        expiresAt: expiryFromDays(expiryDays) ?? undefined,
+      });
+      setOwned([share, ...owned]);
+      setDescription('');
+    });
+
+  const replace = (share: OwnedShare) => setOwned((list) => list.map((s) => (s.id === share.id ? share : s)));
+
+  const handleCopy = async (share: OwnedShare) => {
+    try {
+      await navigator.clipboard.writeText(share.shareLink);
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId((id) => (id === share.id ? null : id)), 1500);
+    } catch {
+      setError('Copy failed. Select the link and copy it by hand.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-gray-800 border border-gray-700/50 rounded-xl p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Share2 className="w-6 h-6 text-blue-400" />
+            <h2 className="text-xl font-semibold text-white">Share analysis</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {backend.id === 'local' && (
+          <p className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-xs text-yellow-200">
+            No share server is configured, so links only open in this browser. Set VITE_SHARE_API_URL to publish through
+            a server.
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        <div className="space-y-3 p-4 bg-gray-900/40 border border-gray-700/50 rounded-lg">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What should viewers know? (optional)"
+            rows={2}
+            className={inputClass}
+          />
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              Expires
+              <select
+                value={expiryDays ?? ''}
+                onChange={(e) => setExpiryDays(e.target.value === '' ? null : Number(e.target.value))}
+                className="px-2 py-1 bg-gray-700/50 text-gray-200 rounded border border-gray-600/50"
+              >
+                {EXPIRY_OPTIONS.map((opt) => (
+                  <option key={opt.label} value={opt.days ?? ''}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeQueries} onChange={(e) => setIncludeQueries(e.target.checked)} />
+              Include {queries.length} saved {queries.length === 1 ? 'query' : 'queries'}
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Shares {rows.length.toLocaleString()} rows, {insights.length} insights and {comments.length} comments.
+            Anyone with the link can view them.
+          </p>
+          <button
+            onClick={handlePublish}
+            disabled={busyId !== null || rows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busyId === 'new' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create link
+          </button>
+        </div>
+
+        <h3 className="mt-6 mb-2 text-sm font-semibold text-gray-300">Your links</h3>
+        {owned.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing shared yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {owned.map((share) => {
+              const status = ownedShareStatus(share);
+              const busy = busyId === share.id;
+              return (
+                <div key={share.id} className="p-3 bg-gray-700/30 border border-gray-600/40 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <p className="flex-1 text-sm font-medium text-white truncate">{share.name}</p>
+                    <span className={`px-2 py-0.5 text-xs rounded border ${STATUS_STYLES[status]}`}>{status}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input readOnly value={share.shareLink} onFocus={(e) => e.target.select()} className={`${inputClass} text-xs`} />
+                    <button
+                      onClick={() => handleCopy(share)}
+                      className="p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-600/50"
+                      title="Copy link"
+                    >
+                      {copiedId === share.id ? <Check className="w-4 h-4 text-green-300" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                    <span>
+                      {share.rowCount.toLocaleString()} rows · shared {new Date(share.createdAt).toLocaleDateString()} ·{' '}
+                      {share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleString()}` : 'never expires'}
+                    </span>
+                    <span className="flex-1" />
+                    <select
+                      value=""
+                      disabled={busy}
+                      onChange={(e) => {
+                        const days = e.target.value === 'never' ? null : Number(e.target.value);
+                        run(share.id, async () =>
+                          replace(await updateOwnedShare(backend, share, { expiresAt: expiryFromDays(days) }))
+                        );
+                      }}
+                      className="px-2 py-1 bg-gray-700/50 text-gray-200 rounded border border-gray-600/50"
+                    >
+                      <option value="" disabled>
+                        Set expiry…
+                      </option>
+                      {EXPIRY_OPTIONS.map((opt) => (
+                        <option key={opt.label} value={opt.days ?? 'never'}>
+                          {opt.days === null ? 'Never' : `${opt.label} from now`}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() =>
+                        run(share.id, async () =>
+                          replace(await updateOwnedShare(backend, share, { isPublic: !share.isPublic }))
+                        )
+                      }
+                      disabled={busy}
+                      className="px-2 py-1 rounded border border-gray-600/50 text-gray-200 hover:bg-gray-600/50 disabled:opacity-50"
+                    >
+                      {share.isPublic ? 'Revoke' : 'Re-enable'}
+                    </button>
+                    <button
+                      onClick={() =>
+                        window.confirm(`Delete the link for "${share.name}"?`) &&
+                        run(share.id, async () => {
+                          await deleteOwnedShare(backend, share);
+                          setOwned((list) => list.filter((s) => s.id !== share.id));
+                        })
+                      }
+                      disabled={busy}
+                      className="p-1 rounded-md text-gray-400 hover:text-red-300 disabled:opacity-50"
+                      title="Delete link"
+                    >
+                      {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Clock, Eye, Lightbulb, Link2Off, Loader2, MessageSquare, Search } from 'lucide-react';
+import type { SharedAnalysis } from '../types';
+import DataPreview from './DataPreview';
+import { exportToCSV } from '../utils/exports';
+import { generateSQL } from '../utils/queryBuilder';
+import { savedQueryConfig } from '../utils/savedQueries';
+import { getShareBackend, type ShareLookup } from '../utils/sharing';
+
+interface SharedAnalysisViewerProps {
+  shareId: string;
+  onExit: () => void;
+}
+
+const UNAVAILABLE: Record<Exclude<ShareLookup['status'], 'active'>, { title: string; text: string }> = {
+  revoked: { title: 'This link was revoked', text: 'The owner stopped sharing this analysis.' },
+  expired: { title: 'This link has expired', text: 'Ask the owner for a new link.' },
+  missing: { title: 'Analysis not found', text: 'The link may be mistyped, or the analysis was deleted.' },
+};
+
+/**
+ * Read-only view of a shared analysis, opened from its link without signing in.
+ */
+export default function SharedAnalysisViewer({ shareId, onExit }: SharedAnalysisViewerProps) {
+  const [lookup, setLookup] = useState<ShareLookup | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    getShareBackend()
+      .get(shareId)
+      .then((result) => {
+        if (active) setLookup(result);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Failed to open the shared analysis');
+      });
+    return () => {
+      active = false;
+    };
+  }, [shareId]);
+
+  const shell = (children: React.ReactNode) => (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <span className="flex items-center gap-2 text-sm text-gray-400">
+            <Eye className="w-4 h-4" /> Read-only shared analysis
+          </span>
+          <button onClick={onExit} className="text-sm text-blue-300 hover:text-blue-200">
+            Open AutoInsight →
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+
+  if (error || (lookup && lookup.status !== 'active')) {
+    const message = lookup && lookup.status !== 'active' ? UNAVAILABLE[lookup.status] : { title: 'Could not open this link', text: error };
+    return shell(
+      <div className="text-center py-24">
+        <Link2Off className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+        <h1 className="text-2xl font-bold text-white mb-2">{message.title}</h1>
+        <p className="text-gray-400">{message.text}</p>
+      </div>
+    );
+  }
+
+  if (!lookup) {
+    return shell(
+      <div className="flex items-center justify-center gap-2 py-24 text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" /> Loading shared analysis…
+      </div>
+    );
+  }
+
+  const analysis: SharedAnalysis = lookup.analysis;
+
+  return shell(
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-4xl font-bold text-white mb-2">{analysis.name}</h1>
+        {analysis.description && <p className="text-gray-300 mb-2">{analysis.description}</p>}
+        <p className="flex items-center gap-2 text-sm text-gray-400">
+          <Clock className="w-4 h-4" />
+          Shared by {analysis.createdBy} on {analysis.createdAt.toLocaleDateString()}
+          {analysis.expiresAt && ` · available until ${analysis.expiresAt.toLocaleString()}`}
+        </p>
+      </div>
+
+      {analysis.insights.length > 0 && (
+        <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-5">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white mb-3">
+            <Lightbulb className="w-5 h-5 text-yellow-300" /> Insights
+          </h2>
+          <ul className="space-y-1.5 text-sm text-gray-300">
+            {analysis.insights.map((insight, i) => (
+              <li key={i}>{insight}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-5">
+        <h2 className="text-lg font-semibold text-white mb-3">Data ({analysis.data.length.toLocaleString()} rows)</h2>
+        <DataPreview data={analysis.data} onExport={() => exportToCSV(analysis.data, `${analysis.name}.csv`)} />
+      </div>
+
+      {analysis.queries.length > 0 && (
+        <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-5">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white mb-3">
+            <Search className="w-5 h-5 text-cyan-300" /> Saved queries
+          </h2>
+          <div className="space-y-3">
+            {analysis.queries.map((q) => (
+              <div key={q.id} className="p-3 bg-gray-900/40 border border-gray-700/50 rounded-lg">
+                <p className="text-sm font-medium text-white">{q.name}</p>
+                {q.description && <p className="text-xs text-gray-400 mt-0.5">{q.description}</p>}
+                <pre className="mt-2 text-xs text-cyan-300 whitespace-pre-wrap break-words">
+                  {generateSQL(savedQueryConfig(q))}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.comments.length > 0 && (
+        <div className="bg-gray-800/50 border border-gray-700/50 rounded-xl p-5">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white mb-3">
+            <MessageSquare className="w-5 h-5 text-blue-300" /> Comments
+          </h2>
+          <div className="space-y-2">
+            {analysis.comments.map((c) => (
+              <div key={c.id} className={`p-3 rounded-lg bg-gray-900/40 ${c.resolved ? 'opacity-60' : ''}`}>
+                <p className="text-xs text-gray-400">
+                  {c.author} · {c.timestamp.toLocaleString()}
+                  {c.resolved && ' · resolved'}
+                </p>
+                <p className="text-sm text-gray-200 mt-1 whitespace-pre-wrap">{c.text}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
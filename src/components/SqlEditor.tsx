@@ -0,0 +1,68 @@
+import { Play } from 'lucide-react';
+import { SQL_FUNCTIONS, SqlSyntaxError, TABLE_NAME } from '../utils/sqlEngine';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (sql: string) => void;
+  onRun: () => void;
+  error: SqlSyntaxError | null;
+}
+
+/**
+ * Plain SQL editor over the loaded rows. Ctrl/Cmd+Enter runs the query;
+ * syntax errors point at the offending line with a caret.
+ */
+export default function SqlEditor({ value, onChange, onRun, error }: SqlEditorProps) {
+  const errorLine = error ? value.split('\n')[error.line - 1] ?? '' : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-800/30 border border-gray-700/50 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-300">🧾 SQL</h3>
+          <span className="text-xs text-gray-500">
+            Table: <code className="text-cyan-300">{TABLE_NAME}</code>
+          </span>
+        </div>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              onRun();
+            }
+          }}
+          spellCheck={false}
+          rows={10}
+          className="w-full px-3 py-2 bg-gray-900/60 text-gray-100 text-xs font-mono rounded border border-gray-600/50 focus:outline-none focus:border-indigo-500"
+          placeholder={`SELECT * FROM ${TABLE_NAME} LIMIT 100`}
+        />
+
+        {error && (
+          <div className="mt-3 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-xs text-red-300 font-mono overflow-x-auto">
+            <p className="font-sans mb-1">{error.message}</p>
+            <pre className="whitespace-pre">{errorLine}</pre>
+            <pre className="whitespace-pre">{`${' '.repeat(error.column - 1)}^`}</pre>
+          </div>
+        )}
+
+        <details className="mt-3 text-xs text-gray-500">
+          <summary className="cursor-pointer hover:text-gray-300">Supported functions</summary>
+          <p className="mt-2 leading-relaxed">{SQL_FUNCTIONS.join(', ')}</p>
+          <p className="mt-1">
+            Dates are YYYY-MM-DD text. Units for DATE_TRUNC, DATE_PART, DATE_ADD and DATE_DIFF: day, week, month,
+            quarter, year.
+          </p>
+        </details>
+      </div>
+
+      <button
+        onClick={onRun}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-indigo-600 to-blue-600 text-white rounded-lg hover:from-indigo-700 hover:to-blue-700 transition-all font-semibold"
+      >
+        <Play className="w-5 h-5" /> Run SQL
+      </button>
+    </div>
+  );
+}
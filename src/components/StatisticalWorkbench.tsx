@@ -0,0 +1,376 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, FlaskConical, Play, Trash2 } from 'lucide-react';
+import type { DataRow, StatisticalTest } from '../types';
+import { getSignificanceLabel } from '../utils/statistics';
+import {
+  WORKBENCH_TESTS,
+  categoricalColumns,
+  checkAssumptions,
+  contingencyTable,
+  groupValues,
+  numericColumns,
+  runWorkbenchTest,
+  testDefinition,
+  type WorkbenchTestId,
+} from '../utils/statisticalWorkbench';
+
+interface StatisticalWorkbenchProps {
+  rows: DataRow[];
+  tests: StatisticalTest[];
+  onTestsChange: (tests: StatisticalTest[]) => void;
+}
+
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+const PREVIEW_CATEGORIES = 8;
+
+const selectClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm';
+
+function testLabel(id: WorkbenchTestId): string {
+  return WORKBENCH_TESTS.find((t) => t.id === id)?.label ?? id;
+}
+
+/**
+ * Pick a hypothesis test, point it at dataset columns, check its assumptions and run it.
+ * Results are kept with the dataset so they survive a reload.
+ */
+export default function StatisticalWorkbench({ rows, tests, onTestsChange }: StatisticalWorkbenchProps) {
+  const [testId, setTestId] = useState<WorkbenchTestId>('welch');
+  const [columnA, setColumnA] = useState('');
+  const [columnB, setColumnB] = useState('');
+  const [groupA, setGroupA] = useState('');
+  const [groupB, setGroupB] = useState('');
+  const [confidence, setConfidence] = useState(0.95);
+  const [error, setError] = useState('');
+
+  const def = testDefinition(testId);
+  const numeric = useMemo(() => numericColumns(rows), [rows]);
+  const categorical = useMemo(() => categoricalColumns(rows), [rows]);
+
+  // Fall back to the first valid choice when the test changes what each column must be
+  const optionsA = def.input === 'categorical' ? categorical : numeric;
+  const optionsB = def.input === 'pair' ? numeric : categorical;
+  const a = optionsA.includes(columnA) ? columnA : (optionsA[0] ?? '');
+  const b = optionsB.includes(columnB) && columnB !== a ? columnB : (optionsB.find((c) => c !== a) ?? '');
+  const missingKind = !a ? (optionsA === numeric ? 'numeric' : 'categorical') : !b ? (optionsB === numeric ? 'numeric' : 'categorical') : null;
+
+  const grouped = def.input === 'twoGroups' || def.input === 'groups';
+  const groups = useMemo(() => (grouped && a && b ? groupValues(rows, a, b) : []), [grouped, rows, a, b]);
+  const labels = groups.map((g) => g.group);
+  const g1 = labels.includes(groupA) ? groupA : (labels[0] ?? '');
+  const g2 = labels.includes(groupB) && groupB !== g1 ? groupB : (labels.find((l) => l !== g1) ?? '');
+
+  const assumptions = useMemo(() => {
+    if (!grouped) return null;
+    const selected = def.input === 'twoGroups' ? groups.filter((g) => g.group === g1 || g.group === g2) : groups;
+    return selected.length >= 2 ? checkAssumptions(testId, selected) : null;
+  }, [grouped, def.input, groups, g1, g2, testId]);
+
+  const table = useMemo(() => {
+    if (def.input !== 'categorical' || !a || !b) return null;
+    try {
+      return contingencyTable(rows, a, b);
+    } catch {
+      return null;
+    }
+  }, [def.input, rows, a, b]);
+
+  const handleRun = () => {
+    setError('');
+    try {
+      const result = runWorkbenchTest(rows, { testId, columnA: a, columnB: b, groups: [g1, g2], confidence });
+      onTestsChange([result, ...tests]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The test could not be run');
+    }
+  };
+
+  const latest = tests[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Test picker */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-300">1. Pick a test</h3>
+          {WORKBENCH_TESTS.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setTestId(t.id)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                testId === t.id ? 'bg-blue-600/20 border-blue-500/50' : 'bg-gray-900/30 border-gray-700/50 hover:bg-gray-700/30'
+              }`}
+            >
+              <p className="text-sm font-medium text-white">{t.label}</p>
+              <p className="text-xs text-gray-400">{t.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Inputs and assumptions */}
+        <div className="lg:col-span-2 space-y-4">
+          <h3 className="text-sm font-semibold text-gray-300">2. Choose the data</h3>
+          <div className="grid md:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>{grouped ? 'Numeric value' : def.input === 'pair' ? 'X column' : 'Rows'}</span>
+              <select value={a} onChange={(e) => setColumnA(e.target.value)} className={selectClass}>
+                {optionsA.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>{grouped ? 'Group by' : def.input === 'pair' ? 'Y column' : 'Columns'}</span>
+              <select value={b} onChange={(e) => setColumnB(e.target.value)} className={selectClass}>
+                {optionsB
+                  .filter((c) => c !== a)
+                  .map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            {def.input === 'twoGroups' && (
+              <>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Group A</span>
+                  <select value={g1} onChange={(e) => setGroupA(e.target.value)} className={selectClass}>
+                    {labels.map((l) => (
+                      <option key={l} value={l}>
+                        {l}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>Group B</span>
+                  <select value={g2} onChange={(e) => setGroupB(e.target.value)} className={selectClass}>
+                    {labels
+                      .filter((l) => l !== g1)
+                      .map((l) => (
+                        <option key={l} value={l}>
+                          {l}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              </>
+            )}
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Confidence level</span>
+              <select value={confidence} onChange={(e) => setConfidence(Number(e.target.value))} className={selectClass}>
+                {CONFIDENCE_LEVELS.map((c) => (
+                  <option key={c} value={c}>
+                    {Math.round(c * 100)}% (α = {(1 - c).toFixed(2)})
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {missingKind && (
+            <p className="text-sm text-yellow-300">This dataset has no suitable {missingKind} columns for this test.</p>
+          )}
+
+          {assumptions && (
+            <div className="p-4 bg-gray-900/40 border border-gray-700/50 rounded-lg space-y-3">
+              <h3 className="text-sm font-semibold text-gray-300">3. Check assumptions</h3>
+              {assumptions.normality.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="py-1">Group</th>
+                      <th>n</th>
+                      <th>Skewness</th>
+                      <th>Normality p (Jarque-Bera)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assumptions.normality.slice(0, PREVIEW_CATEGORIES * 2).map((g) => (
+                      <tr key={g.group} className="text-gray-300 border-t border-gray-700/50">
+                        <td className="py-1">{g.group}</td>
+                        <td>{g.n}</td>
+                        <td>{g.skewness}</td>
+                        <td className={g.normal ? 'text-green-300' : 'text-yellow-300'}>{g.pValue}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {assumptions.equalVariance && (
+                <p className="text-xs text-gray-300">
+                  Equal variances (Brown-Forsythe): p = {assumptions.equalVariance.pValue}{' '}
+                  <span className={assumptions.equalVariance.equal ? 'text-green-300' : 'text-yellow-300'}>
+                    {assumptions.equalVariance.equal ? 'OK' : 'variances differ'}
+                  </span>
+                </p>
+              )}
+              <ul className="space-y-1">
+                {assumptions.notes.map((note) => (
+                  <li key={note} className="flex items-start gap-2 text-xs text-gray-300">
+                    {assumptions.suggestion ? (
+                      <AlertTriangle className="w-3.5 h-3.5 text-yellow-300 flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <CheckCircle className="w-3.5 h-3.5 text-green-300 flex-shrink-0 mt-0.5" />
+                    )}
+                    {note}
+                  </li>
+                ))}
+              </ul>
+              {assumptions.suggestion && (
+                <button
+                  onClick={() => setTestId(assumptions.suggestion!)}
+                  className="px-3 py-1.5 bg-yellow-500/20 border border-yellow-500/30 text-yellow-200 text-xs rounded-lg hover:bg-yellow-500/30"
+                >
+                  Switch to {testLabel(assumptions.suggestion)}
+                </button>
+              )}
+            </div>
+          )}
+
+          {table && (
+            <div className="p-4 bg-gray-900/40 border border-gray-700/50 rounded-lg overflow-x-auto">
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Contingency table</h3>
+              <table className="text-xs text-gray-300">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1" />
+                    {table.colLabels.slice(0, PREVIEW_CATEGORIES).map((c) => (
+                      <th key={c} className="px-2 py-1 text-blue-300 font-medium">
+                        {c}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rowLabels.slice(0, PREVIEW_CATEGORIES).map((r, i) => (
+                    <tr key={r} className="border-t border-gray-700/50">
+                      <td className="px-2 py-1 text-blue-300">{r}</td>
+                      {table.counts[i].slice(0, PREVIEW_CATEGORIES).map((n, j) => (
+                        <td key={j} className="px-2 py-1 text-right">
+                          {n}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {(table.rowLabels.length > PREVIEW_CATEGORIES || table.colLabels.length > PREVIEW_CATEGORIES) && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the first {PREVIEW_CATEGORIES} categories; the test uses all {table.rowLabels.length} ×{' '}
+                  {table.colLabels.length}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+          <button
+            onClick={handleRun}
+            disabled={!a || !b}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" /> Run {def.label}
+          </button>
+        </div>
+      </div>
+
+      {latest && (
+        <div
+          className={`p-4 rounded-lg border ${
+            latest.significant ? 'bg-green-900/20 border-green-500/30' : 'bg-gray-900/40 border-gray-700/50'
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <FlaskConical className="w-5 h-5 text-blue-300" />
+            <h3 className="text-sm font-semibold text-white">
+              {testLabel(latest.testType)}: {latest.name}
+            </h3>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-gray-400">Statistic</div>
+              <div className="text-xl font-bold text-white">{latest.statistic}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">p-value</div>
+              <div className="text-xl font-bold text-white">
+                {latest.pValue} <span className="text-sm text-gray-400">{getSignificanceLabel(latest.pValue)}</span>
+              </div>
+            </div>
+            {latest.effectSize && (
+              <div>
+                <div className="text-gray-400">{latest.effectSize.name}</div>
+                <div className="text-xl font-bold text-white">{latest.effectSize.value}</div>
+              </div>
+            )}
+            {latest.details && (
+              <div>
+                <div className="text-gray-400">Details</div>
+                <div className="text-xs text-gray-300">
+                  {Object.entries(latest.details)
+                    .map(([k, v]) => `${k} = ${v}`)
+                    .join(', ')}
+                </div>
+              </div>
+            )}
+          </div>
+          <p className="mt-2 text-sm text-gray-300">{latest.interpretation}</p>
+          {latest.details?.lowExpectedCells ? (
+            <p className="mt-1 text-xs text-yellow-300">
+              {latest.details.lowExpectedCells} cells have an expected count below 5, so the p-value may be unreliable.
+            </p>
+          ) : null}
+        </div>
+      )}
+
+      {tests.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Test history</h3>
+          <div className="overflow-x-auto border border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-800/50 border-b border-gray-700 text-left text-blue-300">
+                  <th className="px-3 py-2">Test</th>
+                  <th className="px-3 py-2">Data</th>
+                  <th className="px-3 py-2">Statistic</th>
+                  <th className="px-3 py-2">p</th>
+                  <th className="px-3 py-2">Effect</th>
+                  <th className="px-3 py-2">Run</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {tests.map((t, i) => (
+                  <tr key={t.id ?? i} className="border-b border-gray-700 text-gray-300">
+                    <td className="px-3 py-2">{testLabel(t.testType)}</td>
+                    <td className="px-3 py-2 max-w-xs truncate" title={t.name}>
+                      {t.name}
+                    </td>
+                    <td className="px-3 py-2">{t.statistic}</td>
+                    <td className={`px-3 py-2 ${t.significant ? 'text-green-300' : ''}`}>
+                      {t.pValue} {getSignificanceLabel(t.pValue)}
+                    </td>
+                    <td className="px-3 py-2">{t.effectSize ? `${t.effectSize.name} ${t.effectSize.value}` : '—'}</td>
+                    <td className="px-3 py-2 text-xs text-gray-400">{t.runAt?.toLocaleString() ?? ''}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => onTestsChange(tests.filter((_, j) => j !== i))}
+                        className="p-1 text-gray-500 hover:text-red-300"
+                        title="Remove from history"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, FileDown, FileUp, LayoutTemplate, Loader2, Plus, Trash2, X } from 'lucide-react';
+import type { AnalysisTemplate, SavedQuery } from '../types';
+import { downloadFile } from '../utils/exports';
+import type { AggregationType } from '../utils/queryBuilder';
+import { listSavedQueries, missingColumns, savedQueryConfig } from '../utils/savedQueries';
+import {
+  BUILT_IN_TEMPLATES,
+  METRIC_TYPES,
+  TEMPLATE_CATEGORY_LABELS,
+  createTemplate,
+  deleteCustomTemplate,
+  exportTemplates,
+  importTemplates,
+  listCustomTemplates,
+  metricLabel,
+  rankTemplates,
+  saveCustomTemplate,
+  type TemplateCategory,
+} from '../utils/templates';
+
+interface TemplateGalleryProps {
+  columns: string[];
+  userName: string;
+  appliedTemplateId?: string;
+  onApply: (template: AnalysisTemplate) => Promise<void>; // rejects with a message to show
+  onClose: () => void;
+}
+
+type Tab = 'gallery' | 'create';
+type Metric = { type: AggregationType; column: string | null };
+
+const CATEGORIES = Object.keys(TEMPLATE_CATEGORY_LABELS) as TemplateCategory[];
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-900/60 text-white text-sm rounded-lg border border-gray-600 focus:outline-none focus:border-blue-500';
+const selectClass = 'px-2 py-1.5 bg-gray-700/50 text-gray-200 text-sm rounded border border-gray-600/50';
+const secondaryButton =
+  'flex items-center gap-1 px-2 py-1 bg-gray-700 text-gray-200 text-xs rounded border border-gray-600 hover:bg-gray-600 transition-colors disabled:opacity-50';
+
+function scoreColor(score: number): string {
+  if (score >= 0.75) return 'bg-green-500';
+  if (score >= 0.4) return 'bg-yellow-500';
+  return 'bg-gray-500';
+}
+
+/**
+ * Built-in and user-authored templates ranked by how well their column roles match the
+ * active dataset. Applying one sets up the dashboard's charts, KPIs and saved queries.
+ */
+export default function TemplateGallery({ columns, userName, appliedTemplateId, onApply, onClose }: TemplateGalleryProps) {
+  const [tab, setTab] = useState<Tab>('gallery');
+  const [category, setCategory] = useState<TemplateCategory | 'all'>('all');
+  const [custom, setCustom] = useState<AnalysisTemplate[]>([]);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Authoring form
+  const [name, setName] = useState('');
+  const [newCategory, setNewCategory] = useState<TemplateCategory>('general');
+  const [description, setDescription] = useState('');
+  const [charts, setCharts] = useState<string[]>([]);
+  const [metrics, setMetrics] = useState<Metric[]>([]);
+  const [metricType, setMetricType] = useState<AggregationType>('sum');
+  const [metricColumn, setMetricColumn] = useState('');
+  const [libraryQueries, setLibraryQueries] = useState<SavedQuery[]>([]);
+  const [queryIds, setQueryIds] = useState<string[]>([]);
+
+  const refresh = async () => setCustom(await listCustomTemplates());
+
+  useEffect(() => {
+    let active = true;
+    listCustomTemplates()
+      .then((list) => {
+        if (active) setCustom(list);
+      })
+      .catch((err) => console.error(err));
+    // Only queries that run on this dataset can be packed into a template from it
+    listSavedQueries()
+      .then((all) => {
+        if (active) setLibraryQueries(all.filter((q) => missingColumns(savedQueryConfig(q), columns).length === 0));
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      active = false;
+    };
+  }, [columns]);
+
+  const customIds = useMemo(() => new Set(custom.map((t) => t.id)), [custom]);
+  const matches = useMemo(
+    () =>
+      rankTemplates([...custom, ...BUILT_IN_TEMPLATES], columns).filter(
+        (m) => category === 'all' || m.template.category === category
+      ),
+    [custom, columns, category]
+  );
+
+  const handleApply = async (template: AnalysisTemplate) => {
+    setApplyingId(template.id);
+    setError('');
+    try {
+      await onApply(template);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not apply the template');
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const handleDelete = async (template: AnalysisTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    await deleteCustomTemplate(template.id);
+    await refresh();
+  };
+
+  const handleExport = () => {
+    downloadFile(exportTemplates(custom), `templates-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      await importTemplates(await file.text());
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import templates');
+    }
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      const template = createTemplate({
+        name,
+        category: newCategory,
+        description,
+        charts,
+        metrics,
+        queries: libraryQueries.filter((q) => queryIds.includes(q.id)),
+        createdBy: userName,
+      });
+      await saveCustomTemplate(template);
+      await refresh();
+      setName('');
+      setDescription('');
+      setCharts([]);
+      setMetrics([]);
+      setQueryIds([]);
+      setTab('gallery');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the template');
+    }
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-gray-800 border border-gray-700/50 rounded-xl p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <LayoutTemplate className="w-6 h-6 text-blue-400" />
+            <h2 className="text-xl font-semibold text-white">Analysis templates</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={secondaryButton}>
+              <FileUp className="w-3.5 h-3.5" /> Import
+            </button>
+            <button onClick={handleExport} disabled={custom.length === 0} className={secondaryButton}>
+              <FileDown className="w-3.5 h-3.5" /> Export mine
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-4 border-b border-gray-700">
+          {(['gallery', 'create'] as Tab[]).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-2 text-sm font-semibold border-b-2 transition-colors ${
+                tab === t ? 'border-blue-500 text-blue-400' : 'border-transparent text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              {t === 'gallery' ? 'Templates' : 'Create from this dataset'}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        {tab === 'gallery' ? (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(['all', ...CATEGORIES] as const).map((c) => (
+                <button
+                  key={c}
+                  onClick={() => setCategory(c)}
+                  className={`px-3 py-1 rounded-full text-xs border ${
+                    category === c
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'bg-gray-700/50 border-gray-600/50 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {c === 'all' ? 'All' : TEMPLATE_CATEGORY_LABELS[c]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-3">
+              {matches.map(({ template, score, resolved, missing }) => (
+                <div key={template.id} className="p-4 bg-gray-700/30 border border-gray-600/40 rounded-lg space-y-2">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-white truncate">{template.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {TEMPLATE_CATEGORY_LABELS[template.category]} ·{' '}
+                        {customIds.has(template.id) ? `by ${template.createdBy}` : 'Built-in'}
+                      </p>
+                    </div>
+                    {customIds.has(template.id) && (
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="p-1 rounded-md text-gray-400 hover:text-red-300"
+                        title="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  {template.description && <p className="text-xs text-gray-300">{template.description}</p>}
+
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div className={`h-full ${scoreColor(score)}`} style={{ width: `${Math.round(score * 100)}%` }} />
+                    </div>
+                    <span className="text-xs text-gray-300">{Math.round(score * 100)}% match</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1 text-[11px]">
+                    {Object.entries(resolved).map(([role, column]) => (
+                      <span key={role} className="px-1.5 py-0.5 bg-green-500/15 text-green-300 rounded" title={`${role} → ${column}`}>
+                        {column}
+                      </span>
+                    ))}
+                    {missing.map((role) => (
+                      <span key={role} className="px-1.5 py-0.5 bg-gray-600/40 text-gray-400 rounded line-through" title="No matching column">
+                        {role}
+                      </span>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-500">
+                      {template.recommendedCharts.length} charts · {template.suggestedMetrics.length} KPIs ·{' '}
+                      {template.sampleQueries.length} queries
+                    </span>
+                    <button
+                      onClick={() => handleApply(template)}
+                      disabled={applyingId !== null || score === 0}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {applyingId === template.id ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : appliedTemplateId === template.id ? (
+                        <Check className="w-3.5 h-3.5" />
+                      ) : null}
+                      {appliedTemplateId === template.id ? 'Re-apply' : 'Apply'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-3">
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Template name" className={inputClass} />
+              <select
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value as TemplateCategory)}
+                className={selectClass}
+              >
+                {CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {TEMPLATE_CATEGORY_LABELS[c]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this template for? (optional)"
+              rows={2}
+              className={inputClass}
+            />
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Charts</h3>
+              <div className="flex flex-wrap gap-2">
+                {columns.map((col) => (
+                  <label key={col} className="flex items-center gap-1.5 text-sm text-gray-300">
+                    <input type="checkbox" checked={charts.includes(col)} onChange={() => setCharts(toggle(charts, col))} />
+                    {col}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">KPIs</h3>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <select value={metricType} onChange={(e) => setMetricType(e.target.value as AggregationType)} className={selectClass}>
+                  {METRIC_TYPES.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+                <select value={metricColumn} onChange={(e) => setMetricColumn(e.target.value)} className={selectClass}>
+                  <option value="">all rows</option>
+                  {columns.map((col) => (
+                    <option key={col} value={col}>
+                      {col}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() =>
+                    setMetrics([...metrics, metricColumn ? { type: metricType, column: metricColumn } : { type: 'count', column: null }])
+                  }
+                  className={secondaryButton}
+                >
+                  <Plus className="w-3.5 h-3.5" /> Add KPI
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {metrics.map((m, i) => (
+                  <span key={i} className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-200 text-xs rounded">
+                    {metricLabel(m.column ? `${m.type}:${m.column}` : 'count')}
+                    <button onClick={() => setMetrics(metrics.filter((_, j) => j !== i))} className="hover:text-white">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Saved queries</h3>
+              {libraryQueries.length === 0 ? (
+                <p className="text-xs text-gray-500">No saved queries run on this dataset yet.</p>
+              ) : (
+                <div className="space-y-1">
+                  {libraryQueries.map((q) => (
+                    <label key={q.id} className="flex items-center gap-2 text-sm text-gray-300">
+                      <input type="checkbox" checked={queryIds.includes(q.id)} onChange={() => setQueryIds(toggle(queryIds, q.id))} />
+                      {q.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Column names become roles: the template matches other datasets with the same or similar headers.
+            </p>
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Save template
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
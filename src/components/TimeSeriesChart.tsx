@@ -0,0 +1,265 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Activity, TrendingDown, TrendingUp } from 'lucide-react';
+import type { DataRow, GapFill, PeriodComparison, TimeAggregation, TimeBucket, TimeSeriesSettings } from '../types';
+import { generateTimeSeries } from '../utils/dataVisualization';
+import { detectTrend } from '../utils/analytics';
+import { AGGREGATION_LABELS, GAP_FILL_LABELS, TIME_BUCKET_LABELS } from '../utils/resample';
+
+interface TimeSeriesChartProps {
+  data: DataRow[];
+  dateColumn: string;
+  numericColumns: string[];
+  settings?: TimeSeriesSettings;
+  onSettingsChange: (settings: TimeSeriesSettings) => void;
+}
+
+const DEFAULT_TIME_SERIES_SETTINGS: TimeSeriesSettings = {
+  aggregation: 'count',
+  bucket: 'day',
+  timeZone: 'UTC',
+  comparison: 'none',
+  cumulative: false,
+};
+
+const COMPARISON_LABELS: Record<PeriodComparison, string> = {
+  none: 'No comparison',
+  previous: 'Previous period',
+  year: 'Same period last year',
+};
+
+const ROLLING_WINDOWS = [0, 3, 7, 14, 28, 30];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const TIME_ZONES = [
+  'UTC',
+  Intl.DateTimeFormat().resolvedOptions().timeZone,
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+].filter((zone, i, all) => zone && all.indexOf(zone) === i);
+
+const selectClass = 'w-full px-2 py-1.5 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-xs';
+
+/**
+ * The date column resampled into buckets: pick the metric, aggregation, bucket size,
+ * time zone and gap filling, and overlay a moving average, a period-over-period
+ * comparison or a running total.
+ */
+export default function TimeSeriesChart({ data, dateColumn, numericColumns, settings, onSettingsChange }: TimeSeriesChartProps) {
+  const current = settings ?? DEFAULT_TIME_SERIES_SETTINGS;
+  const update = (patch: Partial<TimeSeriesSettings>) => onSettingsChange({ ...current, ...patch });
+
+  const needsNumbers = current.aggregation === 'sum' || current.aggregation === 'avg';
+  const valueOptions = (needsNumbers ? numericColumns : Object.keys(data[0] || {})).filter((c) => c !== dateColumn);
+  const valueColumn = current.valueColumn && valueOptions.includes(current.valueColumn) ? current.valueColumn : undefined;
+  const fill = current.fill ?? (current.aggregation === 'avg' ? 'none' : 'zero');
+
+  const { series, error } = useMemo(() => {
+    try {
+      return { series: generateTimeSeries(data, dateColumn, valueColumn, { ...current, fill }), error: '' };
+    } catch (err) {
+      return { series: [], error: err instanceof Error ? err.message : 'The series could not be built' };
+    }
+  }, [data, dateColumn, valueColumn, current, fill]);
+
+  const trend = series.length > 1 ? detectTrend(series.map((d) => d.value)) : null;
+  const latest = series[series.length - 1];
+  const bucketName = TIME_BUCKET_LABELS[current.bucket].toLowerCase();
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">📈 Time Series Trend</h3>
+        {trend && (
+          <div className="flex items-center gap-2">
+            {trend.trend === 'increasing' ? (
+              <TrendingUp className="w-5 h-5 text-green-400" />
+            ) : trend.trend === 'decreasing' ? (
+              <TrendingDown className="w-5 h-5 text-red-400" />
+            ) : (
+              <Activity className="w-5 h-5 text-yellow-400" />
+            )}
+            <span className="text-sm text-gray-400">
+              {trend.changePercent > 0 ? '+' : ''}{trend.changePercent}%
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Aggregation</span>
+          <select
+            value={current.aggregation}
+            onChange={(e) => update({ aggregation: e.target.value as TimeAggregation })}
+            className={selectClass}
+          >
+            {(Object.keys(AGGREGATION_LABELS) as TimeAggregation[]).map((a) => (
+              <option key={a} value={a}>
+                {AGGREGATION_LABELS[a]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Of</span>
+          <select
+            value={valueColumn ?? ''}
+            onChange={(e) => update({ valueColumn: e.target.value || undefined })}
+            className={selectClass}
+          >
+            <option value="">{current.aggregation === 'count' ? 'Rows' : 'Pick a column'}</option>
+            {valueOptions.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Bucket</span>
+          <select value={current.bucket} onChange={(e) => update({ bucket: e.target.value as TimeBucket })} className={selectClass}>
+            {(Object.keys(TIME_BUCKET_LABELS) as TimeBucket[]).map((b) => (
+              <option key={b} value={b}>
+                {TIME_BUCKET_LABELS[b]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {current.bucket === 'fiscalYear' ? (
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Fiscal year starts</span>
+            <select
+              value={current.fiscalYearStartMonth ?? 1}
+              onChange={(e) => update({ fiscalYearStartMonth: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {MONTHS.map((m, i) => (
+                <option key={m} value={i + 1}>
+                  {m}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Time zone</span>
+            <select value={current.timeZone} onChange={(e) => update({ timeZone: e.target.value })} className={selectClass}>
+              {TIME_ZONES.map((z) => (
+                <option key={z} value={z}>
+                  {z}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Empty {bucketName}s</span>
+          <select
+            value={fill}
+            onChange={(e) => update({ fill: e.target.value as GapFill })}
+            className={selectClass}
+          >
+            {(Object.keys(GAP_FILL_LABELS) as GapFill[]).map((f) => (
+              <option key={f} value={f}>
+                {GAP_FILL_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Moving average</span>
+          <select
+            value={current.rollingWindow ?? 0}
+            onChange={(e) => update({ rollingWindow: Number(e.target.value) || undefined })}
+            className={selectClass}
+          >
+            {ROLLING_WINDOWS.map((w) => (
+              <option key={w} value={w}>
+                {w === 0 ? 'None' : `${w} ${bucketName}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <span>Compare with</span>
+          <select
+            value={current.comparison}
+            onChange={(e) => update({ comparison: e.target.value as PeriodComparison })}
+            className={selectClass}
+          >
+            {(Object.keys(COMPARISON_LABELS) as PeriodComparison[]).map((c) => (
+              <option key={c} value={c}>
+                {COMPARISON_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400 pt-5">
+          <input type="checkbox" checked={current.cumulative} onChange={(e) => update({ cumulative: e.target.checked })} />
+          Running total
+        </label>
+      </div>
+
+      {error && <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>}
+
+      {latest && current.comparison !== 'none' && (
+        <p className="text-sm text-gray-400">
+          Latest {bucketName} ({latest.date}):{' '}
+          {latest.changePercent === null || latest.changePercent === undefined ? (
+            'no earlier value to compare with'
+          ) : (
+            <span className={latest.changePercent >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {latest.changePercent >= 0 ? '+' : ''}
+              {latest.changePercent}% vs {current.comparison === 'previous' ? `previous ${bucketName}` : 'a year earlier'}
+            </span>
+          )}
+        </p>
+      )}
+
+      {series.length > 0 && (
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="date" stroke="#9ca3af" />
+            <YAxis yAxisId="value" stroke="#9ca3af" />
+            {current.cumulative && <YAxis yAxisId="total" orientation="right" stroke="#9ca3af" />}
+            <Tooltip contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }} />
+            <Legend />
+            <Line yAxisId="value" type="monotone" dataKey="value" name={valueColumn ?? 'Rows'} stroke="#3b82f6" dot={false} />
+            {!!current.rollingWindow && (
+              <Line
+                yAxisId="value"
+                type="monotone"
+                dataKey="rolling"
+                name={`${current.rollingWindow}-${current.bucket === 'fiscalYear' ? 'year' : current.bucket} average`}
+                stroke="#f59e0b"
+                dot={false}
+              />
+            )}
+            {current.comparison !== 'none' && (
+              <Line
+                yAxisId="value"
+                type="monotone"
+                dataKey="previous"
+                name={COMPARISON_LABELS[current.comparison]}
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            )}
+            {current.cumulative && (
+              <Line yAxisId="total" type="monotone" dataKey="cumulative" name="Running total" stroke="#10b981" dot={false} />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
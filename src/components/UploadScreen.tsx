@@ -1,18 +1,80 @@
-import { Upload, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Upload, FileSpreadsheet, Loader2, X } from 'lucide-react';
+import type { CsvDelimiter, CsvFormatOptions, IngestProgress } from '../utils/csvAnalysis';
+import { acceptedExtensions, findImporter } from '../utils/importers';
+import type { SessionSummary, StorageUsage } from '../utils/sessionStore';
+import RecentAnalyses from './RecentAnalyses';
 
 interface UploadScreenProps {
   onFileSelect: (file: File) => void;
   selectedFile: File | null;
   onAnalyze: () => void;
   onLoadSample: () => void;
+  onCancel: () => void;
   isAnalyzing: boolean;
+  progress: IngestProgress | null;
+  csvFormat: CsvFormatOptions;
+  onCsvFormatChange: (format: CsvFormatOptions) => void;
+  sheetNames: string[];
+  selectedSheet: string;
+  onSheetChange: (sheet: string) => void;
+  recentSessions: SessionSummary[];
+  currentSessionId: string | null;
+  storageUsage: StorageUsage | null;
+  resumingSessionId: string | null;
+  onResumeSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
 }
 
-export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, onLoadSample, isAnalyzing }: UploadScreenProps) {
+const DELIMITER_OPTIONS: { value: CsvDelimiter | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const ENCODING_OPTIONS = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(2)} KB`;
+
+export default function UploadScreen({
+  onFileSelect,
+  selectedFile,
+  onAnalyze,
+  onLoadSample,
+  onCancel,
+  isAnalyzing,
+  progress,
+  csvFormat,
+  onCsvFormatChange,
+  sheetNames,
+  selectedSheet,
+  onSheetChange,
+  recentSessions,
+  currentSessionId,
+  storageUsage,
+  resumingSessionId,
+  onResumeSession,
+  onDeleteSession,
+}: UploadScreenProps) {
+  const importer = selectedFile ? findImporter(selectedFile.name) : undefined;
+  const showCsvOptions = !importer || importer.id === 'csv';
+
+  const percent = progress && progress.totalBytes > 0
+    ? Math.round((progress.bytesRead / progress.totalBytes) * 100)
+    : 0;
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
-    if (file && file.type === 'text/csv') {
+    if (file && findImporter(file.name)) {
       onFileSelect(file);
     }
   };
@@ -37,7 +99,7 @@ export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, on
 
         <div className="bg-gray-800/50 backdrop-blur border border-gray-700/50 rounded-2xl shadow-2xl p-8">
           <h2 className="text-2xl font-semibold text-white mb-6 text-center">
-            Upload your CSV file
+            Upload your data file
           </h2>
 
           <div
@@ -47,7 +109,7 @@ export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, on
           >
             <input
               type="file"
-              accept=".csv"
+              accept={acceptedExtensions()}
               onChange={handleFileInput}
               className="hidden"
               id="file-upload"
@@ -55,9 +117,10 @@ export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, on
             <label htmlFor="file-upload" className="cursor-pointer">
               <Upload className="w-12 h-12 text-blue-400/70 group-hover:text-blue-300 mx-auto mb-4 transition-colors" />
               <p className="text-lg font-medium text-white mb-2">
-                Drop your CSV file here or click to browse
+                Drop your file here or click to browse
               </p>
-              <p className="text-sm text-gray-400">Supports CSV files up to 100MB</p>
+              <p className="text-sm text-gray-400">CSV, Excel, JSON, JSON Lines or Parquet</p>
+              <p className="text-xs text-gray-500 mt-1">Large CSV files are streamed in chunks, so the page stays responsive</p>
             </label>
           </div>
 
@@ -68,13 +131,94 @@ export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, on
                 <div className="flex-1">
                   <p className="font-medium text-white">{selectedFile.name}</p>
                   <p className="text-sm text-gray-400">
-                    {(selectedFile.size / 1024).toFixed(2)} KB
+                    {formatBytes(selectedFile.size)}
+                    {importer && ` · ${importer.label}`}
                   </p>
                 </div>
               </div>
             </div>
           )}
 
+          {sheetNames.length > 1 && (
+            <label className="mt-4 block text-xs text-gray-400">
+              Sheet
+              <select
+                value={selectedSheet}
+                onChange={(e) => onSheetChange(e.target.value)}
+                disabled={isAnalyzing}
+                className="mt-1 w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+              >
+                {sheetNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {showCsvOptions && (
+            <div className="mt-4 grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-400">
+                Delimiter
+                <select
+                  value={csvFormat.delimiter ?? 'auto'}
+                  onChange={(e) => onCsvFormatChange({ ...csvFormat, delimiter: e.target.value as CsvDelimiter | 'auto' })}
+                  disabled={isAnalyzing}
+                  className="mt-1 w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+                >
+                  {DELIMITER_OPTIONS.map((opt) => (
+                    <option key={opt.label} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-400">
+                Encoding
+                <select
+                  value={csvFormat.encoding ?? 'auto'}
+                  onChange={(e) => onCsvFormatChange({ ...csvFormat, encoding: e.target.value })}
+                  disabled={isAnalyzing}
+                  className="mt-1 w-full px-3 py-2 bg-gray-700/50 border border-gray-600 text-white rounded-lg text-sm"
+                >
+                  {ENCODING_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {isAnalyzing && progress && (
+            <div className="mt-4 p-4 bg-gray-900/40 rounded-lg border border-gray-700/50">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-gray-300">
+                  Reading {formatBytes(progress.bytesRead)} of {formatBytes(progress.totalBytes)}
+                </span>
+                <span className="text-blue-300 font-semibold">{percent}%</span>
+              </div>
+              <div className="w-full bg-gray-700/50 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-blue-500 to-indigo-500 h-2 rounded-full transition-all"
+                  style={{ width: `${percent}%` }}
+                ></div>
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-gray-400">{progress.rowsParsed.toLocaleString()} rows parsed</p>
+                <button
+                  onClick={onCancel}
+                  className="flex items-center gap-1 text-xs text-red-300 hover:text-red-200 transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="mt-6 flex flex-col gap-3">
             <button
               onClick={onAnalyze}
@@ -108,8 +252,17 @@ export default function UploadScreen({ onFileSelect, selectedFile, onAnalyze, on
           </div>
         </div>
 
+        <RecentAnalyses
+          sessions={recentSessions}
+          currentSessionId={currentSessionId}
+          storageUsage={storageUsage}
+          resumingId={resumingSessionId}
+          onResume={onResumeSession}
+          onDelete={onDeleteSession}
+        />
+
         <p className="text-center text-sm text-gray-400 mt-6">
-          Your data is processed locally and never stored on our servers
+          Your data is processed locally and saved only in this browser, never on our servers
         </p>
       </div>
     </div>
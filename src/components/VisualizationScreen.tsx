@@ -1,11 +1,35 @@
-import { useState } from 'react';
-import { BarChart3, Grid3X3, Activity, Shield } from 'lucide-react';
-import { Statistics } from '../types';
+import { useEffect, useMemo, useState } from 'react';
+import { BarChart3, Grid3X3, Activity, Shield, History, Database, Share2, Lightbulb, MessageSquare, Sigma, TestTubes, Users, Grid2X2, UserMinus } from 'lucide-react';
+import type { AuthUser, ChartConfig, ChatMessage, Comment, ExperimentConfig, StatisticalTest, Statistics } from '../types';
 import AIAssistant from './AIAssistant';
 import AnalyticsDashboard from './AnalyticsDashboard';
+import ChurnModelPanel from './ChurnModelPanel';
+import CohortPanel from './CohortPanel';
+import CommentButton from './CommentButton';
+import CommentsSidebar from './CommentsSidebar';
 import DataQualityDashboard from './DataQualityDashboard';
 import DataPreview from './DataPreview';
+import ExperimentPanel from './ExperimentPanel';
+import LineagePanel from './LineagePanel';
+import QueryPanel from './QueryPanel';
+import RfmPanel from './RfmPanel';
+import SharePanel from './SharePanel';
+import StatisticalWorkbench from './StatisticalWorkbench';
+import SegmentComparisonPanel from './SegmentComparisonPanel';
+import { generateInsights } from '../utils/advancedAnalysis';
+import { getAuthProvider } from '../utils/auth';
+import type { CleaningStepInput } from '../utils/cleaningPipeline';
+import {
+  chartTarget,
+  insightTarget,
+  mentionableUsers,
+  openThreadCounts,
+  rowTarget,
+  targetKey,
+  type CommentTarget,
+} from '../utils/comments';
 import { exportToCSV, exportToJSON, exportToHTML, generateAnalysisReport } from '../utils/exports';
+import { analyzeExperiment, type ExperimentReport } from '../utils/experiments';
 
 type DataRow = Record<string, string | number | null | undefined>;
 
@@ -15,6 +39,21 @@ interface VisualizationScreenProps {
   rows?: DataRow[];
   dataSummary?: any;
   cleaningIssues?: any;
+  userName?: string;
+  userId?: string;
+  datasetName?: string;
+  chartConfig?: ChartConfig;
+  onChartConfigChange?: (config: ChartConfig) => void;
+  chatMessages?: ChatMessage[];
+  onChatMessagesChange?: (messages: ChatMessage[]) => void;
+  comments?: Comment[];
+  onCommentsChange?: (comments: Comment[]) => void;
+  datasetId?: string;
+  statisticalTests?: StatisticalTest[];
+  onStatisticalTestsChange?: (tests: StatisticalTest[]) => void;
+  experiment?: ExperimentConfig;
+  onExperimentChange?: (config: ExperimentConfig) => void;
+  onAddPipelineStep?: (input: CleaningStepInput) => void;
 }
 
 export default function VisualizationScreen({
@@ -22,17 +61,73 @@ export default function VisualizationScreen({
   rows,
   dataSummary,
   cleaningIssues,
+  userName = 'Guest',
+  userId = 'guest',
+  datasetName = 'Analysis',
+  chartConfig,
+  onChartConfigChange,
+  chatMessages,
+  onChatMessagesChange,
+  comments = [],
+  onCommentsChange,
+  datasetId,
+  statisticalTests = [],
+  onStatisticalTestsChange,
+  experiment,
+  onExperimentChange,
+  onAddPipelineStep,
 }: VisualizationScreenProps) {
-  const [activeTab, setActiveTab] = useState<'analytics' | 'quality' | 'preview'>('analytics');
+  const [activeTab, setActiveTab] = useState<'analytics' | 'quality' | 'preview' | 'query' | 'stats' | 'experiment' | 'cohorts' | 'rfm' | 'churn' | 'lineage'>('analytics');
   const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [commentFocus, setCommentFocus] = useState<CommentTarget | null>(null);
+  const [accounts, setAccounts] = useState<AuthUser[]>([]);
   
   // Ensure rows has a default
-  const dataRows = rows && rows.length > 0 ? rows : [];
+  const dataRows = useMemo(() => (rows && rows.length > 0 ? rows : []), [rows]);
+
+  const insights = useMemo(() => generateInsights(dataRows, Object.keys(dataRows[0] || {})), [dataRows]);
+
+  useEffect(() => {
+    let active = true;
+    getAuthProvider()
+      .listUsers?.()
+      .then((users) => {
+        if (active) setAccounts(users);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const users = useMemo(
+    () => mentionableUsers([...accounts, { id: userId, displayName: userName }], comments),
+    [accounts, userId, userName, comments]
+  );
+  const threadCounts = useMemo(() => openThreadCounts(comments, datasetId), [comments, datasetId]);
+  const openCount = Array.from(threadCounts.values()).reduce((sum, n) => sum + n, 0);
+  // Comments on this dataset plus the analysis-wide ones
+  const visibleComments = comments.filter((c) => !c.datasetId || c.datasetId === datasetId);
+  const countFor = (target: CommentTarget) => threadCounts.get(targetKey(target)) ?? 0;
+
+  const openComments = (target: CommentTarget | null) => {
+    setCommentFocus(target);
+    setIsCommentsOpen(true);
+  };
 
   const tabs = [
     { id: 'analytics' as const, label: 'Analytics', icon: BarChart3 },
     { id: 'quality' as const, label: 'Data Quality', icon: Shield },
     { id: 'preview' as const, label: 'Data Preview', icon: Grid3X3 },
+    { id: 'query' as const, label: 'Query', icon: Database },
+    { id: 'stats' as const, label: 'Statistics', icon: Sigma },
+    { id: 'experiment' as const, label: 'Experiment', icon: TestTubes },
+    { id: 'cohorts' as const, label: 'Cohorts', icon: Users },
+    { id: 'rfm' as const, label: 'RFM', icon: Grid2X2 },
+    { id: 'churn' as const, label: 'Churn', icon: UserMinus },
+    { id: 'lineage' as const, label: 'Lineage', icon: History },
   ];
 
   const handleExport = (format: 'csv' | 'json' | 'html' | 'report') => {
@@ -54,14 +149,16 @@ export default function VisualizationScreen({
       case 'html':
         exportToHTML(dataRows, `${filename}.html`);
         break;
-      case 'report':
-        const insights = [
-          'Successfully analyzed dataset',
-          `Total records: ${dataRows.length}`,
-          `Analysis completed on ${new Date().toLocaleDateString()}`,
-        ];
-        generateAnalysisReport(dataRows, dataRows, insights, `analysis-report-${timestamp}.html`);
+      case 'report': {
+        let experimentReport: ExperimentReport | undefined;
+        try {
+          experimentReport = experiment ? analyzeExperiment(dataRows, experiment) : undefined;
+        } catch {
+          // A setup that no longer fits the data is left out rather than blocking the export
+        }
+        generateAnalysisReport(dataRows, dataRows, insights, `analysis-report-${timestamp}.html`, visibleComments, experimentReport);
         break;
+      }
     }
   };
 
@@ -102,6 +199,23 @@ export default function VisualizationScreen({
               >
                 Full Report
               </button>
+              {onCommentsChange && (
+                <button
+                  onClick={() => (isCommentsOpen ? setIsCommentsOpen(false) : openComments(null))}
+                  className="ml-auto flex items-center gap-2 px-4 py-2 bg-gray-700/60 hover:bg-gray-700 text-gray-200 rounded-lg text-sm font-semibold transition"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  Comments{openCount > 0 && ` (${openCount})`}
+                </button>
+              )}
+              <button
+                onClick={() => setIsShareOpen(true)}
+                disabled={dataRows.length === 0}
+                className={`${onCommentsChange ? '' : 'ml-auto '}flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-semibold transition disabled:opacity-50`}
+              >
+                <Share2 className="w-4 h-4" />
+                Share
+              </button>
             </div>
           </div>
 
@@ -127,7 +241,40 @@ export default function VisualizationScreen({
           <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
             {activeTab === 'analytics' ? (
               dataRows && dataRows.length > 0 ? (
-                <AnalyticsDashboard data={dataRows} dataSummary={dataSummary} onExport={() => handleExport('report')} />
+                <div className="space-y-6">
+                  {insights.length > 0 && (
+                    <div className="bg-gray-900/40 border border-gray-700/50 rounded-lg p-4">
+                      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-300 mb-2">
+                        <Lightbulb className="w-4 h-4 text-yellow-300" /> Insights
+                      </h3>
+                      <ul className="space-y-1">
+                        {insights.map((insight) => (
+                          <li key={insight} className="flex items-start gap-2 text-sm text-gray-300">
+                            <span className="flex-1">{insight}</span>
+                            {onCommentsChange && (
+                              <CommentButton
+                                count={countFor(insightTarget(insight, datasetId))}
+                                onClick={() => openComments(insightTarget(insight, datasetId))}
+                                title="Comment on this insight"
+                              />
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <AnalyticsDashboard
+                    // Remount when a template is applied so its first chart gets selected
+                    key={chartConfig?.template?.id ?? 'default'}
+                    data={dataRows}
+                    dataSummary={dataSummary}
+                    onExport={() => handleExport('report')}
+                    config={chartConfig}
+                    onConfigChange={onChartConfigChange}
+                    onCommentChart={onCommentsChange && ((column) => openComments(chartTarget(column, datasetId)))}
+                    chartCommentCount={(column) => countFor(chartTarget(column, datasetId))}
+                  />
+                </div>
               ) : (
                 <div className="text-center py-12 text-gray-400">
                   <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -145,13 +292,79 @@ export default function VisualizationScreen({
               )
             ) : activeTab === 'preview' ? (
               dataRows && dataRows.length > 0 ? (
-                <DataPreview data={dataRows} onExport={() => handleExport('csv')} />
+                <DataPreview
+                  data={dataRows}
+                  onExport={() => handleExport('csv')}
+                  onCommentRow={onCommentsChange && ((row, index) => openComments(rowTarget(row, index, datasetId)))}
+                  rowCommentCount={(index) => threadCounts.get(targetKey({ attachedTo: 'row', targetId: String(index) })) ?? 0}
+                />
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'query' ? (
+              dataRows && dataRows.length > 0 ? (
+                <QueryPanel rows={dataRows} userName={userName} />
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'stats' ? (
+              dataRows && dataRows.length > 0 && onStatisticalTestsChange ? (
+                <div className="space-y-8">
+                  <StatisticalWorkbench rows={dataRows} tests={statisticalTests} onTestsChange={onStatisticalTestsChange} />
+                  <div className="pt-6 border-t border-gray-700/50">
+                    <SegmentComparisonPanel rows={dataRows} />
+                  </div>
+                </div>
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'experiment' ? (
+              dataRows.length > 0 && onExperimentChange ? (
+                <ExperimentPanel key={datasetId} rows={dataRows} config={experiment} onConfigChange={onExperimentChange} />
               ) : (
                 <div className="text-center py-12 text-gray-400">
                   <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
                   <p>No data loaded. Please go back to upload data.</p>
                 </div>
               )
+            ) : activeTab === 'cohorts' ? (
+              dataRows.length > 0 ? (
+                <CohortPanel key={datasetId} rows={dataRows} />
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'rfm' ? (
+              dataRows.length > 0 ? (
+                <RfmPanel key={datasetId} rows={dataRows} onAddPipelineStep={onAddPipelineStep} />
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'churn' ? (
+              dataRows.length > 0 ? (
+                <ChurnModelPanel key={datasetId} rows={dataRows} onAddPipelineStep={onAddPipelineStep} />
+              ) : (
+                <div className="text-center py-12 text-gray-400">
+                  <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No data loaded. Please go back to upload data.</p>
+                </div>
+              )
+            ) : activeTab === 'lineage' ? (
+              <LineagePanel />
             ) : null}
           </div>
 
@@ -189,6 +402,30 @@ export default function VisualizationScreen({
         </div>
       </div>
 
+      {isShareOpen && (
+        <SharePanel
+          rows={dataRows}
+          ownerId={userId}
+          ownerName={userName}
+          defaultName={datasetName}
+          comments={visibleComments}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
+
+      {isCommentsOpen && onCommentsChange && (
+        <CommentsSidebar
+          comments={comments}
+          onChange={onCommentsChange}
+          users={users}
+          currentUser={{ id: userId, name: userName }}
+          datasetId={datasetId}
+          focus={commentFocus}
+          onFocusChange={setCommentFocus}
+          onClose={() => setIsCommentsOpen(false)}
+        />
+      )}
+
       <AIAssistant
         isOpen={isAssistantOpen}
         onToggle={() => setIsAssistantOpen(!isAssistantOpen)}
@@ -196,6 +433,8 @@ export default function VisualizationScreen({
         dataSummary={dataSummary}
         cleaningIssues={cleaningIssues}
         rows={dataRows}
+        initialMessages={chatMessages}
+        onMessagesChange={onChatMessagesChange}
       />
     </div>
   );
@@ -0,0 +1,493 @@
+import { useState } from "react";
+import { AlertTriangle, Check, GitMerge, Layers, Pencil, Plus, Rows3, Trash2, X } from "lucide-react";
+import {
+  createDerivedDataset,
+  datasetColumns,
+  describeJoin,
+  joinDatasets,
+  unionDatasets,
+  uniqueDatasetName,
+  type JoinKey,
+  type JoinResult,
+  type JoinType,
+  type Workspace,
+  type WorkspaceDataset,
+} from "../utils/workspace";
+
+interface WorkspacePanelProps {
+  workspace: Workspace;
+  onActivate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onAddFile: () => void;
+  onCreate: (dataset: WorkspaceDataset, inputs: WorkspaceDataset[]) => void;
+  onClose: () => void;
+}
+
+type Tab = "datasets" | "join" | "union";
+
+const JOIN_TYPES: { value: JoinType; label: string; hint: string }[] = [
+  { value: "inner", label: "Inner", hint: "Only rows with a match on both sides" },
+  { value: "left", label: "Left", hint: "Every left row, matched where possible" },
+  { value: "right", label: "Right", hint: "Every right row, matched where possible" },
+  { value: "full", label: "Full", hint: "Every row from both sides" },
+];
+
+const selectClass = "px-2 py-1.5 bg-gray-700/50 text-gray-200 text-sm rounded border border-gray-600/50";
+const primaryButton =
+  "flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const secondaryButton =
+  "flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 text-gray-100 text-sm rounded-lg border border-gray-600 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Suggest key pairs from columns with the same name (case-insensitive)
+function suggestKeys(left: WorkspaceDataset, right: WorkspaceDataset): JoinKey[] {
+  const rightCols = datasetColumns(right);
+  const shared = datasetColumns(left).flatMap((l) => {
+    const r = rightCols.find((c) => c.toLowerCase() === l.toLowerCase());
+    return r ? [{ left: l, right: r }] : [];
+  });
+  const idLike = shared.filter((k) => /id$|key$|code$/i.test(k.left));
+  return (idLike.length ? idLike : shared).slice(0, 1);
+}
+
+/**
+ * Every dataset in the session, plus builders that join or stack them into new datasets.
+ * The cleaned rows of each input are used, so clean first and combine after.
+ */
+export default function WorkspacePanel({
+  workspace,
+  onActivate,
+  onRename,
+  onRemove,
+  onAddFile,
+  onCreate,
+  onClose,
+}: WorkspacePanelProps) {
+  const { datasets } = workspace;
+  const [tab, setTab] = useState<Tab>("datasets");
+  const [error, setError] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  // Join builder
+  const [leftId, setLeftId] = useState(datasets[0]?.id ?? "");
+  const [rightId, setRightId] = useState(datasets[1]?.id ?? "");
+  const [joinType, setJoinType] = useState<JoinType>("left");
+  const [keys, setKeys] = useState<JoinKey[]>(() =>
+    datasets.length > 1 ? suggestKeys(datasets[0], datasets[1]) : []
+  );
+  const [joinPreview, setJoinPreview] = useState<JoinResult | null>(null);
+
+  // Union builder
+  const [unionIds, setUnionIds] = useState<string[]>([]);
+  const [sourceColumn, setSourceColumn] = useState("source_dataset");
+
+  const byId = (id: string) => datasets.find((d) => d.id === id);
+  const left = byId(leftId);
+  const right = byId(rightId);
+
+  const run = <T,>(fn: () => T): T | undefined => {
+    setError("");
+    try {
+      return fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      return undefined;
+    }
+  };
+
+  const changeSide = (side: "left" | "right", id: string) => {
+    const nextLeft = side === "left" ? byId(id) : left;
+    const nextRight = side === "right" ? byId(id) : right;
+    if (side === "left") setLeftId(id);
+    else setRightId(id);
+    setKeys(nextLeft && nextRight ? suggestKeys(nextLeft, nextRight) : []);
+    setJoinPreview(null);
+  };
+
+  const updateKey = (idx: number, patch: Partial<JoinKey>) => {
+    setKeys(keys.map((k, i) => (i === idx ? { ...k, ...patch } : k)));
+    setJoinPreview(null);
+  };
+
+  const joinInputs = () => {
+    if (!left || !right) throw new Error("Pick two datasets to join.");
+    return [
+      { name: left.name, rows: left.cleanedRows, columns: datasetColumns(left) },
+      { name: right.name, rows: right.cleanedRows, columns: datasetColumns(right) },
+    ] as const;
+  };
+
+  const handlePreviewJoin = () => {
+    const result = run(() => {
+      const [l, r] = joinInputs();
+      return joinDatasets(l, r, { type: joinType, keys });
+    });
+    setJoinPreview(result ?? null);
+  };
+
+  const handleCreateJoin = () => {
+    if (!joinPreview || !left || !right) return;
+    if (joinPreview.rows.length === 0) {
+      setError("The join produced no rows, so there is nothing to add.");
+      return;
+    }
+    const options = { type: joinType, keys };
+    const dataset = createDerivedDataset(
+      uniqueDatasetName(workspace, `${left.name} ⋈ ${right.name}`),
+      "join",
+      describeJoin(left.name, right.name, options),
+      joinPreview.rows
+    );
+    onCreate(dataset, [left, right]);
+  };
+
+  const unionInputs = unionIds.map(byId).filter((d): d is WorkspaceDataset => !!d);
+  // Column coverage only needs the headers, so preview it without any rows
+  const unionMissing =
+    unionInputs.length > 1
+      ? unionDatasets(unionInputs.map((d) => ({ name: d.name, rows: [], columns: datasetColumns(d) }))).missingColumns
+      : [];
+
+  const handleCreateUnion = () => {
+    const inputs = unionInputs;
+    const result = run(() =>
+      unionDatasets(
+        inputs.map((d) => ({ name: d.name, rows: d.cleanedRows, columns: datasetColumns(d) })),
+        sourceColumn.trim() || undefined
+      )
+    );
+    if (!result) return;
+    const dataset = createDerivedDataset(
+      uniqueDatasetName(workspace, inputs.map((d) => d.name).join(" + ")),
+      "union",
+      `Union of ${inputs.map((d) => d.name).join(", ")}`,
+      result.rows
+    );
+    onCreate(dataset, inputs);
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    setError("");
+    try {
+      onRename(editing.id, editing.name);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not rename the dataset");
+    }
+  };
+
+  const tabs: { id: Tab; label: string; icon: typeof Layers; disabled?: boolean }[] = [
+    { id: "datasets", label: "Datasets", icon: Layers },
+    { id: "join", label: "Join", icon: GitMerge, disabled: datasets.length < 2 },
+    { id: "union", label: "Union", icon: Rows3, disabled: datasets.length < 2 },
+  ];
+
+  const diag = joinPreview?.diagnostics;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-gray-800 border border-gray-700/50 rounded-xl p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Layers className="w-6 h-6 text-blue-400" />
+            <div>
+              <h2 className="text-xl font-semibold text-white">Workspace</h2>
+              <p className="text-sm text-gray-400">
+                {datasets.length} dataset{datasets.length === 1 ? "" : "s"} loaded
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {tabs.map(({ id, label, icon: Icon, disabled }) => (
+            <button
+              key={id}
+              onClick={() => {
+                setTab(id);
+                setError("");
+              }}
+              disabled={disabled}
+              title={disabled ? "Load at least two datasets first" : undefined}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                tab === id ? "bg-blue-600 text-white" : "bg-gray-700/50 text-gray-300 hover:bg-gray-600/50"
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        {tab === "datasets" && (
+          <div className="space-y-2">
+            {datasets.map((d) => {
+              const isActive = d.id === workspace.activeId;
+              return (
+                <div
+                  key={d.id}
+                  className={`flex items-center gap-3 p-3 rounded-lg border ${
+                    isActive ? "bg-blue-900/30 border-blue-500/40" : "bg-gray-700/30 border-gray-600/40"
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    {editing?.id === d.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          autoFocus
+                          value={editing.name}
+                          onChange={(e) => setEditing({ id: d.id, name: e.target.value })}
+                          onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                          className="flex-1 px-2 py-1 bg-gray-900/60 text-white text-sm rounded border border-gray-600"
+                        />
+                        <button onClick={handleRename} className="p-1 text-green-300 hover:text-green-200" title="Save name">
+                          <Check className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-sm font-medium text-white truncate">
+                        {d.name}
+                        {isActive && <span className="ml-2 text-xs text-blue-300">active</span>}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 truncate">
+                      {d.cleanedRows.length.toLocaleString()} rows · {d.dataSummary.columns} columns · {d.description}
+                    </p>
+                  </div>
+                  {!isActive && (
+                    <button onClick={() => onActivate(d.id)} className={secondaryButton}>
+                      Open
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing({ id: d.id, name: d.name })}
+                    className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-600/50"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => confirm(`Remove "${d.name}" from the workspace?`) && onRemove(d.id)}
+                    className="p-1.5 rounded-md text-gray-400 hover:text-red-300 hover:bg-red-600/20"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+            <button onClick={onAddFile} className={`${secondaryButton} mt-2`}>
+              <Plus className="w-4 h-4" />
+              Add another file
+            </button>
+          </div>
+        )}
+
+        {tab === "join" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>Left dataset</span>
+                <select value={leftId} onChange={(e) => changeSide("left", e.target.value)} className={`w-full ${selectClass}`}>
+                  {datasets.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>Join type</span>
+                <select
+                  value={joinType}
+                  onChange={(e) => {
+                    setJoinType(e.target.value as JoinType);
+                    setJoinPreview(null);
+                  }}
+                  className={`w-full ${selectClass}`}
+                >
+                  {JOIN_TYPES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>Right dataset</span>
+                <select value={rightId} onChange={(e) => changeSide("right", e.target.value)} className={`w-full ${selectClass}`}>
+                  {datasets.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">{JOIN_TYPES.find((t) => t.value === joinType)?.hint}</p>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-300">🔑 Key columns</h3>
+                <button
+                  onClick={() => {
+                    if (!left || !right) return;
+                    setKeys([...keys, { left: datasetColumns(left)[0], right: datasetColumns(right)[0] }]);
+                    setJoinPreview(null);
+                  }}
+                  disabled={!left || !right}
+                  className={secondaryButton}
+                >
+                  <Plus className="w-4 h-4" /> Add key
+                </button>
+              </div>
+              {keys.length === 0 && <p className="text-xs text-gray-500 italic">No keys yet</p>}
+              <div className="space-y-2">
+                {keys.map((key, idx) => (
+                  <div key={idx} className="flex items-center gap-2">
+                    <select value={key.left} onChange={(e) => updateKey(idx, { left: e.target.value })} className={`flex-1 ${selectClass}`}>
+                      {left && datasetColumns(left).map((c) => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <span className="text-gray-500">=</span>
+                    <select value={key.right} onChange={(e) => updateKey(idx, { right: e.target.value })} className={`flex-1 ${selectClass}`}>
+                      {right && datasetColumns(right).map((c) => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button
+                      onClick={() => {
+                        setKeys(keys.filter((_, i) => i !== idx));
+                        setJoinPreview(null);
+                      }}
+                      className="p-1.5 rounded-md text-gray-400 hover:text-red-300"
+                      title="Remove key"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={handlePreviewJoin} disabled={keys.length === 0 || leftId === rightId} className={secondaryButton}>
+                Check join
+              </button>
+              <button onClick={handleCreateJoin} disabled={!joinPreview} className={primaryButton}>
+                <GitMerge className="w-4 h-4" /> Add as dataset
+              </button>
+            </div>
+            {leftId === rightId && <p className="text-xs text-yellow-300">Pick two different datasets.</p>}
+
+            {diag && (
+              <div className="p-4 bg-gray-900/40 border border-gray-700/50 rounded-lg space-y-3 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <p className="text-xs text-gray-400">Result rows</p>
+                    <p className="text-lg font-semibold text-white">{diag.resultRows.toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Left matched</p>
+                    <p className="text-lg font-semibold text-green-300">
+                      {diag.matchedLeftRows.toLocaleString()} / {diag.leftRows.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Right matched</p>
+                    <p className="text-lg font-semibold text-green-300">
+                      {diag.matchedRightRows.toLocaleString()} / {diag.rightRows.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Max matches per left row</p>
+                    <p className={`text-lg font-semibold ${diag.maxMatchesPerRow > 1 ? "text-yellow-300" : "text-white"}`}>
+                      {diag.maxMatchesPerRow}
+                    </p>
+                  </div>
+                </div>
+
+                {diag.warnings.map((w) => (
+                  <p key={w} className="flex items-start gap-2 text-yellow-200 text-xs">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {w}
+                  </p>
+                ))}
+                {diag.sampleUnmatchedLeft.length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Unmatched left keys: <span className="text-gray-200">{diag.sampleUnmatchedLeft.join(", ")}</span>
+                    {diag.unmatchedLeftRows > diag.sampleUnmatchedLeft.length && " …"}
+                  </p>
+                )}
+                {diag.sampleUnmatchedRight.length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Unmatched right keys: <span className="text-gray-200">{diag.sampleUnmatchedRight.join(", ")}</span>
+                    {diag.unmatchedRightRows > diag.sampleUnmatchedRight.length && " …"}
+                  </p>
+                )}
+                {diag.renamedColumns.length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    Renamed: {diag.renamedColumns.map((c) => `${c.from} → ${c.to}`).join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {tab === "union" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+              Rows are stacked and matched by column name. Columns missing from a dataset are left empty.
+            </p>
+            <div className="space-y-2">
+              {datasets.map((d) => (
+                <label key={d.id} className="flex items-center gap-3 p-2 bg-gray-700/30 rounded-lg cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={unionIds.includes(d.id)}
+                    onChange={() =>
+                      setUnionIds(unionIds.includes(d.id) ? unionIds.filter((id) => id !== d.id) : [...unionIds, d.id])
+                    }
+                  />
+                  <span className="text-sm text-white">{d.name}</span>
+                  <span className="text-xs text-gray-400">{d.cleanedRows.length.toLocaleString()} rows</span>
+                </label>
+              ))}
+            </div>
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Source column (leave empty to skip)</span>
+              <input
+                value={sourceColumn}
+                onChange={(e) => setSourceColumn(e.target.value)}
+                className="w-full px-2 py-1.5 bg-gray-700/50 text-gray-200 text-sm rounded border border-gray-600/50"
+              />
+            </label>
+            {unionMissing.length > 0 && (
+              <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-1">
+                {unionMissing.map((m) => (
+                  <p key={m.dataset} className="flex items-start gap-2 text-xs text-yellow-200">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>
+                      {m.dataset} has no {m.columns.join(", ")}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            )}
+            <button onClick={handleCreateUnion} disabled={unionInputs.length < 2} className={primaryButton}>
+              <Rows3 className="w-4 h-4" /> Add union as dataset
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
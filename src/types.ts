@@ -13,11 +13,22 @@ export interface DataSummary {
   duplicates: number;
 }
 
+export interface StructuralIssue {
+  row: number; // 1-based data row number (header excluded)
+  kind: 'too_few_fields' | 'too_many_fields' | 'unterminated_quote';
+  expected: number;
+  found: number;
+}
+
 export interface CleaningIssues {
   missingValues: DataColumn[];
   invalidTypes: DataColumn[];
   outliers: DataColumn[];
   duplicates: number;
+  structural?: {
+    total: number;
+    rows: StructuralIssue[]; // first few offenders, capped for large files
+  };
 }
 
 export interface Statistics {
@@ -37,9 +48,50 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+// Authentication
+export interface AuthUser {
+  id: string;
+  email: string;
+  displayName: string;
+  provider: 'local' | 'supabase' | 'guest';
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  expiresAt: number; // epoch ms
+}
+
 export type Screen = 'login' | 'upload' | 'cleaning' | 'visualization' | 'summary';
 export type ChartType = 'line' | 'bar' | 'scatter';
 
+// What the analytics tab was showing, so a resumed session opens where it left off
+export interface ChartConfig {
+  selectedColumn: string;
+  showStatistics: boolean;
+  pinnedColumns?: string[]; // quick-switch charts, set by a template
+  metrics?: string[]; // KPI specs such as "sum:Revenue" or "count"
+  template?: { id: string; name: string };
+  timeSeries?: TimeSeriesSettings;
+}
+
+export type TimeBucket = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'fiscalYear';
+export type TimeAggregation = 'sum' | 'avg' | 'count' | 'distinct';
+export type GapFill = 'zero' | 'previous' | 'linear' | 'none';
+export type PeriodComparison = 'none' | 'previous' | 'year';
+
+// How the time-series chart resamples its date column
+export interface TimeSeriesSettings {
+  valueColumn?: string; // unset counts rows
+  aggregation: TimeAggregation;
+  bucket: TimeBucket;
+  timeZone: string; // IANA zone; date-only values are never shifted
+  fill?: GapFill; // unset: zero for totals and counts, none for averages
+  rollingWindow?: number; // buckets in the trailing moving average, e.g. 7 for a 7-day average
+  comparison: PeriodComparison; // previous bucket (MoM for months) or the same bucket a year earlier
+  cumulative: boolean;
+  fiscalYearStartMonth?: number; // 1-12, for fiscal-year buckets
+}
+
 // Collaboration Features
 export interface Comment {
   id: string;
@@ -47,7 +99,14 @@ export interface Comment {
   text: string;
   attachedTo: 'insight' | 'chart' | 'row' | 'analysis';
   timestamp: Date;
-  resolved: boolean;
+  resolved: boolean; // kept on the thread's first comment
+  authorId?: string;
+  datasetId?: string;
+  targetId?: string; // row index, chart column or insight text; unset for the analysis itself
+  targetLabel?: string; // what the target looked like when the thread started
+  parentId?: string; // replies point at the first comment of their thread
+  mentions?: string[]; // @handles mentioned in the text
+  resolvedBy?: string;
 }
 
 export interface SavedQuery {
@@ -57,7 +116,7 @@ export interface SavedQuery {
   config: Record<string, unknown>;
   createdAt: Date;
   createdBy: string;
-  lastRun: Date;
+  lastRun?: Date; // unset until the query is first run
   tags: string[];
 }
 
@@ -72,8 +131,9 @@ export interface SharedAnalysis {
   insights: string[];
   queries: SavedQuery[];
   comments: Comment[];
-  isPublic: boolean;
+  isPublic: boolean; // false once the owner revokes the link
   shareLink: string;
+  expiresAt?: Date; // unset: the link never expires
 }
 
 export interface AnalysisTemplate {
@@ -81,9 +141,12 @@ export interface AnalysisTemplate {
   name: string;
   category: 'ecommerce' | 'saas' | 'healthcare' | 'general';
   description: string;
-  recommendedCharts: string[];
-  suggestedMetrics: string[];
+  // Columns are written as {role} placeholders, matched against the dataset when applied
+  recommendedCharts: string[]; // e.g. "{revenue}"
+  suggestedMetrics: string[]; // e.g. "sum:{revenue}" or "count"
   sampleQueries: SavedQuery[];
+  createdBy?: string; // unset on built-in templates
+  createdAt?: Date;
 }
 
 export interface DataLineageSnapshot {
@@ -95,11 +158,28 @@ export interface DataLineageSnapshot {
 }
 
 export interface StatisticalTest {
+  id?: string;
   name: string;
-  testType: 'ttest' | 'chisquare' | 'correlation' | 'anova';
+  testType: 'ttest' | 'welch' | 'mannwhitney' | 'chisquare' | 'correlation' | 'anova' | 'kruskal';
   pValue: number;
   statistic: number;
   significant: boolean;
   interpretation: string;
   confidence: number;
+  columns?: string[]; // dataset columns the test ran on
+  groups?: string[]; // group labels compared, for grouped tests
+  effectSize?: { name: string; value: number };
+  details?: Record<string, number>; // degrees of freedom, z scores and the like
+  runAt?: Date;
+}
+
+export interface ExperimentConfig {
+  variantColumn: string;
+  control: string; // variant value every other variant is compared against
+  metrics: string[];
+  preMetric?: string; // pre-period column for CUPED; unset to skip the adjustment
+  expectedSplit?: Record<string, number>; // relative traffic weights per variant; unset means an even split
+  confidence: number;
+  sequential: boolean; // report always-valid p-values so results can be checked at any time
+  minimumDetectableLift: number; // relative lift, e.g. 0.05; sizes the power check and the sequential prior
 }
@@ -1,5 +1,9 @@
 // Advanced analytics utilities
-import type { DataRow } from '../types';
+import type { DataRow, TimeBucket } from '../types';
+import { compareAllSegments, type AllPairsComparison } from './drillDown';
+import { periodOf, type BucketOptions } from './resample';
+import { analyzeRfm, type RfmSegment } from './rfm';
+import type { PValueCorrection } from './statistics';
 
 export interface TrendAnalysis {
   trend: 'increasing' | 'decreasing' | 'stable';
@@ -125,40 +129,24 @@ export const detectAnomaliesZScore = (
   return anomalies.sort((a, b) => Math.abs(b.zscore) - Math.abs(a.zscore));
 };
 
-// Cohort analysis - group users by signup date
+// Cohort analysis - per-period totals by signup date (see cohorts.ts for retention cohorts)
 export const cohortAnalysis = (
   data: DataRow[],
   dateColumn: string,
   metricColumn: string,
-  bucketType: 'month' | 'week' | 'day' = 'month'
+  bucketType: TimeBucket = 'month',
+  options: BucketOptions = {}
 ): SegmentComparison[] => {
   const cohorts: Record<string, number[]> = {};
 
   data.forEach((row) => {
-    const dateStr = String(row[dateColumn]);
-    const metricVal = Number(row[metricColumn]) || 0;
-
-    if (!isNaN(Date.parse(dateStr))) {
-      const date = new Date(dateStr);
-      let key: string;
-
-      switch (bucketType) {
-        case 'month':
-          key = date.toISOString().substring(0, 7);
-          break;
-        case 'week':
-          const weekStart = new Date(date);
-          weekStart.setDate(date.getDate() - date.getDay());
-          key = weekStart.toISOString().substring(0, 10);
-          break;
-        case 'day':
-          key = date.toISOString().substring(0, 10);
-          break;
-      }
+    // Weeks start on Sunday here unless the caller says otherwise
+    const key = periodOf(row[dateColumn], bucketType, { weekStartsOn: 0, ...options });
+    if (key === null) return;
 
-      if (!cohorts[key]) cohorts[key] = [];
-      cohorts[key].push(metricVal);
-    }
+    const metricVal = Number(row[metricColumn]) || 0;
+    if (!cohorts[key]) cohorts[key] = [];
+    cohorts[key].push(metricVal);
   });
 
   return Object.entries(cohorts)
@@ -213,7 +201,16 @@ export const abTestAnalysis = (
   return results;
 };
 
-// RFM Analysis (Recency, Frequency, Monetary)
+// A/B/n test: every variant against every other, with p-values corrected for the number of pairs
+export const abTestPairwise = (
+  data: DataRow[],
+  groupColumn: string,
+  metricColumn: string,
+  correction: PValueCorrection = 'holm',
+  alpha = 0.05
+): AllPairsComparison => compareAllSegments(data, groupColumn, metricColumn, { correction, alpha });
+
+// RFM Analysis (Recency, Frequency, Monetary) with quintile scores, keyed by customer
 export const rfmAnalysis = (
   data: DataRow[],
   customerColumn: string,
@@ -227,70 +224,25 @@ export const rfmAnalysis = (
     frequency: number;
     monetary: number;
     rfmScore: string;
+    segment: RfmSegment;
   }
 > => {
-  const customers: Record<
-    string,
-    {
-      dates: Date[];
-      amounts: number[];
-    }
-  > = {};
-
-  data.forEach((row) => {
-    const customer = String(row[customerColumn]);
-    const dateStr = String(row[dateColumn]);
-    const amount = Number(row[amountColumn]) || 0;
-
-    if (!isNaN(Date.parse(dateStr))) {
-      if (!customers[customer]) {
-        customers[customer] = { dates: [], amounts: [] };
-      }
-      customers[customer].dates.push(new Date(dateStr));
-      customers[customer].amounts.push(amount);
-    }
+  const { customers } = analyzeRfm(data, {
+    customerColumn,
+    dateColumn,
+    amountColumn,
+    referenceDate: referenceDate.toISOString().slice(0, 10),
   });
 
-  const results: Record<
-    string,
-    { recency: number; frequency: number; monetary: number; rfmScore: string }
-  > = {};
-
-  Object.entries(customers).forEach(([customer, { dates, amounts }]) => {
-    // Recency: days since last purchase
-    const lastPurchase = new Date(Math.max(...dates.map((d) => d.getTime())));
-    const recency = Math.floor(
-      (referenceDate.getTime() - lastPurchase.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    // Frequency: number of purchases
-    const frequency = dates.length;
-
-    // Monetary: total spent
-    const monetary = amounts.reduce((a, b) => a + b, 0);
-
-    // RFM Score: Rank each dimension and combine
-    let rfmScore = '';
-
-    // Simplified scoring: Low/Medium/High for each dimension
-    const recencyScore = recency <= 30 ? 'High' : recency <= 90 ? 'Medium' : 'Low';
-    const frequencyScore = frequency >= 10 ? 'High' : frequency >= 5 ? 'Medium' : 'Low';
-    const monetaryScore = monetary >= 1000 ? 'High' : monetary >= 500 ? 'Medium' : 'Low';
-
-    rfmScore = `${recencyScore[0]}${frequencyScore[0]}${monetaryScore[0]}`;
-
-    results[customer] = {
-      recency,
-      frequency,
-      monetary: Math.round(monetary * 100) / 100,
-      rfmScore,
-    };
-  });
-
-  return results;
+  return Object.fromEntries(
+    customers.map((c) => [
+      c.customer,
+      { recency: c.recency, frequency: c.frequency, monetary: c.monetary, rfmScore: c.score, segment: c.segment },
+    ])
+  );
 };
 
-// Churn prediction indicators
+// Churn prediction indicators (heuristic; see churnModel.ts for a trained classifier)
 export const churnIndicators = (
   data: DataRow[],
   dateColumn: string,
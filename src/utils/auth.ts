@@ -0,0 +1,379 @@
+// src/utils/auth.ts
+// Pluggable authentication. The Supabase adapter is used when VITE_SUPABASE_URL and
+// VITE_SUPABASE_ANON_KEY are set; otherwise a local stand-in keeps accounts in IndexedDB.
+import type { SupabaseClient, Session } from "@supabase/supabase-js";
+import type { AuthSession, AuthUser } from "../types";
+import { openDatabase, requestToPromise, withStore } from "./indexedDb";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
+export interface ResetPasswordInput {
+  email: string;
+  token: string;
+  newPassword: string;
+}
+
+export interface AuthProvider {
+  id: "local" | "supabase";
+  supportsGoogle: boolean;
+  /** False where there is no way to deliver a reset code out of band. */
+  supportsPasswordReset: boolean;
+  /** Resolves null when the account still has to be confirmed by email. */
+  signUp(input: SignUpInput): Promise<AuthSession | null>;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  /** Redirects away from the app; the session is picked up by getSession() on return. */
+  signInWithGoogle?(): Promise<void>;
+  signOut(): Promise<void>;
+  /**
+   * Sends a one-time code to the address. Resolves the same way whether or not an account
+   * exists, and never hands the code back, so callers learn nothing about registered emails.
+   */
+  requestPasswordReset(email: string): Promise<void>;
+  resetPassword(input: ResetPasswordInput): Promise<AuthSession>;
+  getSession(): Promise<AuthSession | null>;
+  /** Accounts that can be @mentioned; missing where the backend cannot list users. */
+  listUsers?(): Promise<AuthUser[]>;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function validateCredentials(email: string, password: string): string | null {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) return "Please enter a valid email.";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  return null;
+}
+
+export function createGuestUser(): AuthUser {
+  return { id: "guest", email: "", displayName: "Guest", provider: "guest" };
+}
+
+function displayNameFor(email: string, displayName?: string): string {
+  return displayName?.trim() || email.split("@")[0];
+}
+
+// ---------- Local provider ----------
+
+const AUTH_DB = "autoinsight-auth";
+const USERS_STORE = "users";
+const RESET_STORE = "resetTokens";
+const SESSION_KEY = "auth_session";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESET_TTL_MS = 30 * 60 * 1000;
+const PBKDF2_ITERATIONS = 210_000;
+
+interface StoredUser {
+  id: string;
+  email: string; // normalized, also the key
+  displayName: string;
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+  createdAt: number;
+}
+
+interface StoredResetToken {
+  tokenHash: string;
+  email: string;
+  expiresAt: number;
+}
+
+function openAuthDb(): Promise<IDBDatabase> {
+  return openDatabase(AUTH_DB, 1, (db) => {
+    if (!db.objectStoreNames.contains(USERS_STORE)) db.createObjectStore(USERS_STORE, { keyPath: "email" });
+    if (!db.objectStoreNames.contains(RESET_STORE)) db.createObjectStore(RESET_STORE, { keyPath: "tokenHash" });
+  });
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function randomHex(byteLength: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function hashPassword(password: string, saltHex: string, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(saltHex), iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))));
+}
+
+// Compare without short-circuiting so timing doesn't leak how many characters matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function toAuthUser(user: StoredUser): AuthUser {
+  return { id: user.id, email: user.email, displayName: user.displayName, provider: "local" };
+}
+
+async function getStoredUser(email: string): Promise<StoredUser | undefined> {
+  const db = await openAuthDb();
+  return withStore(db, USERS_STORE, "readonly", (store) =>
+    requestToPromise(store.get(email) as IDBRequest<StoredUser | undefined>)
+  );
+}
+
+async function putStoredUser(user: StoredUser): Promise<void> {
+  const db = await openAuthDb();
+  await withStore(db, USERS_STORE, "readwrite", (store) => requestToPromise(store.put(user)));
+}
+
+function startLocalSession(user: StoredUser): AuthSession {
+  const session: AuthSession = { user: toAuthUser(user), expiresAt: Date.now() + SESSION_TTL_MS };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+}
+
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    id: "local",
+    supportsGoogle: false,
+    // There is no mail server for device accounts; development builds use the console as the mailbox
+    supportsPasswordReset: import.meta.env.DEV,
+
+    async signUp({ email, password, displayName }) {
+      const problem = validateCredentials(email, password);
+      if (problem) throw new Error(problem);
+
+      const normalized = normalizeEmail(email);
+      if (await getStoredUser(normalized)) throw new Error("An account with this email already exists.");
+
+      const salt = randomHex(16);
+      const user: StoredUser = {
+        id: crypto.randomUUID(),
+        email: normalized,
+        displayName: displayNameFor(normalized, displayName),
+        passwordHash: await hashPassword(password, salt, PBKDF2_ITERATIONS),
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        createdAt: Date.now(),
+      };
+      await putStoredUser(user);
+      return startLocalSession(user);
+    },
+
+    async signIn(email, password) {
+      const user = await getStoredUser(normalizeEmail(email));
+      // Hash even for unknown emails so both failures take the same time
+      const hash = await hashPassword(password, user?.salt ?? randomHex(16), user?.iterations ?? PBKDF2_ITERATIONS);
+      if (!user || !safeEqual(hash, user.passwordHash)) throw new Error("Incorrect email or password.");
+      return startLocalSession(user);
+    },
+
+    async signOut() {
+      localStorage.removeItem(SESSION_KEY);
+    },
+
+    async requestPasswordReset(email) {
+      if (!import.meta.env.DEV) throw new Error("Password reset is not available for accounts stored on this device.");
+
+      const normalized = normalizeEmail(email);
+      if (!(await getStoredUser(normalized))) return;
+
+      const token = randomHex(4).toUpperCase();
+      const record: StoredResetToken = {
+        tokenHash: await sha256Hex(`${normalized}:${token}`),
+        email: normalized,
+        expiresAt: Date.now() + RESET_TTL_MS,
+      };
+      const db = await openAuthDb();
+      await withStore(db, RESET_STORE, "readwrite", (store) => requestToPromise(store.put(record)));
+      console.info(`[dev mailbox] Password reset code for ${normalized}: ${token} (expires in 30 minutes)`);
+    },
+
+    async resetPassword({ email, token, newPassword }) {
+      const normalized = normalizeEmail(email);
+      const problem = validateCredentials(normalized, newPassword);
+      if (problem) throw new Error(problem);
+
+      const tokenHash = await sha256Hex(`${normalized}:${token.trim().toUpperCase()}`);
+      const db = await openAuthDb();
+      // Tokens are single-use: fetch and delete in the same transaction
+      const record = await withStore(db, RESET_STORE, "readwrite", async (store) => {
+        const found = await requestToPromise(store.get(tokenHash) as IDBRequest<StoredResetToken | undefined>);
+        if (found) await requestToPromise(store.delete(tokenHash));
+        return found;
+      });
+      if (!record || record.expiresAt < Date.now()) throw new Error("This reset code is invalid or has expired.");
+
+      const user = await getStoredUser(normalized);
+      if (!user) throw new Error("This reset code is invalid or has expired.");
+
+      const salt = randomHex(16);
+      const updated: StoredUser = {
+        ...user,
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        passwordHash: await hashPassword(newPassword, salt, PBKDF2_ITERATIONS),
+      };
+      await putStoredUser(updated);
+      return startLocalSession(updated);
+    },
+
+    async getSession() {
+      const raw = localStorage.getItem(SESSION_KEY);
+      if (!raw) return null;
+      try {
+        const session = JSON.parse(raw) as AuthSession;
+        // The account may have been removed since (e.g. site data cleared)
+        if (session.expiresAt > Date.now() && (await getStoredUser(session.user.email))) return session;
+      } catch {
+        // corrupt entry, fall through
+      }
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    },
+
+    async listUsers() {
+      const db = await openAuthDb();
+      const users = await withStore(db, USERS_STORE, "readonly", (store) =>
+        requestToPromise(store.getAll() as IDBRequest<StoredUser[]>)
+      );
+      return users.map(toAuthUser);
+    },
+  };
+}
+
+// ---------- Supabase provider ----------
+
+function fromSupabaseSession(session: Session): AuthSession {
+  const email = session.user.email ?? "";
+  const metadata = session.user.user_metadata as { display_name?: string; full_name?: string } | undefined;
+  return {
+    user: {
+      id: session.user.id,
+      email,
+      displayName: displayNameFor(email, metadata?.display_name ?? metadata?.full_name),
+      provider: "supabase",
+    },
+    expiresAt: (session.expires_at ?? Math.floor(Date.now() / 1000) + 3600) * 1000,
+  };
+}
+
+export function createSupabaseAuthProvider(url: string, anonKey: string): AuthProvider {
+  // The client is only downloaded when this provider is actually in use
+  let client: Promise<SupabaseClient> | null = null;
+  const getClient = () => {
+    client ??= import("@supabase/supabase-js").then(({ createClient }) => createClient(url, anonKey));
+    return client;
+  };
+
+  return {
+    id: "supabase",
+    supportsGoogle: true,
+    supportsPasswordReset: true,
+
+    async signUp({ email, password, displayName }) {
+      const problem = validateCredentials(email, password);
+      if (problem) throw new Error(problem);
+
+      const supabase = await getClient();
+      const { data, error } = await supabase.auth.signUp({
+        email: normalizeEmail(email),
+        password,
+        options: { data: { display_name: displayNameFor(email, displayName) } },
+      });
+      if (error) throw new Error(error.message);
+      return data.session ? fromSupabaseSession(data.session) : null;
+    },
+
+    async signIn(email, password) {
+      const supabase = await getClient();
+      const { data, error } = await supabase.auth.signInWithPassword({ email: normalizeEmail(email), password });
+      if (error) throw new Error(error.message);
+      return fromSupabaseSession(data.session);
+    },
+
+    async signInWithGoogle() {
+      const supabase = await getClient();
+      const { error } = await supabase.auth.signInWithOAuth({
+        provider: "google",
+        options: { redirectTo: window.location.origin },
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    async signOut() {
+      const supabase = await getClient();
+      const { error } = await supabase.auth.signOut();
+      if (error) throw new Error(error.message);
+    },
+
+    // Supabase emails a one-time code ({{ .Token }} in the recovery template)
+    async requestPasswordReset(email) {
+      const supabase = await getClient();
+      const { error } = await supabase.auth.resetPasswordForEmail(normalizeEmail(email), {
+        redirectTo: window.location.origin,
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    async resetPassword({ email, token, newPassword }) {
+      const problem = validateCredentials(email, newPassword);
+      if (problem) throw new Error(problem);
+
+      const supabase = await getClient();
+      const verified = await supabase.auth.verifyOtp({
+        email: normalizeEmail(email),
+        token: token.trim(),
+        type: "recovery",
+      });
+      if (verified.error) throw new Error(verified.error.message);
+
+      const updated = await supabase.auth.updateUser({ password: newPassword });
+      if (updated.error) throw new Error(updated.error.message);
+
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) throw new Error("Password updated. Please sign in again.");
+      return fromSupabaseSession(data.session);
+    },
+
+    async getSession() {
+      const supabase = await getClient();
+      const { data } = await supabase.auth.getSession();
+      return data.session ? fromSupabaseSession(data.session) : null;
+    },
+  };
+}
+
+// ---------- Provider selection ----------
+
+let provider: AuthProvider | null = null;
+
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    const url = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+    provider = url && anonKey ? createSupabaseAuthProvider(url, anonKey) : createLocalAuthProvider();
+  }
+  return provider;
+}
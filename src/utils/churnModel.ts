@@ -0,0 +1,465 @@
+/**
+ * Churn Model
+ * A logistic regression trained in the browser on a stratified train/test split. Numeric
+ * and date features are standardized, text features one-hot encoded, and the fitted model
+ * is plain JSON so a cleaning pipeline step can score every row with a churn probability.
+ */
+
+import type { DataRow } from '../types';
+import { wallClockTime } from './resample';
+import { seededRandom } from './statistics';
+
+export interface ChurnModelConfig {
+  labelColumn: string;
+  positiveLabel: string; // label value that means "churned"
+  featureColumns: string[];
+  testShare?: number; // held out for evaluation, 0.25 by default
+  l2?: number; // ridge penalty on the weights, 1 by default
+  seed?: number;
+}
+
+// Missing and unreadable values are scored as the training mean (numbers, dates) or as no level (text)
+export type FeatureEncoder =
+  | { column: string; kind: 'numeric'; mean: number; sd: number }
+  | { column: string; kind: 'date'; origin: number; mean: number; sd: number } // days before origin
+  | { column: string; kind: 'category'; levels: string[] };
+
+export interface ChurnModel {
+  config: ChurnModelConfig;
+  encoders: FeatureEncoder[];
+  intercept: number;
+  weights: number[]; // one per encoded feature, in encoder order
+}
+
+export interface ChurnCoefficient {
+  feature: string; // column, or "column = level" for one-hot features
+  column: string;
+  weight: number; // per standard deviation for numeric and date features
+  oddsRatio: number;
+}
+
+export interface ConfusionMatrix {
+  threshold: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  accuracy: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  predicted: number; // mean predicted probability
+  observed: number; // share that actually churned
+  count: number;
+}
+
+export interface ChurnReport {
+  model: ChurnModel;
+  trainRows: number;
+  testRows: number;
+  skippedRows: number; // no label
+  baseRate: number; // churn rate in the training rows
+  auc: number;
+  roc: { fpr: number; tpr: number; threshold: number }[];
+  brier: number;
+  logLoss: number;
+  calibration: CalibrationBin[];
+  coefficients: ChurnCoefficient[]; // largest effect first
+  test: { probability: number; churned: boolean }[]; // for confusion matrices at other thresholds
+  converged: boolean;
+  warnings: string[];
+}
+
+const MAX_LEVELS = 20; // per text column; rarer levels share the all-zero encoding
+const MAX_FEATURES = 150;
+const MAX_ITERATIONS = 50;
+const MIN_ROWS = 20;
+const CALIBRATION_BINS = 10;
+const MAX_ROC_POINTS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ID_COLUMN = /(^|[\s_-])id$|^id([\s_-]|$)|uuid|email/i;
+const POSITIVE_HINT = /^(1|true|yes|y|churn(ed)?|lost|cancell?ed|inactive)$/i;
+
+const isBlank = (val: unknown) => val === null || val === undefined || String(val).trim() === '';
+
+/** Numbers and currency text such as "$1,234.50" or "(12.00)". */
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  let text = val.trim();
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()$€£¥₹\s,%]/g, '');
+  const n = Number(text);
+  if (text === '' || !Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+const round = (val: number, digits = 4) => Math.round(val * 10 ** digits) / 10 ** digits;
+const sigmoid = (z: number) => (z >= 0 ? 1 / (1 + Math.exp(-z)) : Math.exp(z) / (1 + Math.exp(z)));
+
+// ---------- Columns ----------
+
+/** Distinct label values with their counts, most common first. */
+export function labelValues(rows: DataRow[], labelColumn: string): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (isBlank(row[labelColumn])) continue;
+    const value = String(row[labelColumn]).trim();
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+}
+
+/** The value that most likely means "churned": yes/true/1/churned, else the rarer of two values. */
+export function guessPositiveLabel(rows: DataRow[], labelColumn: string): string | undefined {
+  const values = labelValues(rows, labelColumn);
+  return values.find((v) => POSITIVE_HINT.test(v.value))?.value ?? (values.length === 2 ? values[1].value : undefined);
+}
+
+/**
+ * Every other column that can carry signal: not blank or constant, not named like an id,
+ * and not text with a different value in every row (names, emails).
+ */
+export function suggestFeatureColumns(rows: DataRow[], labelColumn: string): string[] {
+  const headers = Object.keys(rows[0] || {});
+  return headers.filter((h) => {
+    if (h === labelColumn || ID_COLUMN.test(h)) return false;
+    const filled = rows.filter((r) => !isBlank(r[h]));
+    const distinct = new Set(filled.map((r) => String(r[h]).trim().toLowerCase())).size;
+    if (distinct < 2) return false;
+    return distinct < filled.length || filled.every((r) => toNumber(r[h]) !== null);
+  });
+}
+
+// ---------- Encoding ----------
+
+function fitEncoder(rows: DataRow[], column: string): FeatureEncoder {
+  const filled = rows.map((r) => r[column]).filter((v) => !isBlank(v));
+  const numbers = filled.map(toNumber).filter((v): v is number => v !== null);
+  const spread = (vals: number[]) => {
+    const mean = vals.reduce((a, b) => a + b, 0) / (vals.length || 1);
+    const sd = Math.sqrt(vals.reduce((a, b) => a + (b - mean) ** 2, 0) / (vals.length || 1));
+    return { mean, sd: sd || 1 };
+  };
+
+  if (filled.length > 0 && numbers.length >= filled.length * 0.95) {
+    return { column, kind: 'numeric', ...spread(numbers) };
+  }
+  const times = filled.map((v) => wallClockTime(v)).filter((v): v is number => v !== null);
+  if (filled.length > 0 && times.length >= filled.length * 0.95) {
+    const origin = times.reduce((max, t) => Math.max(max, t), -Infinity);
+    return { column, kind: 'date', origin, ...spread(times.map((t) => (origin - t) / DAY_MS)) };
+  }
+
+  const counts = new Map<string, number>();
+  for (const v of filled) {
+    const key = String(v).trim();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const levels = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LEVELS)
+    .map(([level]) => level);
+  return { column, kind: 'category', levels };
+}
+
+/** Number of model inputs one encoder produces: a one-hot slot per level, otherwise one. */
+export const encodedWidth = (encoder: FeatureEncoder) => (encoder.kind === 'category' ? encoder.levels.length : 1);
+
+function encodeRow(row: DataRow, encoders: FeatureEncoder[]): number[] {
+  const x: number[] = [];
+  for (const enc of encoders) {
+    const val = row[enc.column];
+    if (enc.kind === 'category') {
+      const level = isBlank(val) ? '' : String(val).trim();
+      for (const l of enc.levels) x.push(l === level ? 1 : 0);
+    } else {
+      const raw = enc.kind === 'numeric' ? toNumber(val) : wallClockTime(val);
+      const value = raw === null ? null : enc.kind === 'date' ? (enc.origin - raw) / DAY_MS : raw;
+      x.push(value === null ? 0 : (value - enc.mean) / enc.sd);
+    }
+  }
+  return x;
+}
+
+function featureNames(encoders: FeatureEncoder[]): { feature: string; column: string }[] {
+  return encoders.flatMap((enc) => {
+    if (enc.kind === 'category') return enc.levels.map((l) => ({ feature: `${enc.column} = ${l}`, column: enc.column }));
+    return [{ feature: enc.kind === 'date' ? `${enc.column} (days before latest)` : enc.column, column: enc.column }];
+  });
+}
+
+// ---------- Fitting ----------
+
+/** Solve A x = b for a symmetric positive-definite A (Cholesky). */
+function solveSpd(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const l = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('The model could not be fitted; try fewer features');
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  const y = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= l[i][k] * y[k];
+    y[i] = sum / l[i][i];
+  }
+  const x = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= l[k][i] * x[k];
+    x[i] = sum / l[i][i];
+  }
+  return x;
+}
+
+/**
+ * Penalized maximum likelihood by Newton's method (IRLS). The intercept (index 0) is
+ * not penalized; the ridge term keeps one-hot and separable features finite.
+ */
+function fitLogistic(xs: number[][], ys: number[], l2: number): { beta: number[]; converged: boolean } {
+  const p = xs[0].length + 1;
+  const beta = new Array<number>(p).fill(0);
+  const rate = ys.reduce((a, b) => a + b, 0) / ys.length;
+  beta[0] = Math.log(rate / (1 - rate));
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const grad = beta.map((b, j) => (j === 0 ? 0 : -l2 * b));
+    const hess = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => (i === j && i > 0 ? l2 : 0)));
+    for (let n = 0; n < xs.length; n++) {
+      const x = xs[n];
+      let z = beta[0];
+      for (let j = 1; j < p; j++) z += beta[j] * x[j - 1];
+      const prob = sigmoid(z);
+      const w = Math.max(prob * (1 - prob), 1e-10);
+      const r = ys[n] - prob;
+      grad[0] += r;
+      hess[0][0] += w;
+      for (let i = 1; i < p; i++) {
+        const xi = x[i - 1];
+        if (xi === 0) continue;
+        grad[i] += r * xi;
+        hess[i][0] += w * xi;
+        for (let j = 1; j <= i; j++) hess[i][j] += w * xi * x[j - 1];
+      }
+    }
+    for (let i = 0; i < p; i++) for (let j = i + 1; j < p; j++) hess[i][j] = hess[j][i];
+
+    const step = solveSpd(hess, grad);
+    let change = 0;
+    for (let j = 0; j < p; j++) {
+      beta[j] += step[j];
+      change = Math.max(change, Math.abs(step[j]));
+    }
+    if (change < 1e-6) return { beta, converged: true };
+  }
+  return { beta, converged: false };
+}
+
+// ---------- Evaluation ----------
+
+/** Area under the ROC curve: the chance a churned row scores above a retained one (ties count half). */
+function rocAuc(scores: { probability: number; churned: boolean }[]): number {
+  const sorted = [...scores].sort((a, b) => a.probability - b.probability);
+  let rankSum = 0;
+  let positives = 0;
+  for (let i = 0; i < sorted.length; ) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].probability === sorted[i].probability) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].churned) {
+        rankSum += rank;
+        positives++;
+      }
+    }
+    i = j + 1;
+  }
+  const negatives = sorted.length - positives;
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+function rocCurve(scores: { probability: number; churned: boolean }[]): ChurnReport['roc'] {
+  const sorted = [...scores].sort((a, b) => b.probability - a.probability);
+  const positives = sorted.filter((s) => s.churned).length;
+  const negatives = sorted.length - positives;
+  const points: ChurnReport['roc'] = [{ fpr: 0, tpr: 0, threshold: 1 }];
+  let tp = 0;
+  let fp = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].churned) tp++;
+    else fp++;
+    if (i + 1 < sorted.length && sorted[i + 1].probability === sorted[i].probability) continue;
+    points.push({ fpr: round(fp / negatives), tpr: round(tp / positives), threshold: round(sorted[i].probability) });
+  }
+  if (points.length <= MAX_ROC_POINTS) return points;
+  const stride = (points.length - 1) / (MAX_ROC_POINTS - 1);
+  return Array.from({ length: MAX_ROC_POINTS }, (_, k) => points[Math.round(k * stride)]);
+}
+
+/** Confusion matrix for the held-out rows, flagging churn at or above the threshold. */
+export function confusionAt(test: ChurnReport['test'], threshold: number): ConfusionMatrix {
+  let tp = 0;
+  let fp = 0;
+  let tn = 0;
+  let fn = 0;
+  for (const t of test) {
+    const flagged = t.probability >= threshold;
+    if (flagged && t.churned) tp++;
+    else if (flagged) fp++;
+    else if (t.churned) fn++;
+    else tn++;
+  }
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : null;
+  return {
+    threshold,
+    truePositives: tp,
+    falsePositives: fp,
+    trueNegatives: tn,
+    falseNegatives: fn,
+    accuracy: test.length ? (tp + tn) / test.length : 0,
+    precision,
+    recall,
+    f1: precision !== null && recall !== null && precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : null,
+  };
+}
+
+function calibrationBins(test: ChurnReport['test']): CalibrationBin[] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, k) => ({ k, predicted: 0, observed: 0, count: 0 }));
+  for (const t of test) {
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(t.probability * CALIBRATION_BINS))];
+    bin.predicted += t.probability;
+    bin.observed += t.churned ? 1 : 0;
+    bin.count++;
+  }
+  return bins
+    .filter((b) => b.count > 0)
+    .map((b) => ({
+      lower: b.k / CALIBRATION_BINS,
+      upper: (b.k + 1) / CALIBRATION_BINS,
+      predicted: round(b.predicted / b.count),
+      observed: round(b.observed / b.count),
+      count: b.count,
+    }));
+}
+
+// ---------- Training & scoring ----------
+
+/** Churn probability for one row, between 0 and 1. */
+export function scoreRow(row: DataRow, model: ChurnModel): number {
+  const x = encodeRow(row, model.encoders);
+  return sigmoid(x.reduce((z, v, j) => z + v * model.weights[j], model.intercept));
+}
+
+/** Add the churn probability of every row as a new column, rounded to four decimals. */
+export function addChurnScoreColumn(rows: DataRow[], model: ChurnModel, column: string): DataRow[] {
+  return rows.map((row) => ({ ...row, [column]: round(scoreRow(row, model)) }));
+}
+
+/**
+ * Train on a stratified split and evaluate on the held-out rows. Rows without a label
+ * are left out of both; they can still be scored with the returned model.
+ */
+export function trainChurnModel(rows: DataRow[], config: ChurnModelConfig): ChurnReport {
+  const { labelColumn, positiveLabel, featureColumns } = config;
+  const testShare = config.testShare ?? 0.25;
+  const l2 = config.l2 ?? 1;
+  if (featureColumns.length === 0) throw new Error('Pick at least one feature column');
+  if (featureColumns.includes(labelColumn)) throw new Error(`${labelColumn} is the label, so it cannot also be a feature`);
+  if (!(testShare > 0 && testShare < 1)) throw new Error('The test share must be between 0 and 1');
+
+  const labelled = rows.filter((r) => !isBlank(r[labelColumn]));
+  const positives = labelled.filter((r) => String(r[labelColumn]).trim() === positiveLabel);
+  const negatives = labelled.filter((r) => String(r[labelColumn]).trim() !== positiveLabel);
+  if (labelled.length < MIN_ROWS) throw new Error(`At least ${MIN_ROWS} labelled rows are needed to train a model`);
+  if (positives.length < 4 || negatives.length < 4) {
+    throw new Error(`Both churned ("${positiveLabel}") and retained rows need at least 4 examples`);
+  }
+
+  // Stratified split so the test set keeps the churn rate
+  const random = seededRandom(config.seed ?? 1);
+  const shuffle = (list: DataRow[]) => {
+    const out = [...list];
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+  };
+  const train: DataRow[] = [];
+  const test: DataRow[] = [];
+  for (const group of [positives, negatives]) {
+    const shuffled = shuffle(group);
+    const cut = Math.max(2, Math.round(shuffled.length * testShare));
+    test.push(...shuffled.slice(0, cut));
+    train.push(...shuffled.slice(cut));
+  }
+
+  const encoders = featureColumns.map((column) => fitEncoder(train, column));
+  const width = encoders.reduce((sum, enc) => sum + encodedWidth(enc), 0);
+  if (width === 0) throw new Error('The feature columns have no values to learn from');
+  if (width > MAX_FEATURES) {
+    throw new Error(`The features expand to ${width} inputs (over ${MAX_FEATURES}); drop some text columns with many values`);
+  }
+
+  const isChurned = (row: DataRow) => String(row[labelColumn]).trim() === positiveLabel;
+  const { beta, converged } = fitLogistic(
+    train.map((r) => encodeRow(r, encoders)),
+    train.map((r) => (isChurned(r) ? 1 : 0)),
+    l2
+  );
+  const model: ChurnModel = {
+    config: { ...config, testShare, l2 },
+    encoders,
+    intercept: beta[0],
+    weights: beta.slice(1),
+  };
+
+  const scored = test.map((row) => ({ probability: scoreRow(row, model), churned: isChurned(row) }));
+  const eps = 1e-12;
+  const names = featureNames(encoders);
+  const warnings: string[] = [];
+  if (!converged) warnings.push('Training did not fully converge; the coefficients are approximate');
+  if (scored.length < 50) warnings.push(`Only ${scored.length} rows were held out, so the test metrics are noisy`);
+  const baseRate = train.filter(isChurned).length / train.length;
+  if (baseRate < 0.05 || baseRate > 0.95) {
+    warnings.push('Churn is rare in this data; judge the model by AUC and recall rather than accuracy');
+  }
+
+  return {
+    model,
+    trainRows: train.length,
+    testRows: test.length,
+    skippedRows: rows.length - labelled.length,
+    baseRate,
+    auc: rocAuc(scored),
+    roc: rocCurve(scored),
+    brier: scored.reduce((sum, s) => sum + (s.probability - (s.churned ? 1 : 0)) ** 2, 0) / scored.length,
+    logLoss:
+      -scored.reduce((sum, s) => sum + Math.log(Math.max(eps, s.churned ? s.probability : 1 - s.probability)), 0) /
+      scored.length,
+    calibration: calibrationBins(scored),
+    coefficients: model.weights
+      .map((weight, j) => ({ ...names[j], weight, oddsRatio: Math.exp(weight) }))
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)),
+    test: scored,
+    converged,
+    warnings,
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { DataColumn } from '../types';
+import type { ChurnModel } from './churnModel';
+import { createStep, describeStep, exportRecipe, parseRecipe, runPipeline } from './cleaningPipeline';
+
+const columns: DataColumn[] = [
+  { name: 'Tenure', type: 'number', missing: 0, invalid: 0 },
+  { name: 'Signup', type: 'date', missing: 0, invalid: 0 },
+  { name: 'Plan', type: 'string', missing: 0, invalid: 0 },
+  { name: 'Churned', type: 'string', missing: 0, invalid: 0 },
+];
+
+const model: ChurnModel = {
+  config: { labelColumn: 'Churned', positiveLabel: 'yes', featureColumns: ['Tenure', 'Signup', 'Plan'] },
+  encoders: [
+    { column: 'Tenure', kind: 'numeric', mean: 12, sd: 4 },
+    { column: 'Signup', kind: 'date', origin: Date.UTC(2024, 0, 1), mean: 200, sd: 90 },
+    { column: 'Plan', kind: 'category', levels: ['basic', 'pro'] },
+  ],
+  intercept: -0.5,
+  weights: [-0.8, 0.1, 0.4, -0.2],
+};
+
+// Round-trips a churn step through a recipe with parts of the model replaced
+function parseWith(change: (step: Record<string, unknown>) => void) {
+  const recipe = JSON.parse(exportRecipe([createStep({ kind: 'churn_score', model, column: 'Churn risk' })], columns));
+  change(recipe.steps[0]);
+  return () => parseRecipe(JSON.stringify(recipe), columns);
+}
+
+describe('churn_score recipes', () => {
+  it('accepts a well-formed model and scores with it', () => {
+    const { steps } = parseWith(() => {})();
+    expect(describeStep(steps[0])).toBe('Add churn probability column "Churn risk" (model of Churned)');
+    const rows = [{ Tenure: 10, Signup: '2023-06-01', Plan: 'pro', Churned: 'no' }];
+    const score = runPipeline(rows, steps, columns).rows[0]['Churn risk'];
+    expect(typeof score).toBe('number');
+    expect(score).toBeGreaterThan(0);
+    expect(score).toBeLessThan(1);
+  });
+
+  it('rejects a model without a label column', () => {
+    expect(parseWith((s) => delete (s.model as Partial<ChurnModel>).config)).toThrow('Recipe steps are malformed.');
+    expect(parseWith((s) => ((s.model as ChurnModel).config.labelColumn = 3 as never))).toThrow(
+      'Recipe steps are malformed.'
+    );
+  });
+
+  it('rejects malformed encoders', () => {
+    const encoder = (i: number, patch: object) => (s: Record<string, unknown>) =>
+      Object.assign((s.model as ChurnModel).encoders[i], patch);
+    expect(parseWith(encoder(0, { kind: 'ordinal' }))).toThrow('Recipe steps are malformed.');
+    expect(parseWith(encoder(0, { sd: 0 }))).toThrow('Recipe steps are malformed.');
+    expect(parseWith(encoder(0, { mean: '12' }))).toThrow('Recipe steps are malformed.');
+    expect(parseWith(encoder(1, { origin: null }))).toThrow('Recipe steps are malformed.');
+    expect(parseWith(encoder(2, { levels: 'basic' }))).toThrow('Recipe steps are malformed.');
+    expect(parseWith(encoder(2, { levels: ['basic', 1] }))).toThrow('Recipe steps are malformed.');
+  });
+
+  it('rejects weights that do not match the encoded width', () => {
+    expect(parseWith((s) => (s.model as ChurnModel).weights.pop())).toThrow('Recipe steps are malformed.');
+    expect(parseWith((s) => (s.model as ChurnModel).weights.push(1))).toThrow('Recipe steps are malformed.');
+    expect(parseWith((s) => ((s.model as ChurnModel).weights[0] = 'x' as never))).toThrow('Recipe steps are malformed.');
+  });
+});
+
+describe('impute recipes', () => {
+  const imputeRecipe = (plan: unknown) =>
+    JSON.stringify({
+      format: 'autoinsight-cleaning-recipe',
+      version: 1,
+      columns,
+      steps: [{ id: 's1', kind: 'impute', enabled: true, plan }],
+    });
+
+  it('accepts a well-formed plan', () => {
+    const plan = {
+      columns: {
+        Tenure: { strategy: 'group_median', groupBy: 'Plan' },
+        Plan: { strategy: 'constant', constant: 'basic' },
+      },
+      orderBy: 'Signup',
+    };
+    const { steps } = parseRecipe(imputeRecipe(plan), columns);
+    expect(describeStep(steps[0])).toBe('Impute missing values (Tenure: group median, Plan: constant value)');
+  });
+
+  it.each([
+    ['an unknown strategy', { columns: { Tenure: { strategy: 'bogus' } } }],
+    ['a null column entry', { columns: { Tenure: null } }],
+    ['a column entry without a strategy', { columns: { Tenure: {} } }],
+    ['a numeric constant', { columns: { Plan: { strategy: 'constant', constant: 3 } } }],
+    ['a non-string groupBy', { columns: { Tenure: { strategy: 'group_median', groupBy: ['Plan'] } } }],
+    ['a non-string orderBy', { columns: {}, orderBy: 1 }],
+    ['columns as an array', { columns: [] }],
+    ['an inherited key as a strategy', { columns: { Tenure: { strategy: 'toString' } } }],
+  ])('rejects %s', (_, plan) => {
+    expect(() => parseRecipe(imputeRecipe(plan), columns)).toThrow('Recipe steps are malformed.');
+  });
+});
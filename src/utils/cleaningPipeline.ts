@@ -0,0 +1,331 @@
+// src/utils/cleaningPipeline.ts
+// Cleaning as an ordered list of typed steps. The cleaned rows are always the result of
+// replaying the enabled steps over the raw upload, so undo, reorder and disable are just
+// edits to the list, and the list itself can be saved as a recipe for the next file.
+import type { DataColumn, DataRow } from "../types";
+import { addChurnScoreColumn, encodedWidth, type ChurnModel, type FeatureEncoder } from "./churnModel";
+import { isEmpty, tryParseDate, tryParseNumber } from "./csvIngest";
+import { applyImputation, STRATEGY_LABELS, type CleaningPlan, type ColumnImputation } from "./imputation";
+import { addRfmSegmentColumn, type RfmConfig } from "./rfm";
+
+interface StepBase {
+  id: string;
+  enabled: boolean;
+  createdAt: string; // ISO timestamp
+}
+
+export type CleaningStep =
+  | (StepBase & { kind: "fix_invalid" })
+  | (StepBase & { kind: "impute"; plan: CleaningPlan })
+  | (StepBase & { kind: "remove_duplicates" })
+  | (StepBase & { kind: "rfm_segment"; config: RfmConfig; column: string })
+  | (StepBase & { kind: "churn_score"; model: ChurnModel; column: string });
+
+export type CleaningStepKind = CleaningStep["kind"];
+
+// Step payload without the bookkeeping fields, used when creating steps
+export type CleaningStepInput =
+  | { kind: "fix_invalid" }
+  | { kind: "impute"; plan: CleaningPlan }
+  | { kind: "remove_duplicates" }
+  | { kind: "rfm_segment"; config: RfmConfig; column: string }
+  | { kind: "churn_score"; model: ChurnModel; column: string };
+
+export interface StepResult {
+  stepId: string;
+  rowsBefore: number;
+  rowsAfter: number;
+  cellsChanged: number;
+}
+
+export interface PipelineRun {
+  rows: DataRow[];
+  results: StepResult[]; // enabled steps only, in run order
+}
+
+export interface PipelineHistory {
+  past: CleaningStep[][];
+  present: CleaningStep[];
+  future: CleaningStep[][];
+}
+
+export interface CleaningRecipe {
+  format: "autoinsight-cleaning-recipe";
+  version: 1;
+  createdAt: string;
+  columns: { name: string; type: DataColumn["type"] }[];
+  steps: CleaningStep[];
+}
+
+const RECIPE_FORMAT = "autoinsight-cleaning-recipe";
+const STEP_KINDS: CleaningStepKind[] = ["fix_invalid", "impute", "remove_duplicates", "rfm_segment", "churn_score"];
+
+export function createStep(input: CleaningStepInput): CleaningStep {
+  return {
+    ...input,
+    id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    enabled: true,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function describeStep(step: CleaningStep): string {
+  switch (step.kind) {
+    case "fix_invalid":
+      return "Fix invalid types";
+    case "remove_duplicates":
+      return "Remove duplicate rows";
+    case "rfm_segment":
+      return `Add RFM segment column "${step.column}" (by ${step.config.customerColumn})`;
+    case "churn_score":
+      return `Add churn probability column "${step.column}" (model of ${step.model.config.labelColumn})`;
+    case "impute": {
+      const parts = Object.entries(step.plan.columns)
+        .filter(([, config]) => config.strategy !== "none")
+        .map(([column, config]) => `${column}: ${STRATEGY_LABELS[config.strategy].toLowerCase()}`);
+      return parts.length ? `Impute missing values (${parts.join(", ")})` : "Impute missing values (no columns)";
+    }
+  }
+}
+
+// ---------- Step execution ----------
+
+// Unparseable numbers become missing (so a later impute step can fill them); dates are normalized to ISO
+function fixInvalid(rows: DataRow[], columnDetails: DataColumn[]): { rows: DataRow[]; cellsChanged: number } {
+  let cellsChanged = 0;
+  const out = rows.map((row) => {
+    const newRow = { ...row };
+    for (const col of columnDetails) {
+      const val = newRow[col.name];
+      if (isEmpty(val)) continue;
+      let next = val;
+      if (col.type === "number" && typeof val !== "number") next = tryParseNumber(val).value;
+      else if (col.type === "date") next = tryParseDate(val).value;
+      if (next !== val) {
+        newRow[col.name] = next;
+        cellsChanged++;
+      }
+    }
+    return newRow;
+  });
+  return { rows: out, cellsChanged };
+}
+
+function removeDuplicates(rows: DataRow[]): DataRow[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const sig = Object.values(row).join("||");
+    if (seen.has(sig)) return false;
+    seen.add(sig);
+    return true;
+  });
+}
+
+function applyStep(rows: DataRow[], step: CleaningStep, columnDetails: DataColumn[]): { rows: DataRow[]; cellsChanged: number } {
+  switch (step.kind) {
+    case "fix_invalid":
+      return fixInvalid(rows, columnDetails);
+    case "impute": {
+      const result = applyImputation(rows, step.plan, columnDetails);
+      return { rows: result.rows, cellsChanged: result.changes.length };
+    }
+    case "remove_duplicates":
+      return { rows: removeDuplicates(rows), cellsChanged: 0 };
+    case "rfm_segment": {
+      // Earlier steps can leave no dated orders; the column is still added so exports keep their shape
+      try {
+        return { rows: addRfmSegmentColumn(rows, step.config, step.column), cellsChanged: rows.length };
+      } catch {
+        return { rows: rows.map((row) => ({ ...row, [step.column]: null })), cellsChanged: 0 };
+      }
+    }
+    case "churn_score":
+      return { rows: addChurnScoreColumn(rows, step.model, step.column), cellsChanged: rows.length };
+  }
+}
+
+/** Columns that enabled steps add on top of the uploaded ones, in step order. */
+export function addedColumns(steps: CleaningStep[]): string[] {
+  return steps.flatMap((s) => (s.enabled && (s.kind === "rfm_segment" || s.kind === "churn_score") ? [s.column] : []));
+}
+
+/** Replay every enabled step over the raw rows. */
+export function runPipeline(rawRows: DataRow[], steps: CleaningStep[], columnDetails: DataColumn[]): PipelineRun {
+  let rows = rawRows;
+  const results: StepResult[] = [];
+  for (const step of steps) {
+    if (!step.enabled) continue;
+    const out = applyStep(rows, step, columnDetails);
+    results.push({ stepId: step.id, rowsBefore: rows.length, rowsAfter: out.rows.length, cellsChanged: out.cellsChanged });
+    rows = out.rows;
+  }
+  return { rows, results };
+}
+
+// ---------- Editing & history ----------
+
+export function createHistory(steps: CleaningStep[] = []): PipelineHistory {
+  return { past: [], present: steps, future: [] };
+}
+
+export function commitSteps(history: PipelineHistory, steps: CleaningStep[]): PipelineHistory {
+  return { past: [...history.past, history.present], present: steps, future: [] };
+}
+
+export function undo(history: PipelineHistory): PipelineHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redo(history: PipelineHistory): PipelineHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+export function moveStep(steps: CleaningStep[], stepId: string, offset: -1 | 1): CleaningStep[] {
+  const from = steps.findIndex((s) => s.id === stepId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= steps.length) return steps;
+  const next = [...steps];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+export function toggleStep(steps: CleaningStep[], stepId: string): CleaningStep[] {
+  return steps.map((s) => (s.id === stepId ? { ...s, enabled: !s.enabled } : s));
+}
+
+export function removeStep(steps: CleaningStep[], stepId: string): CleaningStep[] {
+  return steps.filter((s) => s.id !== stepId);
+}
+
+// ---------- Recipes ----------
+
+export function exportRecipe(steps: CleaningStep[], columnDetails: DataColumn[]): string {
+  const recipe: CleaningRecipe = {
+    format: RECIPE_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    columns: columnDetails.map((c) => ({ name: c.name, type: c.type })),
+    steps,
+  };
+  return JSON.stringify(recipe, null, 2);
+}
+
+function referencedColumns(step: CleaningStep): string[] {
+  if (step.kind === "rfm_segment") return [step.config.customerColumn, step.config.dateColumn, step.config.amountColumn];
+  if (step.kind === "churn_score") return step.model.encoders.map((e) => e.column);
+  if (step.kind !== "impute") return [];
+  const cols = Object.entries(step.plan.columns)
+    .filter(([, config]) => config.strategy !== "none")
+    .flatMap(([column, config]) => (config.groupBy ? [column, config.groupBy] : [column]));
+  if (step.plan.orderBy) cols.push(step.plan.orderBy);
+  return cols;
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function isEncoder(value: unknown): value is FeatureEncoder {
+  if (!value || typeof value !== "object") return false;
+  const enc = value as Partial<Record<"column" | "kind" | "levels" | "origin" | "mean" | "sd", unknown>>;
+  if (typeof enc.column !== "string") return false;
+  if (enc.kind === "category") return Array.isArray(enc.levels) && enc.levels.every((l) => typeof l === "string");
+  if (enc.kind !== "numeric" && enc.kind !== "date") return false;
+  if (enc.kind === "date" && !isFiniteNumber(enc.origin)) return false;
+  return isFiniteNumber(enc.mean) && isFiniteNumber(enc.sd) && enc.sd > 0;
+}
+
+function isImputation(value: unknown): value is ColumnImputation {
+  if (!value || typeof value !== "object") return false;
+  const config = value as Partial<Record<keyof ColumnImputation, unknown>>;
+  if (typeof config.strategy !== "string" || !Object.keys(STRATEGY_LABELS).includes(config.strategy)) return false;
+  return (
+    (config.constant === undefined || typeof config.constant === "string") &&
+    (config.groupBy === undefined || typeof config.groupBy === "string")
+  );
+}
+
+function isStep(value: unknown): value is CleaningStep {
+  if (!value || typeof value !== "object") return false;
+  const step = value as Partial<CleaningStep> & { plan?: unknown; config?: unknown; model?: unknown; column?: unknown };
+  if (typeof step.id !== "string" || typeof step.enabled !== "boolean") return false;
+  if (!STEP_KINDS.includes(step.kind as CleaningStepKind)) return false;
+  if (step.kind === "impute") {
+    const plan = step.plan as Partial<CleaningPlan> | undefined;
+    return (
+      !!plan &&
+      !!plan.columns &&
+      typeof plan.columns === "object" &&
+      !Array.isArray(plan.columns) &&
+      Object.values(plan.columns).every(isImputation) &&
+      (plan.orderBy === undefined || typeof plan.orderBy === "string")
+    );
+  }
+  if (step.kind === "rfm_segment") {
+    const config = step.config as Partial<RfmConfig> | undefined;
+    return (
+      typeof step.column === "string" &&
+      !!config &&
+      typeof config.customerColumn === "string" &&
+      typeof config.dateColumn === "string" &&
+      typeof config.amountColumn === "string"
+    );
+  }
+  if (step.kind === "churn_score") {
+    const model = step.model as Partial<ChurnModel> | undefined;
+    if (typeof step.column !== "string" || !model || typeof model.config?.labelColumn !== "string") return false;
+    if (!isFiniteNumber(model.intercept) || !Array.isArray(model.encoders) || !Array.isArray(model.weights)) return false;
+    if (!model.encoders.every(isEncoder) || !model.weights.every(isFiniteNumber)) return false;
+    // One weight per encoded input, or scoring reads past the end and every score is NaN
+    return model.weights.length === model.encoders.reduce((sum, enc) => sum + encodedWidth(enc), 0);
+  }
+  return true;
+}
+
+/**
+ * Parse a recipe and check it against the current file's schema.
+ * Throws when the JSON isn't a recipe or a step needs a column this file doesn't have;
+ * softer mismatches (type changes, extra or missing unused columns) come back as warnings.
+ * Step ids are regenerated so a recipe can be applied more than once.
+ */
+export function parseRecipe(json: string, columnDetails: DataColumn[]): { steps: CleaningStep[]; warnings: string[] } {
+  let data: Partial<CleaningRecipe>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Recipe file is not valid JSON.");
+  }
+
+  if (data.format !== RECIPE_FORMAT) throw new Error("This file is not a cleaning recipe.");
+  if (data.version !== 1) throw new Error(`Unsupported recipe version: ${String(data.version)}`);
+  if (!Array.isArray(data.steps) || !data.steps.every(isStep)) throw new Error("Recipe steps are malformed.");
+
+  const current = new Map(columnDetails.map((c) => [c.name, c.type]));
+  const missing = Array.from(new Set(data.steps.flatMap(referencedColumns))).filter((c) => !current.has(c));
+  if (missing.length > 0) {
+    throw new Error(`Recipe uses columns that are not in this file: ${missing.join(", ")}`);
+  }
+
+  const warnings: string[] = [];
+  const recipeColumns = Array.isArray(data.columns) ? data.columns : [];
+  for (const col of recipeColumns) {
+    const type = current.get(col.name);
+    if (!type) warnings.push(`Column "${col.name}" from the recipe is not in this file`);
+    else if (type !== col.type) warnings.push(`Column "${col.name}" was ${col.type}, now detected as ${type}`);
+  }
+  const known = new Set(recipeColumns.map((c) => c.name));
+  for (const col of columnDetails) {
+    if (!known.has(col.name)) warnings.push(`New column "${col.name}" is not covered by the recipe`);
+  }
+
+  const steps = data.steps.map((step) => ({ ...createStep(step), enabled: step.enabled }));
+  return { steps, warnings };
+}
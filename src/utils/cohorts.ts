@@ -0,0 +1,214 @@
+/**
+ * Retention Cohorts
+ * Assigns each entity (customer, user, account) to the period of its first activity and
+ * tracks what the cohort does in each period after that: how many are still active, how
+ * much they spend and the cumulative revenue per member (the LTV curve). Works on raw
+ * order exports: one row per order, currency-formatted amounts and mixed date formats.
+ */
+
+import type { DataRow, TimeBucket } from '../types';
+import { bucketLabel, bucketStart, nextBucketStart, wallClockTime } from './resample';
+import { matchColumn, resolveColumn } from './salesAI';
+
+export type CohortBucket = Extract<TimeBucket, 'day' | 'week' | 'month' | 'quarter'>;
+
+export interface CohortOptions {
+  entityColumn: string;
+  dateColumn: string;
+  valueColumn?: string; // revenue per row; retention only when unset
+  bucket: CohortBucket;
+  periods?: number; // periods after the first to report, 12 by default
+  timeZone?: string;
+}
+
+export interface CohortRow {
+  cohort: string; // label of the first-activity period
+  size: number;
+  // Per period since joining; null where the period has not happened yet in the data
+  active: (number | null)[];
+  retention: (number | null)[]; // active / size
+  revenue: (number | null)[];
+  revenuePerMember: (number | null)[];
+  ltv: (number | null)[]; // cumulative revenue per member
+}
+
+export interface CohortMatrix {
+  bucket: CohortBucket;
+  periods: number;
+  cohorts: CohortRow[];
+  // Member-weighted averages over the cohorts that have reached each period
+  average: { retention: (number | null)[]; ltv: (number | null)[] };
+  entities: number;
+  usedRows: number;
+  skippedRows: number; // no entity or unparseable date
+  lastPeriodPartial: boolean;
+}
+
+export const COHORT_BUCKETS: CohortBucket[] = ['day', 'week', 'month', 'quarter'];
+
+const ENTITY_SYNONYMS = [
+  'customer id',
+  'customer_id',
+  'customerid',
+  'user id',
+  'user_id',
+  'userid',
+  'client id',
+  'account id',
+  'email',
+  'customer email',
+  'customer',
+  'customer name',
+];
+
+const MAX_COHORTS = 500;
+
+// ---------- Parsing ----------
+
+/** Numbers and currency text such as "$1,234.50", "(12.00)" or "€ 99". */
+function toAmount(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  let text = val.trim();
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()$€£¥₹\s,]/g, '');
+  const n = Number(text);
+  if (text === '' || !Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+const entityKey = (val: unknown) => (val === null || val === undefined ? '' : String(val).trim().toLowerCase());
+
+/**
+ * Guess the customer, date and revenue columns of an orders export from their headers,
+ * falling back to the first column whose values parse as dates.
+ */
+export function suggestCohortColumns(rows: DataRow[]): Partial<Pick<CohortOptions, 'entityColumn' | 'dateColumn' | 'valueColumn'>> {
+  const headers = Object.keys(rows[0] || {});
+  const sample = rows.slice(0, 50);
+  const dateColumn =
+    resolveColumn(headers, 'date') ??
+    headers.find((h) => {
+      const values = sample.map((r) => r[h]).filter((v) => v !== null && v !== undefined && v !== '');
+      return values.length > 0 && values.every((v) => typeof v === 'string' && toAmount(v) === null && wallClockTime(v) !== null);
+    });
+  const valueColumn = resolveColumn(headers, 'revenue') ?? undefined;
+  const entityColumn = matchColumn(
+    headers.filter((h) => h !== dateColumn && h !== valueColumn),
+    ENTITY_SYNONYMS
+  );
+  return { entityColumn: entityColumn ?? undefined, dateColumn: dateColumn ?? undefined, valueColumn };
+}
+
+// ---------- Matrix ----------
+
+/**
+ * Build the cohort matrix: each entity joins the cohort of its earliest dated row, and
+ * every row is counted in the period (0 = joining period) it falls in for that entity.
+ */
+export function buildCohorts(rows: DataRow[], options: CohortOptions): CohortMatrix {
+  const { entityColumn, dateColumn, valueColumn, bucket } = options;
+  const periods = options.periods ?? 12;
+  if (!Number.isInteger(periods) || periods < 1) throw new Error('The number of periods must be a positive whole number');
+  if (entityColumn === dateColumn) throw new Error('Pick different columns for the customer and the date');
+
+  const events: { entity: string; start: number; amount: number }[] = [];
+  let skippedRows = 0;
+  let lastTime = -Infinity;
+  for (const row of rows) {
+    const entity = entityKey(row[entityColumn]);
+    const time = wallClockTime(row[dateColumn], options.timeZone);
+    if (!entity || time === null) {
+      skippedRows++;
+      continue;
+    }
+    lastTime = Math.max(lastTime, time);
+    const amount = valueColumn ? (toAmount(row[valueColumn]) ?? 0) : 0;
+    events.push({ entity, start: bucketStart(time, bucket), amount });
+  }
+  if (events.length === 0) {
+    throw new Error(`No rows have both a ${entityColumn} and a readable ${dateColumn}`);
+  }
+
+  // Index every bucket from the first to the last so period offsets are bucket counts
+  const firstStart = events.reduce((min, e) => Math.min(min, e.start), Infinity);
+  const lastStart = events.reduce((max, e) => Math.max(max, e.start), -Infinity);
+  const index = new Map<number, number>();
+  for (let start = firstStart; start <= lastStart; start = nextBucketStart(start, bucket)) {
+    if (index.size >= MAX_COHORTS) throw new Error(`More than ${MAX_COHORTS} cohorts; pick a larger period.`);
+    index.set(start, index.size);
+  }
+  const lastIndex = index.size - 1;
+
+  const joined = new Map<string, number>();
+  for (const e of events) {
+    const current = joined.get(e.entity);
+    if (current === undefined || e.start < current) joined.set(e.entity, e.start);
+  }
+
+  interface Cell {
+    members: Set<string>;
+    revenue: number;
+  }
+  const cells = new Map<number, Cell[]>(); // cohort start -> per-period cells
+  const sizes = new Map<number, number>();
+  for (const start of joined.values()) sizes.set(start, (sizes.get(start) ?? 0) + 1);
+
+  for (const e of events) {
+    const cohortStart = joined.get(e.entity)!;
+    const period = index.get(e.start)! - index.get(cohortStart)!;
+    if (period > periods) continue;
+    let row = cells.get(cohortStart);
+    if (!row) {
+      row = Array.from({ length: periods + 1 }, () => ({ members: new Set<string>(), revenue: 0 }));
+      cells.set(cohortStart, row);
+    }
+    row[period].members.add(e.entity);
+    row[period].revenue += e.amount;
+  }
+
+  const cohorts: CohortRow[] = [...cells.keys()]
+    .sort((a, b) => a - b)
+    .map((start) => {
+      const size = sizes.get(start)!;
+      const reached = lastIndex - index.get(start)!; // latest period observed for this cohort
+      const observed = <T>(k: number, value: T) => (k <= reached ? value : null);
+      const row = cells.get(start)!;
+      let total = 0;
+      return {
+        cohort: bucketLabel(start, bucket),
+        size,
+        active: row.map((c, k) => observed(k, c.members.size)),
+        retention: row.map((c, k) => observed(k, c.members.size / size)),
+        revenue: row.map((c, k) => observed(k, c.revenue)),
+        revenuePerMember: row.map((c, k) => observed(k, c.revenue / size)),
+        ltv: row.map((c, k) => {
+          total += c.revenue;
+          return observed(k, total / size);
+        }),
+      };
+    });
+
+  const weighted = (pick: (c: CohortRow) => (number | null)[]) =>
+    Array.from({ length: periods + 1 }, (_, k) => {
+      const reached = cohorts.filter((c) => pick(c)[k] !== null);
+      const members = reached.reduce((sum, c) => sum + c.size, 0);
+      return members === 0 ? null : reached.reduce((sum, c) => sum + pick(c)[k]! * c.size, 0) / members;
+    });
+
+  // The latest period is partial unless the data runs to its last day
+  const lastDay = bucketStart(lastTime, 'day');
+  const lastPeriodPartial = nextBucketStart(lastDay, 'day') < nextBucketStart(lastStart, bucket);
+
+  return {
+    bucket,
+    periods,
+    cohorts,
+    average: { retention: weighted((c) => c.retention), ltv: weighted((c) => c.ltv) },
+    entities: joined.size,
+    usedRows: events.length,
+    skippedRows,
+    lastPeriodPartial,
+  };
+}
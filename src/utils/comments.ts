@@ -0,0 +1,216 @@
+// src/utils/comments.ts
+// Threaded comments on rows, charts, insights or the analysis as a whole. A thread is its
+// first comment plus the replies pointing at it; resolving applies to the whole thread.
+// Comments are plain data kept with the session, so every edit returns a new list.
+import type { Comment, DataRow } from '../types';
+
+export type CommentKind = Comment['attachedTo'];
+
+export interface CommentTarget {
+  attachedTo: CommentKind;
+  targetId?: string;
+  targetLabel?: string;
+  datasetId?: string;
+}
+
+export interface CommentThread {
+  root: Comment;
+  replies: Comment[];
+  lastActivity: Date;
+}
+
+export interface MentionableUser {
+  id: string;
+  handle: string; // what follows the @
+  displayName: string;
+}
+
+export interface CommentFilter {
+  kind?: CommentKind | 'all';
+  status?: 'all' | 'open' | 'resolved';
+  mentioning?: string; // handle
+  search?: string;
+  datasetId?: string; // threads on other datasets are hidden; analysis-wide threads always show
+}
+
+export const COMMENT_KIND_LABELS: Record<CommentKind, string> = {
+  analysis: 'Analysis',
+  insight: 'Insight',
+  chart: 'Chart',
+  row: 'Row',
+};
+
+const MENTION_PATTERN = /@([\w.-]+)/g;
+const LABEL_VALUES = 3;
+
+// ---------- Targets ----------
+
+export function targetKey(target: Pick<CommentTarget, 'attachedTo' | 'targetId'>): string {
+  return `${target.attachedTo}:${target.targetId ?? ''}`;
+}
+
+/** Rows are addressed by position in the cleaned data; the label keeps a few values for context. */
+export function rowTarget(row: DataRow, index: number, datasetId?: string): CommentTarget {
+  const values = Object.values(row)
+    .filter((v) => v !== null && v !== undefined && v !== '')
+    .slice(0, LABEL_VALUES)
+    .map(String);
+  return { attachedTo: 'row', targetId: String(index), targetLabel: `Row ${index + 1}: ${values.join(', ')}`, datasetId };
+}
+
+export function chartTarget(column: string, datasetId?: string): CommentTarget {
+  return { attachedTo: 'chart', targetId: column, targetLabel: `Chart of ${column}`, datasetId };
+}
+
+export function insightTarget(insight: string, datasetId?: string): CommentTarget {
+  return { attachedTo: 'insight', targetId: insight, targetLabel: insight, datasetId };
+}
+
+export const ANALYSIS_TARGET: CommentTarget = { attachedTo: 'analysis', targetLabel: 'Whole analysis' };
+
+// ---------- Mentions ----------
+
+export function mentionHandle(user: { displayName: string; email?: string }): string {
+  const local = user.email?.split('@')[0];
+  return (local || user.displayName).replace(/[^\w.-]/g, '').toLowerCase();
+}
+
+/** Everyone who can be @mentioned: known accounts, the current user and past commenters. */
+export function mentionableUsers(
+  accounts: { id: string; displayName: string; email?: string }[],
+  comments: Comment[]
+): MentionableUser[] {
+  const byHandle = new Map<string, MentionableUser>();
+  const accountIds = new Set<string>();
+  for (const a of accounts) {
+    if (accountIds.has(a.id)) continue;
+    accountIds.add(a.id);
+    const handle = mentionHandle(a);
+    if (handle && !byHandle.has(handle)) byHandle.set(handle, { id: a.id, handle, displayName: a.displayName });
+  }
+  for (const c of comments) {
+    if (c.authorId && accountIds.has(c.authorId)) continue;
+    const handle = mentionHandle({ displayName: c.author });
+    if (handle && !byHandle.has(handle)) byHandle.set(handle, { id: c.authorId ?? handle, handle, displayName: c.author });
+  }
+  return Array.from(byHandle.values()).sort((a, b) => a.handle.localeCompare(b.handle));
+}
+
+/** Handles of known users mentioned in `text`; unknown @words are left alone. */
+export function parseMentions(text: string, users: MentionableUser[]): string[] {
+  const known = new Set(users.map((u) => u.handle));
+  const found = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[1].toLowerCase().replace(/\.+$/, '');
+    if (known.has(handle)) found.add(handle);
+  }
+  return Array.from(found);
+}
+
+/** Split text into plain and @mention parts for highlighting. */
+export function splitMentions(text: string, mentions: string[] = []): { text: string; mention: boolean }[] {
+  if (mentions.length === 0) return [{ text, mention: false }];
+  const parts: { text: string; mention: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = match[1].toLowerCase().replace(/\.+$/, '');
+    if (!mentions.includes(handle)) continue;
+    const start = match.index ?? 0;
+    const end = start + 1 + handle.length;
+    if (start > last) parts.push({ text: text.slice(last, start), mention: false });
+    parts.push({ text: text.slice(start, end), mention: true });
+    last = end;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), mention: false });
+  return parts;
+}
+
+// ---------- Edits ----------
+
+export function createComment(
+  input: { author: string; authorId: string; text: string; target: CommentTarget; parent?: Comment },
+  users: MentionableUser[]
+): Comment {
+  const text = input.text.trim();
+  if (!text) throw new Error('Write something before posting.');
+  // Replies always live on their thread's target
+  const target = input.parent ?? input.target;
+  return {
+    id: `comment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    author: input.author,
+    authorId: input.authorId,
+    text,
+    attachedTo: target.attachedTo,
+    targetId: target.targetId,
+    targetLabel: target.targetLabel,
+    datasetId: target.datasetId,
+    parentId: input.parent ? (input.parent.parentId ?? input.parent.id) : undefined,
+    mentions: parseMentions(text, users),
+    timestamp: new Date(),
+    resolved: false,
+  };
+}
+
+export function setThreadResolved(comments: Comment[], rootId: string, resolved: boolean, by: string): Comment[] {
+  return comments.map((c) =>
+    c.id === rootId ? { ...c, resolved, resolvedBy: resolved ? by : undefined } : c
+  );
+}
+
+/** Deleting a thread's first comment deletes its replies too. */
+export function deleteComment(comments: Comment[], id: string): Comment[] {
+  return comments.filter((c) => c.id !== id && c.parentId !== id);
+}
+
+/** Drop everything attached to a dataset that no longer exists. */
+export function removeDatasetComments(comments: Comment[], datasetId: string): Comment[] {
+  return comments.filter((c) => c.datasetId !== datasetId);
+}
+
+// ---------- Reading ----------
+
+export function buildThreads(comments: Comment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const c of comments) {
+    if (!c.parentId) threads.set(c.id, { root: c, replies: [], lastActivity: c.timestamp });
+  }
+  for (const c of comments) {
+    const thread = c.parentId ? threads.get(c.parentId) : undefined;
+    if (!thread) continue;
+    thread.replies.push(c);
+    if (c.timestamp > thread.lastActivity) thread.lastActivity = c.timestamp;
+  }
+  for (const thread of threads.values()) {
+    thread.replies.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  return Array.from(threads.values()).sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+}
+
+export function filterThreads(threads: CommentThread[], filter: CommentFilter): CommentThread[] {
+  const term = filter.search?.trim().toLowerCase() ?? '';
+  return threads.filter(({ root, replies }) => {
+    if (filter.datasetId && root.datasetId && root.datasetId !== filter.datasetId) return false;
+    if (filter.kind && filter.kind !== 'all' && root.attachedTo !== filter.kind) return false;
+    if (filter.status === 'open' && root.resolved) return false;
+    if (filter.status === 'resolved' && !root.resolved) return false;
+    const all = [root, ...replies];
+    if (filter.mentioning && !all.some((c) => c.mentions?.includes(filter.mentioning as string))) return false;
+    if (term) {
+      const haystack = [root.targetLabel ?? '', ...all.map((c) => `${c.author} ${c.text}`)].join(' ').toLowerCase();
+      if (!haystack.includes(term)) return false;
+    }
+    return true;
+  });
+}
+
+/** Open thread count per target (see targetKey) for one dataset, for badges. */
+export function openThreadCounts(comments: Comment[], datasetId?: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const c of comments) {
+    if (c.parentId || c.resolved) continue;
+    if (datasetId && c.datasetId && c.datasetId !== datasetId) continue;
+    const key = targetKey(c);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
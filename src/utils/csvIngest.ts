@@ -0,0 +1,449 @@
+// src/utils/csvIngest.ts
+// Chunked CSV ingestion shared by the ingest worker and the main-thread fallback.
+import Papa from "papaparse";
+import type { CleaningIssues, DataColumn, DataSummary, StructuralIssue } from "../types";
+
+type ColumnType = "number" | "date" | "string";
+
+export type IngestRow = Record<string, unknown>;
+
+export interface IngestProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+}
+
+export interface IngestResult {
+  dataSummary: DataSummary;
+  cleaningIssues: CleaningIssues;
+  format?: CsvFormat;
+}
+
+// Messages exchanged with csvIngest.worker.ts
+export type IngestRequest = { type: "start"; file: File; chunkSize?: number; format?: CsvFormatOptions };
+
+export type IngestResponse =
+  | { type: "rows"; rows: IngestRow[] }
+  | { type: "progress"; progress: IngestProgress }
+  | { type: "done"; result: IngestResult }
+  | { type: "error"; message: string };
+
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB per slice
+
+// How many non-empty values per column are used to infer its type
+const TYPE_SAMPLE_SIZE = 40;
+
+// Structural issues kept for display; the total is always exact
+const MAX_STRUCTURAL_SAMPLES = 100;
+
+// Bytes inspected for encoding and delimiter detection
+const SNIFF_BYTES = 64 * 1024;
+
+export function isEmpty(v: unknown): boolean {
+  if (v === null || v === undefined) return true;
+  const s = String(v).trim();
+  return s === "" || s.toLowerCase() === "null" || s.toLowerCase() === "nan" || s.toLowerCase() === "none";
+}
+
+export function tryParseNumber(v: unknown): { ok: boolean; value: number | null } {
+  if (isEmpty(v)) return { ok: true, value: null };
+
+  // replaceAll yok -> regex ile
+  const raw = String(v).trim().replace(/,/g, "");
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return { ok: false, value: null };
+  return { ok: true, value: n };
+}
+
+export function tryParseDate(v: unknown): { ok: boolean; value: string | null } {
+  if (isEmpty(v)) return { ok: true, value: null };
+
+  const s = String(v).trim();
+
+  // A bare ISO date is already a calendar day; new Date() would read it as UTC and shift it west of UTC
+  const ymd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  if (ymd) {
+    const day = new Date(Date.UTC(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])));
+    const valid = day.getUTCMonth() === Number(ymd[2]) - 1 && day.getUTCDate() === Number(ymd[3]);
+    return valid ? { ok: true, value: s } : { ok: false, value: null };
+  }
+
+  // If already ISO-ish, Date can still parse it
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return { ok: false, value: null };
+
+  // Return ISO date (YYYY-MM-DD)
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return { ok: true, value: `${yyyy}-${mm}-${dd}` };
+}
+
+function inferType(sample: unknown[]): ColumnType {
+  if (sample.length === 0) return "string";
+
+  let numOk = 0;
+  let dateOk = 0;
+
+  for (const v of sample) {
+    if (tryParseNumber(v).ok) numOk++;
+    if (tryParseDate(v).ok) dateOk++;
+  }
+
+  const numRatio = numOk / sample.length;
+  const dateRatio = dateOk / sample.length;
+
+  // prioritize number when mostly numeric
+  if (numRatio >= 0.85) return "number";
+
+  // date if mostly date-like and not numeric
+  if (dateRatio >= 0.85 && numRatio < 0.5) return "date";
+
+  return "string";
+}
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+
+export interface CsvFormatOptions {
+  delimiter?: CsvDelimiter | "auto";
+  encoding?: string; // "auto" or any TextDecoder label, e.g. "windows-1252"
+}
+
+export interface CsvFormat {
+  delimiter: CsvDelimiter;
+  encoding: string;
+}
+
+const DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+
+/**
+ * Streaming RFC 4180 tokenizer.
+ * Quoted fields may contain delimiters, escaped quotes ("") and line breaks;
+ * state is kept between pushes so records can span chunk boundaries.
+ * Unquoted fields are trimmed, quoted ones are kept verbatim. Blank lines are skipped.
+ */
+export function createCsvTokenizer(delimiter: string) {
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let quoted = false;
+  let justClosedQuote = false;
+  let pendingCR = false;
+
+  const endField = () => {
+    record.push(quoted ? field : field.trim());
+    field = "";
+    quoted = false;
+    justClosedQuote = false;
+  };
+
+  const endRecord = (out: string[][]) => {
+    endField();
+    const blank = record.length === 1 && record[0] === "";
+    if (!blank) out.push(record);
+    record = [];
+  };
+
+  return {
+    push(text: string): string[][] {
+      const out: string[][] = [];
+
+      for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (pendingCR) {
+          pendingCR = false;
+          if (ch === "\n") continue;
+        }
+
+        if (inQuotes) {
+          if (ch === '"') {
+            // may be the end of the field or the first half of an escaped quote
+            inQuotes = false;
+            justClosedQuote = true;
+          } else {
+            field += ch;
+          }
+          continue;
+        }
+
+        if (ch === '"') {
+          if (justClosedQuote) {
+            field += '"';
+            inQuotes = true;
+            justClosedQuote = false;
+          } else if (!quoted && field.trim() === "") {
+            field = "";
+            quoted = true;
+            inQuotes = true;
+          } else {
+            field += ch; // stray quote inside an unquoted field
+          }
+          continue;
+        }
+
+        justClosedQuote = false;
+
+        if (ch === delimiter) {
+          endField();
+        } else if (ch === "\r") {
+          endRecord(out);
+          pendingCR = true;
+        } else if (ch === "\n") {
+          endRecord(out);
+        } else if (!quoted) {
+          field += ch;
+        }
+        // characters between a closing quote and the next delimiter are dropped
+      }
+
+      return out;
+    },
+
+    flush(): { records: string[][]; unterminatedQuote: boolean } {
+      const out: string[][] = [];
+      const unterminatedQuote = inQuotes;
+      if (field !== "" || quoted || record.length > 0) endRecord(out);
+      inQuotes = false;
+      return { records: out, unterminatedQuote };
+    },
+  };
+}
+
+/**
+ * Pick a decoder from the first bytes: BOMs win, then strict UTF-8,
+ * otherwise fall back to Windows-1252 (Excel's default on Western locales).
+ */
+export function detectEncoding(head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return "utf-8";
+  if (head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+
+  try {
+    // stream: true so a multibyte char cut at the end of the sample isn't an error
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+// Delimiter sniffing is delegated to papaparse's guesser over the first chunk
+export function sniffDelimiter(sample: string): CsvDelimiter {
+  const guess = Papa.parse<string[]>(sample, {
+    preview: 50,
+    delimitersToGuess: DELIMITERS,
+    skipEmptyLines: true,
+  }).meta.delimiter;
+  return (DELIMITERS as string[]).includes(guess) ? (guess as CsvDelimiter) : ",";
+}
+
+// cyrb53: compact 53-bit string hash so duplicate detection doesn't keep every row twice
+function hashRow(str: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+interface ColumnTally {
+  name: string;
+  sample: unknown[];
+  missing: number;
+  numberFailures: number;
+  dateFailures: number;
+}
+
+/**
+ * Incremental column profiler.
+ * Every value is checked against both number and date parsing as it arrives,
+ * so missing/invalid counts are exact once the type is settled at the end.
+ */
+export function createColumnProfiler(headers: string[]) {
+  const tallies: ColumnTally[] = headers.map((name) => ({
+    name,
+    sample: [],
+    missing: 0,
+    numberFailures: 0,
+    dateFailures: 0,
+  }));
+  const seen = new Set<number>();
+  let rowCount = 0;
+  let duplicates = 0;
+  let structuralTotal = 0;
+  const structuralRows: StructuralIssue[] = [];
+
+  return {
+    addStructuralIssue(issue: StructuralIssue): void {
+      structuralTotal++;
+      if (structuralRows.length < MAX_STRUCTURAL_SAMPLES) structuralRows.push(issue);
+    },
+
+    addRows(rows: IngestRow[]): void {
+      for (const row of rows) {
+        rowCount++;
+
+        const key = hashRow(JSON.stringify(row));
+        if (seen.has(key)) duplicates++;
+        else seen.add(key);
+
+        for (const tally of tallies) {
+          const v = row[tally.name];
+          if (isEmpty(v)) {
+            tally.missing++;
+            continue;
+          }
+          if (tally.sample.length < TYPE_SAMPLE_SIZE) tally.sample.push(v);
+          if (!tryParseNumber(v).ok) tally.numberFailures++;
+          if (!tryParseDate(v).ok) tally.dateFailures++;
+        }
+      }
+    },
+
+    finish(): IngestResult {
+      const columnDetails: DataColumn[] = tallies.map((tally) => {
+        const type = inferType(tally.sample);
+        const invalid =
+          type === "number" ? tally.numberFailures : type === "date" ? tally.dateFailures : 0;
+        return { name: tally.name, type, missing: tally.missing, invalid };
+      });
+
+      const dataSummary: DataSummary = {
+        rows: rowCount,
+        columns: headers.length,
+        duplicates,
+        columnDetails,
+      };
+
+      const cleaningIssues: CleaningIssues = {
+        missingValues: columnDetails.filter((c) => c.missing > 0),
+        invalidTypes: columnDetails.filter((c) => c.invalid > 0),
+        outliers: [], // şimdilik boş, istersen ekleriz
+        duplicates,
+      };
+      if (structuralTotal > 0) {
+        cleaningIssues.structural = { total: structuralTotal, rows: structuralRows };
+      }
+
+      return { dataSummary, cleaningIssues };
+    },
+  };
+}
+
+/**
+ * Stream a CSV file slice by slice: detect encoding and delimiter, tokenize,
+ * build row objects and profile them. Rows and progress are handed out per chunk.
+ * Rows with the wrong field count are kept (missing fields empty, extras dropped)
+ * and reported as structural issues.
+ */
+export async function streamCsvFile(
+  file: File,
+  handlers: {
+    onRows: (rows: IngestRow[]) => void;
+    onProgress?: (progress: IngestProgress) => void;
+    isCancelled?: () => boolean;
+  },
+  options: CsvFormatOptions & { chunkSize?: number } = {}
+): Promise<IngestResult> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+
+  const encoding =
+    !options.encoding || options.encoding === "auto"
+      ? detectEncoding(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()))
+      : options.encoding;
+  const decoder = new TextDecoder(encoding);
+
+  let delimiter: CsvDelimiter | null =
+    options.delimiter && options.delimiter !== "auto" ? options.delimiter : null;
+  let tokenizer: ReturnType<typeof createCsvTokenizer> | null = null;
+  let sniffBuffer = "";
+
+  let headers: string[] | null = null;
+  let profiler: ReturnType<typeof createColumnProfiler> | null = null;
+  let rowsParsed = 0;
+
+  const consume = (records: string[][]) => {
+    if (records.length === 0) return;
+
+    if (!headers) {
+      headers = records[0].map((h, i) => (i === 0 ? h.replace(/^\uFEFF/, "") : h));
+      profiler = createColumnProfiler(headers);
+      records = records.slice(1);
+    }
+
+    const hdrs = headers;
+    const rows = records.map((values, idx) => {
+      if (values.length !== hdrs.length) {
+        profiler!.addStructuralIssue({
+          row: rowsParsed + idx + 1,
+          kind: values.length < hdrs.length ? "too_few_fields" : "too_many_fields",
+          expected: hdrs.length,
+          found: values.length,
+        });
+      }
+      const obj: IngestRow = {};
+      for (let i = 0; i < hdrs.length; i++) {
+        obj[hdrs[i]] = values[i] ?? "";
+      }
+      return obj;
+    });
+
+    if (rows.length === 0) return;
+    profiler!.addRows(rows);
+    rowsParsed += rows.length;
+    handlers.onRows(rows);
+  };
+
+  // Text is buffered until enough has arrived to sniff the delimiter
+  const feed = (text: string, final: boolean) => {
+    if (!tokenizer) {
+      sniffBuffer += text;
+      if (sniffBuffer.length < SNIFF_BYTES && !final) return;
+      delimiter = delimiter ?? sniffDelimiter(sniffBuffer);
+      tokenizer = createCsvTokenizer(delimiter);
+      text = sniffBuffer;
+      sniffBuffer = "";
+    }
+    consume(tokenizer.push(text));
+  };
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    if (handlers.isCancelled?.()) throw new DOMException("CSV ingestion cancelled", "AbortError");
+
+    const buffer = await file.slice(offset, offset + chunkSize).arrayBuffer();
+    feed(decoder.decode(buffer, { stream: true }), false);
+
+    handlers.onProgress?.({
+      bytesRead: Math.min(file.size, offset + chunkSize),
+      totalBytes: file.size,
+      rowsParsed,
+    });
+  }
+
+  // A quote left open at EOF swallows the rest of the file into one field
+  const flush = () => {
+    if (!tokenizer) return;
+    const tail = tokenizer.flush();
+    consume(tail.records);
+    if (tail.unterminatedQuote && profiler && headers) {
+      profiler.addStructuralIssue({
+        row: rowsParsed,
+        kind: "unterminated_quote",
+        expected: headers.length,
+        found: tail.records[tail.records.length - 1]?.length ?? 0,
+      });
+    }
+  };
+
+  feed(decoder.decode(), true);
+  flush();
+
+  const result = (profiler ?? createColumnProfiler([])).finish();
+  return { ...result, format: { delimiter: delimiter ?? ",", encoding } };
+}
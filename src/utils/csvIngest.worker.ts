@@ -0,0 +1,26 @@
+// src/utils/csvIngest.worker.ts
+// Runs CSV ingestion off the main thread; cancellation is done by terminating the worker.
+import { streamCsvFile, type IngestRequest, type IngestResponse } from "./csvIngest";
+
+const ctx = self as unknown as {
+  postMessage: (message: IngestResponse) => void;
+  onmessage: ((event: MessageEvent<IngestRequest>) => void) | null;
+};
+
+ctx.onmessage = async (event) => {
+  const { file, chunkSize, format } = event.data;
+
+  try {
+    const result = await streamCsvFile(
+      file,
+      {
+        onRows: (rows) => ctx.postMessage({ type: "rows", rows }),
+        onProgress: (progress) => ctx.postMessage({ type: "progress", progress }),
+      },
+      { ...format, chunkSize }
+    );
+    ctx.postMessage({ type: "done", result });
+  } catch (err) {
+    ctx.postMessage({ type: "error", message: err instanceof Error ? err.message : "Failed to read file" });
+  }
+};
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { lineageTracker } from './dataLineage';
+
+beforeEach(() => lineageTracker.clear());
+
+describe('lineage per dataset', () => {
+  it('keeps each dataset to its own history', () => {
+    lineageTracker.reset('a').initialize(100, 'a.csv');
+    lineageTracker.reset('b').initialize(40, 'b.csv');
+    lineageTracker.for('a').recordTransformation('Removed duplicates', 90, 100, {});
+
+    expect(lineageTracker.for('a').getHistory()).toMatchObject({ originalRowCount: 100, currentRowCount: 90 });
+    expect(lineageTracker.for('b').getHistory()).toMatchObject({ originalRowCount: 40, currentRowCount: 40 });
+    expect(lineageTracker.for('b').getHistory().events).toHaveLength(1);
+  });
+
+  it('records queries and exports against the active dataset', () => {
+    lineageTracker.reset('a').initialize(100, 'a.csv');
+    lineageTracker.reset('b').initialize(40, 'b.csv');
+    lineageTracker.setActive('b');
+    lineageTracker.recordExport('csv', 40);
+
+    expect(lineageTracker.current().getHistory().events.map((e) => e.action)).toEqual(['uploaded', 'exported']);
+    expect(lineageTracker.for('a').getHistory().events).toHaveLength(1);
+  });
+
+  it('starts over when an upload replaces the data', () => {
+    lineageTracker.reset('a').initialize(100, 'a.csv');
+    lineageTracker.for('a').recordTransformation('Dropped rows', 50, 100, {});
+    lineageTracker.reset('a').initialize(10, 'new.csv');
+
+    const history = lineageTracker.for('a').getHistory();
+    expect(history.events.map((e) => e.description)).toEqual(['Uploaded file: new.csv']);
+    expect(history).toMatchObject({ originalRowCount: 10, currentRowCount: 10 });
+  });
+
+  it('round-trips through a snapshot', () => {
+    lineageTracker.reset('a').initialize(100, 'a.csv');
+    lineageTracker.setActive('a');
+    const saved = lineageTracker.snapshot();
+
+    lineageTracker.clear();
+    expect(lineageTracker.current().getHistory().events).toHaveLength(0);
+
+    lineageTracker.load(saved);
+    expect(lineageTracker.current().getHistory().events.map((e) => e.description)).toEqual(['Uploaded file: a.csv']);
+  });
+
+  it('notifies subscribers and stops after unsubscribe', () => {
+    let calls = 0;
+    const unsubscribe = lineageTracker.subscribe(() => calls++);
+    lineageTracker.reset('a').initialize(1, 'a.csv');
+    unsubscribe();
+    lineageTracker.for('a').recordExport('csv', 1);
+    expect(calls).toBe(1);
+  });
+});
@@ -1,12 +1,12 @@
 /**
  * Data Lineage Tracking
- * Tracks transformations, audit trail, and data freshness
+ * Tracks transformations, audit trail, and data freshness, one history per dataset
  */
 
 export interface DataLineageEvent {
   id: string;
   timestamp: Date;
-  action: 'uploaded' | 'filtered' | 'aggregated' | 'transformed' | 'exported';
+  action: 'uploaded' | 'filtered' | 'aggregated' | 'transformed' | 'queried' | 'exported';
   description: string;
   affectedRows: number;
   previousRowCount: number;
@@ -24,6 +24,23 @@ export interface DataLineageHistory {
   dataTrustScore: number;
 }
 
+// Queries and exports read the data without changing the working dataset
+const READ_ONLY_ACTIONS: DataLineageEvent['action'][] = ['queried', 'exported'];
+
+const isTransformation = (e: DataLineageEvent) => e.action !== 'uploaded' && !READ_ONLY_ACTIONS.includes(e.action);
+
+export interface PersistedLineage {
+  uploadTime: string;
+  originalRowCount: number;
+  currentRowCount: number;
+  events: (Omit<DataLineageEvent, 'timestamp'> & { timestamp: string })[];
+}
+
+export interface PersistedLineageSet {
+  activeId: string | null;
+  datasets: Record<string, PersistedLineage>; // by dataset id
+}
+
 class LineageTracker {
   private events: DataLineageEvent[] = [];
   private uploadTime: Date = new Date();
@@ -31,28 +48,53 @@ class LineageTracker {
   private currentRowCount: number = 0;
 
   /**
-   * Initialize tracker with upload event
+   * @param onChange called after every change, e.g. to save the history
    */
-  initialize(rowCount: number, fileName: string): void {
-    this.uploadTime = new Date();
-    this.originalRowCount = rowCount;
-    this.currentRowCount = rowCount;
+  constructor(private onChange?: () => void) {}
 
-    this.recordEvent({
+  /**
+   * Initialize tracker with upload event (starts a fresh history)
+   */
+  initialize(rowCount: number, fileName: string): void {
+    this.start(rowCount, {
       action: 'uploaded',
       description: `Uploaded file: ${fileName}`,
-      affectedRows: rowCount,
       previousRowCount: 0,
       details: { fileName },
     });
   }
 
+  /**
+   * Start a fresh history for a dataset built from others (join, union)
+   */
+  initializeDerived(
+    rowCount: number,
+    description: string,
+    inputRowCount: number,
+    details: Record<string, unknown>
+  ): void {
+    this.start(rowCount, { action: 'transformed', description, previousRowCount: inputRowCount, details });
+  }
+
+  private start(
+    rowCount: number,
+    event: Omit<DataLineageEvent, 'id' | 'timestamp' | 'rowCountChange' | 'affectedRows'>
+  ): void {
+    this.events = [];
+    this.uploadTime = new Date();
+    this.originalRowCount = rowCount;
+    this.currentRowCount = rowCount;
+    this.recordEvent({ ...event, affectedRows: rowCount });
+  }
+
   /**
    * Record a transformation event
    */
   recordEvent(event: Omit<DataLineageEvent, 'id' | 'timestamp' | 'rowCountChange'>): void {
     const rowCountChange = event.affectedRows - event.previousRowCount;
-    this.currentRowCount = event.affectedRows;
+    if (!READ_ONLY_ACTIONS.includes(event.action)) {
+      this.currentRowCount = event.affectedRows;
+    }
 
     const lineageEvent: DataLineageEvent = {
       id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -62,6 +104,33 @@ class LineageTracker {
     };
 
     this.events.push(lineageEvent);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.onChange?.();
+  }
+
+  /**
+   * Plain-data copy of the history, e.g. to save it with a session
+   */
+  snapshot(): PersistedLineage {
+    return {
+      uploadTime: this.uploadTime.toISOString(),
+      originalRowCount: this.originalRowCount,
+      currentRowCount: this.currentRowCount,
+      events: this.events.map((e) => ({ ...e, timestamp: e.timestamp.toISOString() })),
+    };
+  }
+
+  /**
+   * Replace the history with a snapshot (resuming a saved session); the owner announces the change
+   */
+  load(data: PersistedLineage): void {
+    this.uploadTime = new Date(data.uploadTime);
+    this.originalRowCount = data.originalRowCount;
+    this.currentRowCount = data.currentRowCount;
+    this.events = data.events.map((e) => ({ ...e, timestamp: new Date(e.timestamp) }));
   }
 
   /**
@@ -118,6 +187,19 @@ class LineageTracker {
     });
   }
 
+  /**
+   * Record a query run against the data (read-only)
+   */
+  recordQuery(description: string, inputRows: number, resultRows: number, details: Record<string, unknown>): void {
+    this.recordEvent({
+      action: 'queried',
+      description,
+      affectedRows: resultRows,
+      previousRowCount: inputRows,
+      details,
+    });
+  }
+
   /**
    * Record an export operation
    */
@@ -139,7 +221,7 @@ class LineageTracker {
       uploadTime: this.uploadTime,
       lastModified: this.events.length > 0 ? this.events[this.events.length - 1].timestamp : this.uploadTime,
       events: [...this.events],
-      totalTransformations: this.events.filter((e) => e.action !== 'uploaded').length,
+      totalTransformations: this.events.filter(isTransformation).length,
       currentRowCount: this.currentRowCount,
       originalRowCount: this.originalRowCount,
       dataTrustScore: this.calculateTrustScore(),
@@ -161,15 +243,17 @@ class LineageTracker {
     score -= Math.min(30, Math.floor(ageHours));
 
     // Deduct for excessive transformations (2 points per transformation, max 20)
-    const transformCount = this.events.filter((e) => e.action !== 'uploaded').length;
+    const transformCount = this.events.filter(isTransformation).length;
     score -= Math.min(20, transformCount * 2);
 
     // Deduct for significant row reduction (1 point per 5% loss, max 25)
-    const rowLoss = ((this.originalRowCount - this.currentRowCount) / this.originalRowCount) * 100;
+    const rowLoss =
+      this.originalRowCount > 0 ? ((this.originalRowCount - this.currentRowCount) / this.originalRowCount) * 100 : 0;
     score -= Math.min(25, Math.floor(rowLoss / 5));
 
     // Bonus for stability (if row count unchanged in recent transformations, +5)
-    if (transformCount > 0 && this.events[this.events.length - 1].rowCountChange === 0) {
+    const lastTransform = this.events.filter(isTransformation).pop();
+    if (lastTransform && lastTransform.rowCountChange === 0) {
       score += 5;
     }
 
@@ -277,8 +361,146 @@ class LineageTracker {
   }
 }
 
-// Create singleton instance
-export const lineageTracker = new LineageTracker();
+/**
+ * Lineage for every dataset in the workspace, keyed by dataset id, so cleaning one
+ * dataset never changes another's row counts or trust score. Queries and exports
+ * don't know which dataset they ran on and are recorded against the active one.
+ */
+class WorkspaceLineage {
+  private trackers = new Map<string, LineageTracker>();
+  private activeId: string | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * @param storageKey sessionStorage key; when set, histories are restored on creation and saved on every change
+   */
+  constructor(private storageKey?: string) {
+    this.restore();
+  }
+
+  /**
+   * History of one dataset, created empty the first time it is asked for
+   */
+  for(datasetId: string): LineageTracker {
+    let tracker = this.trackers.get(datasetId);
+    if (!tracker) {
+      tracker = new LineageTracker(() => this.notify());
+      this.trackers.set(datasetId, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * History of the active dataset (an empty, unsaved one when there is none)
+   */
+  current(): LineageTracker {
+    return this.activeId ? this.for(this.activeId) : new LineageTracker();
+  }
+
+  setActive(datasetId: string | null): void {
+    if (datasetId === this.activeId) return;
+    this.activeId = datasetId;
+    this.notify();
+  }
+
+  /**
+   * Drop whatever was recorded for a dataset id and hand back an empty history,
+   * e.g. when an upload brings in new data
+   */
+  reset(datasetId: string): LineageTracker {
+    this.trackers.delete(datasetId);
+    return this.for(datasetId);
+  }
+
+  remove(datasetId: string): void {
+    if (!this.trackers.delete(datasetId)) return;
+    this.notify();
+  }
+
+  /**
+   * Forget everything (e.g. on sign out or when starting a new analysis)
+   */
+  clear(): void {
+    this.trackers.clear();
+    this.activeId = null;
+    this.notify();
+  }
+
+  recordQuery(description: string, inputRows: number, resultRows: number, details: Record<string, unknown>): void {
+    this.current().recordQuery(description, inputRows, resultRows, details);
+  }
+
+  recordExport(format: string, rowCount: number): void {
+    this.current().recordExport(format, rowCount);
+  }
+
+  /**
+   * Listen for changes; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.persist();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Plain-data copy of every history, e.g. to save it with a session
+   */
+  snapshot(): PersistedLineageSet {
+    const datasets: Record<string, PersistedLineage> = {};
+    this.trackers.forEach((tracker, id) => {
+      datasets[id] = tracker.snapshot();
+    });
+    return { activeId: this.activeId, datasets };
+  }
+
+  /**
+   * Replace all histories with a snapshot (resuming a saved session)
+   */
+  load(data: PersistedLineageSet): void {
+    this.apply(data);
+    this.notify();
+  }
+
+  private apply(data: PersistedLineageSet): void {
+    this.trackers.clear();
+    this.activeId = data.activeId;
+    for (const [id, history] of Object.entries(data.datasets)) {
+      const tracker = new LineageTracker(() => this.notify());
+      tracker.load(history);
+      this.trackers.set(id, tracker);
+    }
+  }
+
+  private persist(): void {
+    if (!this.storageKey || typeof sessionStorage === 'undefined') return;
+    try {
+      sessionStorage.setItem(this.storageKey, JSON.stringify(this.snapshot()));
+    } catch {
+      // Storage full or unavailable; history still lives in memory
+    }
+  }
+
+  private restore(): void {
+    if (!this.storageKey || typeof sessionStorage === 'undefined') return;
+    const raw = sessionStorage.getItem(this.storageKey);
+    if (!raw) return;
+    try {
+      this.apply(JSON.parse(raw) as PersistedLineageSet);
+    } catch {
+      sessionStorage.removeItem(this.storageKey);
+    }
+  }
+}
+
+// Create singleton instance (persisted for the browser session)
+export const lineageTracker = new WorkspaceLineage('data_lineage');
 
 /**
  * Get lineage history (non-singleton version)
@@ -1,5 +1,6 @@
 // Data visualization and charting utilities
 import type { DataRow } from '../types';
+import { resample, type ResampleOptions } from './resample';
 
 export interface ChartData {
   name: string;
@@ -17,6 +18,10 @@ export interface TimeSeriesData {
   date: string;
   value: number;
   count?: number;
+  rolling?: number | null;
+  previous?: number | null;
+  changePercent?: number | null;
+  cumulative?: number;
 }
 
 // Generate histogram/distribution data for numeric columns
@@ -87,31 +92,30 @@ export const generateCategoryChart = (
 export const generateTimeSeries = (
   data: DataRow[],
   dateColumn: string,
-  valueColumn?: string
+  valueColumn?: string,
+  settings: Partial<Omit<ResampleOptions, 'dateColumn' | 'valueColumn'>> = {}
 ): TimeSeriesData[] => {
-  const timeMap: Record<string, number> = {};
-
-  data.forEach((row) => {
-    const dateStr = String(row[dateColumn]);
-    const isValidDate = !isNaN(Date.parse(dateStr));
-
-    if (isValidDate) {
-      const date = new Date(dateStr);
-      const key = date.toISOString().split('T')[0]; // YYYY-MM-DD
-
-      if (valueColumn && typeof row[valueColumn] === 'number') {
-        timeMap[key] = (timeMap[key] || 0) + row[valueColumn];
-      } else {
-        timeMap[key] = (timeMap[key] || 0) + 1;
-      }
-    }
-  });
-
-  return Object.entries(timeMap)
-    .sort((a, b) => new Date(a[0]).getTime() - new Date(b[0]).getTime())
-    .map(([date, value]) => ({
-      date,
-      value: Math.round(value * 100) / 100,
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const roundOrNull = (value: number | null | undefined) => (value === null || value === undefined ? value : round(value));
+
+  // Daily totals (or row counts) by default; empty buckets are dropped unless a gap fill is chosen
+  return resample(data, {
+    aggregation: valueColumn ? 'sum' : 'count',
+    bucket: 'day',
+    fill: 'none',
+    ...settings,
+    dateColumn,
+    valueColumn,
+  })
+    .filter((point) => point.value !== null)
+    .map((point) => ({
+      date: point.period,
+      value: round(point.value!),
+      count: point.rows,
+      rolling: roundOrNull(point.rolling),
+      previous: roundOrNull(point.previous),
+      changePercent: roundOrNull(point.changePercent),
+      cumulative: point.cumulative === undefined ? undefined : round(point.cumulative),
     }));
 };
 
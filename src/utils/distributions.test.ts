@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import {
+  binomialCDF,
+  binomialPMF,
+  binomialQuantile,
+  chiSquareCDF,
+  chiSquareQuantile,
+  chiSquareUpperTail,
+  fCDF,
+  fQuantile,
+  fUpperTail,
+  normalCDF,
+  normalQuantile,
+  normalUpperTail,
+  poissonCDF,
+  poissonPMF,
+  poissonQuantile,
+  tCDF,
+  tQuantile,
+  tTwoTailed,
+} from './distributions';
+
+// Relative error, so far-tail probabilities such as 1e-23 are held to the same standard as 0.5
+function expectClose(actual: number, expected: number, tolerance = 1e-10) {
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(tolerance * Math.max(Math.abs(expected), Number.MIN_VALUE));
+}
+
+// Values quoted to the precision of the printed tables (e.g. 2.228 for t(0.975, 10))
+function expectTable(actual: number, expected: number, decimals: number) {
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(0.5 * 10 ** -decimals);
+}
+
+describe('normal', () => {
+  it('matches the standard normal table', () => {
+    expectClose(normalCDF(0), 0.5);
+    expectClose(normalCDF(1), 0.8413447460685429);
+    expectClose(normalCDF(1.96), 0.9750021048517795);
+    expectClose(normalCDF(-1.96), 0.024997895148220435);
+    expectClose(normalCDF(-3), 0.0013498980316300957);
+  });
+
+  it('keeps full relative precision in the far tails', () => {
+    expectClose(normalCDF(-5), 2.866515718791946e-7);
+    expectClose(normalCDF(-10), 7.619853024160593e-24);
+    expectClose(normalUpperTail(8), 6.220960574271819e-16);
+  });
+
+  it('honours mean and sd', () => {
+    expectClose(normalCDF(119.6, 100, 10), 0.9750021048517795);
+  });
+
+  it('inverts to the critical values', () => {
+    expectClose(normalQuantile(0.975), 1.959963984540054);
+    expectClose(normalQuantile(0.995), 2.5758293035489004);
+    expectClose(normalQuantile(0.05), -1.6448536269514722);
+    expectClose(normalQuantile(2.866515718791946e-7), -5, 1e-9);
+    expect(normalQuantile(0.5)).toBe(0);
+    expect(normalQuantile(0)).toBe(-Infinity);
+    expect(normalQuantile(1)).toBe(Infinity);
+  });
+
+  it('returns NaN for invalid parameters', () => {
+    expect(normalCDF(0, 0, 0)).toBeNaN();
+    expect(normalQuantile(1.5)).toBeNaN();
+  });
+});
+
+describe('Student t', () => {
+  it('matches the closed forms for 1 and 2 degrees of freedom', () => {
+    // df = 1 is the Cauchy distribution: F(t) = 1/2 + atan(t) / pi
+    expectClose(tCDF(1, 1), 0.75);
+    expectClose(tCDF(-100, 1), 0.5 + Math.atan(-100) / Math.PI);
+    // df = 2: F(t) = 1/2 + t / (2 sqrt(2 + t^2))
+    expectClose(tCDF(2, 2), 0.5 + 1 / Math.sqrt(6));
+    expectClose(tCDF(-50, 2), 0.5 - 25 / Math.sqrt(2502));
+  });
+
+  it('matches the two-sided critical value table', () => {
+    expectClose(tQuantile(0.975, 1), 12.706204736174698);
+    expectClose(tQuantile(0.975, 2), 4.302652729749464);
+    expectTable(tQuantile(0.975, 5), 2.571, 3);
+    expectTable(tQuantile(0.975, 10), 2.228, 3);
+    expectTable(tQuantile(0.975, 30), 2.042, 3);
+    expectTable(tQuantile(0.995, 3), 5.841, 3);
+    expectTable(tQuantile(0.995, 5), 4.032, 3);
+    expectTable(tQuantile(0.9995, 10), 4.587, 3);
+    expectTable(tQuantile(0.025, 10), -2.228, 3);
+  });
+
+  it('round-trips the quantile through the CDF', () => {
+    for (const df of [1, 3, 7.5, 30, 1000]) {
+      for (const p of [0.001, 0.2, 0.9, 0.999]) expectClose(tCDF(tQuantile(p, df), df), p, 1e-9);
+    }
+  });
+
+  it('gives two-tailed p-values', () => {
+    expectClose(tTwoTailed(1, 1), 0.5);
+    expectClose(tTwoTailed(tQuantile(0.975, 12), 12), 0.05, 1e-9);
+  });
+
+  it('approaches the normal for large df', () => {
+    expectTable(tQuantile(0.975, 1e6), 1.96, 2);
+  });
+});
+
+describe('chi-square', () => {
+  it('matches the closed forms for 1 and 2 degrees of freedom', () => {
+    // df = 2 is exponential with mean 2
+    expectClose(chiSquareCDF(3, 2), 1 - Math.exp(-1.5));
+    expectClose(chiSquareUpperTail(40, 2), Math.exp(-20));
+    expectClose(chiSquareUpperTail(3.841458820694124, 1), 0.05);
+    // far tail: P(X > 100) = erfc(sqrt(50)) for df = 1
+    expectClose(chiSquareUpperTail(100, 1), 1.5239706048320995e-23);
+  });
+
+  it('matches the critical value table', () => {
+    expectClose(chiSquareQuantile(0.95, 1), 3.841458820694124);
+    expectClose(chiSquareQuantile(0.95, 2), -2 * Math.log(0.05));
+    expectTable(chiSquareQuantile(0.99, 1), 6.635, 3);
+    expectTable(chiSquareQuantile(0.95, 10), 18.307, 3);
+    expectTable(chiSquareQuantile(0.99, 30), 50.892, 3);
+    expectTable(chiSquareQuantile(0.05, 5), 1.145, 3);
+    expectTable(chiSquareQuantile(0.999, 3), 16.266, 3);
+  });
+
+  it('handles fractional degrees of freedom', () => {
+    expectClose(chiSquareCDF(chiSquareQuantile(0.3, 0.5), 0.5), 0.3, 1e-9);
+  });
+
+  it('returns NaN for invalid parameters', () => {
+    expect(chiSquareCDF(1, 0)).toBeNaN();
+    expect(chiSquareQuantile(-0.1, 3)).toBeNaN();
+  });
+});
+
+describe('F', () => {
+  it('matches the closed forms for small degrees of freedom', () => {
+    // F(1, 1) is the square of a Cauchy variable: P(X <= f) = 2 atan(sqrt f) / pi
+    expectClose(fCDF(3, 1, 1), (2 * Math.atan(Math.sqrt(3))) / Math.PI);
+    // d1 = 2: P(X > f) = (1 + 2f / d2)^(-d2 / 2)
+    expectClose(fUpperTail(4, 2, 10), (1 + 0.8) ** -5);
+    expectClose(fUpperTail(1000, 2, 6), (1 + 2000 / 6) ** -3);
+  });
+
+  it('matches the critical value table', () => {
+    expectClose(fQuantile(0.95, 1, 1), 12.706204736174698 ** 2);
+    expectClose(fQuantile(0.99, 2, 20), 10 * (0.01 ** -0.1 - 1));
+    expectTable(fQuantile(0.95, 2, 10), 4.103, 3);
+    expectTable(fQuantile(0.95, 5, 10), 3.326, 3);
+    expectTable(fQuantile(0.99, 10, 20), 3.368, 3);
+    expectTable(fQuantile(0.95, 3, 120), 2.68, 2);
+  });
+
+  it('keeps CDF and upper tail complementary', () => {
+    expectClose(fCDF(2.5, 4, 9) + fUpperTail(2.5, 4, 9), 1, 1e-12);
+  });
+});
+
+describe('binomial', () => {
+  it('matches exact sums', () => {
+    expectClose(binomialCDF(5, 10, 0.5), 638 / 1024);
+    expectClose(binomialCDF(0, 10, 0.1), 0.9 ** 10);
+    expectClose(binomialCDF(4, 20, 0.3), 0.23750777887760133);
+    expectClose(binomialPMF(3, 10, 0.5), 120 / 1024);
+  });
+
+  it('keeps precision in the tails', () => {
+    expectClose(binomialCDF(0, 100, 0.5), 2 ** -100);
+    expectClose(binomialPMF(100, 100, 0.5), 2 ** -100);
+  });
+
+  it('handles the edges', () => {
+    expect(binomialCDF(-1, 10, 0.5)).toBe(0);
+    expect(binomialCDF(10, 10, 0.5)).toBe(1);
+    expect(binomialPMF(0, 5, 0)).toBe(1);
+    expect(binomialPMF(2.5, 5, 0.5)).toBe(0);
+    expect(binomialCDF(2, 5, 1.5)).toBeNaN();
+  });
+
+  it('returns the smallest k reaching the quantile', () => {
+    expect(binomialQuantile(0.5, 10, 0.5)).toBe(5);
+    expect(binomialQuantile(0.624, 10, 0.5)).toBe(6);
+    expect(binomialQuantile(0, 10, 0.5)).toBe(0);
+  });
+});
+
+describe('Poisson', () => {
+  it('matches exact sums', () => {
+    expectClose(poissonCDF(2, 1), 2.5 / Math.E);
+    expectClose(poissonCDF(3, 2), 0.857123460498547);
+    expectClose(poissonPMF(0, 10), Math.exp(-10));
+    expectClose(poissonCDF(0, 10), 4.5399929762484854e-5);
+  });
+
+  it('keeps precision in the lower tail of a large mean', () => {
+    expectClose(poissonCDF(30, 50), 0.0015940273186062903, 1e-9);
+  });
+
+  it('returns the smallest k reaching the quantile', () => {
+    expect(poissonQuantile(0.5, 1)).toBe(1);
+    expect(poissonQuantile(0.3, 1)).toBe(0);
+    expect(poissonQuantile(0.99, 4)).toBe(9);
+    expect(poissonQuantile(0.5, 0)).toBe(0);
+  });
+
+  it('returns NaN for invalid parameters', () => {
+    expect(poissonCDF(1, -1)).toBeNaN();
+    expect(poissonQuantile(2, 1)).toBeNaN();
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Probability Distributions
+ * CDFs, upper tails and inverse CDFs for the normal, t, chi-square, F, binomial and Poisson distributions.
+ * Built on the regularized incomplete beta and gamma functions (Numerical Recipes, ch. 6);
+ * distributions.test.ts checks them against exact closed forms to 1e-10 (relative, tails included)
+ * and against published critical-value tables to their printed precision.
+ * Invalid parameters (df <= 0, probabilities outside [0, 1]) give NaN rather than throwing.
+ */
+
+const MAX_ITERATIONS = 10000;
+const EPSILON = 1e-15;
+const TINY = 1e-300;
+
+// =================== Normal ===================
+
+/**
+ * P(X <= x) for a normal distribution (standard normal by default)
+ */
+export function normalCDF(x: number, mean = 0, sd = 1): number {
+  if (!(sd > 0)) return NaN;
+  const z = (x - mean) / sd;
+  if (Number.isNaN(z)) return NaN;
+  // Phi(z) = erfc(-z / sqrt 2) / 2, and erfc(u) = Q(1/2, u^2) for u >= 0
+  const half = regularizedGammaQ(0.5, (z * z) / 2) / 2;
+  return z < 0 ? half : 1 - half;
+}
+
+/**
+ * P(X > x) for a normal distribution, without the cancellation of 1 - normalCDF in the far tail
+ */
+export function normalUpperTail(x: number, mean = 0, sd = 1): number {
+  return normalCDF(2 * mean - x, mean, sd);
+}
+
+/**
+ * Inverse normal CDF: the x with P(X <= x) = p
+ * Acklam's rational approximation polished with one Halley step
+ */
+export function normalQuantile(p: number, mean = 0, sd = 1): number {
+  if (!(sd > 0) || !(p >= 0 && p <= 1)) return NaN;
+  return mean + sd * standardNormalQuantile(p);
+}
+
+function standardNormalQuantile(p: number): number {
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+  if (p > 0.5) return -standardNormalQuantile(1 - p);
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  let x: number;
+  if (p < 0.02425) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else {
+    const q = p - 0.5;
+    const r = q * q;
+    x =
+      ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
+  const e = normalCDF(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
+}
+
+// =================== Student's t ===================
+
+/**
+ * P(T <= t) for Student's t distribution with df degrees of freedom
+ */
+export function tCDF(t: number, df: number): number {
+  if (!(df > 0) || Number.isNaN(t)) return NaN;
+  if (!Number.isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = regularizedBeta(df / (df + t * t), df / 2, 0.5) / 2;
+  return t < 0 ? tail : 1 - tail;
+}
+
+/**
+ * Two-tailed p-value P(|T| >= |t|)
+ */
+export function tTwoTailed(t: number, df: number): number {
+  if (!(df > 0) || Number.isNaN(t)) return NaN;
+  if (!Number.isFinite(t)) return 0;
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Inverse t CDF, e.g. tQuantile(0.975, 10) = 2.228 for a 95% two-sided interval
+ */
+export function tQuantile(p: number, df: number): number {
+  if (!(df > 0) || !(p >= 0 && p <= 1)) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+  if (p === 0.5) return 0;
+  if (df === 1) return Math.tan(Math.PI * (p - 0.5));
+  if (df === 2) return (2 * p - 1) / Math.sqrt(2 * p * (1 - p));
+  if (p < 0.5) return -tQuantile(1 - p, df);
+  // The t quantile always lies beyond the normal one
+  const start = Math.max(normalQuantile(p), 1e-3);
+  return invertCDF((t) => tCDF(t, df), p, 0, start);
+}
+
+// =================== Chi-square ===================
+
+/**
+ * P(X <= x) for the chi-square distribution with df degrees of freedom
+ */
+export function chiSquareCDF(x: number, df: number): number {
+  if (!(df > 0) || Number.isNaN(x)) return NaN;
+  if (x <= 0) return 0;
+  return regularizedGammaP(df / 2, x / 2);
+}
+
+/**
+ * P(X > x) for the chi-square distribution with df degrees of freedom
+ */
+export function chiSquareUpperTail(x: number, df: number): number {
+  if (!(df > 0) || Number.isNaN(x)) return NaN;
+  if (x <= 0) return 1;
+  return regularizedGammaQ(df / 2, x / 2);
+}
+
+/**
+ * Inverse chi-square CDF, e.g. chiSquareQuantile(0.95, 1) = 3.841
+ */
+export function chiSquareQuantile(p: number, df: number): number {
+  if (!(df > 0) || !(p >= 0 && p <= 1)) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  return invertCDF((x) => chiSquareCDF(x, df), p, 0, Math.max(df, 1));
+}
+
+// =================== F ===================
+
+/**
+ * P(X <= f) for the F distribution with (d1, d2) degrees of freedom
+ */
+export function fCDF(f: number, d1: number, d2: number): number {
+  if (!(d1 > 0 && d2 > 0) || Number.isNaN(f)) return NaN;
+  if (f <= 0) return 0;
+  if (!Number.isFinite(f)) return 1;
+  return regularizedBeta((d1 * f) / (d1 * f + d2), d1 / 2, d2 / 2);
+}
+
+/**
+ * P(X > f) for the F distribution with (d1, d2) degrees of freedom
+ */
+export function fUpperTail(f: number, d1: number, d2: number): number {
+  if (!(d1 > 0 && d2 > 0) || Number.isNaN(f)) return NaN;
+  if (f <= 0) return 1;
+  if (!Number.isFinite(f)) return 0;
+  return regularizedBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2);
+}
+
+/**
+ * Inverse F CDF, e.g. fQuantile(0.95, 2, 10) = 4.103
+ */
+export function fQuantile(p: number, d1: number, d2: number): number {
+  if (!(d1 > 0 && d2 > 0) || !(p >= 0 && p <= 1)) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  return invertCDF((f) => fCDF(f, d1, d2), p, 0, 1);
+}
+
+// =================== Binomial ===================
+
+/**
+ * P(X = k) for the number of successes in n trials with success probability p
+ */
+export function binomialPMF(k: number, n: number, p: number): number {
+  if (!validBinomial(n, p) || Number.isNaN(k)) return NaN;
+  if (k < 0 || k > n || !Number.isInteger(k)) return 0;
+  if (p === 0) return k === 0 ? 1 : 0;
+  if (p === 1) return k === n ? 1 : 0;
+  const logChoose = logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+  return Math.exp(logChoose + k * Math.log(p) + (n - k) * Math.log(1 - p));
+}
+
+/**
+ * P(X <= k) for the number of successes in n trials with success probability p
+ */
+export function binomialCDF(k: number, n: number, p: number): number {
+  if (!validBinomial(n, p) || Number.isNaN(k)) return NaN;
+  const floor = Math.floor(k);
+  if (floor < 0) return 0;
+  if (floor >= n) return 1;
+  return regularizedBeta(1 - p, n - floor, floor + 1);
+}
+
+/**
+ * Smallest k with P(X <= k) >= q
+ */
+export function binomialQuantile(q: number, n: number, p: number): number {
+  if (!validBinomial(n, p) || !(q >= 0 && q <= 1)) return NaN;
+  return discreteQuantile((k) => binomialCDF(k, n, p), q, n);
+}
+
+function validBinomial(n: number, p: number): boolean {
+  return Number.isInteger(n) && n >= 0 && p >= 0 && p <= 1;
+}
+
+// =================== Poisson ===================
+
+/**
+ * P(X = k) for a Poisson distribution with mean lambda
+ */
+export function poissonPMF(k: number, lambda: number): number {
+  if (!(lambda >= 0) || Number.isNaN(k)) return NaN;
+  if (k < 0 || !Number.isInteger(k)) return 0;
+  if (lambda === 0) return k === 0 ? 1 : 0;
+  return Math.exp(k * Math.log(lambda) - lambda - logGamma(k + 1));
+}
+
+/**
+ * P(X <= k) for a Poisson distribution with mean lambda
+ */
+export function poissonCDF(k: number, lambda: number): number {
+  if (!(lambda >= 0) || Number.isNaN(k)) return NaN;
+  const floor = Math.floor(k);
+  if (floor < 0) return 0;
+  if (lambda === 0 || !Number.isFinite(floor)) return 1;
+  return regularizedGammaQ(floor + 1, lambda);
+}
+
+/**
+ * Smallest k with P(X <= k) >= q
+ */
+export function poissonQuantile(q: number, lambda: number): number {
+  if (!(lambda >= 0) || !(q >= 0 && q <= 1)) return NaN;
+  if (q === 1) return lambda === 0 ? 0 : Infinity;
+  let hi = Math.ceil(lambda + 10 * Math.sqrt(lambda) + 10);
+  while (poissonCDF(hi, lambda) < q) hi *= 2;
+  return discreteQuantile((k) => poissonCDF(k, lambda), q, hi);
+}
+
+// =================== Helper Functions ===================
+
+/**
+ * Bisection for a continuous, increasing CDF; widens [lo, hi] upwards until it brackets p
+ */
+function invertCDF(cdf: (x: number) => number, p: number, lo: number, hi: number): number {
+  while (cdf(hi) < p) {
+    lo = hi;
+    hi *= 2;
+    if (!Number.isFinite(hi)) return Infinity;
+  }
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+    if (hi - lo <= 1e-14 * Math.max(1, Math.abs(mid))) break;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Binary search over 0..hi for the smallest integer whose CDF reaches q,
+ * allowing for rounding in the CDF so exact table probabilities land on the right k
+ */
+function discreteQuantile(cdf: (k: number) => number, q: number, hi: number): number {
+  const target = q * (1 - 64 * Number.EPSILON);
+  let lo = 0;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (cdf(mid) >= target) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Log gamma (Lanczos approximation, g = 7)
+ */
+function logGamma(x: number): number {
+  const g = 7;
+  const coeff = [
+    0.99999999999980993,
+    676.5203681218851,
+    -1259.1392167224028,
+    771.32342877765313,
+    -176.61502916214059,
+    12.507343278686905,
+    -0.13857109526572012,
+    9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  if (x < 0.5) {
+    return Math.log(Math.PI) - Math.log(Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  x -= 1;
+  const base = x + g + 0.5;
+  let sum = coeff[0];
+  for (let i = 1; i < coeff.length; i++) {
+    sum += coeff[i] / (x + i);
+  }
+
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(base) - base + Math.log(sum);
+}
+
+function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b) via its continued fraction (Numerical Recipes betacf)
+ */
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  // The fraction converges fastest below the mean; use the symmetry relation above it
+  if (x > (a + 1) / (a + b + 2)) return 1 - regularizedBeta(1 - x, b, a);
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let f = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let num = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + num * d;
+    d = Math.abs(d) < TINY ? 1 / TINY : 1 / d;
+    c = 1 + num / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    f *= d * c;
+    num = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + num * d;
+    d = Math.abs(d) < TINY ? 1 / TINY : 1 / d;
+    c = 1 + num / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    const delta = d * c;
+    f *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return (front * f) / a;
+}
+
+/**
+ * Regularized lower incomplete gamma P(a, x)
+ */
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) = 1 - P(a, x), computed directly for small tails
+ */
+function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n <= MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+  return Math.min(1, sum * Math.exp(a * Math.log(x) - x - logGamma(a)));
+}
+
+function gammaContinuedFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n <= MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.min(1, Math.exp(a * Math.log(x) - x - logGamma(a)) * h);
+}
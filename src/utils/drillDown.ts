@@ -4,6 +4,16 @@
  */
 
 import type { DataRow } from '../types';
+import { resample, type ResampledPoint, type ResampleOptions } from './resample';
+import {
+  adjustPValues,
+  bootstrapCI,
+  chiSquareIndependence,
+  cliffsDelta,
+  cohensD,
+  welchTTest,
+  type PValueCorrection,
+} from './statistics';
 
 export interface DrillDownContext {
   column: string;
@@ -41,6 +51,51 @@ export interface SegmentComparison {
     stdevDiff?: number;
   };
   isDifferentSignificant: boolean;
+  test?: SegmentTest; // present when an analyze column is given
+}
+
+/**
+ * Hypothesis test between two segments: Welch's t-test for a numeric measure,
+ * chi-square on the 2 × k table for a categorical one
+ */
+export interface SegmentTest {
+  test: 'welch' | 'chisquare';
+  statistic: number;
+  pValue: number;
+  adjustedPValue: number; // equals pValue unless part of an all-pairs family
+  significant: boolean; // judged on the adjusted p-value
+  meanDiff?: number;
+  meanDiffCI?: { lower: number; upper: number; confidence: number }; // bootstrap percentile interval
+  cohensD?: number;
+  cliffsDelta?: number;
+  cramersV?: number;
+}
+
+export interface SegmentPair extends SegmentTest {
+  segment1: string;
+  segment2: string;
+  n1: number;
+  n2: number;
+}
+
+export interface AllPairsComparison {
+  column: string;
+  analyzeColumn: string;
+  measure: 'numeric' | 'categorical';
+  correction: PValueCorrection;
+  alpha: number;
+  segments: { name: string; rowCount: number; mean?: number }[];
+  pairs: SegmentPair[];
+  significantCount: number;
+  uncorrectedSignificantCount: number; // how many pairs would pass without correction
+  omittedSegments: string[]; // too small to test, or beyond maxSegments
+}
+
+export interface AllPairsOptions {
+  correction?: PValueCorrection;
+  alpha?: number;
+  bootstrapIterations?: number;
+  maxSegments?: number;
 }
 
 export interface AnomalyDrill {
@@ -83,8 +138,8 @@ export function compareSegments(
   value2: string | number,
   analyzeColumn?: string
 ): SegmentComparison {
-  const segment1Data = data.filter((row) => row[column] === value1);
-  const segment2Data = data.filter((row) => row[column] === value2);
+  const segment1Data = data.filter((row) => String(row[column]) === String(value1));
+  const segment2Data = data.filter((row) => String(row[column]) === String(value2));
 
   // Calculate stats for each segment
   const segment1Stats = analyzeColumn
@@ -99,7 +154,9 @@ export function compareSegments(
   const rowCountDiffPercent =
     (rowCountDiff / segment2Stats.rowCount) * 100;
 
-  const isDifferentSignificant = Math.abs(rowCountDiffPercent) > 10;
+  const test = analyzeColumn ? testSegments(segment1Data, segment2Data, analyzeColumn, measureKind(data, analyzeColumn)) : undefined;
+  // Without a measure to test, fall back to flagging a large difference in size
+  const isDifferentSignificant = test ? test.significant : Math.abs(rowCountDiffPercent) > 10;
 
   const meanDiff = segment1Stats.mean && segment2Stats.mean
     ? Math.round((segment1Stats.mean - segment2Stats.mean) * 100) / 100
@@ -140,17 +197,87 @@ export function compareSegments(
         : undefined,
     },
     isDifferentSignificant,
+    test,
+  };
+}
+
+/**
+ * Compare every pair of segments on one measure, correcting the p-values for the number of pairs
+ * so that comparing many segments does not turn up differences by chance
+ */
+export function compareAllSegments(
+  data: DataRow[],
+  column: string,
+  analyzeColumn: string,
+  options: AllPairsOptions = {}
+): AllPairsComparison {
+  const { correction = 'holm', alpha = 0.05, bootstrapIterations = 1000, maxSegments = 20 } = options;
+  const measure = measureKind(data, analyzeColumn);
+
+  const bySegment = new Map<string, DataRow[]>();
+  for (const row of data) {
+    if (isBlank(row[column])) continue;
+    const key = String(row[column]);
+    const list = bySegment.get(key);
+    if (list) list.push(row);
+    else bySegment.set(key, [row]);
+  }
+
+  const minSize = measure === 'numeric' ? 2 : 1;
+  const ranked = Array.from(bySegment, ([name, rows]) => ({ name, rows })).sort((a, b) => b.rows.length - a.rows.length);
+  const testable = ranked.filter((s) => sampleSize(s.rows, analyzeColumn, measure) >= minSize);
+  const kept = testable.slice(0, maxSegments);
+  const omittedSegments = ranked.filter((s) => !kept.includes(s)).map((s) => s.name);
+
+  const pairs: SegmentPair[] = [];
+  for (let i = 0; i < kept.length; i++) {
+    for (let j = i + 1; j < kept.length; j++) {
+      const a = kept[i];
+      const b = kept[j];
+      pairs.push({
+        segment1: a.name,
+        segment2: b.name,
+        n1: sampleSize(a.rows, analyzeColumn, measure),
+        n2: sampleSize(b.rows, analyzeColumn, measure),
+        ...testSegments(a.rows, b.rows, analyzeColumn, measure, alpha, bootstrapIterations),
+      });
+    }
+  }
+
+  const adjusted = adjustPValues(pairs.map((p) => p.pValue), correction);
+  pairs.forEach((pair, i) => {
+    pair.adjustedPValue = Math.round(adjusted[i] * 10000) / 10000;
+    pair.significant = adjusted[i] < alpha;
+  });
+
+  return {
+    column,
+    analyzeColumn,
+    measure,
+    correction,
+    alpha,
+    segments: kept.map((s) => ({
+      name: s.name,
+      rowCount: s.rows.length,
+      mean: measure === 'numeric' ? calculateSegmentStats(s.rows, analyzeColumn).mean : undefined,
+    })),
+    pairs,
+    significantCount: pairs.filter((p) => p.significant).length,
+    uncorrectedSignificantCount: pairs.filter((p) => p.pValue < alpha).length,
+    omittedSegments,
   };
 }
 
 /**
- * Drill down on time series data - focus on specific period
+ * Drill down on time series data - focus on specific period, resampled by day unless
+ * other resampling options are given
  */
 export function timeSeriesDrill(
   data: DataRow[],
   dateColumn: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  resampleOptions: Partial<Omit<ResampleOptions, 'dateColumn'>> = {}
 ): {
   filteredData: DataRow[];
   rowCount: number;
@@ -158,6 +285,7 @@ export function timeSeriesDrill(
   endDate: Date;
   daysInPeriod: number;
   avgPerDay: number;
+  series: ResampledPoint[];
 } {
   const filteredData = data.filter((row) => {
     const rowDate = new Date(String(row[dateColumn]));
@@ -173,6 +301,7 @@ export function timeSeriesDrill(
     endDate,
     daysInPeriod: Math.round(daysInPeriod),
     avgPerDay: Math.round((filteredData.length / daysInPeriod) * 100) / 100,
+    series: resample(filteredData, { dateColumn, aggregation: 'count', bucket: 'day', ...resampleOptions }),
   };
 }
 
@@ -285,6 +414,89 @@ export function compareToTotal(
 
 // ==================== Helper Functions ====================
 
+const isBlank = (val: unknown) => val === null || val === undefined || val === '';
+
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+function numericValues(data: DataRow[], column: string): number[] {
+  return data.map((row) => toNumber(row[column])).filter((val): val is number => val !== null);
+}
+
+/**
+ * A measure is numeric when at least 90% of its filled cells parse as numbers
+ */
+function measureKind(data: DataRow[], column: string): 'numeric' | 'categorical' {
+  const filled = data.filter((row) => !isBlank(row[column]));
+  if (filled.length === 0) return 'categorical';
+  return numericValues(filled, column).length / filled.length >= 0.9 ? 'numeric' : 'categorical';
+}
+
+function sampleSize(data: DataRow[], column: string, measure: 'numeric' | 'categorical'): number {
+  return measure === 'numeric' ? numericValues(data, column).length : data.filter((row) => !isBlank(row[column])).length;
+}
+
+/**
+ * Test one pair of segments without any multiple-comparison adjustment
+ */
+function testSegments(
+  segment1: DataRow[],
+  segment2: DataRow[],
+  column: string,
+  measure: 'numeric' | 'categorical',
+  alpha = 0.05,
+  bootstrapIterations = 1000
+): SegmentTest {
+  const round = (val: number) => Math.round(val * 1000) / 1000;
+
+  if (measure === 'numeric') {
+    const a = numericValues(segment1, column);
+    const b = numericValues(segment2, column);
+    const welch = welchTTest(a, b);
+    const ci = bootstrapCI(a, b, { iterations: bootstrapIterations, confidence: 1 - alpha });
+    return {
+      test: 'welch',
+      statistic: welch.tStatistic,
+      pValue: welch.pValue,
+      adjustedPValue: welch.pValue,
+      significant: welch.pValue < alpha,
+      meanDiff: Math.round(ci.estimate * 100) / 100,
+      meanDiffCI: { lower: Math.round(ci.lower * 100) / 100, upper: Math.round(ci.upper * 100) / 100, confidence: ci.confidence },
+      cohensD: round(cohensD(a, b)),
+      cliffsDelta: round(cliffsDelta(a, b)),
+    };
+  }
+
+  const tally = (rows: DataRow[]) => {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      if (isBlank(row[column])) continue;
+      const key = String(row[column]);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const counts1 = tally(segment1);
+  const counts2 = tally(segment2);
+  const categories = Array.from(new Set([...counts1.keys(), ...counts2.keys()]));
+  const chi = chiSquareIndependence([
+    categories.map((cat) => counts1.get(cat) ?? 0),
+    categories.map((cat) => counts2.get(cat) ?? 0),
+  ]);
+  return {
+    test: 'chisquare',
+    statistic: chi.chiSquare,
+    pValue: chi.pValue,
+    adjustedPValue: chi.pValue,
+    significant: chi.pValue < alpha,
+    cramersV: chi.cramersV,
+  };
+}
+
 /**
  * Calculate statistics for a segment
  */
@@ -305,9 +517,7 @@ function calculateSegmentStats(
 
   if (!column) return stats;
 
-  const values = data
-    .map((row) => row[column])
-    .filter((val) => typeof val === 'number') as number[];
+  const values = numericValues(data, column);
 
   if (values.length === 0) return stats;
 
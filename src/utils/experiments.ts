@@ -0,0 +1,367 @@
+/**
+ * A/B Experiment Analysis
+ * Compares every variant with the control on each metric: conversion tests for 0/1 metrics and
+ * t-tests otherwise, lift with confidence intervals, a sample-ratio-mismatch check, CUPED
+ * variance reduction and always-valid (mSPRT) p-values for teams that check results as they come in.
+ */
+
+import type { DataRow, ExperimentConfig } from '../types';
+import { normalQuantile, normalUpperTail, tQuantile } from './distributions';
+import { chiSquareTest, powerAnalysis, tTest } from './statistics';
+
+export interface GroupSummary {
+  n: number;
+  mean: number; // conversion rate for binary metrics
+  stdev: number;
+}
+
+export interface MetricComparison {
+  metric: string;
+  kind: 'binary' | 'continuous';
+  variant: string;
+  control: GroupSummary;
+  treatment: GroupSummary;
+  difference: number; // treatment - control, CUPED-adjusted when a pre-period column is set
+  differenceCI: [number, number];
+  lift: number | null; // relative to the control mean; null when the control mean is 0
+  liftCI: [number, number] | null;
+  test: 'z' | 't';
+  statistic: number;
+  pValue: number; // fixed-horizon
+  sequentialPValue?: number; // always-valid, only in sequential mode
+  significant: boolean; // on the sequential p-value in sequential mode
+  cuped?: { theta: number; varianceReduction: number };
+  power?: { requiredPerGroup: number; reached: boolean }; // binary metrics only
+}
+
+export interface SampleRatioCheck {
+  observed: Record<string, number>;
+  expected: Record<string, number>;
+  chiSquare: number;
+  pValue: number;
+  mismatch: boolean;
+}
+
+export interface ExperimentReport {
+  config: ExperimentConfig;
+  variants: { variant: string; count: number }[];
+  sampleRatio: SampleRatioCheck;
+  comparisons: MetricComparison[];
+  warnings: string[];
+}
+
+export const DEFAULT_EXPERIMENT_SETTINGS: Pick<ExperimentConfig, 'confidence' | 'sequential' | 'minimumDetectableLift'> = {
+  confidence: 0.95,
+  sequential: false,
+  minimumDetectableLift: 0.05,
+};
+
+const MAX_VARIANTS = 10;
+const SRM_ALPHA = 0.001; // strict on purpose: with real traffic a broken split shows up far below this
+const SEQUENTIAL_CHECKPOINTS = 20;
+const TRUE_VALUES = new Set(['1', 'true', 'yes']);
+const FALSE_VALUES = new Set(['0', 'false', 'no']);
+
+const isBlank = (val: unknown) => val === null || val === undefined || val === '';
+
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+const round = (val: number, digits = 4) => Math.round(val * 10 ** digits) / 10 ** digits;
+
+// ---------- Columns ----------
+
+/** Variant labels and their row counts, in label order. */
+export function experimentVariants(rows: DataRow[], variantColumn: string): { variant: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (isBlank(row[variantColumn])) continue;
+    const key = String(row[variantColumn]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Array.from(counts, ([variant, count]) => ({ variant, count })).sort((a, b) =>
+    a.variant.localeCompare(b.variant, undefined, { numeric: true })
+  );
+}
+
+/** A metric is binary (a conversion) when every filled cell is 0/1, true/false or yes/no. */
+export function isBinaryMetric(rows: DataRow[], column: string): boolean {
+  const filled = rows.filter((r) => !isBlank(r[column]));
+  return (
+    filled.length > 0 &&
+    filled.every((r) => {
+      const v = String(r[column]).trim().toLowerCase();
+      return TRUE_VALUES.has(v) || FALSE_VALUES.has(v);
+    })
+  );
+}
+
+function metricValue(val: unknown, binary: boolean): number | null {
+  if (!binary) return toNumber(val);
+  if (isBlank(val)) return null;
+  const v = String(val).trim().toLowerCase();
+  return TRUE_VALUES.has(v) ? 1 : FALSE_VALUES.has(v) ? 0 : null;
+}
+
+// ---------- Checks ----------
+
+/**
+ * Chi-square goodness-of-fit of the variant counts against the planned split.
+ * A mismatch means assignment or logging is broken and the metric results should not be trusted.
+ */
+export function sampleRatioCheck(counts: Record<string, number>, expectedSplit?: Record<string, number>): SampleRatioCheck {
+  const variants = Object.keys(counts);
+  const weights = variants.map((v) => expectedSplit?.[v] ?? 1);
+  if (weights.some((w) => !(w > 0))) throw new Error('Every variant needs a positive expected traffic share.');
+
+  const total = variants.reduce((sum, v) => sum + counts[v], 0);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const expectedCounts = weights.map((w) => (total * w) / weightSum);
+  const result = chiSquareTest(
+    variants.map((v) => counts[v]),
+    expectedCounts
+  );
+
+  return {
+    observed: { ...counts },
+    expected: Object.fromEntries(variants.map((v, i) => [v, round(expectedCounts[i], 1)])),
+    chiSquare: result.chiSquare,
+    pValue: result.pValue,
+    mismatch: variants.length > 1 && result.pValue < SRM_ALPHA,
+  };
+}
+
+// ---------- Analysis ----------
+
+/**
+ * Analyze an experiment: one comparison per metric and non-control variant.
+ * Rows are taken in file order as arrival order for the sequential p-values.
+ */
+export function analyzeExperiment(rows: DataRow[], config: ExperimentConfig): ExperimentReport {
+  const { variantColumn, control, metrics, preMetric } = config;
+  if (!variantColumn) throw new Error('Choose the column that holds the variant.');
+  const variants = experimentVariants(rows, variantColumn);
+  if (variants.length < 2) throw new Error(`"${variantColumn}" needs at least two variants.`);
+  if (variants.length > MAX_VARIANTS) {
+    throw new Error(`"${variantColumn}" has ${variants.length} distinct values; an experiment supports up to ${MAX_VARIANTS} variants.`);
+  }
+  if (!variants.some((v) => v.variant === control)) throw new Error(`Control variant "${control}" does not appear in "${variantColumn}".`);
+  if (metrics.length === 0) throw new Error('Choose at least one metric.');
+
+  const sampleRatio = sampleRatioCheck(
+    Object.fromEntries(variants.map((v) => [v.variant, v.count])),
+    config.expectedSplit
+  );
+  const warnings: string[] = [];
+  if (sampleRatio.mismatch) {
+    warnings.push(
+      `Sample ratio mismatch (p = ${sampleRatio.pValue}): the variant counts do not match the planned split, so assignment or logging may be broken.`
+    );
+  }
+
+  const assigned = rows.filter((r) => !isBlank(r[variantColumn]));
+  const comparisons: MetricComparison[] = [];
+  for (const metric of metrics) {
+    if (metric === variantColumn || metric === preMetric) continue;
+    const binary = isBinaryMetric(assigned, metric);
+    const filled = assigned.filter((r) => !isBlank(r[metric]));
+    if (!binary && filled.filter((r) => toNumber(r[metric]) !== null).length < filled.length * 0.9) {
+      warnings.push(`Skipped "${metric}": it is neither numeric nor a 0/1 conversion column.`);
+      continue;
+    }
+
+    const cuped = preMetric ? cupedAdjustment(assigned, metric, preMetric, binary) : null;
+    if (preMetric && !cuped) warnings.push(`CUPED was not applied to "${metric}": "${preMetric}" has no usable variance.`);
+
+    for (const { variant } of variants) {
+      if (variant === control) continue;
+      const comparison = compareVariant(assigned, config, metric, variant, binary, cuped);
+      if (comparison) comparisons.push(comparison);
+      else warnings.push(`Not enough data to compare "${variant}" with "${control}" on "${metric}".`);
+    }
+  }
+
+  return { config, variants, sampleRatio, comparisons, warnings };
+}
+
+interface Cuped {
+  theta: number;
+  preMean: number;
+  varianceReduction: number;
+  pre: (row: DataRow) => number | null;
+}
+
+/**
+ * CUPED: subtract theta * (pre - mean pre) from each value, with theta = cov(y, pre) / var(pre)
+ * estimated across every variant so the adjustment cannot bias the comparison
+ */
+function cupedAdjustment(rows: DataRow[], metric: string, preMetric: string, binary: boolean): Cuped | null {
+  const pre = (row: DataRow) => toNumber(row[preMetric]);
+  const pairs = rows
+    .map((r) => ({ y: metricValue(r[metric], binary), x: pre(r) }))
+    .filter((p): p is { y: number; x: number } => p.y !== null && p.x !== null);
+  if (pairs.length < 3) return null;
+
+  const meanX = mean(pairs.map((p) => p.x));
+  const meanY = mean(pairs.map((p) => p.y));
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (const { x, y } of pairs) {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  }
+  if (varX === 0) return null;
+  const theta = cov / varX;
+  // Share of the metric's variance explained by the pre-period value (squared correlation)
+  const varianceReduction = varY === 0 ? 0 : (cov * cov) / (varX * varY);
+  return { theta, preMean: meanX, varianceReduction, pre };
+}
+
+function compareVariant(
+  rows: DataRow[],
+  config: ExperimentConfig,
+  metric: string,
+  variant: string,
+  binary: boolean,
+  cuped: Cuped | null
+): MetricComparison | null {
+  const { variantColumn, control, confidence, minimumDetectableLift } = config;
+  const alpha = 1 - confidence;
+
+  // Units in arrival order, each with its raw and (possibly) CUPED-adjusted value
+  const units: { treated: boolean; raw: number; value: number }[] = [];
+  for (const row of rows) {
+    const group = String(row[variantColumn]);
+    if (group !== control && group !== variant) continue;
+    const raw = metricValue(row[metric], binary);
+    if (raw === null) continue;
+    let value = raw;
+    if (cuped) {
+      const x = cuped.pre(row);
+      if (x === null) continue;
+      value = raw - cuped.theta * (x - cuped.preMean);
+    }
+    units.push({ treated: group === variant, raw, value });
+  }
+
+  const c = units.filter((u) => !u.treated);
+  const t = units.filter((u) => u.treated);
+  if (c.length < 2 || t.length < 2) return null;
+
+  const controlSummary = summarize(c.map((u) => u.raw));
+  const treatmentSummary = summarize(t.map((u) => u.raw));
+  const cValues = c.map((u) => u.value);
+  const tValues = t.map((u) => u.value);
+  const mc = mean(cValues);
+  const mt = mean(tValues);
+  const vc = variance(cValues);
+  const vt = variance(tValues);
+  const se = Math.sqrt(vt / t.length + vc / c.length);
+  const difference = mt - mc;
+
+  // Unadjusted conversions use the pooled two-proportion z-test; everything else goes through tTest
+  const useZ = binary && !cuped;
+  let statistic: number;
+  let pValue: number;
+  if (useZ) {
+    const pooled = (mc * c.length + mt * t.length) / (c.length + t.length);
+    const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / c.length + 1 / t.length));
+    statistic = pooledSe === 0 ? 0 : difference / pooledSe;
+    pValue = Math.min(1, 2 * normalUpperTail(Math.abs(statistic)));
+  } else {
+    const result = tTest(tValues, cValues);
+    statistic = result.tStatistic;
+    pValue = Number.isFinite(result.pValue) ? result.pValue : 1;
+  }
+  const critical = useZ ? normalQuantile(1 - alpha / 2) : tQuantile(1 - alpha / 2, c.length + t.length - 2);
+
+  // Delta-method interval for the ratio of means
+  let lift: number | null = null;
+  let liftCI: [number, number] | null = null;
+  if (mc !== 0) {
+    const ratio = mt / mc;
+    const seRatio = Math.sqrt(vt / t.length / (mc * mc) + (mt * mt * (vc / c.length)) / mc ** 4);
+    lift = ratio - 1;
+    liftCI = [round(lift - critical * seRatio), round(lift + critical * seRatio)];
+  }
+
+  let sequentialPValue: number | undefined;
+  if (config.sequential) {
+    const priorScale = Math.abs(minimumDetectableLift * controlSummary.mean) || Math.sqrt(vc) || 1;
+    sequentialPValue = round(alwaysValidPValue(units, priorScale * priorScale));
+  }
+
+  let power: MetricComparison['power'];
+  const baseline = controlSummary.mean;
+  if (binary && baseline > 0 && baseline * (1 + minimumDetectableLift) < 1) {
+    const { requiredSampleSize } = powerAnalysis(baseline, baseline * minimumDetectableLift, alpha);
+    power = { requiredPerGroup: requiredSampleSize, reached: Math.min(c.length, t.length) >= requiredSampleSize };
+  }
+
+  return {
+    metric,
+    kind: binary ? 'binary' : 'continuous',
+    variant,
+    control: controlSummary,
+    treatment: treatmentSummary,
+    difference: round(difference),
+    differenceCI: [round(difference - critical * se), round(difference + critical * se)],
+    lift: lift === null ? null : round(lift),
+    liftCI,
+    test: useZ ? 'z' : 't',
+    statistic: round(statistic, 2),
+    pValue: round(pValue),
+    sequentialPValue,
+    significant: (sequentialPValue ?? pValue) < alpha,
+    cuped: cuped ? { theta: round(cuped.theta), varianceReduction: round(cuped.varianceReduction) } : undefined,
+    power,
+  };
+}
+
+/**
+ * Mixture sequential probability ratio test (Johari et al., 2017) with a normal prior of
+ * variance tau2 on the difference. The p-value is the running minimum of 1 / likelihood ratio
+ * over evenly spaced looks at the data, so stopping at any look keeps the false-positive rate at alpha.
+ */
+function alwaysValidPValue(units: { treated: boolean; value: number }[], tau2: number): number {
+  const sums = { c: { n: 0, sum: 0, sq: 0 }, t: { n: 0, sum: 0, sq: 0 } };
+  const step = Math.max(1, Math.ceil(units.length / SEQUENTIAL_CHECKPOINTS));
+  let p = 1;
+  units.forEach((u, i) => {
+    const acc = u.treated ? sums.t : sums.c;
+    acc.n++;
+    acc.sum += u.value;
+    acc.sq += u.value * u.value;
+    if ((i + 1) % step !== 0 && i !== units.length - 1) return;
+    if (sums.c.n < 2 || sums.t.n < 2) return;
+
+    const varOf = (a: { n: number; sum: number; sq: number }) => Math.max(0, (a.sq - (a.sum * a.sum) / a.n) / (a.n - 1));
+    const v = varOf(sums.t) / sums.t.n + varOf(sums.c) / sums.c.n;
+    if (v === 0) return;
+    const delta = sums.t.sum / sums.t.n - sums.c.sum / sums.c.n;
+    const logLikelihoodRatio = 0.5 * Math.log(v / (v + tau2)) + (delta * delta * tau2) / (2 * v * (v + tau2));
+    p = Math.min(p, Math.exp(-logLikelihoodRatio));
+  });
+  return Math.min(1, p);
+}
+
+// ---------- Helper Functions ----------
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((a, b) => a + (b - m) ** 2, 0) / (values.length - 1);
+}
+
+function summarize(values: number[]): GroupSummary {
+  return { n: values.length, mean: round(mean(values)), stdev: round(Math.sqrt(variance(values))) };
+}
@@ -1,32 +1,59 @@
 // Export utilities for multiple formats
-import type { DataRow } from '../types';
+import type { Comment, DataRow } from '../types';
+import { buildThreads, COMMENT_KIND_LABELS } from './comments';
+import { lineageTracker } from './dataLineage';
+import type { ExperimentReport } from './experiments';
+
+export interface CsvSerializeOptions {
+  columns?: string[]; // defaults to every key seen across the rows, in first-seen order
+  delimiter?: ',' | ';' | '\t' | '|';
+  lineEnding?: '\n' | '\r\n';
+  quoting?: 'minimal' | 'all'; // minimal: only fields that need it (RFC 4180)
+  includeBom?: boolean; // helps Excel detect UTF-8
+}
+
+const collectColumns = (data: DataRow[]): string[] => {
+  const seen = new Set<string>();
+  for (const row of data) {
+    for (const key of Object.keys(row)) seen.add(key);
+  }
+  return Array.from(seen);
+};
+
+// Serialize rows as CSV; quotes are doubled and fields with delimiters, quotes or line breaks are wrapped
+export const serializeCsv = (data: DataRow[], options: CsvSerializeOptions = {}): string => {
+  const { delimiter = ',', lineEnding = '\n', quoting = 'minimal', includeBom = false } = options;
+  const columns = options.columns ?? collectColumns(data);
+
+  const needsQuotes = (value: string) =>
+    value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r') ||
+    value !== value.trim();
+
+  const formatField = (value: unknown): string => {
+    const str = value === null || value === undefined ? '' : String(value);
+    return quoting === 'all' || needsQuotes(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+
+  const lines = [
+    columns.map(formatField).join(delimiter),
+    ...data.map((row) => columns.map((column) => formatField(row[column])).join(delimiter)),
+  ];
+  return (includeBom ? '\uFEFF' : '') + lines.join(lineEnding) + lineEnding;
+};
 
 // Export to CSV
 export const exportToCSV = (
   data: DataRow[],
-  filename: string = 'export.csv'
+  filename: string = 'export.csv',
+  options: CsvSerializeOptions = {}
 ): void => {
   if (data.length === 0) {
     alert('No data to export');
     return;
   }
 
-  const headers = Object.keys(data[0] || {});
-  const csvContent = [
-    headers.map((h) => `"${h}"`).join(','),
-    ...data.map((row) =>
-      headers
-        .map((header) => {
-          const value = row[header];
-          if (value === null || value === undefined) return '""';
-          const strValue = String(value);
-          return `"${strValue.replace(/"/g, '""')}"`;
-        })
-        .join(',')
-    ),
-  ].join('\n');
-
-  downloadFile(csvContent, filename, 'text/csv');
+  downloadFile(serializeCsv(data, options), filename, 'text/csv');
+  lineageTracker.recordExport('csv', data.length);
 };
 
 // Export to JSON
@@ -41,6 +68,7 @@ export const exportToJSON = (
 
   const jsonContent = JSON.stringify(data, null, 2);
   downloadFile(jsonContent, filename, 'application/json');
+  lineageTracker.recordExport('json', data.length);
 };
 
 // Export to HTML Table
@@ -129,6 +157,7 @@ export const exportToHTML = (
   `;
 
   downloadFile(htmlContent, filename, 'text/html');
+  lineageTracker.recordExport('html', data.length);
 };
 
 // Export with statistics
@@ -180,6 +209,7 @@ export const exportWithStats = (
   });
 
   downloadFile(JSON.stringify(stats, null, 2), filename, 'application/json');
+  lineageTracker.recordExport('json with stats', data.length);
 };
 
 // Export comparison (side by side)
@@ -209,10 +239,11 @@ export const exportComparison = (
   };
 
   downloadFile(JSON.stringify(comparison, null, 2), filename, 'application/json');
+  lineageTracker.recordExport('comparison json', cleanedData.length);
 };
 
 // Generic file download helper
-const downloadFile = (
+export const downloadFile = (
   content: string,
   filename: string,
   mimeType: string
@@ -245,10 +276,16 @@ export const generateAnalysisReport = (
   originalData: DataRow[],
   cleanedData: DataRow[],
   insights: string[],
-  filename: string = 'analysis_report.html'
+  filename: string = 'analysis_report.html',
+  comments: Comment[] = [],
+  experiment?: ExperimentReport
 ): void => {
   const removedRows = originalData.length - cleanedData.length;
   const removalRate = ((removedRows / originalData.length) * 100).toFixed(1);
+  const threads = buildThreads(comments);
+  const commentLine = (c: Comment) =>
+    `<p><strong>${escapeHtml(c.author)}</strong> <span class="muted">${c.timestamp.toLocaleString()}</span><br>${escapeHtml(c.text)}</p>`;
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
   const htmlContent = `
 <!DOCTYPE html>
@@ -354,6 +391,47 @@ export const generateAnalysisReport = (
       margin-right: 8px;
     }
     
+    .thread {
+      padding: 10px 0;
+      border-bottom: 1px solid #ddd;
+      color: #555;
+    }
+    
+    .thread .reply {
+      margin: 6px 0 0 16px;
+      padding-left: 10px;
+      border-left: 2px solid #ddd;
+    }
+    
+    .muted {
+      color: #999;
+      font-size: 12px;
+    }
+    
+    .experiment-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 13px;
+      color: #555;
+    }
+    
+    .experiment-table th,
+    .experiment-table td {
+      padding: 6px 8px;
+      border-bottom: 1px solid #ddd;
+      text-align: left;
+    }
+    
+    .experiment-table .win {
+      color: #10b981;
+      font-weight: bold;
+    }
+    
+    .warning {
+      color: #b45309;
+      margin-bottom: 8px;
+    }
+    
     .footer {
       margin-top: 40px;
       padding-top: 20px;
@@ -396,6 +474,46 @@ export const generateAnalysisReport = (
         ${insights.map((insight) => `<li>${insight}</li>`).join('')}
       </ul>
     </div>
+    ${
+      experiment
+        ? `<div class="section">
+      <h2>🧪 Experiment: ${escapeHtml(experiment.config.variantColumn)}</h2>
+      <p class="muted">Control: ${escapeHtml(experiment.config.control)} · ${Math.round(experiment.config.confidence * 100)}% confidence${
+        experiment.config.sequential ? ' · always-valid (sequential) p-values' : ''
+      }${experiment.config.preMetric ? ` · CUPED on ${escapeHtml(experiment.config.preMetric)}` : ''}</p>
+      <p>Sample ratio check: ${experiment.variants.map((v) => `${escapeHtml(v.variant)} ${v.count}`).join(', ')} (p = ${experiment.sampleRatio.pValue})</p>
+      ${experiment.warnings.map((w) => `<p class="warning">⚠️ ${escapeHtml(w)}</p>`).join('')}
+      <table class="experiment-table">
+        <tr><th>Metric</th><th>Variant</th><th>Control</th><th>Variant value</th><th>Lift (CI)</th><th>p</th></tr>
+        ${experiment.comparisons
+          .map((c) => {
+            const value = (v: number) => (c.kind === 'binary' ? percent(v) : String(v));
+            const lift = c.lift === null ? '—' : `${percent(c.lift)} (${c.liftCI ? `${percent(c.liftCI[0])} to ${percent(c.liftCI[1])}` : '—'})`;
+            return `<tr><td>${escapeHtml(c.metric)}</td><td>${escapeHtml(c.variant)}</td><td>${value(c.control.mean)} (n=${c.control.n})</td><td>${value(
+              c.treatment.mean
+            )} (n=${c.treatment.n})</td><td class="${c.significant ? 'win' : ''}">${lift}</td><td>${c.sequentialPValue ?? c.pValue}</td></tr>`;
+          })
+          .join('')}
+      </table>
+    </div>`
+        : ''
+    }
+    ${
+      threads.length > 0
+        ? `<div class="section">
+      <h2>💬 Comments</h2>
+      ${threads
+        .map(
+          ({ root, replies }) => `<div class="thread">
+        <p class="muted">${COMMENT_KIND_LABELS[root.attachedTo]}: ${escapeHtml(root.targetLabel ?? '')}${root.resolved ? ' · resolved' : ''}</p>
+        ${commentLine(root)}
+        ${replies.map((r) => `<div class="reply">${commentLine(r)}</div>`).join('')}
+      </div>`
+        )
+        .join('')}
+    </div>`
+        : ''
+    }
     
     <div class="footer">
       <p>This report was generated by AutoInsight Data Analyzer</p>
@@ -407,4 +525,5 @@ export const generateAnalysisReport = (
   `;
 
   downloadFile(htmlContent, filename, 'text/html');
+  lineageTracker.recordExport('html report', cleanedData.length);
 };
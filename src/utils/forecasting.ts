@@ -0,0 +1,471 @@
+/**
+ * Time-Series Forecasting
+ * Buckets a date column into daily, weekly or monthly totals, detects the seasonal period,
+ * decomposes the series into trend/seasonal/residual and forecasts it with Holt-Winters
+ * exponential smoothing. Prediction intervals come from the one-step residuals and a
+ * holdout back-test reports MAPE and RMSE.
+ */
+
+import type { DataRow } from '../types';
+import { normalQuantile } from './distributions';
+import { bucketLabel, bucketStart, nextBucketStart, resample, wallClockTime } from './resample';
+
+export type Granularity = 'day' | 'week' | 'month';
+export type Seasonality = 'none' | 'additive' | 'multiplicative';
+
+export interface SeriesPoint {
+  period: string; // YYYY-MM-DD for days and weeks (weeks start on Monday), YYYY-MM for months
+  value: number;
+}
+
+export interface Decomposition {
+  type: Exclude<Seasonality, 'none'>;
+  period: number;
+  trend: (number | null)[]; // centred moving average, null where the window runs off the series
+  seasonal: number[];
+  residual: (number | null)[];
+}
+
+export interface HoltWintersOptions {
+  seasonality: Seasonality;
+  period?: number; // required unless seasonality is 'none'
+  alpha?: number; // smoothing parameters are fitted by grid search when left out
+  beta?: number;
+  gamma?: number;
+}
+
+export interface HoltWintersModel {
+  seasonality: Seasonality;
+  period: number; // 1 without seasonality
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  seasonals: number[]; // the next `period` seasonal factors, starting with the first forecast step
+  fitted: number[]; // one-step-ahead forecasts for each observation
+  sse: number;
+  sigma: number; // standard deviation of the one-step errors
+}
+
+export interface ForecastPoint {
+  period: string;
+  forecast: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BacktestResult {
+  holdout: number; // number of trailing periods held out
+  mape: number | null; // null when every held-out value is 0
+  rmse: number;
+  actual: number[];
+  predicted: number[];
+}
+
+export interface ForecastOptions {
+  dateColumn: string;
+  valueColumn?: string; // counts rows per period when left out
+  granularity: Granularity;
+  horizon: number;
+  seasonality?: Seasonality | 'auto';
+  period?: number; // detected from the data when left out
+  confidence?: number;
+}
+
+export interface ForecastResult {
+  dateColumn: string;
+  valueColumn?: string;
+  granularity: Granularity;
+  series: SeriesPoint[];
+  fitted: number[];
+  forecast: ForecastPoint[];
+  model: Omit<HoltWintersModel, 'fitted' | 'seasonals' | 'level' | 'trend'>;
+  confidence: number;
+  decomposition: Decomposition | null;
+  backtest: BacktestResult | null;
+  warnings: string[];
+}
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+const MIN_POINTS = 4;
+const GRID = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+
+// ---------- Bucketing ----------
+
+/**
+ * Sum a value column (or count rows) per day, week or month. Periods with no rows are
+ * filled with 0 so the series is evenly spaced. Also returns the latest date seen, as
+ * wall-clock time (see `wallClockTime`).
+ */
+export function aggregateSeries(
+  rows: DataRow[],
+  dateColumn: string,
+  valueColumn: string | undefined,
+  granularity: Granularity
+): { series: SeriesPoint[]; lastTime: number | null } {
+  const points = resample(rows, {
+    dateColumn,
+    valueColumn,
+    aggregation: valueColumn ? 'sum' : 'count',
+    bucket: granularity,
+    fill: 'zero',
+  });
+  let lastTime: number | null = null;
+  for (const row of rows) {
+    const time = wallClockTime(row[dateColumn]);
+    if (time !== null && (lastTime === null || time > lastTime)) lastTime = time;
+  }
+  return { series: points.map((p) => ({ period: p.period, value: p.value ?? 0 })), lastTime };
+}
+
+/** The labels of the `horizon` periods that follow `period`. */
+export function futurePeriods(period: string, granularity: Granularity, horizon: number): string[] {
+  let start = Date.parse(granularity === 'month' ? `${period}-01T00:00:00Z` : `${period}T00:00:00Z`);
+  const labels: string[] = [];
+  for (let i = 0; i < horizon; i++) {
+    start = nextBucketStart(start, granularity);
+    labels.push(bucketLabel(start, granularity));
+  }
+  return labels;
+}
+
+// ---------- Seasonality ----------
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+function autocorrelation(values: number[], lag: number): number {
+  const m = mean(values);
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < values.length; i++) {
+    den += (values[i] - m) ** 2;
+    if (i >= lag) num += (values[i] - m) * (values[i - lag] - m);
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+/**
+ * Detect the seasonal period from the autocorrelation of the linearly detrended series:
+ * the strongest autocorrelation peak that clears the noise band, preferring the shorter
+ * lag when a multiple of it is about as strong. Needs two full cycles; null when none is found.
+ */
+export function detectPeriod(values: number[], maxLag = Math.floor(values.length / 2)): number | null {
+  const n = values.length;
+  if (n < 4) return null;
+
+  // Remove a straight-line trend so it does not swamp the seasonal correlation
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxy = 0;
+  let sxx = 0;
+  values.forEach((y, x) => {
+    sxy += (x - xMean) * (y - yMean);
+    sxx += (x - xMean) ** 2;
+  });
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const detrended = values.map((y, x) => y - yMean - slope * (x - xMean));
+
+  const limit = Math.min(maxLag, Math.floor(n / 2));
+  const acf = [1];
+  for (let lag = 1; lag <= limit + 1; lag++) acf.push(autocorrelation(detrended, lag));
+
+  const threshold = Math.max(0.2, 2 / Math.sqrt(n));
+  const peaks: { lag: number; acf: number }[] = [];
+  for (let lag = 2; lag <= limit; lag++) {
+    const isPeak = acf[lag] > acf[lag - 1] && acf[lag] >= (acf[lag + 1] ?? -Infinity);
+    if (isPeak && acf[lag] > threshold) peaks.push({ lag, acf: acf[lag] });
+  }
+  if (peaks.length === 0) return null;
+
+  const best = Math.max(...peaks.map((p) => p.acf));
+  return peaks.find((p) => p.acf >= 0.9 * best)!.lag;
+}
+
+function centredMovingAverage(values: number[], period: number): (number | null)[] {
+  const half = Math.floor(period / 2);
+  return values.map((_, t) => {
+    if (t - half < 0 || t + half >= values.length) return null;
+    if (period % 2 === 1) return mean(values.slice(t - half, t + half + 1));
+    // 2×m moving average: the two end points get half weight
+    let sum = (values[t - half] + values[t + half]) / 2;
+    for (let i = t - half + 1; i < t + half; i++) sum += values[i];
+    return sum / period;
+  });
+}
+
+/** Classical decomposition into a moving-average trend, a repeating seasonal pattern and a residual. */
+export function decompose(
+  values: number[],
+  period: number,
+  type: Exclude<Seasonality, 'none'> = 'additive'
+): Decomposition {
+  if (!Number.isInteger(period) || period < 2) throw new Error('The seasonal period must be a whole number of at least 2');
+  if (values.length < 2 * period) throw new Error(`Decomposition needs at least two full cycles (${2 * period} periods)`);
+  if (type === 'multiplicative' && values.some((v) => v <= 0)) {
+    throw new Error('Multiplicative decomposition needs every value to be positive');
+  }
+
+  const trend = centredMovingAverage(values, period);
+  const byPosition: number[][] = Array.from({ length: period }, () => []);
+  values.forEach((v, t) => {
+    const tr = trend[t];
+    if (tr === null) return;
+    byPosition[t % period].push(type === 'additive' ? v - tr : v / tr);
+  });
+
+  const raw = byPosition.map((d) => (d.length > 0 ? mean(d) : type === 'additive' ? 0 : 1));
+  // Normalise so a full cycle adds nothing (additive) or averages 1 (multiplicative)
+  const centre = mean(raw);
+  const pattern = raw.map((s) => (type === 'additive' ? s - centre : s / centre));
+  const seasonal = values.map((_, t) => pattern[t % period]);
+  const residual = values.map((v, t) => {
+    const tr = trend[t];
+    if (tr === null) return null;
+    return type === 'additive' ? v - tr - seasonal[t] : v / (tr * seasonal[t]);
+  });
+
+  return { type, period, trend, seasonal, residual };
+}
+
+// ---------- Holt-Winters ----------
+
+function runHoltWinters(
+  values: number[],
+  seasonality: Seasonality,
+  period: number,
+  alpha: number,
+  beta: number,
+  gamma: number
+): HoltWintersModel {
+  const m = seasonality === 'none' ? 1 : period;
+  const n = values.length;
+  let trend: number;
+  let level: number;
+  let seasonals: number[];
+
+  if (seasonality === 'none') {
+    const span = Math.min(n - 1, 3);
+    trend = (values[span] - values[0]) / span;
+    level = values[0] - trend;
+    seasonals = [0];
+  } else {
+    // Initial state from the first two cycles; the level sits one step before the first observation
+    const first = mean(values.slice(0, m));
+    const second = mean(values.slice(m, 2 * m));
+    trend = (second - first) / m;
+    level = first - ((m + 1) / 2) * trend;
+    seasonals = values.slice(0, m).map((v, i) => {
+      const base = first + (i - (m - 1) / 2) * trend;
+      return seasonality === 'additive' ? v - base : v / base;
+    });
+  }
+
+  const fitted: number[] = [];
+  let sse = 0;
+  for (let t = 0; t < n; t++) {
+    const s = seasonals[t % m];
+    const y = values[t];
+    const prediction = seasonality === 'multiplicative' ? (level + trend) * s : level + trend + (seasonality === 'none' ? 0 : s);
+    fitted.push(prediction);
+    sse += (y - prediction) ** 2;
+
+    const previous = level;
+    if (seasonality === 'multiplicative') {
+      level = alpha * (y / s) + (1 - alpha) * (level + trend);
+      seasonals[t % m] = gamma * (y / level) + (1 - gamma) * s;
+    } else {
+      level = alpha * (y - (seasonality === 'none' ? 0 : s)) + (1 - alpha) * (level + trend);
+      if (seasonality === 'additive') seasonals[t % m] = gamma * (y - level) + (1 - gamma) * s;
+    }
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+
+  const rotated = seasonals.map((_, i) => seasonals[(n + i) % m]);
+  const freeParameters = seasonality === 'none' ? 2 : 3;
+  const sigma = Math.sqrt(sse / Math.max(1, n - freeParameters));
+  return { seasonality, period: m, alpha, beta, gamma: seasonality === 'none' ? 0 : gamma, level, trend, seasonals: rotated, fitted, sse, sigma };
+}
+
+/**
+ * Fit Holt-Winters exponential smoothing (Holt's linear trend without seasonality).
+ * Smoothing parameters that are not given are chosen by a coarse-then-fine grid search
+ * minimising the one-step squared error.
+ */
+export function holtWinters(values: number[], options: HoltWintersOptions): HoltWintersModel {
+  const { seasonality } = options;
+  const period = seasonality === 'none' ? 1 : (options.period ?? 0);
+  if (values.length < MIN_POINTS) throw new Error(`Forecasting needs at least ${MIN_POINTS} periods of data`);
+  if (values.some((v) => !Number.isFinite(v))) throw new Error('The series contains non-numeric values');
+  if (seasonality !== 'none') {
+    if (!Number.isInteger(period) || period < 2) throw new Error('Seasonal models need a whole-number period of at least 2');
+    if (values.length < 2 * period) throw new Error(`Seasonal models need at least two full cycles (${2 * period} periods)`);
+  }
+  if (seasonality === 'multiplicative' && values.some((v) => v <= 0)) {
+    throw new Error('Multiplicative seasonality needs every value to be positive');
+  }
+
+  const candidates = (fixed: number | undefined, grid: number[]) => (fixed !== undefined ? [fixed] : grid);
+  const search = (alphas: number[], betas: number[], gammas: number[]) => {
+    let best: HoltWintersModel | null = null;
+    for (const a of alphas) {
+      for (const b of betas) {
+        for (const g of gammas) {
+          const model = runHoltWinters(values, seasonality, period, a, b, g);
+          if (Number.isFinite(model.sse) && (!best || model.sse < best.sse)) best = model;
+        }
+      }
+    }
+    return best;
+  };
+
+  const gammaGrid = seasonality === 'none' ? [0] : GRID;
+  const coarse = search(candidates(options.alpha, GRID), candidates(options.beta, GRID), candidates(options.gamma, gammaGrid));
+  if (!coarse) throw new Error('The model could not be fitted to this series');
+
+  const around = (centre: number) =>
+    [-0.04, -0.02, 0, 0.02, 0.04].map((d) => centre + d).filter((v) => v > 0 && v < 1);
+  const fine = search(
+    candidates(options.alpha, around(coarse.alpha)),
+    candidates(options.beta, around(coarse.beta)),
+    candidates(options.gamma, seasonality === 'none' ? [0] : around(coarse.gamma))
+  );
+  return fine && fine.sse < coarse.sse ? fine : coarse;
+}
+
+/**
+ * Point forecasts and prediction intervals for the next `horizon` periods. The interval
+ * widens with the horizon using the additive Holt-Winters error variance; for
+ * multiplicative models it is an approximation.
+ */
+export function forecastHoltWinters(
+  model: HoltWintersModel,
+  horizon: number,
+  confidence = 0.95
+): { forecast: number; lower: number; upper: number }[] {
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const { alpha, beta, gamma, period, seasonality } = model;
+  const points = [];
+  let variance = 0;
+  for (let h = 1; h <= horizon; h++) {
+    const s = model.seasonals[(h - 1) % period];
+    const base = model.level + h * model.trend;
+    const forecast = seasonality === 'multiplicative' ? base * s : base + (seasonality === 'none' ? 0 : s);
+
+    // Weight of the error from h-1 steps back: α(1 + jβ) plus the seasonal update a full cycle later
+    const j = h - 1;
+    const c = j === 0 ? 1 : alpha * (1 + j * beta) + (seasonality !== 'none' && j % period === 0 ? gamma * (1 - alpha) : 0);
+    variance += c * c;
+    const half = z * model.sigma * Math.sqrt(variance);
+    points.push({ forecast, lower: forecast - half, upper: forecast + half });
+  }
+  return points;
+}
+
+// ---------- Back-testing ----------
+
+/** Hold out the last `holdout` periods, refit on the rest and score the forecast against them. */
+export function backtest(values: number[], options: HoltWintersOptions, holdout: number): BacktestResult {
+  if (holdout < 1 || holdout >= values.length) throw new Error('The holdout must leave some data to fit on');
+  const training = values.slice(0, values.length - holdout);
+  const actual = values.slice(values.length - holdout);
+  const model = holtWinters(training, options);
+  const predicted = forecastHoltWinters(model, holdout).map((p) => p.forecast);
+
+  const errors = actual.map((a, i) => a - predicted[i]);
+  const rmse = Math.sqrt(mean(errors.map((e) => e * e)));
+  const relative = actual.map((a, i) => (a === 0 ? null : Math.abs(errors[i] / a))).filter((e): e is number => e !== null);
+  return { holdout, mape: relative.length > 0 ? mean(relative) * 100 : null, rmse, actual, predicted };
+}
+
+// ---------- Putting it together ----------
+
+/**
+ * Forecast a date column's totals per period. With seasonality 'auto' the period is detected
+ * and additive and multiplicative models are compared on fit; without a clear season the
+ * model falls back to Holt's linear trend.
+ */
+export function forecastSeries(rows: DataRow[], options: ForecastOptions): ForecastResult {
+  const { dateColumn, valueColumn, granularity } = options;
+  const confidence = options.confidence ?? 0.95;
+  const horizon = Math.max(1, Math.round(options.horizon));
+  const warnings: string[] = [];
+
+  const aggregated = aggregateSeries(rows, dateColumn, valueColumn, granularity);
+  const { lastTime } = aggregated;
+  let { series } = aggregated;
+  // A trailing week or month that is only partly covered would read as a sudden drop
+  if (lastTime !== null && granularity !== 'day' && series.length > MIN_POINTS) {
+    const coveredUntil = nextBucketStart(bucketStart(lastTime, 'day'), 'day');
+    if (coveredUntil < nextBucketStart(bucketStart(lastTime, granularity), granularity)) {
+      warnings.push(`The last ${granularity} (${series[series.length - 1].period}) is incomplete and was left out.`);
+      series = series.slice(0, -1);
+    }
+  }
+  if (series.length < MIN_POINTS) {
+    throw new Error(`Need at least ${MIN_POINTS} ${granularity}s of data to forecast; found ${series.length}.`);
+  }
+
+  const values = series.map((p) => p.value);
+  const requested = options.seasonality ?? 'auto';
+  let period = options.period ?? (requested === 'none' ? null : detectPeriod(values));
+  if (period !== null && values.length < 2 * period) {
+    warnings.push(`Seasonality needs two full cycles (${2 * period} ${granularity}s); forecasting the trend only.`);
+    period = null;
+  }
+  if (period === null && requested !== 'auto' && requested !== 'none' && !options.period) {
+    warnings.push('No repeating seasonal pattern was found; forecasting the trend only.');
+  }
+
+  const allPositive = values.every((v) => v > 0);
+  let seasonality: Seasonality = period === null ? 'none' : requested === 'auto' ? 'additive' : requested;
+  if (seasonality === 'multiplicative' && !allPositive) {
+    warnings.push('Multiplicative seasonality needs positive values in every period; using additive instead.');
+    seasonality = 'additive';
+  }
+
+  const settings = (s: Seasonality): HoltWintersOptions => ({ seasonality: s, period: period ?? undefined });
+  let model = holtWinters(values, settings(seasonality));
+  if (requested === 'auto' && seasonality === 'additive' && allPositive) {
+    const multiplicative = holtWinters(values, settings('multiplicative'));
+    if (multiplicative.sse < model.sse) {
+      model = multiplicative;
+      seasonality = 'multiplicative';
+    }
+  }
+
+  const labels = futurePeriods(series[series.length - 1].period, granularity, horizon);
+  const forecast = forecastHoltWinters(model, horizon, confidence).map((p, i) => ({ period: labels[i], ...p }));
+  if (valueColumn && allPositive && forecast.some((p) => p.forecast < 0)) {
+    warnings.push('The trend projects negative values; treat the later periods with caution.');
+  }
+
+  // Hold out one cycle (or a fifth of the data) while keeping enough history to refit
+  const minTraining = period === null ? MIN_POINTS : 2 * period;
+  const holdout = Math.min(period ?? Math.max(1, Math.round(values.length / 5)), values.length - minTraining);
+  const evaluation = holdout >= 1 ? backtest(values, settings(seasonality), holdout) : null;
+  if (!evaluation) warnings.push('Not enough history to hold out a back-test period.');
+
+  let decomposition: Decomposition | null = null;
+  if (period !== null) decomposition = decompose(values, period, seasonality === 'multiplicative' ? 'multiplicative' : 'additive');
+
+  const { alpha, beta, gamma, sse, sigma } = model;
+  return {
+    dateColumn,
+    valueColumn,
+    granularity,
+    series,
+    fitted: model.fitted,
+    forecast,
+    model: { seasonality, period: model.period, alpha, beta, gamma, sse, sigma },
+    confidence,
+    decomposition,
+    backtest: evaluation,
+    warnings,
+  };
+}
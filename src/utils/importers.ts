@@ -0,0 +1,297 @@
+// src/utils/importers.ts
+// Importer registry: every supported file format yields the same rows + DataSummary
+// so cleaning, visualization and the AI assistant never care where the data came from.
+import type { CleaningIssues, DataSummary } from "../types";
+import { analyzeCsvFile, type AnalyzeCsvOptions, type CsvFormat } from "./csvAnalysis";
+import { createColumnProfiler, type IngestRow } from "./csvIngest";
+
+export interface ImportOptions extends AnalyzeCsvOptions {
+  sheet?: string; // workbook importers only; defaults to the first sheet
+}
+
+export interface ImportResult {
+  dataSummary: DataSummary;
+  cleaningIssues: CleaningIssues;
+  rows: IngestRow[];
+  format?: CsvFormat;
+}
+
+export interface Importer {
+  id: string;
+  label: string;
+  extensions: string[]; // lowercase, with leading dot
+  listSheets?: (file: File) => Promise<string[]>;
+  import: (file: File, options: ImportOptions) => Promise<ImportResult>;
+}
+
+type CellValue = string | number | null;
+
+function abortError(): DOMException {
+  return new DOMException("Import cancelled", "AbortError");
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortError();
+}
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Dates become YYYY-MM-DD (plus time when present) so tryParseDate picks them up
+function formatDate(d: Date): string | null {
+  if (Number.isNaN(d.getTime())) return null;
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  if (d.getHours() === 0 && d.getMinutes() === 0 && d.getSeconds() === 0) return date;
+  return `${date} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+function toCell(v: unknown): CellValue {
+  if (v === null || v === undefined) return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "bigint") {
+    return v <= BigInt(Number.MAX_SAFE_INTEGER) && v >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(v) : v.toString();
+  }
+  if (typeof v === "boolean") return v ? "true" : "false";
+  if (v instanceof Date) return formatDate(v);
+  if (typeof v === "object") {
+    return JSON.stringify(v, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+  }
+  return String(v);
+}
+
+/**
+ * Flatten nested objects into dotted column names: { user: { id: 1 } } -> { "user.id": 1 }.
+ * Arrays are kept whole as JSON text, otherwise one long list would explode into hundreds of columns.
+ */
+export function flattenRecord(value: unknown, prefix = "", out: IngestRow = {}): IngestRow {
+  if (value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && prefix) out[prefix] = null;
+    for (const [key, child] of entries) {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return out;
+  }
+  out[prefix || "value"] = toCell(value);
+  return out;
+}
+
+// Records may have different keys; columns follow first appearance and gaps become null
+// Also used to profile derived datasets (joins, unions), which never come from a file
+export function profileRecords(records: IngestRow[]): ImportResult {
+  const headers: string[] = [];
+  const known = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!known.has(key)) {
+        known.add(key);
+        headers.push(key);
+      }
+    }
+  }
+
+  const rows = records.map((record) => {
+    const row: IngestRow = {};
+    for (const h of headers) row[h] = record[h] ?? null;
+    return row;
+  });
+
+  const profiler = createColumnProfiler(headers);
+  profiler.addRows(rows);
+  return { ...profiler.finish(), rows };
+}
+
+function reportDone(file: File, rowsParsed: number, options: ImportOptions) {
+  options.onProgress?.({ bytesRead: file.size, totalBytes: file.size, rowsParsed });
+}
+
+// ---------- CSV ----------
+
+const csvImporter: Importer = {
+  id: "csv",
+  label: "CSV / TSV",
+  extensions: [".csv", ".tsv", ".txt"],
+  import: (file, options) => analyzeCsvFile(file, options),
+};
+
+// ---------- Excel ----------
+
+type XlsxModule = typeof import("xlsx");
+type WorkBook = import("xlsx").WorkBook;
+
+// Workbooks are parsed once and reused between listing sheets and importing one
+const workbookCache = new WeakMap<File, Promise<WorkBook>>();
+
+function readWorkbook(file: File): Promise<WorkBook> {
+  let cached = workbookCache.get(file);
+  if (!cached) {
+    cached = Promise.all([import("xlsx"), file.arrayBuffer()]).then(([XLSX, buffer]: [XlsxModule, ArrayBuffer]) =>
+      XLSX.read(new Uint8Array(buffer), { type: "array", cellDates: true })
+    );
+    workbookCache.set(file, cached);
+    cached.catch(() => workbookCache.delete(file));
+  }
+  return cached;
+}
+
+const excelImporter: Importer = {
+  id: "excel",
+  label: "Excel workbook",
+  extensions: [".xlsx", ".xlsm", ".xls"],
+
+  listSheets: async (file) => (await readWorkbook(file)).SheetNames,
+
+  import: async (file, options) => {
+    throwIfAborted(options.signal);
+    const XLSX = await import("xlsx");
+    const workbook = await readWorkbook(file);
+    throwIfAborted(options.signal);
+
+    const sheetName = options.sheet ?? workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) throw new Error(`Sheet "${sheetName}" was not found in ${file.name}`);
+
+    const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null, raw: true });
+    const records = raw.map((r) => {
+      const row: IngestRow = {};
+      for (const [key, value] of Object.entries(r)) row[key.trim()] = toCell(value);
+      return row;
+    });
+
+    const result = profileRecords(records);
+    reportDone(file, result.rows.length, options);
+    return result;
+  },
+};
+
+// ---------- JSON / NDJSON ----------
+
+// Accepts an array of records, a single record, or a wrapper like { "data": [...] }
+function extractRecords(parsed: unknown): unknown[] {
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === "object") {
+    const arrays = Object.values(parsed as Record<string, unknown>).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+    return [parsed];
+  }
+  throw new Error("JSON file does not contain any records");
+}
+
+const jsonImporter: Importer = {
+  id: "json",
+  label: "JSON",
+  extensions: [".json"],
+  import: async (file, options) => {
+    throwIfAborted(options.signal);
+    const text = await file.text();
+    throwIfAborted(options.signal);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    const result = profileRecords(extractRecords(parsed).map((r) => flattenRecord(r)));
+    reportDone(file, result.rows.length, options);
+    return result;
+  },
+};
+
+const ndjsonImporter: Importer = {
+  id: "ndjson",
+  label: "JSON Lines",
+  extensions: [".ndjson", ".jsonl"],
+  import: async (file, options) => {
+    throwIfAborted(options.signal);
+    const lines = (await file.text()).split(/\r?\n/);
+    throwIfAborted(options.signal);
+
+    const records: IngestRow[] = [];
+    lines.forEach((line, i) => {
+      if (line.trim() === "") return;
+      try {
+        records.push(flattenRecord(JSON.parse(line)));
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1} of ${file.name}`);
+      }
+    });
+
+    const result = profileRecords(records);
+    reportDone(file, result.rows.length, options);
+    return result;
+  },
+};
+
+// ---------- Parquet ----------
+
+// Row groups are read in batches so progress and cancellation work on large files
+const PARQUET_BATCH_ROWS = 50_000;
+
+const parquetImporter: Importer = {
+  id: "parquet",
+  label: "Parquet",
+  extensions: [".parquet"],
+  import: async (file, options) => {
+    const { parquetMetadataAsync, parquetReadObjects } = await import("hyparquet");
+    const asyncBuffer = {
+      byteLength: file.size,
+      slice: (start: number, end?: number) => file.slice(start, end).arrayBuffer(),
+    };
+
+    const metadata = await parquetMetadataAsync(asyncBuffer);
+    const totalRows = Number(metadata.num_rows);
+    const records: IngestRow[] = [];
+
+    for (let rowStart = 0; rowStart < totalRows; rowStart += PARQUET_BATCH_ROWS) {
+      throwIfAborted(options.signal);
+      const rowEnd = Math.min(totalRows, rowStart + PARQUET_BATCH_ROWS);
+      const batch = await parquetReadObjects({ file: asyncBuffer, metadata, rowStart, rowEnd });
+      for (const r of batch) records.push(flattenRecord(r));
+
+      options.onProgress?.({
+        bytesRead: Math.round((rowEnd / totalRows) * file.size),
+        totalBytes: file.size,
+        rowsParsed: records.length,
+      });
+    }
+
+    const result = profileRecords(records);
+    reportDone(file, result.rows.length, options);
+    return result;
+  },
+};
+
+// ---------- Registry ----------
+
+const importers: Importer[] = [csvImporter, excelImporter, jsonImporter, ndjsonImporter, parquetImporter];
+
+export function registerImporter(importer: Importer) {
+  const existing = importers.findIndex((i) => i.id === importer.id);
+  if (existing === -1) importers.push(importer);
+  else importers[existing] = importer;
+}
+
+export function findImporter(fileName: string): Importer | undefined {
+  const ext = fileExtension(fileName);
+  return importers.find((i) => i.extensions.includes(ext));
+}
+
+// For <input accept="...">
+export function acceptedExtensions(): string {
+  return importers.flatMap((i) => i.extensions).join(",");
+}
+
+export async function importFile(file: File, options: ImportOptions = {}): Promise<ImportResult> {
+  const importer = findImporter(file.name);
+  if (!importer) {
+    const ext = fileExtension(file.name) || "(none)";
+    throw new Error(`Unsupported file type ${ext}. Supported: ${acceptedExtensions()}`);
+  }
+  return importer.import(file, options);
+}
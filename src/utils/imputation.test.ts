@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import type { DataColumn, DataRow } from '../types';
+import { tryParseDate } from './csvIngest';
+import { applyImputation } from './imputation';
+
+const columns: DataColumn[] = [
+  { name: 'Date', type: 'date', missing: 2, invalid: 0 },
+  { name: 'Sales', type: 'number', missing: 1, invalid: 0 },
+];
+
+const rows: DataRow[] = [
+  { Date: '2024-01-01', Sales: 10 },
+  { Date: '', Sales: null },
+  { Date: '2024-01-03', Sales: 30 },
+  { Date: '2024-01-10', Sales: 40 },
+  { Date: '', Sales: 50 },
+];
+
+const dates = (strategy: 'interpolate' | 'ffill' | 'bfill' | 'constant', constant?: string) =>
+  applyImputation(rows, { columns: { Date: { strategy, constant } } }, columns).rows.map((r) => r.Date);
+
+// Dates are calendar days, so the result must not depend on the machine's time zone
+const originalTz = process.env.TZ;
+afterAll(() => {
+  process.env.TZ = originalTz;
+});
+
+describe.each(['UTC', 'America/New_York', 'Pacific/Kiritimati', 'Pacific/Pago_Pago'])('dates in %s', (tz) => {
+  it('keeps ISO dates on the same day', () => {
+    process.env.TZ = tz;
+    expect(tryParseDate('2024-01-02').value).toBe('2024-01-02');
+    expect(tryParseDate('2024-02-30').ok).toBe(false);
+  });
+
+  it('interpolates between neighbouring days', () => {
+    process.env.TZ = tz;
+    expect(dates('interpolate')).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-10', '2024-01-10']);
+  });
+
+  it('fills and defaults without shifting', () => {
+    process.env.TZ = tz;
+    expect(dates('ffill')[1]).toBe('2024-01-01');
+    expect(dates('bfill')[1]).toBe('2024-01-03');
+    expect(dates('constant', '2024-03-31')[4]).toBe('2024-03-31');
+  });
+});
+
+describe('interpolation', () => {
+  it('draws a straight line between known values', () => {
+    const result = applyImputation(rows, { columns: { Sales: { strategy: 'interpolate' } } }, columns);
+    expect(result.rows[1].Sales).toBe(20);
+    expect(result.changes).toEqual([{ rowIndex: 1, column: 'Sales', before: null, after: 20 }]);
+  });
+
+  it('rounds dates interpolated across uneven gaps to whole days', () => {
+    const gap: DataRow[] = [{ Date: '2024-01-01' }, { Date: '' }, { Date: '' }, { Date: '2024-01-02' }];
+    const result = applyImputation(gap, { columns: { Date: { strategy: 'interpolate' } } }, columns);
+    expect(result.rows.map((r) => r.Date)).toEqual(['2024-01-01', '2024-01-01', '2024-01-02', '2024-01-02']);
+  });
+});
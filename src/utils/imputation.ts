@@ -0,0 +1,295 @@
+// src/utils/imputation.ts
+// Per-column missing value strategies. Nothing here mutates the input rows, so the
+// same plan can be previewed on the cleaning screen and then applied for real.
+import type { DataColumn, DataRow } from "../types";
+import { isEmpty, tryParseDate, tryParseNumber } from "./csvIngest";
+
+export type ImputationStrategy =
+  | "none"
+  | "mean"
+  | "median"
+  | "mode"
+  | "constant"
+  | "ffill"
+  | "bfill"
+  | "interpolate"
+  | "group_median"
+  | "drop_row";
+
+export interface ColumnImputation {
+  strategy: ImputationStrategy;
+  constant?: string; // for "constant"
+  groupBy?: string; // for "group_median"
+}
+
+export interface CleaningPlan {
+  columns: Record<string, ColumnImputation>;
+  orderBy?: string; // date column that defines row order for fills and interpolation
+}
+
+export interface CellChange {
+  rowIndex: number; // index into the input rows
+  column: string;
+  before: DataRow[string];
+  after: DataRow[string];
+}
+
+export interface ImputationResult {
+  rows: DataRow[];
+  changes: CellChange[];
+  droppedRows: number[]; // input indices
+}
+
+type CellValue = DataRow[string];
+
+export const STRATEGY_LABELS: Record<ImputationStrategy, string> = {
+  none: "Leave missing",
+  mean: "Mean",
+  median: "Median",
+  mode: "Most frequent",
+  constant: "Constant value",
+  ffill: "Forward fill",
+  bfill: "Back fill",
+  interpolate: "Linear interpolation",
+  group_median: "Group median",
+  drop_row: "Drop row",
+};
+
+/** Strategies that make sense for a column type. */
+export function strategiesFor(type: DataColumn["type"]): ImputationStrategy[] {
+  switch (type) {
+    case "number":
+      return ["none", "mean", "median", "mode", "constant", "ffill", "bfill", "interpolate", "group_median", "drop_row"];
+    case "date":
+      return ["none", "mode", "constant", "ffill", "bfill", "interpolate", "drop_row"];
+    default:
+      return ["none", "mode", "constant", "ffill", "bfill", "drop_row"];
+  }
+}
+
+// Median/mode keep the distribution's centre without inventing a value that skews it
+export function defaultStrategyFor(type: DataColumn["type"]): ImputationStrategy {
+  if (type === "number") return "median";
+  if (type === "string") return "mode";
+  return "none";
+}
+
+export function createDefaultPlan(columnDetails: DataColumn[]): CleaningPlan {
+  const columns: Record<string, ColumnImputation> = {};
+  for (const col of columnDetails) {
+    if (col.missing > 0) columns[col.name] = { strategy: defaultStrategyFor(col.type) };
+  }
+  return { columns, orderBy: columnDetails.find((c) => c.type === "date")?.name };
+}
+
+function numericValue(v: CellValue): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  const parsed = tryParseNumber(v);
+  return parsed.ok ? parsed.value : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are calendar days, counted as whole days on the UTC clock so no time zone can shift them
+function dateValue(v: CellValue): number | null {
+  const parsed = tryParseDate(v);
+  const ymd = parsed.ok && parsed.value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(parsed.value) : null;
+  return ymd ? Date.UTC(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) / DAY_MS : null;
+}
+
+function formatDay(day: number): string {
+  const d = new Date(Math.round(day) * DAY_MS);
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}-${String(d.getUTCDate()).padStart(2, "0")}`;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+// Ties go to the value seen first
+function mode(values: CellValue[]): CellValue {
+  const counts = new Map<string, { value: CellValue; count: number }>();
+  let best: { value: CellValue; count: number } | null = null;
+  for (const v of values) {
+    const key = String(v);
+    const entry = counts.get(key) ?? { value: v, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best ? best.value : null;
+}
+
+// Row indices sorted by the order column; rows without a date keep their relative position at the end
+function rowOrder(rows: DataRow[], orderBy?: string): number[] {
+  const indices = rows.map((_, i) => i);
+  if (!orderBy) return indices;
+  const keys = rows.map((r) => dateValue(r[orderBy]));
+  return indices.sort((a, b) => {
+    const ka = keys[a];
+    const kb = keys[b];
+    if (ka === null && kb === null) return a - b;
+    if (ka === null) return 1;
+    if (kb === null) return -1;
+    return ka - kb || a - b;
+  });
+}
+
+function fillAlong(order: number[], values: CellValue[], direction: "forward" | "backward"): Map<number, CellValue> {
+  const fills = new Map<number, CellValue>();
+  const sequence = direction === "forward" ? order : [...order].reverse();
+  let last: CellValue | undefined;
+  for (const idx of sequence) {
+    if (!isEmpty(values[idx])) last = values[idx];
+    else if (last !== undefined) fills.set(idx, last);
+  }
+  return fills;
+}
+
+// Straight line between the nearest known neighbours in row order; edges take the nearest known value
+function interpolateAlong(order: number[], values: CellValue[], isDate: boolean): Map<number, CellValue> {
+  const fills = new Map<number, CellValue>();
+  const toNumber = isDate ? dateValue : numericValue;
+  const known: { pos: number; value: number }[] = [];
+  order.forEach((idx, pos) => {
+    const n = isEmpty(values[idx]) ? null : toNumber(values[idx]);
+    if (n !== null) known.push({ pos, value: n });
+  });
+  if (known.length === 0) return fills;
+
+  let k = 0;
+  order.forEach((idx, pos) => {
+    if (!isEmpty(values[idx])) return;
+    while (k < known.length && known[k].pos < pos) k++;
+    const next = known[k];
+    const prev = known[k - 1];
+    let value: number;
+    if (prev && next) value = prev.value + ((next.value - prev.value) * (pos - prev.pos)) / (next.pos - prev.pos);
+    else value = (prev ?? next).value;
+    fills.set(idx, isDate ? formatDay(value) : Math.round(value * 1e6) / 1e6);
+  });
+  return fills;
+}
+
+function groupMedians(rows: DataRow[], column: string, groupBy: string): Map<string, number> {
+  const groups = new Map<string, number[]>();
+  for (const row of rows) {
+    const n = isEmpty(row[column]) ? null : numericValue(row[column]);
+    if (n === null) continue;
+    const key = String(row[groupBy] ?? "");
+    const list = groups.get(key) ?? [];
+    list.push(n);
+    groups.set(key, list);
+  }
+  const medians = new Map<string, number>();
+  groups.forEach((values, key) => medians.set(key, median(values)!));
+  return medians;
+}
+
+function constantFor(col: DataColumn, raw: string | undefined): CellValue {
+  const text = raw ?? "";
+  if (col.type === "number") return numericValue(text) ?? null;
+  if (col.type === "date") return tryParseDate(text).value;
+  return text;
+}
+
+/**
+ * Work out the replacement for every missing cell of one column.
+ * Returns a map of row index -> new value; rows missing from the map stay as they are.
+ */
+function imputeColumn(
+  rows: DataRow[],
+  col: DataColumn,
+  config: ColumnImputation,
+  order: number[]
+): Map<number, CellValue> {
+  const values = rows.map((r) => r[col.name]);
+  const missing = values.flatMap((v, i) => (isEmpty(v) ? [i] : []));
+  const fills = new Map<number, CellValue>();
+  if (missing.length === 0) return fills;
+
+  const fillAll = (value: CellValue) => {
+    if (value === null || value === undefined) return;
+    for (const idx of missing) fills.set(idx, value);
+  };
+  const present = values.filter((v) => !isEmpty(v));
+  const numbers = present.map(numericValue).filter((n): n is number => n !== null);
+
+  switch (config.strategy) {
+    case "mean": {
+      const m = mean(numbers);
+      fillAll(m === null ? null : Math.round(m * 1e6) / 1e6);
+      break;
+    }
+    case "median":
+      fillAll(median(numbers));
+      break;
+    case "mode":
+      fillAll(mode(present));
+      break;
+    case "constant":
+      fillAll(constantFor(col, config.constant));
+      break;
+    case "ffill":
+      return fillAlong(order, values, "forward");
+    case "bfill":
+      return fillAlong(order, values, "backward");
+    case "interpolate":
+      return interpolateAlong(order, values, col.type === "date");
+    case "group_median": {
+      if (!config.groupBy) break;
+      const medians = groupMedians(rows, col.name, config.groupBy);
+      const overall = median(numbers);
+      for (const idx of missing) {
+        const value = medians.get(String(rows[idx][config.groupBy] ?? "")) ?? overall;
+        if (value !== null) fills.set(idx, value);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+  return fills;
+}
+
+/**
+ * Apply a cleaning plan. Every column is imputed from the original values
+ * (not values filled by an earlier column), then rows flagged "drop_row" are removed.
+ */
+export function applyImputation(rows: DataRow[], plan: CleaningPlan, columnDetails: DataColumn[]): ImputationResult {
+  const order = rowOrder(rows, plan.orderBy);
+  const output = rows.map((r) => ({ ...r }));
+  const changes: CellChange[] = [];
+  const dropped = new Set<number>();
+
+  for (const col of columnDetails) {
+    const config = plan.columns[col.name];
+    if (!config || config.strategy === "none") continue;
+
+    if (config.strategy === "drop_row") {
+      rows.forEach((r, i) => {
+        if (isEmpty(r[col.name])) dropped.add(i);
+      });
+      continue;
+    }
+
+    imputeColumn(rows, col, config, order).forEach((value, idx) => {
+      changes.push({ rowIndex: idx, column: col.name, before: rows[idx][col.name], after: value });
+      output[idx][col.name] = value;
+    });
+  }
+
+  const droppedRows = Array.from(dropped).sort((a, b) => a - b);
+  return {
+    rows: output.filter((_, i) => !dropped.has(i)),
+    changes: changes.filter((c) => !dropped.has(c.rowIndex)).sort((a, b) => a.rowIndex - b.rowIndex),
+    droppedRows,
+  };
+}
@@ -0,0 +1,77 @@
+// src/utils/indexedDb.ts
+// Minimal promise wrappers around IndexedDB. Each feature opens its own database
+// so schema upgrades in one never block another.
+
+export type UpgradeHandler = (db: IDBDatabase, oldVersion: number) => void;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+/** Open (and cache) a database; `upgrade` runs when `version` is newer than what's on disk. */
+export function openDatabase(name: string, version: number, upgrade: UpgradeHandler): Promise<IDBDatabase> {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(name);
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error(`Failed to open ${name}`));
+    request.onblocked = () => reject(new Error(`${name} is open in another tab with an older version`));
+  });
+
+  connections.set(name, opening);
+  opening.catch(() => connections.delete(name));
+  return opening;
+}
+
+/**
+ * Run `fn` inside a transaction and resolve with its result once the transaction commits,
+ * so callers never observe writes that were later rolled back.
+ */
+export async function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+  let result: T;
+  try {
+    result = await fn(tx.objectStore(storeName));
+  } catch (err) {
+    done.catch(() => undefined);
+    try {
+      tx.abort();
+    } catch {
+      // already finished
+    }
+    throw err;
+  }
+  await done;
+  return result;
+}
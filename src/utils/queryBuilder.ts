@@ -4,6 +4,7 @@
  */
 
 import type { DataRow } from '../types';
+import { lineageTracker } from './dataLineage';
 
 export type FilterOperator = 'equals' | 'contains' | 'greater' | 'less' | 'between' | 'in' | 'isEmpty' | 'isNotEmpty';
 
@@ -17,12 +18,18 @@ export interface QuerySelect {
   columns: string[];
 }
 
-export interface QueryGroupBy {
+export type AggregationType = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'median' | 'distinctCount' | 'percentile';
+
+export interface QueryAggregation {
   column: string;
-  aggregations: Array<{
-    column: string;
-    type: 'sum' | 'avg' | 'count' | 'min' | 'max';
-  }>;
+  type: AggregationType;
+  percentile?: number; // 0-100, only for 'percentile'
+}
+
+export interface QueryGroupBy {
+  columns: string[];
+  aggregations: QueryAggregation[];
+  having?: QueryFilter[]; // filters on aggregate output columns, e.g. { column: 'Revenue_sum', ... }
 }
 
 export interface QueryOrder {
@@ -34,7 +41,7 @@ export interface QueryConfig {
   select?: QuerySelect;
   filters?: QueryFilter[];
   groupBy?: QueryGroupBy;
-  orderBy?: QueryOrder;
+  orderBy?: QueryOrder[]; // applied left to right, later keys break ties
   limit?: number;
 }
 
@@ -58,9 +65,12 @@ export function executeQuery(data: DataRow[], config: QueryConfig): ExecutionRes
     results = applyFilters(results, config.filters);
   }
 
-  // Apply groupBy (aggregation)
+  // Apply groupBy (aggregation), then HAVING on the aggregated rows
   if (config.groupBy) {
     results = applyGroupBy(results, config.groupBy);
+    if (config.groupBy.having && config.groupBy.having.length > 0) {
+      results = applyFilters(results, config.groupBy.having);
+    }
   }
 
   // Apply column selection (only include specified columns)
@@ -75,7 +85,7 @@ export function executeQuery(data: DataRow[], config: QueryConfig): ExecutionRes
   }
 
   // Apply ordering
-  if (config.orderBy) {
+  if (config.orderBy && config.orderBy.length > 0) {
     results = applyOrderBy(results, config.orderBy);
   }
 
@@ -87,6 +97,8 @@ export function executeQuery(data: DataRow[], config: QueryConfig): ExecutionRes
   const executionTime = Date.now() - startTime;
   const sql = generateSQL(config);
 
+  lineageTracker.recordQuery(`Ran query: ${sql}`, data.length, results.length, { sql, executionTime });
+
   return {
     results,
     rowCount: results.length,
@@ -105,7 +117,7 @@ function applyFilters(data: DataRow[], filters: QueryFilter[]): DataRow[] {
 
       switch (filter.operator) {
         case 'equals':
-          return value === filter.value;
+          return String(value ?? '') === String(filter.value);
         case 'contains':
           return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
         case 'greater':
@@ -132,14 +144,86 @@ function applyFilters(data: DataRow[], filters: QueryFilter[]): DataRow[] {
 }
 
 /**
- * Apply groupBy and aggregations
+ * Output column name for an aggregation, e.g. Revenue_sum or Revenue_p90
+ */
+export function aggregationKey(agg: QueryAggregation): string {
+  if (agg.type === 'percentile') return `${agg.column}_p${agg.percentile ?? 50}`;
+  return `${agg.column}_${agg.type}`;
+}
+
+const isBlank = (val: unknown) => val === null || val === undefined || val === '';
+
+// Numbers, or numeric strings from files that haven't been through cleaning yet
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+// Linear interpolation between closest ranks (same as PERCENTILE_CONT)
+function percentileOf(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Aggregate raw cell values. Shared with the SQL engine so both query modes agree;
+ * blanks are ignored and numeric aggregates skip values that don't parse as numbers.
+ */
+export function aggregateValues(
+  raw: unknown[],
+  type: AggregationType,
+  percentile?: number
+): string | number | null {
+  if (type === 'count') return raw.filter((val) => !isBlank(val)).length;
+  if (type === 'distinctCount') {
+    return new Set(raw.filter((val) => !isBlank(val)).map((val) => String(val))).size;
+  }
+
+  const values = raw.map(toNumber).filter((n): n is number => n !== null);
+  if (values.length === 0) return type === 'sum' ? 0 : null;
+
+  switch (type) {
+    case 'sum':
+      return round2(values.reduce((a, b) => a + b, 0));
+    case 'avg':
+      return round2(values.reduce((a, b) => a + b, 0) / values.length);
+    case 'min':
+      return values.reduce((a, b) => (b < a ? b : a));
+    case 'max':
+      return values.reduce((a, b) => (b > a ? b : a));
+    case 'median':
+    case 'percentile': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const result = percentileOf(sorted, type === 'median' ? 50 : percentile ?? 50);
+      return result === null ? null : round2(result);
+    }
+  }
+}
+
+function aggregate(groupData: DataRow[], agg: QueryAggregation): string | number | null {
+  return aggregateValues(
+    groupData.map((row) => row[agg.column]),
+    agg.type,
+    agg.percentile
+  );
+}
+
+/**
+ * Apply groupBy and aggregations (one output row per distinct combination of group columns)
  */
 function applyGroupBy(data: DataRow[], config: QueryGroupBy): DataRow[] {
   const groups = new Map<string, DataRow[]>();
 
   // Group data
   data.forEach((row) => {
-    const key = String(row[config.column]);
+    const key = JSON.stringify(config.columns.map((col) => row[col] ?? null));
     if (!groups.has(key)) {
       groups.set(key, []);
     }
@@ -148,38 +232,14 @@ function applyGroupBy(data: DataRow[], config: QueryGroupBy): DataRow[] {
 
   // Apply aggregations
   const results: DataRow[] = [];
-  groups.forEach((groupData, groupKey) => {
-    const aggregatedRow: DataRow = {
-      [config.column]: groupKey,
-    };
-
-    config.aggregations.forEach(({ column, type }) => {
-      const values = groupData
-        .map((row) => row[column])
-        .filter((val) => typeof val === 'number') as number[];
-
-      const aggregationKey = `${column}_${type}`;
-
-      switch (type) {
-        case 'sum':
-          aggregatedRow[aggregationKey] = values.reduce((a, b) => a + b, 0);
-          break;
-        case 'avg':
-          aggregatedRow[aggregationKey] =
-            values.length > 0
-              ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100
-              : 0;
-          break;
-        case 'count':
-          aggregatedRow[aggregationKey] = values.length;
-          break;
-        case 'min':
-          aggregatedRow[aggregationKey] = values.length > 0 ? Math.min(...values) : null;
-          break;
-        case 'max':
-          aggregatedRow[aggregationKey] = values.length > 0 ? Math.max(...values) : null;
-          break;
-      }
+  groups.forEach((groupData) => {
+    const aggregatedRow: DataRow = {};
+    config.columns.forEach((col) => {
+      aggregatedRow[col] = groupData[0][col];
+    });
+
+    config.aggregations.forEach((agg) => {
+      aggregatedRow[aggregationKey(agg)] = aggregate(groupData, agg);
     });
 
     results.push(aggregatedRow);
@@ -189,33 +249,63 @@ function applyGroupBy(data: DataRow[], config: QueryGroupBy): DataRow[] {
 }
 
 /**
- * Apply ordering
+ * Apply ordering; empty values always sort last
  */
-function applyOrderBy(data: DataRow[], config: QueryOrder): DataRow[] {
+function applyOrderBy(data: DataRow[], order: QueryOrder[]): DataRow[] {
   return [...data].sort((a, b) => {
-    const aVal = a[config.column];
-    const bVal = b[config.column];
-
-    let comparison = 0;
-    if (typeof aVal === 'number' && typeof bVal === 'number') {
-      comparison = aVal - bVal;
-    } else {
-      comparison = String(aVal).localeCompare(String(bVal));
-    }
+    for (const { column, direction } of order) {
+      const aVal = a[column];
+      const bVal = b[column];
+
+      if (isBlank(aVal) || isBlank(bVal)) {
+        if (isBlank(aVal) && isBlank(bVal)) continue;
+        return isBlank(aVal) ? 1 : -1;
+      }
+
+      const aNum = toNumber(aVal);
+      const bNum = toNumber(bVal);
+      const comparison =
+        aNum !== null && bNum !== null
+          ? aNum - bNum
+          : String(aVal).localeCompare(String(bVal), undefined, { numeric: true });
 
-    return config.direction === 'asc' ? comparison : -comparison;
+      if (comparison !== 0) return direction === 'asc' ? comparison : -comparison;
+    }
+    return 0;
   });
 }
 
+// Keywords the SQL engine reserves; columns with these names must be quoted
+const RESERVED_WORDS = new Set([
+  'select', 'distinct', 'from', 'where', 'group', 'by', 'having', 'order', 'limit', 'offset', 'as', 'and', 'or',
+  'not', 'in', 'is', 'null', 'like', 'between', 'case', 'when', 'then', 'else', 'end', 'asc', 'desc', 'true',
+  'false', 'within', 'cast', 'extract', 'current_date',
+]);
+
+/** Column name as a SQL identifier, double-quoted when it isn't a plain word. */
+export function quoteIdentifier(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name.toLowerCase())) return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return `'${String(value ?? '').replace(/'/g, "''")}'`;
+}
+
 /**
- * Generate SQL representation of query
+ * Render a query as SQL the engine in sqlEngine.ts can run
  */
-function generateSQL(config: QueryConfig): string {
+export function generateSQL(config: QueryConfig): string {
+  const groupBy = config.groupBy;
+  const q = quoteIdentifier;
   let sql = 'SELECT ';
 
   // SELECT clause
-  if (config.select && config.select.columns.length > 0) {
-    sql += config.select.columns.join(', ');
+  if (groupBy) {
+    sql += [...groupBy.columns.map(q), ...groupBy.aggregations.map(aggregationSQL)].join(', ');
+  } else if (config.select && config.select.columns.length > 0) {
+    sql += config.select.columns.map(q).join(', ');
   } else {
     sql += '*';
   }
@@ -228,23 +318,17 @@ function generateSQL(config: QueryConfig): string {
     sql += ` WHERE ${whereClauses}`;
   }
 
-  // GROUP BY clause
-  if (config.groupBy) {
-    sql += ` GROUP BY ${config.groupBy.column}`;
-    const aggregations = config.groupBy.aggregations
-      .map((a) => `${a.type.toUpperCase()}(${a.column})`)
-      .join(', ');
-    sql = `SELECT ${config.groupBy.column}, ${aggregations} FROM data`;
-    if (config.filters && config.filters.length > 0) {
-      const whereClauses = config.filters.map((f) => generateFilterSQL(f)).join(' AND ');
-      sql += ` WHERE ${whereClauses}`;
+  // GROUP BY / HAVING clauses
+  if (groupBy) {
+    if (groupBy.columns.length > 0) sql += ` GROUP BY ${groupBy.columns.map(q).join(', ')}`;
+    if (groupBy.having && groupBy.having.length > 0) {
+      sql += ` HAVING ${groupBy.having.map((f) => generateFilterSQL(f)).join(' AND ')}`;
     }
-    sql += ` GROUP BY ${config.groupBy.column}`;
   }
 
   // ORDER BY clause
-  if (config.orderBy) {
-    sql += ` ORDER BY ${config.orderBy.column} ${config.orderBy.direction.toUpperCase()}`;
+  if (config.orderBy && config.orderBy.length > 0) {
+    sql += ` ORDER BY ${config.orderBy.map((o) => `${q(o.column)} ${o.direction.toUpperCase()}`).join(', ')}`;
   }
 
   // LIMIT clause
@@ -255,33 +339,50 @@ function generateSQL(config: QueryConfig): string {
   return sql;
 }
 
+function aggregationSQL(agg: QueryAggregation): string {
+  const col = quoteIdentifier(agg.column);
+  const key = quoteIdentifier(aggregationKey(agg));
+  switch (agg.type) {
+    case 'avg':
+      return `AVG(${col}) AS ${key}`;
+    case 'distinctCount':
+      return `COUNT(DISTINCT ${col}) AS ${key}`;
+    case 'median':
+      return `MEDIAN(${col}) AS ${key}`;
+    case 'percentile':
+      return `PERCENTILE_CONT(${(agg.percentile ?? 50) / 100}) WITHIN GROUP (ORDER BY ${col}) AS ${key}`;
+    default:
+      return `${agg.type.toUpperCase()}(${col}) AS ${key}`;
+  }
+}
+
 /**
  * Generate SQL for a single filter
  */
 function generateFilterSQL(filter: QueryFilter): string {
-  const col = filter.column;
+  const col = quoteIdentifier(filter.column);
 
   switch (filter.operator) {
     case 'equals':
-      return `${col} = '${filter.value}'`;
+      return `${col} = ${quoteLiteral(String(filter.value))}`;
     case 'contains':
-      return `${col} LIKE '%${filter.value}%'`;
+      return `${col} LIKE ${quoteLiteral(`%${filter.value}%`)}`;
     case 'greater':
-      return `${col} > ${filter.value}`;
+      return `${col} > ${quoteLiteral(Number(filter.value))}`;
     case 'less':
-      return `${col} < ${filter.value}`;
+      return `${col} < ${quoteLiteral(Number(filter.value))}`;
     case 'between': {
       const [min, max] = filter.value as [number, number];
-      return `${col} BETWEEN ${min} AND ${max}`;
+      return `${col} BETWEEN ${quoteLiteral(min)} AND ${quoteLiteral(max)}`;
     }
     case 'in': {
-      const values = (filter.value as string[]).map((v) => `'${v}'`).join(', ');
+      const values = (filter.value as string[]).map(quoteLiteral).join(', ');
       return `${col} IN (${values})`;
     }
     case 'isEmpty':
-      return `${col} IS NULL OR ${col} = ''`;
+      return `(${col} IS NULL OR ${col} = '')`;
     case 'isNotEmpty':
-      return `${col} IS NOT NULL AND ${col} != ''`;
+      return `(${col} IS NOT NULL AND ${col} != '')`;
     default:
       return '';
   }
@@ -307,7 +408,7 @@ export function suggestQueries(data: DataRow[]): QueryConfig[] {
   if (numericColumns.length > 0) {
     suggestions.push({
       select: { columns },
-      orderBy: { column: numericColumns[0], direction: 'desc' },
+      orderBy: [{ column: numericColumns[0], direction: 'desc' }],
       limit: 10,
     });
   }
@@ -316,13 +417,13 @@ export function suggestQueries(data: DataRow[]): QueryConfig[] {
   if (stringColumns.length > 0 && numericColumns.length > 0) {
     suggestions.push({
       groupBy: {
-        column: stringColumns[0],
+        columns: [stringColumns[0]],
         aggregations: [
           { column: numericColumns[0], type: 'sum' },
           { column: numericColumns[0], type: 'avg' },
         ],
       },
-      orderBy: { column: `${numericColumns[0]}_sum`, direction: 'desc' },
+      orderBy: [{ column: `${numericColumns[0]}_sum`, direction: 'desc' }],
     });
   }
 
@@ -330,10 +431,10 @@ export function suggestQueries(data: DataRow[]): QueryConfig[] {
   if (stringColumns.length > 0) {
     suggestions.push({
       groupBy: {
-        column: stringColumns[0],
+        columns: [stringColumns[0]],
         aggregations: [{ column: columns[0], type: 'count' }],
       },
-      orderBy: { column: `${columns[0]}_count`, direction: 'desc' },
+      orderBy: [{ column: `${columns[0]}_count`, direction: 'desc' }],
     });
   }
 
@@ -0,0 +1,340 @@
+/**
+ * Time-Series Resampling
+ * Buckets a date column by hour, day, week, month, quarter or fiscal year in a chosen time
+ * zone, aggregates a metric per bucket (sum, average, count, distinct count), fills gaps and
+ * derives rolling averages, period-over-period changes and cumulative totals.
+ */
+
+import type { DataRow, GapFill, PeriodComparison, TimeAggregation, TimeBucket } from '../types';
+
+export interface BucketOptions {
+  timeZone?: string; // IANA zone, UTC when unset
+  weekStartsOn?: 0 | 1; // 0 Sunday, 1 Monday (default)
+  fiscalYearStartMonth?: number; // 1-12, January when unset
+}
+
+export interface ResampleOptions extends BucketOptions {
+  dateColumn: string;
+  valueColumn?: string; // required for sum, avg and distinct; count counts rows when unset
+  aggregation: TimeAggregation;
+  bucket: TimeBucket;
+  fill?: GapFill;
+  rollingWindow?: number;
+  comparison?: PeriodComparison;
+  cumulative?: boolean;
+}
+
+export interface ResampledPoint {
+  period: string; // bucket label, e.g. 2024-03-04, 2024-03, 2024-Q1, FY2024
+  start: string; // bucket start as wall-clock time in the chosen zone, YYYY-MM-DDTHH:00
+  value: number | null; // null for an empty bucket that was not filled
+  rows: number;
+  filled: boolean; // value came from gap filling
+  rolling?: number | null;
+  previous?: number | null; // the value compared against
+  change?: number | null;
+  changePercent?: number | null; // null when the earlier value is 0 or missing
+  cumulative?: number;
+}
+
+export const TIME_BUCKET_LABELS: Record<TimeBucket, string> = {
+  hour: 'Hour',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  fiscalYear: 'Fiscal year',
+};
+
+export const AGGREGATION_LABELS: Record<TimeAggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  distinct: 'Distinct count',
+};
+
+export const GAP_FILL_LABELS: Record<GapFill, string> = {
+  zero: 'Fill with 0',
+  previous: 'Carry forward',
+  linear: 'Interpolate',
+  none: 'Leave gaps',
+};
+
+const MAX_BUCKETS = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ---------- Timestamps ----------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+      });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of a cell in the given zone, encoded as a UTC timestamp so bucket
+ * arithmetic can use the UTC getters. Date-only values are calendar days and are not
+ * shifted between zones. Null for blanks and unparseable values.
+ */
+export function wallClockTime(val: unknown, timeZone = 'UTC'): number | null {
+  if (val === null || val === undefined || val === '' || typeof val === 'boolean') return null;
+  if (val instanceof Date || typeof val === 'number') {
+    const date = new Date(val);
+    return isNaN(date.getTime()) ? null : zoned(date, timeZone);
+  }
+
+  const text = String(val).trim();
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  if (!text.includes(':')) {
+    // ISO dates parse as UTC midnight, other date-only formats as local midnight
+    return /^\d{4}-\d{2}-\d{2}$/.test(text)
+      ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+      : Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+  return zoned(date, timeZone);
+}
+
+function zoned(date: Date, timeZone: string): number {
+  if (timeZone === 'UTC') return Math.floor(date.getTime() / HOUR_MS) * HOUR_MS;
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour);
+}
+
+// ---------- Buckets ----------
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Start of the bucket holding a wall-clock time from `wallClockTime`. */
+export function bucketStart(time: number, bucket: TimeBucket, options: BucketOptions = {}): number {
+  const d = new Date(time);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  switch (bucket) {
+    case 'hour':
+      return Math.floor(time / HOUR_MS) * HOUR_MS;
+    case 'day':
+      return Date.UTC(year, month, d.getUTCDate());
+    case 'week': {
+      const offset = (d.getUTCDay() - (options.weekStartsOn ?? 1) + 7) % 7;
+      return Date.UTC(year, month, d.getUTCDate() - offset);
+    }
+    case 'month':
+      return Date.UTC(year, month, 1);
+    case 'quarter':
+      return Date.UTC(year, Math.floor(month / 3) * 3, 1);
+    case 'fiscalYear': {
+      const startMonth = (options.fiscalYearStartMonth ?? 1) - 1;
+      return Date.UTC(month >= startMonth ? year : year - 1, startMonth, 1);
+    }
+  }
+}
+
+/** Start of the bucket after the one starting at `start`. */
+export function nextBucketStart(start: number, bucket: TimeBucket): number {
+  return shiftBucket(start, bucket, 1);
+}
+
+function shiftBucket(start: number, bucket: TimeBucket, steps: number): number {
+  const d = new Date(start);
+  if (bucket === 'hour') return start + steps * HOUR_MS;
+  if (bucket === 'day') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + steps);
+  if (bucket === 'week') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 7 * steps);
+  const months = bucket === 'month' ? 1 : bucket === 'quarter' ? 3 : 12;
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months * steps, 1);
+}
+
+/** The start of the same bucket a year earlier: 52 weeks back for weeks. */
+function yearEarlier(start: number, bucket: TimeBucket): number {
+  if (bucket === 'week') return start - 364 * DAY_MS;
+  const d = new Date(start);
+  return Date.UTC(d.getUTCFullYear() - 1, d.getUTCMonth(), d.getUTCDate(), d.getUTCHours());
+}
+
+/** Display label of the bucket starting at `start`. */
+export function bucketLabel(start: number, bucket: TimeBucket, options: BucketOptions = {}): string {
+  const d = new Date(start);
+  const year = d.getUTCFullYear();
+  const month = `${year}-${pad(d.getUTCMonth() + 1)}`;
+  const day = `${month}-${pad(d.getUTCDate())}`;
+  switch (bucket) {
+    case 'hour':
+      return `${day} ${pad(d.getUTCHours())}:00`;
+    case 'day':
+    case 'week':
+      return day;
+    case 'month':
+      return month;
+    case 'quarter':
+      return `${year}-Q${Math.floor(d.getUTCMonth() / 3) + 1}`;
+    case 'fiscalYear':
+      // Named after the calendar year the fiscal year ends in
+      return `FY${(options.fiscalYearStartMonth ?? 1) === 1 ? year : year + 1}`;
+  }
+}
+
+/** Bucket label of a raw date cell, or null when it is not a date. */
+export function periodOf(val: unknown, bucket: TimeBucket, options: BucketOptions = {}): string | null {
+  const time = wallClockTime(val, options.timeZone);
+  return time === null ? null : bucketLabel(bucketStart(time, bucket, options), bucket, options);
+}
+
+// ---------- Aggregation ----------
+
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+const isBlank = (val: unknown) => val === null || val === undefined || val === '';
+
+interface Accumulator {
+  rows: number;
+  sum: number;
+  numbers: number;
+  distinct: Set<string>;
+}
+
+function aggregate(acc: Accumulator, aggregation: TimeAggregation): number | null {
+  switch (aggregation) {
+    case 'sum':
+      return acc.numbers > 0 ? acc.sum : null;
+    case 'avg':
+      return acc.numbers > 0 ? acc.sum / acc.numbers : null;
+    case 'count':
+      return acc.rows;
+    case 'distinct':
+      return acc.distinct.size;
+  }
+}
+
+function fillGaps(points: ResampledPoint[], fill: GapFill) {
+  if (fill === 'none') return;
+  points.forEach((point, i) => {
+    if (point.value !== null) return;
+    if (fill === 'zero') {
+      point.value = 0;
+    } else if (fill === 'previous') {
+      point.value = i > 0 ? points[i - 1].value : null;
+    } else {
+      const before = points.slice(0, i).reverse().findIndex((p) => p.value !== null && !p.filled);
+      const after = points.slice(i + 1).findIndex((p) => p.value !== null);
+      if (before === -1 || after === -1) return;
+      const left = points[i - 1 - before].value!;
+      const right = points[i + 1 + after].value!;
+      point.value = left + ((right - left) * (before + 1)) / (before + after + 2);
+    }
+    point.filled = point.value !== null;
+  });
+}
+
+/**
+ * Resample rows into evenly spaced buckets between the first and last date. Empty
+ * buckets are gap-filled (zero for sums and counts, left empty for averages by default)
+ * before rolling averages, comparisons and running totals are computed.
+ */
+export function resample(rows: DataRow[], options: ResampleOptions): ResampledPoint[] {
+  const { dateColumn, valueColumn, aggregation, bucket } = options;
+  if (aggregation !== 'count' && !valueColumn) {
+    throw new Error(`${AGGREGATION_LABELS[aggregation]} needs a value column`);
+  }
+  const window = options.rollingWindow ?? 0;
+  if (window !== 0 && (!Number.isInteger(window) || window < 1)) throw new Error('The rolling window must be a whole number of buckets');
+  const month = options.fiscalYearStartMonth ?? 1;
+  if (!Number.isInteger(month) || month < 1 || month > 12) throw new Error('The fiscal year must start in month 1-12');
+
+  const buckets = new Map<number, Accumulator>();
+  for (const row of rows) {
+    const time = wallClockTime(row[dateColumn], options.timeZone);
+    if (time === null) continue;
+    const raw = valueColumn ? row[valueColumn] : undefined;
+    // Counting a value column counts its filled cells
+    if (valueColumn && aggregation !== 'sum' && aggregation !== 'avg' && isBlank(raw)) continue;
+
+    const start = bucketStart(time, bucket, options);
+    let acc = buckets.get(start);
+    if (!acc) {
+      acc = { rows: 0, sum: 0, numbers: 0, distinct: new Set() };
+      buckets.set(start, acc);
+    }
+    acc.rows++;
+    if (aggregation === 'distinct') acc.distinct.add(String(raw).trim());
+    const n = toNumber(raw);
+    if (n !== null) {
+      acc.sum += n;
+      acc.numbers++;
+    }
+  }
+  if (buckets.size === 0) return [];
+
+  const starts = [...buckets.keys()];
+  const last = Math.max(...starts);
+  const points: ResampledPoint[] = [];
+  for (let start = Math.min(...starts); start <= last; start = nextBucketStart(start, bucket)) {
+    if (points.length >= MAX_BUCKETS) {
+      throw new Error(`The dates span more than ${MAX_BUCKETS} ${TIME_BUCKET_LABELS[bucket].toLowerCase()}s; pick a larger bucket.`);
+    }
+    const acc = buckets.get(start);
+    points.push({
+      period: bucketLabel(start, bucket, options),
+      start: new Date(start).toISOString().slice(0, 13) + ':00',
+      value: acc ? aggregate(acc, aggregation) : null,
+      rows: acc?.rows ?? 0,
+      filled: false,
+    });
+  }
+
+  fillGaps(points, options.fill ?? (aggregation === 'avg' ? 'none' : 'zero'));
+
+  if (window > 0) {
+    points.forEach((point, i) => {
+      const values = points.slice(Math.max(0, i - window + 1), i + 1).flatMap((p) => (p.value === null ? [] : [p.value]));
+      point.rolling = i + 1 >= window && values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    });
+  }
+
+  const comparison = options.comparison ?? 'none';
+  if (comparison !== 'none') {
+    const byStart = new Map(points.map((p) => [Date.parse(`${p.start}:00Z`), p]));
+    points.forEach((point, i) => {
+      const start = Date.parse(`${point.start}:00Z`);
+      const earlier = comparison === 'previous' ? points[i - 1] : byStart.get(yearEarlier(start, bucket));
+      const previous = earlier?.value ?? null;
+      point.previous = previous;
+      point.change = previous === null || point.value === null ? null : point.value - previous;
+      point.changePercent = point.change === null || previous === 0 ? null : (point.change / Math.abs(previous!)) * 100;
+    });
+  }
+
+  if (options.cumulative) {
+    let total = 0;
+    for (const point of points) {
+      total += point.value ?? 0;
+      point.cumulative = total;
+    }
+  }
+
+  return points;
+}
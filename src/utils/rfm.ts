@@ -0,0 +1,248 @@
+/**
+ * RFM Segmentation
+ * Scores every customer 1-5 on Recency, Frequency and Monetary value by quintile and
+ * names them with the standard recency × frequency segments (Champions, Loyal, At Risk, ...).
+ * Scores are tie-aware: customers with the same value always get the same score.
+ */
+
+import type { DataRow } from '../types';
+import { wallClockTime } from './resample';
+
+export interface RfmConfig {
+  customerColumn: string;
+  dateColumn: string;
+  amountColumn: string;
+  referenceDate?: string; // YYYY-MM-DD; the day after the latest order when unset
+}
+
+export type RfmSegment =
+  | 'Champions'
+  | 'Loyal Customers'
+  | 'Potential Loyalists'
+  | 'New Customers'
+  | 'Promising'
+  | 'Need Attention'
+  | 'About to Sleep'
+  | 'At Risk'
+  | "Can't Lose Them"
+  | 'Hibernating';
+
+export interface RfmCustomer {
+  customer: string; // as first seen in the data
+  recency: number; // days from the last order to the reference date
+  frequency: number; // orders (rows)
+  monetary: number; // total spend
+  r: number;
+  f: number;
+  m: number;
+  score: string; // e.g. "545"
+  segment: RfmSegment;
+}
+
+export interface RfmSegmentSummary {
+  segment: RfmSegment;
+  customers: number;
+  share: number; // of all customers, 0-1
+  revenue: number;
+  avgRecency: number;
+  avgFrequency: number;
+  avgMonetary: number;
+}
+
+export interface RfmGridCell {
+  r: number;
+  f: number;
+  segment: RfmSegment;
+  customers: number;
+  avgMonetary: number | null;
+}
+
+export interface RfmResult {
+  config: RfmConfig;
+  referenceDate: string;
+  customers: RfmCustomer[];
+  segments: RfmSegmentSummary[]; // largest first
+  grid: RfmGridCell[]; // 25 cells, r and f from 1 to 5
+  skippedRows: number; // no customer or unreadable date
+}
+
+// Recency × frequency segment map, keyed by the two scores
+const SEGMENT_RULES: { segment: RfmSegment; r: [number, number]; f: [number, number] }[] = [
+  { segment: 'Champions', r: [5, 5], f: [4, 5] },
+  { segment: 'Loyal Customers', r: [3, 4], f: [4, 5] },
+  { segment: 'Potential Loyalists', r: [4, 5], f: [2, 3] },
+  { segment: 'New Customers', r: [5, 5], f: [1, 1] },
+  { segment: 'Promising', r: [4, 4], f: [1, 1] },
+  { segment: 'Need Attention', r: [3, 3], f: [3, 3] },
+  { segment: 'About to Sleep', r: [3, 3], f: [1, 2] },
+  { segment: "Can't Lose Them", r: [1, 2], f: [5, 5] },
+  { segment: 'At Risk', r: [1, 2], f: [3, 4] },
+  { segment: 'Hibernating', r: [1, 2], f: [1, 2] },
+];
+
+export const RFM_SEGMENTS: RfmSegment[] = SEGMENT_RULES.map((rule) => rule.segment);
+
+export const SEGMENT_DESCRIPTIONS: Record<RfmSegment, string> = {
+  Champions: 'Bought recently, buy often and spend the most',
+  'Loyal Customers': 'Buy regularly and respond to promotions',
+  'Potential Loyalists': 'Recent customers with a few orders',
+  'New Customers': 'First order very recently',
+  Promising: 'Recent first-time buyers',
+  'Need Attention': 'Above-average recency and frequency, slipping',
+  'About to Sleep': 'Below-average recency and frequency',
+  'At Risk': 'Used to order often, not for a while',
+  "Can't Lose Them": 'Frequent buyers who have gone quiet',
+  Hibernating: 'Last order long ago, few orders',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------- Scoring ----------
+
+/** Numbers and currency text such as "$1,234.50" or "(12.00)". */
+function toAmount(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  let text = val.trim();
+  if (text === '') return null;
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()$€£¥₹\s,]/g, '');
+  const n = Number(text);
+  if (text === '' || !Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
+
+/** Key used to match a customer across rows: trimmed and case-insensitive. */
+export const customerKey = (val: unknown) => (val === null || val === undefined ? '' : String(val).trim().toLowerCase());
+
+/**
+ * 1-5 quintile score from the share of customers ranked strictly below: equal values
+ * share a score, so a long tail of one-order customers all land in F = 1.
+ */
+function quintileScores(values: number[], higherIsBetter: boolean): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = values.length;
+  const below = (v: number) => {
+    // first index holding a value >= v (or > v when lower is better)
+    let lo = 0;
+    let hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (higherIsBetter ? sorted[mid] < v : sorted[mid] <= v) lo = mid + 1;
+      else hi = mid;
+    }
+    return higherIsBetter ? lo : n - lo;
+  };
+  return values.map((v) => Math.min(5, 1 + Math.floor((5 * below(v)) / n)));
+}
+
+export function rfmSegment(r: number, f: number): RfmSegment {
+  const rule = SEGMENT_RULES.find((s) => r >= s.r[0] && r <= s.r[1] && f >= s.f[0] && f <= s.f[1]);
+  return rule ? rule.segment : 'Need Attention';
+}
+
+const round = (val: number, digits = 2) => Math.round(val * 10 ** digits) / 10 ** digits;
+
+/** Score every customer and summarise the segments and the recency × frequency grid. */
+export function analyzeRfm(rows: DataRow[], config: RfmConfig): RfmResult {
+  const { customerColumn, dateColumn, amountColumn } = config;
+  if (new Set([customerColumn, dateColumn, amountColumn]).size < 3) {
+    throw new Error('Pick three different columns for the customer, the order date and the amount');
+  }
+
+  const totals = new Map<string, { customer: string; last: number; orders: number; spend: number }>();
+  let skippedRows = 0;
+  let latest = -Infinity;
+  for (const row of rows) {
+    const key = customerKey(row[customerColumn]);
+    const time = wallClockTime(row[dateColumn]);
+    if (!key || time === null) {
+      skippedRows++;
+      continue;
+    }
+    latest = Math.max(latest, time);
+    const entry = totals.get(key) ?? { customer: String(row[customerColumn]).trim(), last: -Infinity, orders: 0, spend: 0 };
+    entry.last = Math.max(entry.last, time);
+    entry.orders++;
+    entry.spend += toAmount(row[amountColumn]) ?? 0;
+    totals.set(key, entry);
+  }
+  if (totals.size === 0) throw new Error(`No rows have both a ${customerColumn} and a readable ${dateColumn}`);
+
+  let reference: number;
+  if (config.referenceDate) {
+    const parsed = wallClockTime(config.referenceDate);
+    if (parsed === null) throw new Error(`"${config.referenceDate}" is not a valid reference date`);
+    reference = parsed;
+  } else {
+    const lastDay = new Date(latest);
+    reference = Date.UTC(lastDay.getUTCFullYear(), lastDay.getUTCMonth(), lastDay.getUTCDate() + 1);
+  }
+
+  const entries = [...totals.values()];
+  const recency = entries.map((e) => Math.max(0, Math.floor((reference - e.last) / DAY_MS)));
+  const rScores = quintileScores(recency, false);
+  const fScores = quintileScores(entries.map((e) => e.orders), true);
+  const mScores = quintileScores(entries.map((e) => e.spend), true);
+
+  const customers: RfmCustomer[] = entries.map((e, i) => ({
+    customer: e.customer,
+    recency: recency[i],
+    frequency: e.orders,
+    monetary: round(e.spend),
+    r: rScores[i],
+    f: fScores[i],
+    m: mScores[i],
+    score: `${rScores[i]}${fScores[i]}${mScores[i]}`,
+    segment: rfmSegment(rScores[i], fScores[i]),
+  }));
+
+  const mean = (vals: number[]) => vals.reduce((a, b) => a + b, 0) / vals.length;
+  const segments = RFM_SEGMENTS.map((segment) => {
+    const members = customers.filter((c) => c.segment === segment);
+    return {
+      segment,
+      customers: members.length,
+      share: members.length / customers.length,
+      revenue: round(members.reduce((sum, c) => sum + c.monetary, 0)),
+      avgRecency: members.length ? round(mean(members.map((c) => c.recency)), 1) : 0,
+      avgFrequency: members.length ? round(mean(members.map((c) => c.frequency)), 1) : 0,
+      avgMonetary: members.length ? round(mean(members.map((c) => c.monetary))) : 0,
+    };
+  })
+    .filter((s) => s.customers > 0)
+    .sort((a, b) => b.customers - a.customers);
+
+  const grid: RfmGridCell[] = [];
+  for (let f = 1; f <= 5; f++) {
+    for (let r = 1; r <= 5; r++) {
+      const members = customers.filter((c) => c.r === r && c.f === f);
+      grid.push({
+        r,
+        f,
+        segment: rfmSegment(r, f),
+        customers: members.length,
+        avgMonetary: members.length ? round(mean(members.map((c) => c.monetary))) : null,
+      });
+    }
+  }
+
+  return {
+    config,
+    referenceDate: new Date(reference).toISOString().slice(0, 10),
+    customers,
+    segments,
+    grid,
+    skippedRows,
+  };
+}
+
+/**
+ * Add each row's customer segment as a new column; null for rows whose customer has no
+ * dated orders. Run as a pipeline step so the column survives re-runs and exports.
+ */
+export function addRfmSegmentColumn(rows: DataRow[], config: RfmConfig, column: string): DataRow[] {
+  const result = analyzeRfm(rows, config);
+  const segments = new Map(result.customers.map((c) => [customerKey(c.customer), c.segment]));
+  return rows.map((row) => ({ ...row, [column]: segments.get(customerKey(row[config.customerColumn])) ?? null }));
+}
@@ -1,7 +1,9 @@
 // src/utils/salesAI.ts
+import { forecastSeries, type Granularity } from "./forecasting";
+
 export type DataRow = Record<string, string | number | null | undefined>;
 
-type ColumnKey =
+export type ColumnKey =
   | "customer"
   | "product"
   | "category"
@@ -21,6 +23,7 @@ type Intent =
   | "TOP_VALUES"
   | "GROUP_SUM"
   | "SUM"
+  | "FORECAST"
   | "UNKNOWN";
 
 type QueryPlan = {
@@ -30,6 +33,8 @@ type QueryPlan = {
   metricColumn?: string;           // e.g. Revenue column
   groupByColumn?: string;          // e.g. Category column
   topN?: number;                   // e.g. 5
+  horizon?: number;                // e.g. 3 (months)
+  granularity?: Granularity;       // e.g. "month"
   filters?: { column: string; op: "eq" | "contains"; value: string }[];
 };
 
@@ -74,7 +79,7 @@ function buildHeaderMap(headers: string[]) {
  * Sales-friendly synonyms.
  * You can extend this easily if your dataset uses different headers.
  */
-const SYNONYMS: Record<ColumnKey, string[]> = {
+export const SYNONYMS: Record<ColumnKey, string[]> = {
   customer: ["customer", "customer name", "client", "client name", "buyer", "name", "customername"],
   product: ["product", "item", "item name", "sku", "product name"],
   category: ["category", "product category", "segment", "type"],
@@ -85,16 +90,21 @@ const SYNONYMS: Record<ColumnKey, string[]> = {
   region: ["region", "area", "location", "country", "city"],
 };
 
-function resolveColumn(headers: string[], key: ColumnKey): string | null {
+export function resolveColumn(headers: string[], key: ColumnKey): string | null {
+  return matchColumn(headers, SYNONYMS[key]);
+}
+
+/** First header equal to one of the synonyms, else the first that contains one. */
+export function matchColumn(headers: string[], synonyms: string[]): string | null {
   const headerMap = buildHeaderMap(headers);
-  for (const syn of SYNONYMS[key]) {
+  for (const syn of synonyms) {
     const found = headerMap.get(norm(syn));
     if (found) return found;
   }
 
   // fallback fuzzy-ish: if header contains synonym token
   const lowerHeaders = headers.map(h => ({ raw: h, n: norm(h) }));
-  for (const syn of SYNONYMS[key]) {
+  for (const syn of synonyms) {
     const sn = norm(syn);
     const match = lowerHeaders.find(h => h.n.includes(sn));
     if (match) return match.raw;
@@ -164,6 +174,36 @@ function bestHeaderMatch(headers: string[], raw: string): string | null {
   return contains || null;
 }
 
+function detectDateColumn(rows: DataRow[], headers: string[]): string | null {
+  const named = resolveColumn(headers, "date");
+  if (named) return named;
+  // otherwise the first column whose sampled values are dates rather than plain numbers
+  const sample = rows.slice(0, 20);
+  return headers.find(h => {
+    const values = sample.map(r => r[h]).filter(v => v !== null && v !== undefined && String(v).trim() !== "");
+    return values.length > 0 && values.every(v => toNumberSafe(v) === null && toDateSafe(v) !== null);
+  }) ?? null;
+}
+
+function parseForecast(q: string, headers: string[]): Pick<QueryPlan, "metricColumn" | "horizon" | "granularity"> {
+  // "forecast revenue next 3 months", "predict weekly sales for the next 8 weeks", "forecast orders by week"
+  const lower = q.toLowerCase();
+  const next = lower.match(/\bnext\s+(\d+)?\s*(day|week|month)s?\b/);
+  let granularity: Granularity = "month";
+  if (next) granularity = next[2] as Granularity;
+  else if (/\b(daily|by day|per day)\b/.test(lower)) granularity = "day";
+  else if (/\b(weekly|by week|per week)\b/.test(lower)) granularity = "week";
+  const horizon = next?.[1] ? Math.min(Number(next[1]), 60) : next ? 1 : 3;
+
+  const subject = lower.match(/\b(?:forecast|predict|project)\s+(?:the\s+)?(?:daily\s+|weekly\s+|monthly\s+)?(.+?)(?:\s+(?:for|next|over|by|per|in|where)\b|$)/);
+  const raw = subject ? stripPunct(subject[1]) : "";
+  const named = raw ? bestHeaderMatch(headers, raw) : null;
+  if (named) return { metricColumn: named, horizon, granularity };
+  // "orders", "transactions" etc. are forecast as row counts
+  if (/\b(orders|rows|records|transactions|count)\b/.test(raw)) return { horizon, granularity };
+  return { metricColumn: resolveColumn(headers, "revenue") ?? undefined, horizon, granularity };
+}
+
 function applyFilters(rows: DataRow[], filters?: QueryPlan["filters"]): DataRow[] {
   if (!filters || filters.length === 0) return rows;
 
@@ -322,6 +362,11 @@ function parseQuestionToPlan(question: string, headers: string[]): QueryPlan {
   const lower = q.toLowerCase();
   const filters = parseFilters(q, headers);
 
+  // Forecast: "forecast revenue next 3 months"
+  if (/\b(forecast|predict|project)/.test(lower)) {
+    return { intent: "FORECAST", ...parseForecast(q, headers), filters };
+  }
+
   // WHY RAW / dirty data explanations
   if (lower.includes("why") && (lower.includes("raw") || lower.includes("dirty") || lower.includes("unclean"))) {
     return { intent: "WHY_RAW", filters };
@@ -590,6 +635,62 @@ export function answerSalesQuestion(args: {
       };
     }
 
+    case "FORECAST": {
+      const dateCol = detectDateColumn(filteredRows, headers);
+      if (!dateCol) {
+        return {
+          text: `I can forecast, but I couldn’t find a date column. Forecasts need a column like “Order Date”.`,
+          confidence: "medium",
+          how,
+        };
+      }
+
+      const granularity = plan.granularity ?? "month";
+      const measure = plan.metricColumn ?? "row count";
+      let result;
+      try {
+        result = forecastSeries(filteredRows, {
+          dateColumn: dateCol,
+          valueColumn: plan.metricColumn,
+          granularity,
+          horizon: plan.horizon ?? 3,
+        });
+      } catch (err) {
+        return {
+          text: `I couldn’t forecast **${measure}**: ${err instanceof Error ? err.message : "the series could not be fitted."}`,
+          confidence: "low",
+          how: [...how, `Date column: ${dateCol}`],
+        };
+      }
+
+      const fmt = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+      const { model, backtest } = result;
+      const modelName = model.seasonality === "none"
+        ? "Holt’s linear trend (no repeating season found)"
+        : `Holt-Winters with ${model.seasonality} seasonality (${model.period}-${granularity} cycle)`;
+      const accuracy = backtest
+        ? `Back-test on the last ${backtest.holdout} ${granularity}s: ` +
+          `${backtest.mape !== null ? `MAPE ${backtest.mape.toFixed(1)}%, ` : ""}RMSE ${fmt(backtest.rmse)}`
+        : "Too little history for a back-test.";
+
+      return {
+        text:
+          `📈 **Forecast of ${measure} per ${granularity}** (next ${result.forecast.length})\n` +
+          result.forecast
+            .map(p => `• ${p.period}: **${fmt(p.forecast)}** (${Math.round(result.confidence * 100)}% range ${fmt(p.lower)} – ${fmt(p.upper)})`)
+            .join("\n") +
+          `\n\n${accuracy}` +
+          (result.warnings.length > 0 ? `\n\n⚠️ ${result.warnings.join("\n⚠️ ")}` : ""),
+        confidence: backtest && backtest.mape !== null && backtest.mape < 20 ? "high" : "medium",
+        how: [
+          ...how,
+          `${plan.metricColumn ? `Summed ${plan.metricColumn}` : "Counted rows"} per ${granularity} using date column: ${dateCol} (${result.series.length} ${granularity}s of history)`,
+          `Model: ${modelName}; α=${model.alpha.toFixed(2)}, β=${model.beta.toFixed(2)}${model.seasonality === "none" ? "" : `, γ=${model.gamma.toFixed(2)}`}`,
+          "Prediction ranges widen with the horizon, based on the model’s one-step errors.",
+        ],
+      };
+    }
+
     default:
       return {
         text:
@@ -600,7 +701,8 @@ export function answerSalesQuestion(args: {
           `• “How many duplicates?”\n` +
           `• “Total revenue”\n` +
           `• “Sales by category”\n` +
-          `• “Top 5 customers”`,
+          `• “Top 5 customers”\n` +
+          `• “Forecast revenue next 3 months”`,
         confidence: "low",
         how,
       };
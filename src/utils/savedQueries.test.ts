@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { QueryConfig } from './queryBuilder';
+import { importSavedQueries, isQueryConfig } from './savedQueries';
+
+const valid: QueryConfig = {
+  select: { columns: ['Region', 'Revenue_sum'] },
+  filters: [
+    { column: 'Revenue', operator: 'between', value: [10, 100] },
+    { column: 'Region', operator: 'in', value: ['North', 'South'] },
+    { column: 'Notes', operator: 'isEmpty', value: '' },
+  ],
+  groupBy: {
+    columns: ['Region'],
+    aggregations: [
+      { column: 'Revenue', type: 'sum' },
+      { column: 'Revenue', type: 'percentile', percentile: 90 },
+    ],
+    having: [{ column: 'Revenue_sum', operator: 'greater', value: 50 }],
+  },
+  orderBy: [{ column: 'Revenue_sum', direction: 'desc' }],
+  limit: 10,
+};
+
+const exportWith = (config: unknown) =>
+  JSON.stringify({
+    format: 'autoinsight-saved-queries',
+    version: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    queries: [{ id: 'query-1', name: 'Top regions', config }],
+  });
+
+describe('isQueryConfig', () => {
+  it('accepts what the builder produces', () => {
+    expect(isQueryConfig(valid)).toBe(true);
+    expect(isQueryConfig({})).toBe(true);
+  });
+
+  it.each([
+    ['filters as an object', { filters: {} }],
+    ['orderBy as a string', { orderBy: 'Revenue' }],
+    ['select.columns as a string', { select: { columns: 'Region' } }],
+    ['an unknown operator', { filters: [{ column: 'Revenue', operator: 'like', value: 1 }] }],
+    ['a filter without a column', { filters: [{ operator: 'equals', value: 1 }] }],
+    ['an unknown aggregation', { groupBy: { columns: [], aggregations: [{ column: 'Revenue', type: 'mode' }] } }],
+    ['groupBy without aggregations', { groupBy: { columns: ['Region'] } }],
+    ['having as an object', { groupBy: { columns: [], aggregations: [], having: {} } }],
+    ['a bad sort direction', { orderBy: [{ column: 'Revenue', direction: 'up' }] }],
+    ['limit as a string', { limit: '10' }],
+    ['an array', []],
+  ])('rejects %s', (_, config) => {
+    expect(isQueryConfig(config)).toBe(false);
+  });
+});
+
+describe('importSavedQueries', () => {
+  it('rejects a file with a malformed config before saving anything', async () => {
+    await expect(importSavedQueries(exportWith({ filters: {} }))).rejects.toThrow(
+      'Some saved queries in this file are malformed.'
+    );
+    await expect(importSavedQueries(exportWith({ ...valid, orderBy: 'x' }))).rejects.toThrow(
+      'Some saved queries in this file are malformed.'
+    );
+  });
+});
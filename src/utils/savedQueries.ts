@@ -0,0 +1,242 @@
+// src/utils/savedQueries.ts
+// Named, tagged query library kept in IndexedDB. A saved query is just a QueryConfig plus
+// metadata, so it can be re-run against whatever dataset is loaded at the time.
+import type { SavedQuery } from '../types';
+import { openDatabase, requestToPromise, withStore } from './indexedDb';
+import { aggregationKey, type AggregationType, type FilterOperator, type QueryConfig } from './queryBuilder';
+
+export interface SaveQueryInput {
+  name: string;
+  description?: string;
+  tags?: string[];
+  config: QueryConfig;
+  createdBy: string;
+}
+
+interface SavedQueryExport {
+  format: 'autoinsight-saved-queries';
+  version: 1;
+  exportedAt: string;
+  queries: SavedQuery[];
+}
+
+const QUERIES_DB = 'autoinsight-queries';
+const QUERIES_STORE = 'queries';
+const EXPORT_FORMAT = 'autoinsight-saved-queries';
+
+function getDb(): Promise<IDBDatabase> {
+  return openDatabase(QUERIES_DB, 1, (db) => {
+    if (!db.objectStoreNames.contains(QUERIES_STORE)) db.createObjectStore(QUERIES_STORE, { keyPath: 'id' });
+  });
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function savedQueryConfig(query: SavedQuery): QueryConfig {
+  return query.config as QueryConfig;
+}
+
+// ---------- Storage ----------
+
+export async function listSavedQueries(): Promise<SavedQuery[]> {
+  const db = await getDb();
+  const all = await withStore(db, QUERIES_STORE, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<SavedQuery[]>)
+  );
+  return all.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function saveQuery(input: SaveQueryInput): Promise<SavedQuery> {
+  const name = input.name.trim();
+  if (!name) throw new Error('Give the query a name before saving it.');
+
+  const query: SavedQuery = {
+    id: `query-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    description: input.description?.trim() ?? '',
+    config: { ...input.config },
+    createdAt: new Date(),
+    createdBy: input.createdBy,
+    tags: normalizeTags(input.tags ?? []),
+  };
+  const db = await getDb();
+  await withStore(db, QUERIES_STORE, 'readwrite', (store) => requestToPromise(store.put(query)));
+  return query;
+}
+
+export async function deleteSavedQuery(id: string): Promise<void> {
+  const db = await getDb();
+  await withStore(db, QUERIES_STORE, 'readwrite', (store) => requestToPromise(store.delete(id)));
+}
+
+/** Stamp lastRun and return the updated query. */
+export async function markQueryRun(id: string): Promise<SavedQuery | undefined> {
+  const db = await getDb();
+  return withStore(db, QUERIES_STORE, 'readwrite', async (store) => {
+    const found = await requestToPromise(store.get(id) as IDBRequest<SavedQuery | undefined>);
+    if (!found) return undefined;
+    const updated = { ...found, lastRun: new Date() };
+    await requestToPromise(store.put(updated));
+    return updated;
+  });
+}
+
+// ---------- Search & schema checks ----------
+
+export function allTags(queries: SavedQuery[]): string[] {
+  return Array.from(new Set(queries.flatMap((q) => q.tags))).sort();
+}
+
+/** Case-insensitive match on name, description and tags; `tag` narrows to an exact tag. */
+export function searchSavedQueries(queries: SavedQuery[], term: string, tag?: string): SavedQuery[] {
+  const needle = term.trim().toLowerCase();
+  return queries.filter((q) => {
+    if (tag && !q.tags.includes(tag)) return false;
+    if (!needle) return true;
+    return (
+      q.name.toLowerCase().includes(needle) ||
+      q.description.toLowerCase().includes(needle) ||
+      q.tags.some((t) => t.includes(needle))
+    );
+  });
+}
+
+/**
+ * Dataset columns a query reads. HAVING and ORDER BY entries that point at
+ * aggregate outputs (e.g. Revenue_sum) are not dataset columns and are skipped.
+ */
+export function referencedColumns(config: QueryConfig): string[] {
+  const outputs = new Set((config.groupBy?.aggregations ?? []).map(aggregationKey));
+  const cols = [
+    ...(config.select?.columns ?? []),
+    ...(config.filters ?? []).map((f) => f.column),
+    ...(config.groupBy?.columns ?? []),
+    ...(config.groupBy?.aggregations ?? []).map((a) => a.column),
+    ...(config.orderBy ?? []).map((o) => o.column).filter((c) => !outputs.has(c)),
+  ];
+  return Array.from(new Set(cols));
+}
+
+export function missingColumns(config: QueryConfig, available: string[]): string[] {
+  const present = new Set(available);
+  return referencedColumns(config).filter((c) => !present.has(c));
+}
+
+// ---------- Import / export ----------
+
+export function exportSavedQueries(queries: SavedQuery[]): string {
+  const payload: SavedQueryExport = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    queries,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+const FILTER_OPERATORS: FilterOperator[] = ['equals', 'contains', 'greater', 'less', 'between', 'in', 'isEmpty', 'isNotEmpty'];
+const AGGREGATION_TYPES: AggregationType[] = ['sum', 'avg', 'count', 'min', 'max', 'median', 'distinctCount', 'percentile'];
+
+type Loose = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Loose => !!v && typeof v === 'object' && !Array.isArray(v);
+// null is how JSON writes back a NaN the builder parsed from unfinished input
+const isScalar = (v: unknown) => typeof v === 'string' || typeof v === 'number' || v === null;
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === 'string');
+const arrayOf = (v: unknown, check: (item: unknown) => boolean) => Array.isArray(v) && v.every(check);
+
+const isFilter = (v: unknown) =>
+  isObject(v) &&
+  typeof v.column === 'string' &&
+  FILTER_OPERATORS.includes(v.operator as FilterOperator) &&
+  (v.value === undefined || isScalar(v.value) || arrayOf(v.value, isScalar));
+
+const isAggregation = (v: unknown) =>
+  isObject(v) &&
+  typeof v.column === 'string' &&
+  AGGREGATION_TYPES.includes(v.type as AggregationType) &&
+  (v.percentile === undefined || typeof v.percentile === 'number');
+
+const isOrder = (v: unknown) =>
+  isObject(v) && typeof v.column === 'string' && (v.direction === 'asc' || v.direction === 'desc');
+
+/**
+ * Shape check for configs that come from outside (query and template files). Everything
+ * downstream maps over these arrays, so one wrong type would break the whole library.
+ */
+export function isQueryConfig(value: unknown): value is QueryConfig {
+  if (!isObject(value)) return false;
+  const { select, filters, groupBy, orderBy, limit } = value;
+  if (select !== undefined && !(isObject(select) && isStringArray(select.columns))) return false;
+  if (filters !== undefined && !arrayOf(filters, isFilter)) return false;
+  if (groupBy !== undefined) {
+    if (!isObject(groupBy) || !isStringArray(groupBy.columns) || !arrayOf(groupBy.aggregations, isAggregation)) {
+      return false;
+    }
+    if (groupBy.having !== undefined && !arrayOf(groupBy.having, isFilter)) return false;
+  }
+  if (orderBy !== undefined && !arrayOf(orderBy, isOrder)) return false;
+  return limit === undefined || (typeof limit === 'number' && Number.isFinite(limit));
+}
+
+function reviveQuery(raw: unknown): SavedQuery | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const q = raw as Record<string, unknown>;
+  if (typeof q.id !== 'string' || typeof q.name !== 'string') return null;
+  if (!isQueryConfig(q.config)) return null;
+
+  const createdAt = new Date(String(q.createdAt));
+  const lastRun = q.lastRun ? new Date(String(q.lastRun)) : undefined;
+  return {
+    id: q.id,
+    name: q.name,
+    description: typeof q.description === 'string' ? q.description : '',
+    config: { ...q.config },
+    createdAt: Number.isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    createdBy: typeof q.createdBy === 'string' ? q.createdBy : 'Unknown',
+    lastRun: lastRun && !Number.isNaN(lastRun.getTime()) ? lastRun : undefined,
+    tags: Array.isArray(q.tags) ? normalizeTags(q.tags.map(String)) : [],
+  };
+}
+
+/**
+ * Store every query from an export file. Queries keep their ids, so importing
+ * the same file twice overwrites rather than duplicates.
+ */
+export async function importSavedQueries(json: string): Promise<SavedQuery[]> {
+  let data: Partial<SavedQueryExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Query file is not valid JSON.');
+  }
+  if (data.format !== EXPORT_FORMAT) throw new Error('This file is not a saved query export.');
+  if (data.version !== 1) throw new Error(`Unsupported export version: ${String(data.version)}`);
+  if (!Array.isArray(data.queries)) throw new Error('Saved query export has no queries.');
+
+  const queries = data.queries.map(reviveQuery);
+  if (queries.some((q) => q === null)) throw new Error('Some saved queries in this file are malformed.');
+
+  const db = await getDb();
+  await withStore(db, QUERIES_STORE, 'readwrite', async (store) => {
+    for (const q of queries as SavedQuery[]) await requestToPromise(store.put(q));
+  });
+  return queries as SavedQuery[];
+}
+
+/** Put back queries a resumed session relies on; entries already in the library are left as they are. */
+export async function restoreSavedQueries(queries: SavedQuery[]): Promise<number> {
+  const db = await getDb();
+  return withStore(db, QUERIES_STORE, 'readwrite', async (store) => {
+    let added = 0;
+    for (const q of queries) {
+      const existing = await requestToPromise(store.getKey(q.id));
+      if (existing !== undefined) continue;
+      await requestToPromise(store.put(q));
+      added++;
+    }
+    return added;
+  });
+}
@@ -0,0 +1,172 @@
+// src/utils/sessionStore.ts
+// Whole analyses kept in IndexedDB so they survive a reload: the workspace (datasets and
+// their cleaning pipelines), chart settings, chat history, comments, lineage and the saved
+// queries that apply to the data. Summaries and payloads live in separate stores so the recent
+// analyses list never has to read row data.
+import type { ChatMessage, Comment, SavedQuery, Screen } from "../types";
+import { runPipeline } from "./cleaningPipeline";
+import type { PersistedLineage, PersistedLineageSet } from "./dataLineage";
+import { openDatabase, requestToPromise, withStore } from "./indexedDb";
+import type { Workspace, WorkspaceDataset } from "./workspace";
+
+export interface SessionState {
+  workspace: Workspace;
+  screen: Screen;
+  chatMessages: ChatMessage[];
+  comments: Comment[];
+  savedQueries: SavedQuery[]; // library entries that run against these datasets
+  lineage: PersistedLineageSet;
+}
+
+export interface SessionSummary {
+  id: string;
+  ownerId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  screen: Screen;
+  datasetNames: string[];
+  rowCount: number; // across all datasets
+  approxBytes: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+interface StoredSession extends Omit<SessionState, "lineage"> {
+  id: string;
+  lineage: PersistedLineageSet | PersistedLineage; // one shared history in sessions saved before lineage was per dataset
+}
+
+const SESSIONS_DB = "autoinsight-sessions";
+const SUMMARY_STORE = "summaries";
+const DATA_STORE = "sessions";
+
+// Rows sampled per dataset when estimating a session's size
+const SIZE_SAMPLE = 200;
+
+function getDb(): Promise<IDBDatabase> {
+  return openDatabase(SESSIONS_DB, 1, (db) => {
+    if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+      db.createObjectStore(SUMMARY_STORE, { keyPath: "id" }).createIndex("ownerId", "ownerId");
+    }
+    if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: "id" });
+  });
+}
+
+export function createSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/** True for the error browsers throw when a write would exceed the storage quota. */
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === "QuotaExceededError" || err.code === 22);
+}
+
+// JSON length of a sample of rows, scaled up; UTF-16 in memory but close enough on disk
+function approxRowBytes(rows: WorkspaceDataset["rows"]): number {
+  if (rows.length === 0) return 0;
+  const sample = rows.slice(0, SIZE_SAMPLE);
+  return Math.round((JSON.stringify(sample).length / sample.length) * rows.length);
+}
+
+export function approxSessionBytes(state: SessionState): number {
+  const { workspace, ...rest } = state;
+  const metaBytes = JSON.stringify(rest).length;
+  return workspace.datasets.reduce(
+    (sum, d) => sum + approxRowBytes(d.rows) + JSON.stringify(d.pipeline).length + JSON.stringify(d.dataSummary).length,
+    metaBytes
+  );
+}
+
+// ---------- Storage ----------
+
+export async function listSessions(ownerId: string): Promise<SessionSummary[]> {
+  const db = await getDb();
+  const all = await withStore(db, SUMMARY_STORE, "readonly", (store) =>
+    requestToPromise(store.index("ownerId").getAll(ownerId) as IDBRequest<SessionSummary[]>)
+  );
+  return all.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Save (or overwrite) a session. The payload is written before the summary, so the list
+ * never points at a session that cannot be loaded.
+ */
+export async function saveSession(
+  id: string,
+  ownerId: string,
+  state: SessionState,
+  createdAt: Date = new Date()
+): Promise<SessionSummary> {
+  const stored: StoredSession = {
+    ...state,
+    id,
+    workspace: {
+      activeId: state.workspace.activeId,
+      // Cleaned rows are rebuilt from the raw rows on load, so they are not stored twice
+      datasets: state.workspace.datasets.map((d) => ({ ...d, cleanedRows: [], stepResults: [] })),
+    },
+  };
+  const summary: SessionSummary = {
+    id,
+    ownerId,
+    name: state.workspace.datasets[0]?.name ?? "Untitled analysis",
+    createdAt,
+    updatedAt: new Date(),
+    screen: state.screen,
+    datasetNames: state.workspace.datasets.map((d) => d.name),
+    rowCount: state.workspace.datasets.reduce((sum, d) => sum + d.rows.length, 0),
+    approxBytes: approxSessionBytes(state),
+  };
+
+  const db = await getDb();
+  await withStore(db, DATA_STORE, "readwrite", (store) => requestToPromise(store.put(stored)));
+  await withStore(db, SUMMARY_STORE, "readwrite", (store) => requestToPromise(store.put(summary)));
+  return summary;
+}
+
+// An old shared history is the closest thing to the active dataset's own
+function upgradeLineage(lineage: StoredSession["lineage"], activeId: string | null): PersistedLineageSet {
+  if (!("events" in lineage)) return lineage;
+  return { activeId, datasets: activeId ? { [activeId]: lineage } : {} };
+}
+
+/** Load a session and replay each dataset's cleaning pipeline; null if it no longer exists. */
+export async function loadSession(id: string): Promise<SessionState | null> {
+  const db = await getDb();
+  const stored = await withStore(db, DATA_STORE, "readonly", (store) =>
+    requestToPromise(store.get(id) as IDBRequest<StoredSession | undefined>)
+  );
+  if (!stored) return null;
+
+  const datasets: WorkspaceDataset[] = stored.workspace.datasets.map((d) => {
+    const run = runPipeline(d.rows, d.pipeline.present, d.dataSummary.columnDetails);
+    return { ...d, cleanedRows: run.rows, stepResults: run.results };
+  });
+  return {
+    workspace: { datasets, activeId: stored.workspace.activeId },
+    screen: stored.screen,
+    chatMessages: stored.chatMessages,
+    comments: stored.comments ?? [], // sessions saved before comments existed
+    savedQueries: stored.savedQueries,
+    lineage: upgradeLineage(stored.lineage, stored.workspace.activeId),
+  };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await getDb();
+  await withStore(db, SUMMARY_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+  await withStore(db, DATA_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+}
+
+/** Origin-wide usage and quota as reported by the browser; null where the API is missing. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+}
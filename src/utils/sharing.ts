@@ -0,0 +1,314 @@
+// src/utils/sharing.ts
+// Read-only links to an analysis. The HTTP backend is used when VITE_SHARE_API_URL is set
+// (server/share-server.mjs is a local stand-in); otherwise shares are kept in this browser's
+// IndexedDB, so links only open on the same machine.
+import type { SharedAnalysis } from "../types";
+import { openDatabase, requestToPromise, withStore } from "./indexedDb";
+
+export type ShareDraft = Omit<SharedAnalysis, "id" | "shareLink" | "createdAt" | "lastModified" | "isPublic">;
+
+export type ShareStatus = "active" | "revoked" | "expired";
+
+// Revoked and expired shares come back without their content
+export type ShareLookup = { status: "active"; analysis: SharedAnalysis } | { status: Exclude<ShareStatus, "active"> | "missing" };
+
+export interface PublishedShare {
+  analysis: SharedAnalysis;
+  ownerToken: string; // needed to revoke, re-enable or change the expiry
+}
+
+export interface ShareUpdate {
+  isPublic?: boolean;
+  expiresAt?: Date | null; // null clears the expiry
+}
+
+export interface ShareBackend {
+  id: "local" | "http";
+  publish(draft: ShareDraft): Promise<PublishedShare>;
+  get(id: string): Promise<ShareLookup>;
+  update(id: string, ownerToken: string, patch: ShareUpdate): Promise<SharedAnalysis>;
+  remove(id: string, ownerToken: string): Promise<void>;
+}
+
+// What this browser remembers about the links it published
+export interface OwnedShare {
+  id: string;
+  ownerId: string;
+  ownerToken: string;
+  name: string;
+  shareLink: string;
+  createdAt: string; // ISO timestamp
+  isPublic: boolean;
+  expiresAt: string | null;
+  rowCount: number;
+}
+
+export const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never", days: null },
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+const SHARE_ROUTE = /^#\/share\/([\w-]+)$/;
+const OWNED_KEY = "owned_shares";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function shareLinkFor(id: string): string {
+  if (typeof window === "undefined") return `#/share/${id}`;
+  return `${window.location.origin}${window.location.pathname}#/share/${id}`;
+}
+
+/** The share id when the URL hash is a share link, otherwise null. */
+export function parseShareRoute(hash: string): string | null {
+  return SHARE_ROUTE.exec(hash)?.[1] ?? null;
+}
+
+export function expiryFromDays(days: number | null, from: Date = new Date()): Date | null {
+  return days === null ? null : new Date(from.getTime() + days * DAY_MS);
+}
+
+export function shareStatus(
+  analysis: Pick<SharedAnalysis, "isPublic" | "expiresAt">,
+  now: Date = new Date()
+): ShareStatus {
+  if (!analysis.isPublic) return "revoked";
+  if (analysis.expiresAt && analysis.expiresAt.getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+export function buildShareDraft(input: ShareDraft): ShareDraft {
+  const name = input.name.trim();
+  if (!name) throw new Error("Give the analysis a name before sharing it.");
+  if (input.data.length === 0) throw new Error("There is no data to share.");
+  if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) throw new Error("The expiry must be in the future.");
+  return { ...input, name, description: input.description.trim() };
+}
+
+function randomToken(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---------- Local (IndexedDB) backend ----------
+
+const SHARES_DB = "autoinsight-shares";
+const SHARES_STORE = "shares";
+
+interface StoredShare {
+  id: string;
+  ownerToken: string;
+  analysis: SharedAnalysis;
+}
+
+function openSharesDb(): Promise<IDBDatabase> {
+  return openDatabase(SHARES_DB, 1, (db) => {
+    if (!db.objectStoreNames.contains(SHARES_STORE)) db.createObjectStore(SHARES_STORE, { keyPath: "id" });
+  });
+}
+
+export function createLocalShareBackend(): ShareBackend {
+  const read = async (id: string): Promise<StoredShare | undefined> => {
+    const db = await openSharesDb();
+    return withStore(db, SHARES_STORE, "readonly", (store) =>
+      requestToPromise(store.get(id) as IDBRequest<StoredShare | undefined>)
+    );
+  };
+
+  const checkOwner = (stored: StoredShare, ownerToken: string) => {
+    if (stored.ownerToken !== ownerToken) throw new Error("Only the owner can change this share.");
+  };
+
+  return {
+    id: "local",
+
+    async publish(draft) {
+      const id = randomToken(9);
+      const now = new Date();
+      const analysis: SharedAnalysis = {
+        ...draft,
+        id,
+        shareLink: shareLinkFor(id),
+        createdAt: now,
+        lastModified: now,
+        isPublic: true,
+      };
+      const ownerToken = randomToken(24);
+      const db = await openSharesDb();
+      await withStore(db, SHARES_STORE, "readwrite", (store) =>
+        requestToPromise(store.put({ id, ownerToken, analysis } satisfies StoredShare))
+      );
+      return { analysis, ownerToken };
+    },
+
+    async get(id) {
+      const stored = await read(id);
+      if (!stored) return { status: "missing" };
+      const status = shareStatus(stored.analysis);
+      return status === "active" ? { status, analysis: stored.analysis } : { status };
+    },
+
+    async update(id, ownerToken, patch) {
+      const stored = await read(id);
+      if (!stored) throw new Error("This share no longer exists.");
+      checkOwner(stored, ownerToken);
+      const analysis: SharedAnalysis = { ...stored.analysis, lastModified: new Date() };
+      if (patch.isPublic !== undefined) analysis.isPublic = patch.isPublic;
+      if (patch.expiresAt !== undefined) analysis.expiresAt = patch.expiresAt ?? undefined;
+      const db = await openSharesDb();
+      await withStore(db, SHARES_STORE, "readwrite", (store) => requestToPromise(store.put({ ...stored, analysis })));
+      return analysis;
+    },
+
+    async remove(id, ownerToken) {
+      const stored = await read(id);
+      if (!stored) return;
+      checkOwner(stored, ownerToken);
+      const db = await openSharesDb();
+      await withStore(db, SHARES_STORE, "readwrite", (store) => requestToPromise(store.delete(id)));
+    },
+  };
+}
+
+// ---------- HTTP backend ----------
+
+// JSON turns dates into strings; put them back
+function reviveAnalysis(raw: SharedAnalysis): SharedAnalysis {
+  const date = (v: unknown) => new Date(v as string);
+  return {
+    ...raw,
+    shareLink: shareLinkFor(raw.id),
+    createdAt: date(raw.createdAt),
+    lastModified: date(raw.lastModified),
+    expiresAt: raw.expiresAt ? date(raw.expiresAt) : undefined,
+    queries: raw.queries.map((q) => ({ ...q, createdAt: date(q.createdAt), lastRun: q.lastRun ? date(q.lastRun) : undefined })),
+    comments: raw.comments.map((c) => ({ ...c, timestamp: date(c.timestamp) })),
+  };
+}
+
+export function createHttpShareBackend(baseUrl: string): ShareBackend {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  const request = async (path: string, init: RequestInit = {}, ownerToken?: string): Promise<Response> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (ownerToken) headers["X-Owner-Token"] = ownerToken;
+    try {
+      return await fetch(`${base}${path}`, { ...init, headers });
+    } catch {
+      throw new Error("Could not reach the share server.");
+    }
+  };
+
+  const failure = async (res: Response, fallback: string): Promise<Error> => {
+    if (res.status === 413) return new Error("This analysis is too large to share. Filter the data first.");
+    const body = (await res.json().catch(() => null)) as { error?: string } | null;
+    return new Error(body?.error ?? fallback);
+  };
+
+  return {
+    id: "http",
+
+    async publish(draft) {
+      const res = await request("/shares", { method: "POST", body: JSON.stringify(draft) });
+      if (!res.ok) throw await failure(res, "Failed to publish the analysis");
+      const body = (await res.json()) as { analysis: SharedAnalysis; ownerToken: string };
+      return { analysis: reviveAnalysis(body.analysis), ownerToken: body.ownerToken };
+    },
+
+    async get(id) {
+      const res = await request(`/shares/${encodeURIComponent(id)}`);
+      if (res.status === 404) return { status: "missing" };
+      if (res.status === 410) {
+        const body = (await res.json().catch(() => null)) as { status?: "revoked" | "expired" } | null;
+        return { status: body?.status ?? "revoked" };
+      }
+      if (!res.ok) throw await failure(res, "Failed to open the shared analysis");
+      return { status: "active", analysis: reviveAnalysis((await res.json()) as SharedAnalysis) };
+    },
+
+    async update(id, ownerToken, patch) {
+      const body = { ...patch, expiresAt: patch.expiresAt === undefined ? undefined : (patch.expiresAt?.toISOString() ?? null) };
+      const res = await request(
+        `/shares/${encodeURIComponent(id)}`,
+        { method: "PATCH", body: JSON.stringify(body) },
+        ownerToken
+      );
+      if (!res.ok) throw await failure(res, "Failed to update the share");
+      return reviveAnalysis((await res.json()) as SharedAnalysis);
+    },
+
+    async remove(id, ownerToken) {
+      const res = await request(`/shares/${encodeURIComponent(id)}`, { method: "DELETE" }, ownerToken);
+      if (!res.ok && res.status !== 404) throw await failure(res, "Failed to delete the share");
+    },
+  };
+}
+
+let backend: ShareBackend | null = null;
+
+export function getShareBackend(): ShareBackend {
+  if (!backend) {
+    const url = import.meta.env.VITE_SHARE_API_URL as string | undefined;
+    backend = url ? createHttpShareBackend(url) : createLocalShareBackend();
+  }
+  return backend;
+}
+
+// ---------- Links owned by this browser ----------
+
+function readOwned(): OwnedShare[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    return JSON.parse(localStorage.getItem(OWNED_KEY) ?? "[]") as OwnedShare[];
+  } catch {
+    return [];
+  }
+}
+
+function writeOwned(shares: OwnedShare[]): void {
+  localStorage.setItem(OWNED_KEY, JSON.stringify(shares));
+}
+
+function toOwned(analysis: SharedAnalysis, ownerId: string, ownerToken: string): OwnedShare {
+  return {
+    id: analysis.id,
+    ownerId,
+    ownerToken,
+    name: analysis.name,
+    shareLink: analysis.shareLink,
+    createdAt: analysis.createdAt.toISOString(),
+    isPublic: analysis.isPublic,
+    expiresAt: analysis.expiresAt?.toISOString() ?? null,
+    rowCount: analysis.data.length,
+  };
+}
+
+export function listOwnedShares(ownerId: string): OwnedShare[] {
+  return readOwned()
+    .filter((s) => s.ownerId === ownerId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function publishAnalysis(shareBackend: ShareBackend, ownerId: string, draft: ShareDraft): Promise<OwnedShare> {
+  const { analysis, ownerToken } = await shareBackend.publish(buildShareDraft(draft));
+  const owned = toOwned(analysis, ownerId, ownerToken);
+  writeOwned([owned, ...readOwned()]);
+  return owned;
+}
+
+/** Revoke, re-enable or change the expiry of a link this browser published. */
+export async function updateOwnedShare(shareBackend: ShareBackend, share: OwnedShare, patch: ShareUpdate): Promise<OwnedShare> {
+  const analysis = await shareBackend.update(share.id, share.ownerToken, patch);
+  const owned = toOwned(analysis, share.ownerId, share.ownerToken);
+  writeOwned(readOwned().map((s) => (s.id === share.id ? owned : s)));
+  return owned;
+}
+
+export async function deleteOwnedShare(shareBackend: ShareBackend, share: OwnedShare): Promise<void> {
+  await shareBackend.remove(share.id, share.ownerToken);
+  writeOwned(readOwned().filter((s) => s.id !== share.id));
+}
+
+export function ownedShareStatus(share: OwnedShare, now: Date = new Date()): ShareStatus {
+  return shareStatus({ isPublic: share.isPublic, expiresAt: share.expiresAt ? new Date(share.expiresAt) : undefined }, now);
+}
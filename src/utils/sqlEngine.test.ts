@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { DataRow } from '../types';
+import { executeQuery } from './queryBuilder';
+import { executeSql, sqlToQueryConfig } from './sqlEngine';
+
+// CSV cells arrive as text
+const rows: DataRow[] = [
+  { Region: 'North', Revenue: '100', Cost: '90', Date: '2024-03-01' },
+  { Region: 'South', Revenue: '25', Cost: '30', Date: '2024-01-15' },
+  { Region: 'East', Revenue: '9', Cost: '4', Date: '2024-02-10' },
+  { Region: 'West', Revenue: '1000', Cost: '', Date: '2023-12-31' },
+];
+
+const column = (sql: string, name: string) => executeSql(rows, sql).results.map((r) => r[name]);
+
+describe('numeric text', () => {
+  it('orders numerically', () => {
+    expect(column('SELECT Revenue FROM data ORDER BY Revenue', 'Revenue')).toEqual(['9', '25', '100', '1000']);
+    expect(column('SELECT Revenue FROM data ORDER BY Revenue DESC', 'Revenue')).toEqual(['1000', '100', '25', '9']);
+  });
+
+  it('filters numerically against literals and other columns', () => {
+    expect(column("SELECT Region FROM data WHERE Revenue > '50'", 'Region')).toEqual(['North', 'West']);
+    expect(column('SELECT Region FROM data WHERE Revenue > 20', 'Region')).toEqual(['North', 'South', 'West']);
+    expect(column('SELECT Region FROM data WHERE Revenue > Cost', 'Region')).toEqual(['North', 'East']);
+    expect(column('SELECT Region FROM data WHERE Revenue BETWEEN 9 AND 100', 'Region')).toEqual(['North', 'South', 'East']);
+  });
+
+  it('takes MIN and MAX numerically', () => {
+    const [row] = executeSql(rows, 'SELECT MIN(Revenue) AS lo, MAX(Revenue) AS hi FROM data').results;
+    expect(row).toEqual({ lo: 9, hi: 1000 });
+  });
+
+  it('still compares non-numeric text as text', () => {
+    expect(column('SELECT Region FROM data ORDER BY Region', 'Region')).toEqual(['East', 'North', 'South', 'West']);
+    expect(column("SELECT Region FROM data WHERE Date >= '2024-02-01' ORDER BY Date", 'Region')).toEqual(['East', 'North']);
+  });
+
+  it('keeps NULLs and blanks last', () => {
+    expect(column('SELECT Region FROM data ORDER BY Cost', 'Region')).toEqual(['East', 'South', 'North', 'West']);
+  });
+
+  it('gives the same order as the visual builder', () => {
+    const sql = 'SELECT Region, Revenue FROM data ORDER BY Revenue DESC';
+    const config = sqlToQueryConfig(sql);
+    expect(config).not.toBeNull();
+    expect(executeQuery(rows, config!).results.map((r) => r.Region)).toEqual(column(sql, 'Region'));
+  });
+});
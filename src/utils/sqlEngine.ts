@@ -0,0 +1,1432 @@
+// src/utils/sqlEngine.ts
+// A small SQL dialect over the in-memory rows, exposed as a single table named `data`.
+// Text is tokenized, parsed into an AST and evaluated row by row. Statements that fit the
+// visual builder convert to a QueryConfig (and generateSQL renders them back), so both
+// editors can work on the same query.
+import type { DataRow } from '../types';
+import { lineageTracker } from './dataLineage';
+import {
+  aggregateValues,
+  aggregationKey,
+  type ExecutionResult,
+  type QueryAggregation,
+  type QueryConfig,
+  type QueryFilter,
+  type QueryOrder,
+} from './queryBuilder';
+
+export type SqlValue = string | number | boolean | null;
+
+/** Parse or validation error; `position` is a 0-based offset into the SQL text. */
+export class SqlSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+function syntaxError(source: string, message: string, position: number): SqlSyntaxError {
+  const before = source.slice(0, position).split('\n');
+  return new SqlSyntaxError(message, position, before.length, before[before.length - 1].length + 1);
+}
+
+// ---------- Tokenizer ----------
+
+type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string; // keywords upper-cased, identifiers unquoted
+  start: number;
+  end: number;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'AS', 'AND', 'OR',
+  'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'ASC', 'DESC', 'TRUE',
+  'FALSE', 'WITHIN', 'CAST', 'EXTRACT',
+]);
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '||', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '.', ';'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (source.startsWith('--', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      const close = source.indexOf('*/', i + 2);
+      if (close === -1) throw syntaxError(source, 'Unterminated comment', i);
+      i = close + 2;
+      continue;
+    }
+
+    const start = i;
+
+    // 'string' with '' as an escaped quote; "identifier" and `identifier` likewise
+    if (ch === "'" || ch === '"' || ch === '`') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= source.length) {
+          throw syntaxError(source, ch === "'" ? 'Unterminated string' : 'Unterminated quoted identifier', start);
+        }
+        if (source[i] === ch) {
+          if (source[i + 1] === ch) {
+            value += ch;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += source[i++];
+      }
+      tokens.push({ type: ch === "'" ? 'string' : 'identifier', value, start, end: i });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], start, end: i });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      const upper = match[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: 'keyword', value: upper, start, end: i }
+          : { type: 'identifier', value: match[0], start, end: i }
+      );
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw syntaxError(source, `Unexpected character "${ch}"`, i);
+    i += op.length;
+    tokens.push({ type: 'operator', value: op, start, end: i });
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ---------- AST ----------
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type SqlExpr = Span &
+  (
+    | { kind: 'literal'; value: SqlValue }
+    | { kind: 'column'; name: string }
+    | { kind: 'unary'; op: '-' | 'NOT'; operand: SqlExpr }
+    | { kind: 'binary'; op: string; left: SqlExpr; right: SqlExpr }
+    | { kind: 'call'; name: string; args: SqlExpr[]; distinct: boolean; star: boolean; withinGroup?: SqlExpr }
+    | { kind: 'case'; operand?: SqlExpr; whens: { when: SqlExpr; then: SqlExpr }[]; otherwise?: SqlExpr }
+    | { kind: 'in'; operand: SqlExpr; list: SqlExpr[]; negated: boolean }
+    | { kind: 'between'; operand: SqlExpr; low: SqlExpr; high: SqlExpr; negated: boolean }
+    | { kind: 'like'; operand: SqlExpr; pattern: SqlExpr; negated: boolean }
+    | { kind: 'isNull'; operand: SqlExpr; negated: boolean }
+    | { kind: 'cast'; operand: SqlExpr; type: string }
+  );
+
+export interface SelectItem extends Span {
+  expr: SqlExpr | null; // null for *
+  alias?: string;
+}
+
+export interface SelectStatement {
+  distinct: boolean;
+  items: SelectItem[];
+  where?: SqlExpr;
+  groupBy: SqlExpr[];
+  having?: SqlExpr;
+  orderBy: { expr: SqlExpr; direction: 'asc' | 'desc' }[];
+  limit?: number;
+  offset?: number;
+}
+
+export const TABLE_NAME = 'data';
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'MEDIAN', 'PERCENTILE_CONT']);
+
+const CAST_TYPES: Record<string, 'integer' | 'real' | 'text' | 'date' | 'boolean'> = {
+  INT: 'integer',
+  INTEGER: 'integer',
+  BIGINT: 'integer',
+  REAL: 'real',
+  FLOAT: 'real',
+  DOUBLE: 'real',
+  NUMERIC: 'real',
+  DECIMAL: 'real',
+  TEXT: 'text',
+  VARCHAR: 'text',
+  STRING: 'text',
+  CHAR: 'text',
+  DATE: 'date',
+  BOOLEAN: 'boolean',
+};
+
+// ---------- Parser ----------
+
+function parseStatement(source: string): SelectStatement {
+  const tokens = tokenize(source);
+  let pos = 0;
+  let tableAlias: string | undefined;
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[pos++];
+  const fail = (message: string, at: Span = peek()): never => {
+    throw syntaxError(source, message, at.start);
+  };
+  const describe = (token: Token) => (token.type === 'eof' ? 'end of query' : `"${source.slice(token.start, token.end)}"`);
+
+  const isKeyword = (value: string, offset = 0) => peek(offset).type === 'keyword' && peek(offset).value === value;
+  const isOperator = (value: string, offset = 0) => peek(offset).type === 'operator' && peek(offset).value === value;
+  const acceptKeyword = (value: string) => (isKeyword(value) ? next() : null);
+  const acceptOperator = (value: string) => (isOperator(value) ? next() : null);
+  const expectKeyword = (value: string) => acceptKeyword(value) ?? fail(`Expected ${value} but found ${describe(peek())}`);
+  const expectOperator = (value: string) => acceptOperator(value) ?? fail(`Expected "${value}" but found ${describe(peek())}`);
+
+  const span = (start: number) => ({ start, end: tokens[pos - 1].end });
+
+  function expectIdentifier(what: string): Token {
+    const token = peek();
+    if (token.type !== 'identifier') fail(`Expected ${what} but found ${describe(token)}`);
+    return next();
+  }
+
+  function parseExpr(): SqlExpr {
+    return parseOr();
+  }
+
+  function parseOr(): SqlExpr {
+    let left = parseAnd();
+    while (acceptKeyword('OR')) {
+      const right = parseAnd();
+      left = { kind: 'binary', op: 'OR', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  function parseAnd(): SqlExpr {
+    let left = parseNot();
+    while (acceptKeyword('AND')) {
+      const right = parseNot();
+      left = { kind: 'binary', op: 'AND', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  function parseNot(): SqlExpr {
+    const not = acceptKeyword('NOT');
+    if (!not) return parsePredicate();
+    const operand = parseNot();
+    return { kind: 'unary', op: 'NOT', operand, start: not.start, end: operand.end };
+  }
+
+  function parsePredicate(): SqlExpr {
+    const left = parseAdditive();
+    const token = peek();
+
+    if (token.type === 'operator' && ['=', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+      next();
+      const right = parseAdditive();
+      const op = token.value === '<>' ? '!=' : token.value;
+      return { kind: 'binary', op, left, right, start: left.start, end: right.end };
+    }
+
+    if (acceptKeyword('IS')) {
+      const negated = !!acceptKeyword('NOT');
+      expectKeyword('NULL');
+      return { kind: 'isNull', operand: left, negated, ...span(left.start) };
+    }
+
+    const negated = isKeyword('NOT') && ['IN', 'BETWEEN', 'LIKE'].includes(peek(1).value) && !!next();
+
+    if (acceptKeyword('IN')) {
+      expectOperator('(');
+      const list = [parseExpr()];
+      while (acceptOperator(',')) list.push(parseExpr());
+      expectOperator(')');
+      return { kind: 'in', operand: left, list, negated, ...span(left.start) };
+    }
+    if (acceptKeyword('BETWEEN')) {
+      const low = parseAdditive();
+      expectKeyword('AND');
+      const high = parseAdditive();
+      return { kind: 'between', operand: left, low, high, negated, start: left.start, end: high.end };
+    }
+    if (acceptKeyword('LIKE')) {
+      const pattern = parseAdditive();
+      return { kind: 'like', operand: left, pattern, negated, start: left.start, end: pattern.end };
+    }
+    return left;
+  }
+
+  function parseAdditive(): SqlExpr {
+    let left = parseMultiplicative();
+    while (isOperator('+') || isOperator('-') || isOperator('||')) {
+      const op = next().value;
+      const right = parseMultiplicative();
+      left = { kind: 'binary', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  function parseMultiplicative(): SqlExpr {
+    let left = parseUnary();
+    while (isOperator('*') || isOperator('/') || isOperator('%')) {
+      const op = next().value;
+      const right = parseUnary();
+      left = { kind: 'binary', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  function parseUnary(): SqlExpr {
+    if (isOperator('-') || isOperator('+')) {
+      const sign = next();
+      const operand = parseUnary();
+      if (sign.value === '+') return operand;
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value, start: sign.start, end: operand.end };
+      }
+      return { kind: 'unary', op: '-', operand, start: sign.start, end: operand.end };
+    }
+    return parsePrimary();
+  }
+
+  function parseCall(nameToken: Token): SqlExpr {
+    const name = nameToken.value.toUpperCase();
+    if (!AGGREGATES.has(name) && !SCALAR_FUNCTIONS[name]) fail(`Unknown function ${nameToken.value}`, nameToken);
+    expectOperator('(');
+
+    const distinct = !!acceptKeyword('DISTINCT');
+    let star = false;
+    const args: SqlExpr[] = [];
+    if (isOperator('*') && isOperator(')', 1)) {
+      if (name !== 'COUNT') fail(`${name}(*) is not supported; only COUNT(*) is`);
+      next();
+      star = true;
+    } else if (!isOperator(')')) {
+      args.push(parseExpr());
+      while (acceptOperator(',')) args.push(parseExpr());
+    }
+    expectOperator(')');
+    if (distinct && !AGGREGATES.has(name)) fail(`DISTINCT can only be used inside an aggregate`, nameToken);
+
+    let withinGroup: SqlExpr | undefined;
+    if (acceptKeyword('WITHIN')) {
+      if (name !== 'PERCENTILE_CONT') fail('WITHIN GROUP is only supported for PERCENTILE_CONT', nameToken);
+      expectKeyword('GROUP');
+      expectOperator('(');
+      expectKeyword('ORDER');
+      expectKeyword('BY');
+      withinGroup = parseExpr();
+      expectOperator(')');
+    } else if (name === 'PERCENTILE_CONT') {
+      fail('PERCENTILE_CONT needs WITHIN GROUP (ORDER BY column)', nameToken);
+    }
+
+    const arity = AGGREGATES.has(name) ? { min: star ? 0 : 1, max: 1 } : SCALAR_FUNCTIONS[name];
+    if (args.length < arity.min || args.length > arity.max) {
+      const expected = arity.min === arity.max ? `${arity.min}` : `${arity.min} to ${arity.max}`;
+      fail(`${name} expects ${expected} argument${arity.max === 1 ? '' : 's'}, got ${args.length}`, nameToken);
+    }
+    if (name === 'PERCENTILE_CONT') {
+      const p = args[0];
+      if (p.kind !== 'literal' || typeof p.value !== 'number' || p.value < 0 || p.value > 1) {
+        fail('PERCENTILE_CONT fraction must be a number between 0 and 1', p);
+      }
+    }
+
+    return { kind: 'call', name, args, distinct, star, withinGroup, ...span(nameToken.start) };
+  }
+
+  function parsePrimary(): SqlExpr {
+    const token = peek();
+
+    switch (token.type) {
+      case 'number':
+        next();
+        return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        next();
+        return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+      case 'identifier': {
+        next();
+        if (isOperator('(')) return parseCall(token);
+        // Bare CURRENT_DATE (not a quoted column of that name)
+        if (token.value.toUpperCase() === 'CURRENT_DATE' && /\w/.test(source[token.start])) {
+          return { kind: 'call', name: 'CURRENT_DATE', args: [], distinct: false, star: false, start: token.start, end: token.end };
+        }
+        // data.column or alias.column
+        if (acceptOperator('.')) {
+          const qualifier = token.value;
+          if (qualifier.toLowerCase() !== TABLE_NAME && qualifier !== tableAlias) {
+            fail(`Unknown table "${qualifier}"`, token);
+          }
+          const column = expectIdentifier('a column name');
+          return { kind: 'column', name: column.value, start: token.start, end: column.end };
+        }
+        return { kind: 'column', name: token.value, start: token.start, end: token.end };
+      }
+      case 'keyword':
+        break;
+      case 'operator':
+        if (token.value === '(') {
+          next();
+          const inner = parseExpr();
+          expectOperator(')');
+          return { ...inner, ...span(token.start) };
+        }
+        return fail(`Unexpected ${describe(token)}`);
+      default:
+        return fail(`Unexpected ${describe(token)}`);
+    }
+
+    switch (token.value) {
+      case 'NULL':
+      case 'TRUE':
+      case 'FALSE':
+        next();
+        return {
+          kind: 'literal',
+          value: token.value === 'NULL' ? null : token.value === 'TRUE',
+          start: token.start,
+          end: token.end,
+        };
+      case 'CASE': {
+        next();
+        const operand = isKeyword('WHEN') ? undefined : parseExpr();
+        const whens: { when: SqlExpr; then: SqlExpr }[] = [];
+        while (acceptKeyword('WHEN')) {
+          const when = parseExpr();
+          expectKeyword('THEN');
+          whens.push({ when, then: parseExpr() });
+        }
+        if (whens.length === 0) fail('CASE needs at least one WHEN');
+        const otherwise = acceptKeyword('ELSE') ? parseExpr() : undefined;
+        expectKeyword('END');
+        return { kind: 'case', operand, whens, otherwise, ...span(token.start) };
+      }
+      case 'CAST': {
+        next();
+        expectOperator('(');
+        const operand = parseExpr();
+        expectKeyword('AS');
+        const typeToken = peek();
+        const type = typeToken.type === 'identifier' || typeToken.type === 'keyword' ? typeToken.value.toUpperCase() : '';
+        if (!CAST_TYPES[type]) fail(`Unknown type for CAST: ${describe(typeToken)}`);
+        next();
+        expectOperator(')');
+        return { kind: 'cast', operand, type, ...span(token.start) };
+      }
+      case 'EXTRACT': {
+        // EXTRACT(YEAR FROM d) is DATE_PART('year', d)
+        next();
+        expectOperator('(');
+        const unit = expectIdentifier('a date part such as YEAR');
+        expectKeyword('FROM');
+        const operand = parseExpr();
+        expectOperator(')');
+        const unitLiteral: SqlExpr = { kind: 'literal', value: unit.value.toLowerCase(), start: unit.start, end: unit.end };
+        return { kind: 'call', name: 'DATE_PART', args: [unitLiteral, operand], distinct: false, star: false, ...span(token.start) };
+      }
+      default:
+        return fail(`Unexpected ${describe(token)}`);
+    }
+  }
+
+  function parseSelectItem(): SelectItem {
+    const start = peek().start;
+    if (acceptOperator('*')) return { expr: null, start, end: tokens[pos - 1].end };
+    // data.*
+    if (peek().type === 'identifier' && isOperator('.', 1) && isOperator('*', 2)) {
+      pos += 3;
+      return { expr: null, start, end: tokens[pos - 1].end };
+    }
+
+    const expr = parseExpr();
+    let alias: string | undefined;
+    if (acceptKeyword('AS')) alias = expectIdentifier('an alias after AS').value;
+    else if (peek().type === 'identifier') alias = next().value;
+    return { expr, alias, start, end: tokens[pos - 1].end };
+  }
+
+  function parseLimitNumber(clause: string): number {
+    const token = peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) fail(`${clause} expects a whole number`);
+    next();
+    return Number(token.value);
+  }
+
+  // The select list is parsed after FROM so qualified names can check the table alias
+  expectKeyword('SELECT');
+  const distinct = !!acceptKeyword('DISTINCT');
+  const selectStart = pos;
+  let depth = 0;
+  while (peek().type !== 'eof' && !(depth === 0 && isKeyword('FROM'))) {
+    if (isOperator('(')) depth++;
+    if (isOperator(')')) depth--;
+    next();
+  }
+  if (pos === selectStart) fail('Expected columns after SELECT');
+  expectKeyword('FROM');
+  const table = expectIdentifier('a table name');
+  if (table.value.toLowerCase() !== TABLE_NAME) fail(`Unknown table "${table.value}"; query the table "${TABLE_NAME}"`, table);
+  if (acceptKeyword('AS')) tableAlias = expectIdentifier('a table alias').value;
+  else if (peek().type === 'identifier') tableAlias = next().value;
+  const afterFrom = pos;
+
+  pos = selectStart;
+  const items = [parseSelectItem()];
+  while (acceptOperator(',')) items.push(parseSelectItem());
+  if (!isKeyword('FROM')) fail(`Expected "," or FROM but found ${describe(peek())}`);
+  pos = afterFrom;
+
+  const statement: SelectStatement = { distinct, items, groupBy: [], orderBy: [] };
+
+  if (acceptKeyword('WHERE')) statement.where = parseExpr();
+  if (acceptKeyword('GROUP')) {
+    expectKeyword('BY');
+    statement.groupBy.push(parseExpr());
+    while (acceptOperator(',')) statement.groupBy.push(parseExpr());
+  }
+  if (acceptKeyword('HAVING')) statement.having = parseExpr();
+  if (acceptKeyword('ORDER')) {
+    expectKeyword('BY');
+    do {
+      const expr = parseExpr();
+      const desc = !!acceptKeyword('DESC');
+      if (!desc) acceptKeyword('ASC');
+      statement.orderBy.push({ expr, direction: desc ? 'desc' : 'asc' });
+    } while (acceptOperator(','));
+  }
+  if (acceptKeyword('LIMIT')) statement.limit = parseLimitNumber('LIMIT');
+  if (acceptKeyword('OFFSET')) statement.offset = parseLimitNumber('OFFSET');
+  acceptOperator(';');
+  if (peek().type !== 'eof') fail(`Unexpected ${describe(peek())}`);
+
+  return statement;
+}
+
+// ---------- Values ----------
+
+const isNullish = (v: unknown) => v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+
+function readCell(row: DataRow, column: string): SqlValue {
+  const v = row[column];
+  return isNullish(v) ? null : (v as SqlValue);
+}
+
+function toNum(v: SqlValue): number | null {
+  if (v === null) return null;
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  const n = Number(v.trim());
+  return v.trim() !== '' && Number.isFinite(n) ? n : null;
+}
+
+function toText(v: SqlValue): string | null {
+  return v === null ? null : String(v);
+}
+
+// SQL truth: NULL stays unknown, numbers and numeric text are true when non-zero
+function truth(v: SqlValue): boolean | null {
+  if (v === null) return null;
+  if (typeof v === 'boolean') return v;
+  const n = toNum(v);
+  return n !== null && n !== 0;
+}
+
+/**
+ * Compare two values, or null when either is NULL or they can't be compared
+ * (a number against text that isn't numeric). CSV cells arrive as text, so two
+ * strings compare numerically when both parse as numbers, like the visual builder.
+ */
+function compare(a: SqlValue, b: SqlValue): number | null {
+  if (a === null || b === null) return null;
+  const an = toNum(a);
+  const bn = toNum(b);
+  if (an !== null && bn !== null) return an - bn;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const body = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${body}$`, 'is');
+}
+
+// Dates are handled in local time, matching tryParseDate in csvIngest
+function toDate(v: SqlValue): Date | null {
+  if (typeof v !== 'string') return null;
+  const s = v.trim();
+  const ymd = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(s);
+  const d = ymd ? new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) : new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function formatDate(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const DAY_MS = 86_400_000;
+
+// Whole days between two local dates, immune to DST shifts
+function dayNumber(d: Date): number {
+  return Math.floor(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS);
+}
+
+function isoWeek(d: Date): number {
+  const t = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
+  const day = t.getUTCDay() || 7;
+  t.setUTCDate(t.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(t.getUTCFullYear(), 0, 1);
+  return Math.ceil(((t.getTime() - yearStart) / DAY_MS + 1) / 7);
+}
+
+function datePart(unit: string, d: Date): number | null {
+  switch (unit) {
+    case 'year':
+      return d.getFullYear();
+    case 'quarter':
+      return Math.floor(d.getMonth() / 3) + 1;
+    case 'month':
+      return d.getMonth() + 1;
+    case 'week':
+      return isoWeek(d);
+    case 'day':
+      return d.getDate();
+    case 'dow':
+      return d.getDay(); // 0 = Sunday
+    case 'doy':
+      return dayNumber(d) - dayNumber(new Date(d.getFullYear(), 0, 1)) + 1;
+    default:
+      return null;
+  }
+}
+
+function dateTrunc(unit: string, d: Date): Date | null {
+  switch (unit) {
+    case 'year':
+      return new Date(d.getFullYear(), 0, 1);
+    case 'quarter':
+      return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1);
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth(), 1);
+    case 'week': // weeks start on Monday
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7));
+    case 'day':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    default:
+      return null;
+  }
+}
+
+function dateAdd(d: Date, amount: number, unit: string): Date | null {
+  const out = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  switch (unit) {
+    case 'day':
+      out.setDate(out.getDate() + amount);
+      return out;
+    case 'week':
+      out.setDate(out.getDate() + amount * 7);
+      return out;
+    case 'month':
+      out.setMonth(out.getMonth() + amount);
+      return out;
+    case 'quarter':
+      out.setMonth(out.getMonth() + amount * 3);
+      return out;
+    case 'year':
+      out.setFullYear(out.getFullYear() + amount);
+      return out;
+    default:
+      return null;
+  }
+}
+
+// Calendar boundaries crossed between start and end, like DATE_DIFF in most warehouses
+function dateDiff(unit: string, start: Date, end: Date): number | null {
+  const months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+  switch (unit) {
+    case 'day':
+      return dayNumber(end) - dayNumber(start);
+    case 'week':
+      return Math.trunc((dayNumber(end) - dayNumber(start)) / 7);
+    case 'month':
+      return months;
+    case 'quarter':
+      return Math.floor((end.getFullYear() * 12 + end.getMonth()) / 3) - Math.floor((start.getFullYear() * 12 + start.getMonth()) / 3);
+    case 'year':
+      return end.getFullYear() - start.getFullYear();
+    default:
+      return null;
+  }
+}
+
+const unitOf = (v: SqlValue) => (toText(v) ?? '').toLowerCase().replace(/s$/, '');
+
+// ---------- Functions ----------
+
+interface ScalarFunction {
+  min: number;
+  max: number;
+  fn: (args: SqlValue[]) => SqlValue;
+}
+
+// Wraps a function so any NULL argument yields NULL
+const strict =
+  (fn: (args: Exclude<SqlValue, null>[]) => SqlValue) =>
+  (args: SqlValue[]): SqlValue =>
+    args.some((a) => a === null) ? null : fn(args as Exclude<SqlValue, null>[]);
+
+const numeric = (fn: (...n: number[]) => number) =>
+  strict((args) => {
+    const nums = args.map(toNum);
+    if (nums.some((n) => n === null)) return null;
+    const out = fn(...(nums as number[]));
+    return Number.isFinite(out) ? out : null;
+  });
+
+const onDate = (fn: (d: Date, rest: SqlValue[]) => SqlValue) =>
+  strict((args) => {
+    const d = toDate(args[0]);
+    return d ? fn(d, args.slice(1)) : null;
+  });
+
+const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  // Text
+  UPPER: { min: 1, max: 1, fn: strict(([s]) => String(s).toUpperCase()) },
+  LOWER: { min: 1, max: 1, fn: strict(([s]) => String(s).toLowerCase()) },
+  LENGTH: { min: 1, max: 1, fn: strict(([s]) => String(s).length) },
+  TRIM: { min: 1, max: 1, fn: strict(([s]) => String(s).trim()) },
+  LTRIM: { min: 1, max: 1, fn: strict(([s]) => String(s).trimStart()) },
+  RTRIM: { min: 1, max: 1, fn: strict(([s]) => String(s).trimEnd()) },
+  SUBSTR: {
+    min: 2,
+    max: 3,
+    fn: strict(([s, start, length]) => {
+      const from = Math.max(0, (toNum(start) ?? 1) - 1); // 1-based like SQL
+      return length === undefined ? String(s).slice(from) : String(s).substr(from, toNum(length) ?? 0);
+    }),
+  },
+  REPLACE: { min: 3, max: 3, fn: strict(([s, from, to]) => String(s).split(String(from)).join(String(to))) },
+  CONCAT: { min: 1, max: Infinity, fn: (args) => args.map((a) => toText(a) ?? '').join('') },
+
+  // NULL handling
+  COALESCE: { min: 1, max: Infinity, fn: (args) => args.find((a) => a !== null) ?? null },
+  IFNULL: { min: 2, max: 2, fn: ([a, b]) => (a === null ? b : a) },
+  NULLIF: { min: 2, max: 2, fn: ([a, b]) => (compare(a, b) === 0 ? null : a) },
+
+  // Math
+  ABS: { min: 1, max: 1, fn: numeric(Math.abs) },
+  ROUND: {
+    min: 1,
+    max: 2,
+    fn: numeric((x, digits = 0) => {
+      const factor = 10 ** Math.trunc(digits);
+      return Math.round(x * factor) / factor;
+    }),
+  },
+  CEIL: { min: 1, max: 1, fn: numeric(Math.ceil) },
+  FLOOR: { min: 1, max: 1, fn: numeric(Math.floor) },
+  SQRT: { min: 1, max: 1, fn: numeric(Math.sqrt) },
+  POWER: { min: 2, max: 2, fn: numeric(Math.pow) },
+  MOD: { min: 2, max: 2, fn: numeric((a, b) => (b === 0 ? NaN : a % b)) },
+  LN: { min: 1, max: 1, fn: numeric(Math.log) },
+  LOG10: { min: 1, max: 1, fn: numeric(Math.log10) },
+  EXP: { min: 1, max: 1, fn: numeric(Math.exp) },
+  SIGN: { min: 1, max: 1, fn: numeric(Math.sign) },
+  GREATEST: { min: 1, max: Infinity, fn: numeric(Math.max) },
+  LEAST: { min: 1, max: Infinity, fn: numeric(Math.min) },
+
+  // Dates (YYYY-MM-DD text in, YYYY-MM-DD text out)
+  CURRENT_DATE: { min: 0, max: 0, fn: () => formatDate(new Date()) },
+  TODAY: { min: 0, max: 0, fn: () => formatDate(new Date()) },
+  DATE: { min: 1, max: 1, fn: onDate((d) => formatDate(d)) },
+  YEAR: { min: 1, max: 1, fn: onDate((d) => datePart('year', d)) },
+  QUARTER: { min: 1, max: 1, fn: onDate((d) => datePart('quarter', d)) },
+  MONTH: { min: 1, max: 1, fn: onDate((d) => datePart('month', d)) },
+  DAY: { min: 1, max: 1, fn: onDate((d) => datePart('day', d)) },
+  DAYOFWEEK: { min: 1, max: 1, fn: onDate((d) => datePart('dow', d)) },
+  DATE_PART: {
+    min: 2,
+    max: 2,
+    fn: strict(([unit, v]) => {
+      const d = toDate(v);
+      return d ? datePart(unitOf(unit), d) : null;
+    }),
+  },
+  DATE_TRUNC: {
+    min: 2,
+    max: 2,
+    fn: strict(([unit, v]) => {
+      const d = toDate(v);
+      const out = d && dateTrunc(unitOf(unit), d);
+      return out ? formatDate(out) : null;
+    }),
+  },
+  DATE_ADD: {
+    min: 3,
+    max: 3,
+    fn: onDate((d, [amount, unit]) => {
+      const n = toNum(amount);
+      const out = n === null ? null : dateAdd(d, Math.trunc(n), unitOf(unit));
+      return out ? formatDate(out) : null;
+    }),
+  },
+  DATE_DIFF: {
+    min: 3,
+    max: 3,
+    fn: strict(([unit, a, b]) => {
+      const start = toDate(a);
+      const end = toDate(b);
+      return start && end ? dateDiff(unitOf(unit), start, end) : null;
+    }),
+  },
+};
+SCALAR_FUNCTIONS.SUBSTRING = SCALAR_FUNCTIONS.SUBSTR;
+SCALAR_FUNCTIONS.CEILING = SCALAR_FUNCTIONS.CEIL;
+SCALAR_FUNCTIONS.POW = SCALAR_FUNCTIONS.POWER;
+
+/** Function names for the editor's help text. */
+export const SQL_FUNCTIONS = [...AGGREGATES, ...Object.keys(SCALAR_FUNCTIONS)].sort();
+
+// ---------- Evaluation ----------
+
+interface Scope {
+  row: DataRow;
+  group?: DataRow[]; // set when evaluating after GROUP BY
+}
+
+function containsAggregate(expr: SqlExpr | null | undefined): boolean {
+  if (!expr) return false;
+  switch (expr.kind) {
+    case 'call':
+      return AGGREGATES.has(expr.name) || expr.args.some(containsAggregate);
+    case 'unary':
+    case 'cast':
+    case 'isNull':
+      return containsAggregate(expr.operand);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'case':
+      return (
+        containsAggregate(expr.operand) ||
+        containsAggregate(expr.otherwise) ||
+        expr.whens.some((w) => containsAggregate(w.when) || containsAggregate(w.then))
+      );
+    case 'in':
+      return containsAggregate(expr.operand) || expr.list.some(containsAggregate);
+    case 'between':
+      return containsAggregate(expr.operand) || containsAggregate(expr.low) || containsAggregate(expr.high);
+    case 'like':
+      return containsAggregate(expr.operand) || containsAggregate(expr.pattern);
+    default:
+      return false;
+  }
+}
+
+/** Rebuild an expression bottom-up; `visit` may replace any node. */
+function mapExpr(expr: SqlExpr, visit: (e: SqlExpr) => SqlExpr | undefined): SqlExpr {
+  const replaced = visit(expr);
+  if (replaced) return replaced;
+  const m = (e: SqlExpr) => mapExpr(e, visit);
+  switch (expr.kind) {
+    case 'unary':
+    case 'cast':
+    case 'isNull':
+      return { ...expr, operand: m(expr.operand) };
+    case 'binary':
+      return { ...expr, left: m(expr.left), right: m(expr.right) };
+    case 'call':
+      return { ...expr, args: expr.args.map(m), withinGroup: expr.withinGroup && m(expr.withinGroup) };
+    case 'case':
+      return {
+        ...expr,
+        operand: expr.operand && m(expr.operand),
+        whens: expr.whens.map((w) => ({ when: m(w.when), then: m(w.then) })),
+        otherwise: expr.otherwise && m(expr.otherwise),
+      };
+    case 'in':
+      return { ...expr, operand: m(expr.operand), list: expr.list.map(m) };
+    case 'between':
+      return { ...expr, operand: m(expr.operand), low: m(expr.low), high: m(expr.high) };
+    case 'like':
+      return { ...expr, operand: m(expr.operand), pattern: m(expr.pattern) };
+    default:
+      return expr;
+  }
+}
+
+function forEachColumn(expr: SqlExpr, fn: (column: Extract<SqlExpr, { kind: 'column' }>) => void): void {
+  mapExpr(expr, (e) => {
+    if (e.kind === 'column') fn(e);
+    return undefined;
+  });
+}
+
+function evaluateAggregate(expr: Extract<SqlExpr, { kind: 'call' }>, group: DataRow[]): SqlValue {
+  if (expr.star) return group.length;
+
+  const arg = expr.withinGroup ?? expr.args[0];
+  let values = group.map((row) => evaluate(arg, { row }));
+  if (expr.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((v) => {
+      const key = String(v);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (expr.name) {
+    case 'COUNT':
+      return aggregateValues(values, 'count') as number;
+    case 'SUM':
+      return aggregateValues(values, 'sum');
+    case 'AVG':
+      return aggregateValues(values, 'avg');
+    case 'MEDIAN':
+      return aggregateValues(values, 'median');
+    case 'PERCENTILE_CONT':
+      return aggregateValues(values, 'percentile', (expr.args[0] as { value: number }).value * 100);
+    case 'MIN':
+    case 'MAX': {
+      // Text (including dates) compares as text; otherwise numerically
+      const present = values.filter((v) => v !== null);
+      if (present.every((v) => toNum(v) !== null)) {
+        return aggregateValues(present, expr.name === 'MIN' ? 'min' : 'max');
+      }
+      const sign = expr.name === 'MIN' ? -1 : 1;
+      return present.reduce<SqlValue>((best, v) => {
+        if (best === null) return v;
+        return (compare(toText(v), toText(best)) ?? 0) * sign > 0 ? v : best;
+      }, null);
+    }
+    default:
+      return null;
+  }
+}
+
+function evaluate(expr: SqlExpr, scope: Scope): SqlValue {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'column':
+      return readCell(scope.row, expr.name);
+    case 'unary': {
+      const v = evaluate(expr.operand, scope);
+      if (expr.op === 'NOT') {
+        const t = truth(v);
+        return t === null ? null : !t;
+      }
+      const n = toNum(v);
+      return n === null ? null : -n;
+    }
+    case 'binary': {
+      if (expr.op === 'AND' || expr.op === 'OR') {
+        const l = truth(evaluate(expr.left, scope));
+        if (expr.op === 'AND' && l === false) return false;
+        if (expr.op === 'OR' && l === true) return true;
+        const r = truth(evaluate(expr.right, scope));
+        if (expr.op === 'AND') return r === false ? false : l === null || r === null ? null : true;
+        return r === true ? true : l === null || r === null ? null : false;
+      }
+      const l = evaluate(expr.left, scope);
+      const r = evaluate(expr.right, scope);
+      if (expr.op === '||') return l === null || r === null ? null : `${l}${r}`;
+      if (['=', '!=', '<', '<=', '>', '>='].includes(expr.op)) {
+        const c = compare(l, r);
+        if (c === null) return null;
+        switch (expr.op) {
+          case '=':
+            return c === 0;
+          case '!=':
+            return c !== 0;
+          case '<':
+            return c < 0;
+          case '<=':
+            return c <= 0;
+          case '>':
+            return c > 0;
+          default:
+            return c >= 0;
+        }
+      }
+      const a = toNum(l);
+      const b = toNum(r);
+      if (a === null || b === null) return null;
+      switch (expr.op) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+          return b === 0 ? null : a / b;
+        case '%':
+          return b === 0 ? null : a % b;
+        default:
+          return null;
+      }
+    }
+    case 'call':
+      if (AGGREGATES.has(expr.name)) return evaluateAggregate(expr, scope.group ?? [scope.row]);
+      return SCALAR_FUNCTIONS[expr.name].fn(expr.args.map((a) => evaluate(a, scope)));
+    case 'case': {
+      const subject = expr.operand ? evaluate(expr.operand, scope) : undefined;
+      for (const { when, then } of expr.whens) {
+        const hit =
+          subject === undefined ? truth(evaluate(when, scope)) === true : compare(subject, evaluate(when, scope)) === 0;
+        if (hit) return evaluate(then, scope);
+      }
+      return expr.otherwise ? evaluate(expr.otherwise, scope) : null;
+    }
+    case 'in': {
+      const v = evaluate(expr.operand, scope);
+      if (v === null) return null;
+      let sawNull = false;
+      for (const item of expr.list) {
+        const c = compare(v, evaluate(item, scope));
+        if (c === 0) return !expr.negated;
+        if (c === null) sawNull = true;
+      }
+      return sawNull ? null : expr.negated;
+    }
+    case 'between': {
+      const v = evaluate(expr.operand, scope);
+      const lo = compare(v, evaluate(expr.low, scope));
+      const hi = compare(v, evaluate(expr.high, scope));
+      if (lo === null || hi === null) return null;
+      return lo >= 0 && hi <= 0 ? !expr.negated : expr.negated;
+    }
+    case 'like': {
+      // Case-insensitive, as in SQLite and MySQL
+      const v = toText(evaluate(expr.operand, scope));
+      const pattern = toText(evaluate(expr.pattern, scope));
+      if (v === null || pattern === null) return null;
+      return likeToRegExp(pattern).test(v) !== expr.negated;
+    }
+    case 'isNull':
+      return (evaluate(expr.operand, scope) === null) !== expr.negated;
+    case 'cast': {
+      const v = evaluate(expr.operand, scope);
+      if (v === null) return null;
+      switch (CAST_TYPES[expr.type]) {
+        case 'integer': {
+          const n = toNum(v);
+          return n === null ? null : Math.trunc(n);
+        }
+        case 'real':
+          return toNum(v);
+        case 'date': {
+          const d = toDate(toText(v));
+          return d ? formatDate(d) : null;
+        }
+        case 'boolean':
+          return truth(v);
+        default:
+          return toText(v);
+      }
+    }
+  }
+}
+
+// Falls back to text order when a number meets non-numeric text
+function sortValues(a: SqlValue, b: SqlValue): number {
+  return compare(a, b) ?? String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function outputValue(v: SqlValue): DataRow[string] {
+  return typeof v === 'boolean' ? String(v) : v;
+}
+
+// ---------- Execution ----------
+
+/** Parse SQL without running it, e.g. to validate text in the editor. */
+export function parseSql(sql: string): SelectStatement {
+  return parseStatement(sql);
+}
+
+/**
+ * Run a SELECT over the rows as the table `data`. Empty cells read as NULL.
+ * Throws SqlSyntaxError (with a position) for syntax errors and unknown columns.
+ */
+export function executeSql(rows: DataRow[], sql: string): ExecutionResult {
+  const startTime = Date.now();
+  const statement = parseStatement(sql);
+  const dataColumns = Object.keys(rows[0] ?? {});
+  const known = new Set(dataColumns);
+
+  // Expand * and name every output column
+  const items: { expr: SqlExpr; name: string }[] = [];
+  const usedNames = new Map<string, number>();
+  const addItem = (expr: SqlExpr, base: string) => {
+    const seen = usedNames.get(base) ?? 0;
+    usedNames.set(base, seen + 1);
+    items.push({ expr, name: seen === 0 ? base : `${base}_${seen + 1}` });
+  };
+  for (const item of statement.items) {
+    if (item.expr === null) {
+      dataColumns.forEach((col) => addItem({ kind: 'column', name: col, start: item.start, end: item.end }, col));
+    } else {
+      addItem(item.expr, item.alias ?? (item.expr.kind === 'column' ? item.expr.name : sql.slice(item.expr.start, item.expr.end)));
+    }
+  }
+  const aliases = new Map(statement.items.filter((i) => i.alias && i.expr).map((i) => [i.alias!, i.expr!]));
+
+  // ORDER BY / GROUP BY 1 refer to the select list
+  const resolveOrdinal = (expr: SqlExpr, clause: string): SqlExpr => {
+    if (expr.kind !== 'literal' || typeof expr.value !== 'number') return expr;
+    const item = items[expr.value - 1];
+    if (!Number.isInteger(expr.value) || !item) {
+      throw syntaxError(sql, `${clause} position ${expr.value} is not in the select list`, expr.start);
+    }
+    return item.expr;
+  };
+  // Output aliases win in HAVING and ORDER BY; in GROUP BY a real column of the same name wins
+  const resolveAliases = (expr: SqlExpr, preferAlias: boolean): SqlExpr =>
+    mapExpr(expr, (e) => {
+      if (e.kind !== 'column') return undefined;
+      const aliased = aliases.get(e.name);
+      if (aliased && (preferAlias || !known.has(e.name))) return aliased;
+      return undefined;
+    });
+
+  const groupBy = statement.groupBy.map((e) => resolveAliases(resolveOrdinal(e, 'GROUP BY'), false));
+  const having = statement.having && resolveAliases(statement.having, true);
+  const orderBy = statement.orderBy.map((o) => ({
+    expr: resolveAliases(resolveOrdinal(o.expr, 'ORDER BY'), true),
+    direction: o.direction,
+  }));
+
+  // Static checks: columns exist, aggregates only where they make sense
+  const checkColumns = (expr: SqlExpr) => {
+    if (rows.length === 0) return;
+    forEachColumn(expr, (col) => {
+      if (!known.has(col.name)) throw syntaxError(sql, `Unknown column "${col.name}"`, col.start);
+    });
+  };
+  const checkNoAggregate = (expr: SqlExpr | undefined, clause: string) => {
+    if (!expr) return;
+    mapExpr(expr, (e) => {
+      if (e.kind === 'call' && AGGREGATES.has(e.name)) {
+        throw syntaxError(sql, `Aggregate ${e.name} is not allowed in ${clause}`, e.start);
+      }
+      return undefined;
+    });
+  };
+  const checkNestedAggregates = (expr: SqlExpr) =>
+    mapExpr(expr, (e) => {
+      if (e.kind === 'call' && AGGREGATES.has(e.name)) {
+        [...e.args, ...(e.withinGroup ? [e.withinGroup] : [])].forEach((a) => checkNoAggregate(a, 'another aggregate'));
+        return e;
+      }
+      return undefined;
+    });
+
+  const allExprs = [
+    ...items.map((i) => i.expr),
+    ...groupBy,
+    ...(statement.where ? [statement.where] : []),
+    ...(having ? [having] : []),
+    ...orderBy.map((o) => o.expr),
+  ];
+  allExprs.forEach(checkColumns);
+  allExprs.forEach(checkNestedAggregates);
+  checkNoAggregate(statement.where, 'WHERE');
+  groupBy.forEach((e) => checkNoAggregate(e, 'GROUP BY'));
+
+  const grouped =
+    groupBy.length > 0 || having !== undefined || [...items.map((i) => i.expr), ...orderBy.map((o) => o.expr)].some(containsAggregate);
+  if (grouped && statement.items.some((i) => i.expr === null)) {
+    const star = statement.items.find((i) => i.expr === null)!;
+    throw syntaxError(sql, 'SELECT * cannot be combined with GROUP BY or aggregates', star.start);
+  }
+
+  // WHERE
+  const filtered = statement.where
+    ? rows.filter((row) => truth(evaluate(statement.where!, { row })) === true)
+    : rows;
+
+  // GROUP BY (no GROUP BY but aggregates = one group over everything)
+  let scopes: Scope[];
+  if (grouped) {
+    const groups = new Map<string, DataRow[]>();
+    if (groupBy.length === 0) groups.set('', filtered);
+    for (const row of groupBy.length > 0 ? filtered : []) {
+      const key = JSON.stringify(groupBy.map((e) => evaluate(e, { row })));
+      const list = groups.get(key);
+      if (list) list.push(row);
+      else groups.set(key, [row]);
+    }
+    scopes = Array.from(groups.values()).map((group) => ({ row: group[0] ?? {}, group }));
+    if (having) scopes = scopes.filter((scope) => truth(evaluate(having, scope)) === true);
+  } else {
+    scopes = filtered.map((row) => ({ row }));
+  }
+
+  let output = scopes.map((scope) => ({
+    scope,
+    values: items.map((item) => evaluate(item.expr, scope)),
+  }));
+
+  if (statement.distinct) {
+    const seen = new Set<string>();
+    output = output.filter((o) => {
+      const key = JSON.stringify(o.values);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (orderBy.length > 0) {
+    const keyed = output.map((o) => ({ ...o, keys: orderBy.map((ord) => evaluate(ord.expr, o.scope)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orderBy.length; i++) {
+        const av = a.keys[i];
+        const bv = b.keys[i];
+        // NULLs last in both directions, like the visual builder
+        if (av === null || bv === null) {
+          if (av === bv) continue;
+          return av === null ? 1 : -1;
+        }
+        const c = sortValues(av, bv);
+        if (c !== 0) return orderBy[i].direction === 'asc' ? c : -c;
+      }
+      return 0;
+    });
+    output = keyed;
+  }
+
+  const offset = statement.offset ?? 0;
+  if (offset || statement.limit !== undefined) {
+    output = output.slice(offset, statement.limit !== undefined ? offset + statement.limit : undefined);
+  }
+
+  // Plain column reads hand back the original cell, so blanks stay as they were in the data
+  const results: DataRow[] = output.map((o) => {
+    const row: DataRow = {};
+    items.forEach((item, i) => {
+      row[item.name] = item.expr.kind === 'column' ? o.scope.row[item.expr.name] ?? null : outputValue(o.values[i]);
+    });
+    return row;
+  });
+
+  const executionTime = Date.now() - startTime;
+  lineageTracker.recordQuery(`Ran SQL: ${sql.trim()}`, rows.length, results.length, { sql, executionTime });
+
+  return { results, rowCount: results.length, sql, executionTime };
+}
+
+// ---------- SQL -> QueryConfig ----------
+
+function flattenAnd(expr: SqlExpr): SqlExpr[] {
+  if (expr.kind === 'binary' && expr.op === 'AND') return [...flattenAnd(expr.left), ...flattenAnd(expr.right)];
+  return [expr];
+}
+
+// Flattening splits (col IS NOT NULL AND col != ''), so stitch adjacent pairs back together
+function conjuncts(expr: SqlExpr): SqlExpr[] {
+  const flat = flattenAnd(expr);
+  const out: SqlExpr[] = [];
+  for (let i = 0; i < flat.length; i++) {
+    const current = flat[i];
+    const following = flat[i + 1];
+    if (current.kind === 'isNull' && current.negated && following?.kind === 'binary' && following.op === '!=') {
+      out.push({ kind: 'binary', op: 'AND', left: current, right: following, start: current.start, end: following.end });
+      i++;
+    } else {
+      out.push(current);
+    }
+  }
+  return out;
+}
+
+const literalValue = (e: SqlExpr) => (e.kind === 'literal' && e.value !== null && typeof e.value !== 'boolean' ? e.value : undefined);
+const numberValue = (e: SqlExpr) => (e.kind === 'literal' && typeof e.value === 'number' ? e.value : undefined);
+const isEmptyString = (e: SqlExpr) => e.kind === 'literal' && e.value === '';
+
+// Matches the shapes generateFilterSQL emits for each operator
+function toFilter(expr: SqlExpr, columnName: (e: SqlExpr) => string | undefined): QueryFilter | null {
+  // (col IS NULL OR col = '') / (col IS NOT NULL AND col != '')
+  if (expr.kind === 'binary' && (expr.op === 'OR' || expr.op === 'AND')) {
+    const { left, right } = expr;
+    const empty = expr.op === 'OR';
+    if (
+      left.kind === 'isNull' &&
+      left.negated !== empty &&
+      right.kind === 'binary' &&
+      right.op === (empty ? '=' : '!=') &&
+      isEmptyString(right.right)
+    ) {
+      const column = columnName(left.operand);
+      if (column && column === columnName(right.left)) return { column, operator: empty ? 'isEmpty' : 'isNotEmpty', value: '' };
+    }
+    return null;
+  }
+
+  if (expr.kind === 'binary') {
+    const column = columnName(expr.left);
+    if (!column) return null;
+    if (expr.op === '=') {
+      const value = literalValue(expr.right);
+      return value === undefined ? null : { column, operator: 'equals', value: String(value) };
+    }
+    if (expr.op === '>' || expr.op === '<') {
+      const value = numberValue(expr.right);
+      return value === undefined ? null : { column, operator: expr.op === '>' ? 'greater' : 'less', value };
+    }
+    return null;
+  }
+
+  if (expr.kind === 'like' && !expr.negated) {
+    const column = columnName(expr.operand);
+    const pattern = literalValue(expr.pattern);
+    const match = typeof pattern === 'string' ? /^%([^%_]*)%$/.exec(pattern) : null;
+    return column && match ? { column, operator: 'contains', value: match[1] } : null;
+  }
+
+  if (expr.kind === 'between' && !expr.negated) {
+    const column = columnName(expr.operand);
+    const low = numberValue(expr.low);
+    const high = numberValue(expr.high);
+    return column && low !== undefined && high !== undefined ? { column, operator: 'between', value: [low, high] } : null;
+  }
+
+  if (expr.kind === 'in' && !expr.negated) {
+    const column = columnName(expr.operand);
+    const values = expr.list.map(literalValue);
+    if (!column || values.some((v) => v === undefined)) return null;
+    return { column, operator: 'in', value: values.map(String) };
+  }
+
+  return null;
+}
+
+function toAggregation(expr: SqlExpr): QueryAggregation | null {
+  if (expr.kind !== 'call' || !AGGREGATES.has(expr.name) || expr.star) return null;
+  const arg = expr.withinGroup ?? expr.args[0];
+  if (arg.kind !== 'column') return null;
+
+  switch (expr.name) {
+    case 'COUNT':
+      return { column: arg.name, type: expr.distinct ? 'distinctCount' : 'count' };
+    case 'PERCENTILE_CONT':
+      if (expr.distinct) return null;
+      return { column: arg.name, type: 'percentile', percentile: Math.round((numberValue(expr.args[0]) ?? 0.5) * 10000) / 100 };
+    default:
+      if (expr.distinct) return null;
+      return { column: arg.name, type: expr.name.toLowerCase() as QueryAggregation['type'] };
+  }
+}
+
+/**
+ * Convert SQL to a visual builder query, or null when it uses anything the builder
+ * can't express (expressions, OR, DISTINCT, OFFSET, CASE, functions other than
+ * plain aggregates, aliases that differ from the builder's output names, ...).
+ */
+export function sqlToQueryConfig(sql: string): QueryConfig | null {
+  const statement = parseStatement(sql);
+  if (statement.distinct || statement.offset !== undefined) return null;
+
+  const plainColumn = (e: SqlExpr) => (e.kind === 'column' ? e.name : undefined);
+  const config: QueryConfig = {};
+
+  const aggregations: QueryAggregation[] = [];
+  const selected: string[] = [];
+  const isStar = statement.items.length === 1 && statement.items[0].expr === null;
+  if (!isStar) {
+    for (const item of statement.items) {
+      if (!item.expr) return null;
+      const column = plainColumn(item.expr);
+      if (column !== undefined) {
+        if (item.alias && item.alias !== column) return null;
+        if (aggregations.length > 0) return null; // builder always lists group columns first
+        selected.push(column);
+        continue;
+      }
+      const agg = toAggregation(item.expr);
+      if (!agg || (item.alias && item.alias !== aggregationKey(agg))) return null;
+      aggregations.push(agg);
+    }
+  }
+
+  const groupColumns = statement.groupBy.map(plainColumn);
+  if (groupColumns.some((c) => c === undefined)) return null;
+
+  if (aggregations.length > 0 || groupColumns.length > 0) {
+    if (isStar || selected.join('\u0000') !== groupColumns.join('\u0000')) return null;
+    config.groupBy = { columns: groupColumns as string[], aggregations };
+  } else if (!isStar) {
+    config.select = { columns: selected };
+  }
+
+  if (statement.where) {
+    const filters = conjuncts(statement.where).map((e) => toFilter(e, plainColumn));
+    if (filters.some((f) => f === null)) return null;
+    config.filters = filters as QueryFilter[];
+  }
+
+  if (statement.having) {
+    if (!config.groupBy) return null;
+    const keys = new Set(aggregations.map(aggregationKey));
+    // HAVING may name the output (Revenue_sum) or repeat the aggregate (SUM(Revenue))
+    const outputName = (e: SqlExpr) => {
+      if (e.kind === 'column') return keys.has(e.name) ? e.name : undefined;
+      const agg = toAggregation(e);
+      return agg && keys.has(aggregationKey(agg)) ? aggregationKey(agg) : undefined;
+    };
+    const having = conjuncts(statement.having).map((e) => toFilter(e, outputName));
+    if (having.some((f) => f === null)) return null;
+    config.groupBy.having = having as QueryFilter[];
+  }
+
+  if (statement.orderBy.length > 0) {
+    const orderBy: QueryOrder[] = [];
+    for (const { expr, direction } of statement.orderBy) {
+      const agg = toAggregation(expr);
+      const column = plainColumn(expr) ?? (agg ? aggregationKey(agg) : undefined);
+      if (!column) return null;
+      orderBy.push({ column, direction });
+    }
+    config.orderBy = orderBy;
+  }
+
+  if (statement.limit !== undefined) {
+    if (statement.limit === 0) return null;
+    config.limit = statement.limit;
+  }
+
+  return config;
+}
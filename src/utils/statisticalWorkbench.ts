@@ -0,0 +1,335 @@
+// src/utils/statisticalWorkbench.ts
+// Runs hypothesis tests from statistics.ts against dataset columns and turns the results into
+// StatisticalTest records. Grouped tests split a numeric column by a categorical one;
+// chi-square cross-tabulates two categorical columns.
+import type { DataRow, StatisticalTest } from '../types';
+import {
+  chiSquareIndependence,
+  jarqueBera,
+  kruskalWallis,
+  leveneTest,
+  mannWhitneyU,
+  oneWayAnova,
+  pearsonCorrelation,
+  tTest,
+  welchTTest,
+} from './statistics';
+
+export type WorkbenchTestId = StatisticalTest['testType'];
+
+// twoGroups/groups: numeric column split by a group column; categorical: two category columns; pair: two numeric columns
+export type WorkbenchInputKind = 'twoGroups' | 'groups' | 'categorical' | 'pair';
+
+export interface WorkbenchTestDefinition {
+  id: WorkbenchTestId;
+  label: string;
+  description: string;
+  input: WorkbenchInputKind;
+  parametric: boolean;
+}
+
+export interface WorkbenchInput {
+  testId: WorkbenchTestId;
+  columnA: string; // value column, first categorical column, or x
+  columnB: string; // group column, second categorical column, or y
+  groups?: [string, string]; // the two groups compared by two-group tests
+  confidence: number;
+}
+
+export interface GroupValues {
+  group: string;
+  values: number[];
+}
+
+export interface ContingencyTable {
+  rowLabels: string[];
+  colLabels: string[];
+  counts: number[][];
+}
+
+export interface AssumptionCheck {
+  normality: { group: string; n: number; skewness: number; pValue: number; normal: boolean }[];
+  equalVariance: { pValue: number; equal: boolean } | null;
+  notes: string[];
+  suggestion?: WorkbenchTestId; // a better-suited test, when the assumptions fail
+}
+
+export const WORKBENCH_TESTS: WorkbenchTestDefinition[] = [
+  {
+    id: 'welch',
+    label: "Welch's t-test",
+    description: 'Compare the means of two groups without assuming equal variances.',
+    input: 'twoGroups',
+    parametric: true,
+  },
+  {
+    id: 'ttest',
+    label: "Student's t-test",
+    description: 'Compare the means of two groups with equal variances.',
+    input: 'twoGroups',
+    parametric: true,
+  },
+  {
+    id: 'mannwhitney',
+    label: 'Mann-Whitney U',
+    description: 'Rank-based comparison of two groups; no normality assumption.',
+    input: 'twoGroups',
+    parametric: false,
+  },
+  {
+    id: 'anova',
+    label: 'One-way ANOVA',
+    description: 'Compare the means of three or more groups.',
+    input: 'groups',
+    parametric: true,
+  },
+  {
+    id: 'kruskal',
+    label: 'Kruskal-Wallis',
+    description: 'Rank-based comparison of three or more groups; no normality assumption.',
+    input: 'groups',
+    parametric: false,
+  },
+  {
+    id: 'chisquare',
+    label: 'Chi-square independence',
+    description: 'Test whether two categorical columns are associated.',
+    input: 'categorical',
+    parametric: false,
+  },
+  {
+    id: 'correlation',
+    label: 'Pearson correlation',
+    description: 'Test for a linear relationship between two numeric columns.',
+    input: 'pair',
+    parametric: true,
+  },
+];
+
+const MAX_CATEGORIES = 50;
+const MIN_NORMALITY_SAMPLE = 8;
+const LARGE_SAMPLE = 30; // above this the mean is close enough to normal for t-tests and ANOVA
+
+export function testDefinition(id: WorkbenchTestId): WorkbenchTestDefinition {
+  const def = WORKBENCH_TESTS.find((t) => t.id === id);
+  if (!def) throw new Error(`Unknown test: ${id}`);
+  return def;
+}
+
+function toNumber(val: unknown): number | null {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const n = Number(val.trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+const isBlank = (val: unknown) => val === null || val === undefined || val === '';
+
+// ---------- Columns ----------
+
+/** Columns where most filled cells are numbers. */
+export function numericColumns(rows: DataRow[]): string[] {
+  const headers = Object.keys(rows[0] || {});
+  return headers.filter((col) => {
+    const filled = rows.filter((r) => !isBlank(r[col]));
+    return filled.length > 0 && filled.filter((r) => toNumber(r[col]) !== null).length / filled.length >= 0.9;
+  });
+}
+
+/** Columns with between 2 and MAX_CATEGORIES distinct values. */
+export function categoricalColumns(rows: DataRow[]): string[] {
+  const headers = Object.keys(rows[0] || {});
+  return headers.filter((col) => {
+    const distinct = new Set(rows.filter((r) => !isBlank(r[col])).map((r) => String(r[col])));
+    return distinct.size >= 2 && distinct.size <= MAX_CATEGORIES;
+  });
+}
+
+/** Numeric values of `valueColumn` per group, groups in label order; blanks are skipped. */
+export function groupValues(rows: DataRow[], valueColumn: string, groupColumn: string): GroupValues[] {
+  const groups = new Map<string, number[]>();
+  for (const row of rows) {
+    const value = toNumber(row[valueColumn]);
+    if (value === null || isBlank(row[groupColumn])) continue;
+    const key = String(row[groupColumn]);
+    const list = groups.get(key);
+    if (list) list.push(value);
+    else groups.set(key, [value]);
+  }
+  return Array.from(groups, ([group, values]) => ({ group, values })).sort((a, b) =>
+    a.group.localeCompare(b.group, undefined, { numeric: true })
+  );
+}
+
+export function contingencyTable(rows: DataRow[], rowColumn: string, colColumn: string): ContingencyTable {
+  const pairs = rows
+    .filter((r) => !isBlank(r[rowColumn]) && !isBlank(r[colColumn]))
+    .map((r) => [String(r[rowColumn]), String(r[colColumn])] as const);
+  const sortLabels = (labels: Iterable<string>) =>
+    Array.from(new Set(labels)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const rowLabels = sortLabels(pairs.map(([r]) => r));
+  const colLabels = sortLabels(pairs.map(([, c]) => c));
+  if (rowLabels.length > MAX_CATEGORIES || colLabels.length > MAX_CATEGORIES) {
+    throw new Error(`Chi-square needs columns with at most ${MAX_CATEGORIES} categories.`);
+  }
+
+  const rowIndex = new Map(rowLabels.map((l, i) => [l, i]));
+  const colIndex = new Map(colLabels.map((l, i) => [l, i]));
+  const counts = rowLabels.map(() => colLabels.map(() => 0));
+  for (const [r, c] of pairs) counts[rowIndex.get(r)!][colIndex.get(c)!]++;
+  return { rowLabels, colLabels, counts };
+}
+
+// ---------- Assumptions ----------
+
+/** Normality per group (Jarque-Bera) and equal variances (Brown-Forsythe) for a grouped test. */
+export function checkAssumptions(testId: WorkbenchTestId, groups: GroupValues[]): AssumptionCheck {
+  const def = testDefinition(testId);
+  const normality = groups
+    .filter((g) => g.values.length >= MIN_NORMALITY_SAMPLE)
+    .map((g) => {
+      const jb = jarqueBera(g.values);
+      return { group: g.group, n: g.values.length, skewness: jb.skewness, pValue: jb.pValue, normal: jb.normal };
+    });
+  const usable = groups.filter((g) => g.values.length >= 2);
+  const levene = usable.length >= 2 ? leveneTest(usable.map((g) => g.values)) : null;
+  const equalVariance = levene ? { pValue: levene.pValue, equal: levene.equalVariances } : null;
+
+  const notes: string[] = [];
+  let suggestion: WorkbenchTestId | undefined;
+
+  const tooSmall = groups.filter((g) => g.values.length < MIN_NORMALITY_SAMPLE).map((g) => g.group);
+  if (tooSmall.length > 0) notes.push(`Too few values to check normality in: ${tooSmall.join(', ')}.`);
+
+  // Non-normal small groups undermine mean-based tests; large groups are covered by the CLT
+  const nonNormalSmall = normality.filter((g) => !g.normal && g.n < LARGE_SAMPLE);
+  const nonNormalLarge = normality.filter((g) => !g.normal && g.n >= LARGE_SAMPLE);
+  if (nonNormalSmall.length > 0) {
+    notes.push(`Not normally distributed: ${nonNormalSmall.map((g) => g.group).join(', ')}.`);
+    if (def.parametric && def.input === 'twoGroups') suggestion = 'mannwhitney';
+    if (def.parametric && def.input === 'groups') suggestion = 'kruskal';
+  }
+  if (nonNormalLarge.length > 0) {
+    notes.push(
+      `Skewed but large enough for mean-based tests: ${nonNormalLarge.map((g) => g.group).join(', ')}.`
+    );
+  }
+
+  if (equalVariance && !equalVariance.equal) {
+    notes.push('Group variances differ (Brown-Forsythe p < 0.05).');
+    if (testId === 'ttest' && !suggestion) suggestion = 'welch';
+    if (testId === 'anova' && !suggestion) suggestion = 'kruskal';
+  }
+  if (notes.length === 0) notes.push('No problems found with normality or equal variances.');
+
+  return { normality, equalVariance, notes, suggestion };
+}
+
+// ---------- Running ----------
+
+function record(
+  input: WorkbenchInput,
+  name: string,
+  result: { pValue: number; statistic: number; interpretation: string },
+  extra: Pick<StatisticalTest, 'groups' | 'effectSize' | 'details'>
+): StatisticalTest {
+  const alpha = 1 - input.confidence;
+  const significant = result.pValue < alpha;
+  // The test functions phrase their interpretation at 0.05; restate it at other levels
+  const interpretation =
+    input.confidence === 0.95
+      ? result.interpretation
+      : `${significant ? 'Significant' : 'Not significant'} at α = ${alpha.toFixed(2)}`;
+  return {
+    id: `test-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    testType: input.testId,
+    pValue: result.pValue,
+    statistic: result.statistic,
+    significant,
+    interpretation,
+    confidence: input.confidence,
+    columns: [input.columnA, input.columnB],
+    runAt: new Date(),
+    ...extra,
+  };
+}
+
+export function runWorkbenchTest(rows: DataRow[], input: WorkbenchInput): StatisticalTest {
+  const def = testDefinition(input.testId);
+  const { columnA, columnB } = input;
+  if (!columnA || !columnB) throw new Error('Choose both columns first.');
+  if (columnA === columnB) throw new Error('Choose two different columns.');
+
+  if (def.input === 'twoGroups') {
+    const [a, b] = input.groups ?? ['', ''];
+    if (!a || !b || a === b) throw new Error('Choose two different groups to compare.');
+    const all = groupValues(rows, columnA, columnB);
+    const g1 = all.find((g) => g.group === a)?.values ?? [];
+    const g2 = all.find((g) => g.group === b)?.values ?? [];
+    if (g1.length < 2 || g2.length < 2) throw new Error('Each group needs at least two numeric values.');
+    const name = `${columnA}: ${a} vs ${b}`;
+
+    if (input.testId === 'mannwhitney') {
+      const r = mannWhitneyU(g1, g2);
+      return record(input, name, { ...r, statistic: r.uStatistic }, {
+        groups: [a, b],
+        effectSize: { name: 'Rank-biserial r', value: r.effectSize },
+        details: { z: r.zScore, n1: g1.length, n2: g2.length },
+      });
+    }
+    const r = input.testId === 'welch' ? welchTTest(g1, g2) : tTest(g1, g2);
+    return record(input, name, { ...r, statistic: r.tStatistic }, {
+      groups: [a, b],
+      effectSize: { name: "Cohen's d", value: r.effectSize },
+      details: { df: r.degreesOfFreedom, n1: g1.length, n2: g2.length },
+    });
+  }
+
+  if (def.input === 'groups') {
+    const groups = groupValues(rows, columnA, columnB).filter((g) => g.values.length > 0);
+    if (groups.length < 2) throw new Error(`${columnB} needs at least two groups with numeric ${columnA} values.`);
+    if (groups.length > MAX_CATEGORIES) throw new Error(`${columnB} has more than ${MAX_CATEGORIES} groups.`);
+    const name = `${columnA} by ${columnB}`;
+    const labels = groups.map((g) => g.group);
+
+    if (input.testId === 'kruskal') {
+      const r = kruskalWallis(groups.map((g) => g.values));
+      return record(input, name, { ...r, statistic: r.hStatistic }, {
+        groups: labels,
+        effectSize: { name: 'Epsilon²', value: r.epsilonSquared },
+        details: { df: r.degreesOfFreedom },
+      });
+    }
+    const r = oneWayAnova(groups.map((g) => g.values));
+    return record(input, name, { ...r, statistic: r.fStatistic }, {
+      groups: labels,
+      effectSize: { name: 'Eta²', value: r.etaSquared },
+      details: { dfBetween: r.dfBetween, dfWithin: r.dfWithin },
+    });
+  }
+
+  if (def.input === 'categorical') {
+    const table = contingencyTable(rows, columnA, columnB);
+    const r = chiSquareIndependence(table.counts);
+    return record(input, `${columnA} × ${columnB}`, { ...r, statistic: r.chiSquare }, {
+      effectSize: { name: "Cramér's V", value: r.cramersV },
+      details: { df: r.degreesOfFreedom, lowExpectedCells: r.lowExpectedCells },
+    });
+  }
+
+  const pairs = rows
+    .map((r) => [toNumber(r[columnA]), toNumber(r[columnB])] as const)
+    .filter((p): p is readonly [number, number] => p[0] !== null && p[1] !== null);
+  if (pairs.length < 3) throw new Error('Need at least three rows where both columns are numeric.');
+  const r = pearsonCorrelation(
+    pairs.map((p) => p[0]),
+    pairs.map((p) => p[1])
+  );
+  return record(
+    input,
+    `${columnA} ~ ${columnB}`,
+    { pValue: r.pValue, statistic: r.correlation, interpretation: `${r.strength} correlation${r.significant ? '' : ', not significant'}` },
+    { effectSize: { name: 'r', value: r.correlation }, details: { n: pairs.length } }
+  );
+}
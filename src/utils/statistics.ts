@@ -3,6 +3,15 @@
  * Provides t-tests, chi-square, correlation p-values, confidence intervals, power analysis
  */
 
+import {
+  chiSquareUpperTail,
+  fUpperTail,
+  normalQuantile,
+  normalUpperTail,
+  tQuantile,
+  tTwoTailed,
+} from './distributions';
+
 /**
  * Calculate t-test between two groups
  * Returns t-statistic, p-value, degrees of freedom, effect size (Cohen's d)
@@ -41,8 +50,7 @@ export function tTest(group1: number[], group2: number[]): {
   const tStatistic = (mean1 - mean2) / standardError;
   const df = group1.length + group2.length - 2;
 
-  // Approximation of p-value using t-distribution (simplified)
-  const pValue = 2 * (1 - tCDF(Math.abs(tStatistic), df));
+  const pValue = tTwoTailed(tStatistic, df);
 
   // Cohen's d effect size
   const pooledStd = Math.sqrt(pooledVar);
@@ -102,7 +110,7 @@ export function chiSquareTest(observed: number[], expected: number[]): {
   }
 
   const df = observed.length - 1;
-  const pValue = 1 - chiSquareCDF(chiSquare, df);
+  const pValue = chiSquareUpperTail(chiSquare, df);
   const significant = pValue < 0.05;
 
   let interpretation = '';
@@ -156,7 +164,7 @@ export function pearsonCorrelation(x: number[], y: number[]): {
 
   const correlation = sumXY / Math.sqrt(sumX2 * sumY2);
   const tStat = (correlation * Math.sqrt(n - 2)) / Math.sqrt(1 - correlation * correlation);
-  const pValue = 2 * (1 - tCDF(Math.abs(tStat), n - 2));
+  const pValue = tTwoTailed(tStat, n - 2);
 
   const absCorr = Math.abs(correlation);
   let strength = '';
@@ -201,8 +209,7 @@ export function confidenceInterval(
     data.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (data.length - 1)
   );
 
-  // t-value for 95% confidence with n-1 df (simplified: use ~1.96 for large n)
-  const tValue = data.length > 30 ? 1.96 : tValueFromDF(data.length - 1);
+  const tValue = tQuantile(1 - (1 - confidence) / 2, data.length - 1);
   const marginOfError = tValue * (std / Math.sqrt(data.length));
 
   return {
@@ -233,8 +240,8 @@ export function powerAnalysis(
   // Two-proportion z-test sample size formula
   // n = 2 * ((Za + Zb)^2 * (p1*(1-p1) + p2*(1-p2))) / (p1 - p2)^2
 
-  const zAlpha = zValue(1 - (alpha / 2));
-  const zBeta = zValue(power);
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
 
   const p1 = baselineRate;
   const p2 = baselineRate + effectSize;
@@ -279,132 +286,506 @@ export function interpretPValue(pValue: number): string {
   return 'Not significant (p ≥ 0.1)';
 }
 
-// =================== Helper Functions ===================
+/**
+ * Welch's t-test: like tTest but without assuming equal variances
+ * Degrees of freedom from the Welch-Satterthwaite equation
+ */
+export function welchTTest(group1: number[], group2: number[]): {
+  tStatistic: number;
+  pValue: number;
+  degreesOfFreedom: number;
+  effectSize: number;
+  significant: boolean;
+  interpretation: string;
+} {
+  if (group1.length < 2 || group2.length < 2) {
+    return {
+      tStatistic: 0,
+      pValue: 1,
+      degreesOfFreedom: 0,
+      effectSize: 0,
+      significant: false,
+      interpretation: 'Insufficient data',
+    };
+  }
+
+  const mean1 = mean(group1);
+  const mean2 = mean(group2);
+  const var1 = sampleVariance(group1);
+  const var2 = sampleVariance(group2);
+  const se1 = var1 / group1.length;
+  const se2 = var2 / group2.length;
+
+  const tStatistic = (mean1 - mean2) / Math.sqrt(se1 + se2);
+  const df = Math.pow(se1 + se2, 2) /
+    (Math.pow(se1, 2) / (group1.length - 1) + Math.pow(se2, 2) / (group2.length - 1));
+  const pValue = tTwoTailed(tStatistic, df);
+
+  // Cohen's d using the average of the two variances
+  const effectSize = (mean1 - mean2) / Math.sqrt((var1 + var2) / 2);
+  const significant = pValue < 0.05;
+
+  return {
+    tStatistic: Math.round(tStatistic * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    degreesOfFreedom: Math.round(df * 100) / 100,
+    effectSize: Math.round(effectSize * 100) / 100,
+    significant,
+    interpretation: significant
+      ? `Means differ (${describeCohensD(effectSize)} effect)`
+      : 'No significant difference in means (p > 0.05)',
+  };
+}
 
 /**
- * Cumulative distribution function for t-distribution (simplified approximation)
+ * One-way ANOVA across two or more groups
+ * Effect size is eta squared (share of variance explained by group)
  */
-function tCDF(t: number, df: number): number {
-  // Using approximation for t-distribution
-  const x = df / (df + t * t);
-  return betaIncomplete(df / 2, 0.5, x);
+export function oneWayAnova(groups: number[][]): {
+  fStatistic: number;
+  pValue: number;
+  dfBetween: number;
+  dfWithin: number;
+  etaSquared: number;
+  significant: boolean;
+  interpretation: string;
+} {
+  const used = groups.filter((g) => g.length > 0);
+  const n = used.reduce((sum, g) => sum + g.length, 0);
+  const k = used.length;
+  if (k < 2 || n <= k) {
+    return {
+      fStatistic: 0,
+      pValue: 1,
+      dfBetween: 0,
+      dfWithin: 0,
+      etaSquared: 0,
+      significant: false,
+      interpretation: 'Insufficient data',
+    };
+  }
+
+  const grandMean = used.reduce((sum, g) => sum + g.reduce((a, b) => a + b, 0), 0) / n;
+  let ssBetween = 0;
+  let ssWithin = 0;
+  for (const g of used) {
+    const m = mean(g);
+    ssBetween += g.length * Math.pow(m - grandMean, 2);
+    ssWithin += g.reduce((a, b) => a + Math.pow(b - m, 2), 0);
+  }
+
+  const dfBetween = k - 1;
+  const dfWithin = n - k;
+  const fStatistic = ssWithin === 0 ? (ssBetween === 0 ? 0 : Infinity) : (ssBetween / dfBetween) / (ssWithin / dfWithin);
+  const pValue = fUpperTail(fStatistic, dfBetween, dfWithin);
+  const etaSquared = ssBetween + ssWithin === 0 ? 0 : ssBetween / (ssBetween + ssWithin);
+  const significant = pValue < 0.05;
+
+  return {
+    fStatistic: Math.round(fStatistic * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    dfBetween,
+    dfWithin,
+    etaSquared: Math.round(etaSquared * 10000) / 10000,
+    significant,
+    interpretation: significant
+      ? `At least one group mean differs (group explains ${(etaSquared * 100).toFixed(1)}% of variance)`
+      : 'No significant difference between group means (p > 0.05)',
+  };
 }
 
 /**
- * Approximation of regularized incomplete beta function
+ * Mann-Whitney U test (Wilcoxon rank-sum) for two independent groups
+ * Normal approximation with tie and continuity correction; effect size is the rank-biserial correlation
  */
-function betaIncomplete(a: number, b: number, x: number): number {
-  if (x === 0) return 0;
-  if (x === 1) return 1;
-
-  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
-
-  let f = 1,
-    c = 1,
-    d = 0;
-  for (let i = 0; i <= 100; i++) {
-    let m = i;
-    if (i === 0) {
-      d = 1;
-    } else {
-      const x2term =
-        (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
-      d = 1 + x2term * d;
-      d = d === 0 ? 1e-10 : 1 / d;
-      const numerator = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
-      c = 1 + numerator / c;
-      c = c === 0 ? 1e-10 : 1 / c;
-      f = f * c * d;
-    }
-    if (Math.abs(c * d - 1) < 1e-8) break;
+export function mannWhitneyU(group1: number[], group2: number[]): {
+  uStatistic: number;
+  zScore: number;
+  pValue: number;
+  effectSize: number;
+  significant: boolean;
+  interpretation: string;
+} {
+  const n1 = group1.length;
+  const n2 = group2.length;
+  if (n1 === 0 || n2 === 0) {
+    return { uStatistic: 0, zScore: 0, pValue: 1, effectSize: 0, significant: false, interpretation: 'Insufficient data' };
   }
 
-  return Math.min(1, Math.max(0, front * f));
+  const { ranks, tieTerm } = rankValues([...group1, ...group2]);
+  const rankSum1 = ranks.slice(0, n1).reduce((a, b) => a + b, 0);
+  const u1 = rankSum1 - (n1 * (n1 + 1)) / 2;
+  const n = n1 + n2;
+
+  const meanU = (n1 * n2) / 2;
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1))));
+  const diff = u1 - meanU;
+  const zScore = sigma === 0 ? 0 : (diff - 0.5 * Math.sign(diff)) / sigma;
+  const pValue = Math.min(1, 2 * normalUpperTail(Math.abs(zScore)));
+  const effectSize = (2 * u1) / (n1 * n2) - 1;
+  const significant = pValue < 0.05;
+
+  return {
+    uStatistic: Math.round(u1 * 100) / 100,
+    zScore: Math.round(zScore * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    effectSize: Math.round(effectSize * 1000) / 1000,
+    significant,
+    interpretation: significant
+      ? `Distributions differ: values in the first group tend to be ${effectSize > 0 ? 'higher' : 'lower'}`
+      : 'No significant difference in distributions (p > 0.05)',
+  };
 }
 
 /**
- * Log of beta function
+ * Kruskal-Wallis H test: the rank-based alternative to one-way ANOVA
+ * Effect size is epsilon squared
  */
-function logBeta(a: number, b: number): number {
-  return logGamma(a) + logGamma(b) - logGamma(a + b);
+export function kruskalWallis(groups: number[][]): {
+  hStatistic: number;
+  pValue: number;
+  degreesOfFreedom: number;
+  epsilonSquared: number;
+  significant: boolean;
+  interpretation: string;
+} {
+  const used = groups.filter((g) => g.length > 0);
+  const n = used.reduce((sum, g) => sum + g.length, 0);
+  if (used.length < 2 || n < 3) {
+    return { hStatistic: 0, pValue: 1, degreesOfFreedom: 0, epsilonSquared: 0, significant: false, interpretation: 'Insufficient data' };
+  }
+
+  const { ranks, tieTerm } = rankValues(used.flat());
+  let offset = 0;
+  let sum = 0;
+  for (const g of used) {
+    const rankSum = ranks.slice(offset, offset + g.length).reduce((a, b) => a + b, 0);
+    sum += (rankSum * rankSum) / g.length;
+    offset += g.length;
+  }
+
+  const tieCorrection = 1 - tieTerm / (n * n * n - n);
+  const h = tieCorrection === 0 ? 0 : ((12 / (n * (n + 1))) * sum - 3 * (n + 1)) / tieCorrection;
+  const df = used.length - 1;
+  const pValue = chiSquareUpperTail(h, df);
+  const epsilonSquared = h / (n - 1);
+  const significant = pValue < 0.05;
+
+  return {
+    hStatistic: Math.round(h * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    degreesOfFreedom: df,
+    epsilonSquared: Math.round(epsilonSquared * 10000) / 10000,
+    significant,
+    interpretation: significant
+      ? 'At least one group tends to have different values'
+      : 'No significant difference between groups (p > 0.05)',
+  };
 }
 
 /**
- * Log gamma function approximation
+ * Chi-square test of independence on a contingency table (rows x columns of counts)
+ * Effect size is Cramér's V; lowExpectedCells counts cells with an expected count under 5
  */
-function logGamma(x: number): number {
-  const g = 7;
-  const coeff = [
-    0.99999999999980993,
-    676.5203681218851,
-    -1259.1392167224028,
-    771.32342877765313,
-    -176.61502916214059,
-    12.507343278686905,
-    -0.13857109526572012,
-    9.9843695780195716e-6,
-    1.5056327351493116e-7,
-  ];
-
-  if (x < 0.5) {
-    return Math.log(Math.PI) - Math.log(Math.sin(Math.PI * x)) - logGamma(1 - x);
+export function chiSquareIndependence(table: number[][]): {
+  chiSquare: number;
+  pValue: number;
+  degreesOfFreedom: number;
+  cramersV: number;
+  expected: number[][];
+  lowExpectedCells: number;
+  significant: boolean;
+  interpretation: string;
+} {
+  const rowTotals = table.map((row) => row.reduce((a, b) => a + b, 0));
+  const colTotals = (table[0] ?? []).map((_, j) => table.reduce((sum, row) => sum + row[j], 0));
+  const n = rowTotals.reduce((a, b) => a + b, 0);
+  const r = rowTotals.filter((t) => t > 0).length;
+  const c = colTotals.filter((t) => t > 0).length;
+
+  if (r < 2 || c < 2) {
+    return {
+      chiSquare: 0,
+      pValue: 1,
+      degreesOfFreedom: 0,
+      cramersV: 0,
+      expected: [],
+      lowExpectedCells: 0,
+      significant: false,
+      interpretation: 'Need at least two non-empty categories in each column',
+    };
   }
 
-  x -= 1;
-  let base = x + g + 0.5;
-  let sum = coeff[0];
+  let chiSquare = 0;
+  let lowExpectedCells = 0;
+  const expected = table.map((row, i) =>
+    row.map((observed, j) => {
+      const e = (rowTotals[i] * colTotals[j]) / n;
+      if (e > 0) chiSquare += Math.pow(observed - e, 2) / e;
+      if (rowTotals[i] > 0 && colTotals[j] > 0 && e < 5) lowExpectedCells++;
+      return Math.round(e * 100) / 100;
+    })
+  );
+
+  const df = (r - 1) * (c - 1);
+  const pValue = chiSquareUpperTail(chiSquare, df);
+  const cramersV = Math.sqrt(chiSquare / (n * (Math.min(r, c) - 1)));
+  const significant = pValue < 0.05;
+
+  return {
+    chiSquare: Math.round(chiSquare * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    degreesOfFreedom: df,
+    cramersV: Math.round(cramersV * 1000) / 1000,
+    expected,
+    lowExpectedCells,
+    significant,
+    interpretation: significant
+      ? `The two variables are associated (Cramér's V = ${cramersV.toFixed(2)})`
+      : 'No significant association (p > 0.05)',
+  };
+}
+
+/**
+ * Jarque-Bera normality test from sample skewness and excess kurtosis
+ * Needs a reasonably large sample; with fewer than ~30 values treat the result as a rough guide
+ */
+export function jarqueBera(data: number[]): {
+  statistic: number;
+  pValue: number;
+  skewness: number;
+  kurtosis: number;
+  normal: boolean;
+} {
+  const n = data.length;
+  if (n < 4) return { statistic: 0, pValue: 1, skewness: 0, kurtosis: 0, normal: true };
+
+  const m = mean(data);
+  const m2 = data.reduce((a, b) => a + Math.pow(b - m, 2), 0) / n;
+  const m3 = data.reduce((a, b) => a + Math.pow(b - m, 3), 0) / n;
+  const m4 = data.reduce((a, b) => a + Math.pow(b - m, 4), 0) / n;
+  if (m2 === 0) return { statistic: 0, pValue: 1, skewness: 0, kurtosis: 0, normal: true };
+
+  const skewness = m3 / Math.pow(m2, 1.5);
+  const kurtosis = m4 / (m2 * m2) - 3;
+  const statistic = (n / 6) * (skewness * skewness + (kurtosis * kurtosis) / 4);
+  const pValue = chiSquareUpperTail(statistic, 2);
+
+  return {
+    statistic: Math.round(statistic * 100) / 100,
+    pValue: Math.round(pValue * 10000) / 10000,
+    skewness: Math.round(skewness * 100) / 100,
+    kurtosis: Math.round(kurtosis * 100) / 100,
+    normal: pValue >= 0.05,
+  };
+}
+
+/**
+ * Levene's test for equal variances; center 'median' is the Brown-Forsythe variant,
+ * which holds up better when the data are skewed
+ */
+export function leveneTest(
+  groups: number[][],
+  center: 'mean' | 'median' = 'median'
+): {
+  fStatistic: number;
+  pValue: number;
+  equalVariances: boolean;
+} {
+  const deviations = groups
+    .filter((g) => g.length > 0)
+    .map((g) => {
+      const c = center === 'mean' ? mean(g) : median(g);
+      return g.map((v) => Math.abs(v - c));
+    });
+  const { fStatistic, pValue } = oneWayAnova(deviations);
+  return { fStatistic, pValue, equalVariances: pValue >= 0.05 };
+}
+
+export type PValueCorrection = 'none' | 'bonferroni' | 'holm' | 'bh';
+
+export const P_VALUE_CORRECTION_LABELS: Record<PValueCorrection, string> = {
+  none: 'No correction',
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  bh: 'Benjamini-Hochberg (FDR)',
+};
 
-  for (let i = 1; i < coeff.length; i++) {
-    sum += coeff[i] / (x + i);
+/**
+ * Adjust a family of p-values for multiple comparisons; results are in input order and capped at 1
+ * Bonferroni and Holm control the family-wise error rate, Benjamini-Hochberg the false discovery rate
+ */
+export function adjustPValues(pValues: number[], method: PValueCorrection): number[] {
+  const m = pValues.length;
+  if (method === 'none' || m <= 1) return [...pValues];
+  if (method === 'bonferroni') return pValues.map((p) => Math.min(1, p * m));
+
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  if (method === 'holm') {
+    // Step-down: each adjusted value is at least the one before it
+    let running = 0;
+    order.forEach(({ p, i }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[i] = running;
+    });
+  } else {
+    // Step-up: walk from the largest p-value, keeping the running minimum
+    let running = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const { p, i } = order[rank];
+      running = Math.min(running, (m * p) / (rank + 1));
+      adjusted[i] = running;
+    }
   }
+  return adjusted;
+}
 
-  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(base) - base + Math.log(sum);
+/**
+ * Cohen's d with the pooled standard deviation
+ */
+export function cohensD(group1: number[], group2: number[]): number {
+  const n1 = group1.length;
+  const n2 = group2.length;
+  if (n1 < 2 || n2 < 2) return 0;
+  const pooled = Math.sqrt(((n1 - 1) * sampleVariance(group1) + (n2 - 1) * sampleVariance(group2)) / (n1 + n2 - 2));
+  return pooled === 0 ? 0 : (mean(group1) - mean(group2)) / pooled;
 }
 
 /**
- * Chi-square CDF approximation
+ * Cohen's conventional labels: 0.2 small, 0.5 medium, 0.8 large
  */
-function chiSquareCDF(x: number, df: number): number {
-  return betaIncomplete(df / 2, 0.5, x / (x + df));
+export function describeCohensD(d: number): string {
+  const abs = Math.abs(d);
+  if (abs < 0.2) return 'negligible';
+  if (abs < 0.5) return 'small';
+  if (abs < 0.8) return 'medium';
+  return 'large';
 }
 
 /**
- * Z-value for standard normal distribution
+ * Cliff's delta: P(x > y) - P(x < y) over all cross-group pairs, a rank-based effect size in [-1, 1]
  */
-function zValue(p: number): number {
-  // Approximation using inverse error function
-  if (p === 0.5) return 0;
-  if (p < 0.5) return -zValue(1 - p);
-
-  const t = Math.sqrt(-2 * Math.log(1 - p));
-  const c0 = 2.515517;
-  const c1 = 0.802853;
-  const c2 = 0.010328;
-  const d1 = 1.432788;
-  const d2 = 0.189269;
-  const d3 = 0.001308;
-
-  return t - ((c0 + c1 * t + c2 * t * t) / (1 + d1 * t + d2 * t * t + d3 * t * t * t));
+export function cliffsDelta(group1: number[], group2: number[]): number {
+  if (group1.length === 0 || group2.length === 0) return 0;
+  const sorted = [...group2].sort((a, b) => a - b);
+  let dominance = 0;
+  for (const x of group1) {
+    dominance += countBelow(sorted, x) - (sorted.length - countBelow(sorted, x, true));
+  }
+  return dominance / (group1.length * group2.length);
 }
 
 /**
- * T-value for given confidence level and degrees of freedom
- * Returns approximate critical t-value
+ * Labels from Romano et al. (2006), the usual thresholds for Cliff's delta
  */
-function tValueFromDF(df: number): number {
-  // Simplified t-value lookup
-  const lookup: Record<string, number> = {
-    '1': 12.706,
-    '2': 4.303,
-    '3': 3.182,
-    '4': 2.776,
-    '5': 2.571,
-    '10': 2.228,
-    '20': 2.086,
-    '30': 2.042,
+export function describeCliffsDelta(delta: number): string {
+  const abs = Math.abs(delta);
+  if (abs < 0.147) return 'negligible';
+  if (abs < 0.33) return 'small';
+  if (abs < 0.474) return 'medium';
+  return 'large';
+}
+
+/**
+ * Percentile bootstrap confidence interval for a two-sample statistic (difference in means by default)
+ * Seeded so the same data always gives the same interval
+ */
+export function bootstrapCI(
+  group1: number[],
+  group2: number[],
+  options: {
+    statistic?: (a: number[], b: number[]) => number;
+    iterations?: number;
+    confidence?: number;
+    seed?: number;
+  } = {}
+): { estimate: number; lower: number; upper: number; confidence: number; iterations: number } {
+  const { statistic = (a, b) => mean(a) - mean(b), iterations = 1000, confidence = 0.95, seed = 1 } = options;
+  if (group1.length === 0 || group2.length === 0) {
+    return { estimate: 0, lower: 0, upper: 0, confidence, iterations: 0 };
+  }
+
+  const random = seededRandom(seed);
+  const resample = (values: number[]) => values.map(() => values[Math.floor(random() * values.length)]);
+  const estimates: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    estimates.push(statistic(resample(group1), resample(group2)));
+  }
+  estimates.sort((a, b) => a - b);
+
+  const alpha = 1 - confidence;
+  const at = (q: number) => estimates[Math.min(iterations - 1, Math.max(0, Math.floor(q * iterations)))];
+  return {
+    estimate: statistic(group1, group2),
+    lower: at(alpha / 2),
+    upper: at(1 - alpha / 2),
+    confidence,
+    iterations,
   };
+}
 
-    return lookup[df.toString()];
-  if (df >= 30) return 1.96; // Normal approximation
-  return lookup['30'] || 2.042;
+// =================== Helper Functions ===================
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function sampleVariance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((a, b) => a + Math.pow(b - m, 2), 0) / (values.length - 1);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Average ranks (1-based, ties share their mean rank) in input order,
+ * plus the tie term sum(t^3 - t) used by rank-test corrections
+ */
+function rankValues(values: number[]): { ranks: number[]; tieTerm: number } {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let tieTerm = 0;
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = rank;
+    const t = j - i + 1;
+    tieTerm += t * t * t - t;
+    i = j + 1;
+  }
+  return { ranks, tieTerm };
+}
+
+/**
+ * Number of values in an ascending array below x (or at most x when inclusive)
+ */
+function countBelow(sorted: number[], x: number, inclusive = false): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < x || (inclusive && sorted[mid] === x)) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) returning values in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
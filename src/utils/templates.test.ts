@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { isQueryConfig } from './savedQueries';
+import { BUILT_IN_TEMPLATES, exportTemplates, importTemplates } from './templates';
+
+// One built-in template with its first sample query's config replaced
+function exportWith(config: unknown): string {
+  const data = JSON.parse(exportTemplates([BUILT_IN_TEMPLATES[0]]));
+  data.templates[0].sampleQueries[0].config = config;
+  return JSON.stringify(data);
+}
+
+describe('template import', () => {
+  it('ships sample queries that pass the saved query check', () => {
+    const configs = BUILT_IN_TEMPLATES.flatMap((t) => t.sampleQueries.map((q) => q.config));
+    expect(configs.length).toBeGreaterThan(0);
+    expect(configs.every(isQueryConfig)).toBe(true);
+  });
+
+  it.each([
+    ['filters as an object', { filters: {} }],
+    ['orderBy as a string', { orderBy: 'x' }],
+    ['a missing config', undefined],
+  ])('rejects a sample query with %s', async (_, config) => {
+    await expect(importTemplates(exportWith(config))).rejects.toThrow('Some templates in this file are malformed.');
+  });
+});
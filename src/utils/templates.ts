@@ -0,0 +1,489 @@
+// src/utils/templates.ts
+// Industry analysis templates. A template names its columns by role ({revenue}, {customer}, …)
+// and is scored against a dataset by resolving those roles with the header synonyms from
+// salesAI. Applying one fills in the dashboard's charts and KPIs and adds its queries to the
+// saved query library. Templates users author themselves are kept in IndexedDB.
+import type { AnalysisTemplate, ChartConfig, DataRow, SavedQuery } from '../types';
+import { openDatabase, requestToPromise, withStore } from './indexedDb';
+import { aggregateValues, aggregationKey, type AggregationType, type QueryConfig } from './queryBuilder';
+import { SYNONYMS, matchColumn, resolveColumn, type ColumnKey } from './salesAI';
+import { isQueryConfig, listSavedQueries, referencedColumns, saveQuery, savedQueryConfig } from './savedQueries';
+
+export type TemplateCategory = AnalysisTemplate['category'];
+
+export interface TemplateMatch {
+  template: AnalysisTemplate;
+  score: number; // share of the template's roles found in the dataset, 0-1
+  resolved: Record<string, string>; // role -> column
+  missing: string[];
+}
+
+export interface TemplateApplication {
+  chartConfig: ChartConfig;
+  savedQueries: SavedQuery[]; // newly added to the library
+  skipped: number; // charts, KPIs and queries left out for lack of a column
+}
+
+export interface NewTemplateInput {
+  name: string;
+  category: TemplateCategory;
+  description?: string;
+  charts: string[]; // dataset columns
+  metrics: { type: AggregationType; column: string | null }[]; // null column counts rows
+  queries: SavedQuery[];
+  createdBy: string;
+}
+
+interface TemplateExport {
+  format: 'autoinsight-templates';
+  version: 1;
+  exportedAt: string;
+  templates: AnalysisTemplate[];
+}
+
+export const TEMPLATE_CATEGORY_LABELS: Record<TemplateCategory, string> = {
+  ecommerce: 'E-commerce',
+  saas: 'SaaS',
+  healthcare: 'Healthcare',
+  general: 'General',
+};
+
+export const METRIC_TYPES: AggregationType[] = ['sum', 'avg', 'median', 'min', 'max', 'count', 'distinctCount'];
+
+const METRIC_LABELS: Record<AggregationType, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  median: 'Median',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count of',
+  distinctCount: 'Distinct',
+  percentile: 'P50',
+};
+
+// Roles beyond the sales ones in salesAI. Any other role is matched as a column name.
+const EXTRA_SYNONYMS: Record<string, string[]> = {
+  mrr: ['mrr', 'monthly recurring revenue', 'monthly revenue', 'monthly fee', 'subscription revenue'],
+  plan: ['plan', 'plan name', 'tier', 'subscription', 'package', 'pricing plan'],
+  account: ['account', 'account id', 'account name', 'company', 'customer id', 'user id'],
+  signup: ['signup date', 'sign up date', 'created at', 'start date', 'subscription date', 'joined'],
+  patient: ['patient', 'patient id', 'patient name', 'mrn'],
+  diagnosis: ['diagnosis', 'condition', 'icd', 'icd10', 'dx'],
+  department: ['department', 'ward', 'unit', 'specialty', 'clinic'],
+  stay: ['length of stay', 'los', 'stay days', 'days admitted'],
+  cost: ['cost', 'charges', 'total charges', 'billed amount', 'claim amount'],
+  admission: ['admission date', 'admit date', 'admitted', 'visit date', 'encounter date'],
+};
+
+const ROLE_PATTERN = /\{([^{}]+)\}/g;
+const TEMPLATES_DB = 'autoinsight-templates';
+const TEMPLATES_STORE = 'templates';
+const EXPORT_FORMAT = 'autoinsight-templates';
+const BUILT_IN_AUTHOR = 'AutoInsight';
+
+// ---------- Built-in templates ----------
+
+function templateQuery(id: string, name: string, description: string, config: QueryConfig): SavedQuery {
+  return { id, name, description, config: { ...config }, createdAt: new Date(0), createdBy: BUILT_IN_AUTHOR, tags: [] };
+}
+
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: 'builtin-ecommerce',
+    name: 'Online store sales',
+    category: 'ecommerce',
+    description: 'Revenue by category, product and region with customer counts.',
+    recommendedCharts: ['{revenue}', '{category}', '{region}', '{date}'],
+    suggestedMetrics: ['sum:{revenue}', 'avg:{revenue}', 'sum:{quantity}', 'distinctCount:{customer}'],
+    sampleQueries: [
+      templateQuery('builtin-ecommerce-category', 'Revenue by category', 'Total revenue per category, largest first', {
+        groupBy: { columns: ['{category}'], aggregations: [{ column: '{revenue}', type: 'sum' }] },
+        orderBy: [{ column: '{revenue}_sum', direction: 'desc' }],
+      }),
+      templateQuery('builtin-ecommerce-products', 'Top 10 products', 'Best-selling products by revenue', {
+        groupBy: {
+          columns: ['{product}'],
+          aggregations: [
+            { column: '{revenue}', type: 'sum' },
+            { column: '{quantity}', type: 'sum' },
+          ],
+        },
+        orderBy: [{ column: '{revenue}_sum', direction: 'desc' }],
+        limit: 10,
+      }),
+      templateQuery('builtin-ecommerce-customers', 'Top 10 customers', 'Customers by total spend', {
+        groupBy: { columns: ['{customer}'], aggregations: [{ column: '{revenue}', type: 'sum' }] },
+        orderBy: [{ column: '{revenue}_sum', direction: 'desc' }],
+        limit: 10,
+      }),
+    ],
+  },
+  {
+    id: 'builtin-saas',
+    name: 'SaaS subscriptions',
+    category: 'saas',
+    description: 'Recurring revenue by plan, account counts and churn.',
+    recommendedCharts: ['{mrr}', '{plan}', '{status}', '{signup}'],
+    suggestedMetrics: ['sum:{mrr}', 'avg:{mrr}', 'distinctCount:{account}'],
+    sampleQueries: [
+      templateQuery('builtin-saas-plan', 'MRR by plan', 'Recurring revenue and accounts per plan', {
+        groupBy: {
+          columns: ['{plan}'],
+          aggregations: [
+            { column: '{mrr}', type: 'sum' },
+            { column: '{account}', type: 'distinctCount' },
+          ],
+        },
+        orderBy: [{ column: '{mrr}_sum', direction: 'desc' }],
+      }),
+      templateQuery('builtin-saas-status', 'Accounts by status', 'Active versus churned accounts', {
+        groupBy: { columns: ['{status}'], aggregations: [{ column: '{account}', type: 'distinctCount' }] },
+      }),
+    ],
+  },
+  {
+    id: 'builtin-healthcare',
+    name: 'Patient encounters',
+    category: 'healthcare',
+    description: 'Encounters by diagnosis and department with length of stay and cost.',
+    recommendedCharts: ['{diagnosis}', '{department}', '{stay}', '{admission}'],
+    suggestedMetrics: ['distinctCount:{patient}', 'avg:{stay}', 'sum:{cost}', 'count'],
+    sampleQueries: [
+      templateQuery('builtin-healthcare-diagnosis', 'Encounters by diagnosis', 'Most common diagnoses', {
+        groupBy: { columns: ['{diagnosis}'], aggregations: [{ column: '{patient}', type: 'count' }] },
+        orderBy: [{ column: '{patient}_count', direction: 'desc' }],
+        limit: 20,
+      }),
+      templateQuery('builtin-healthcare-department', 'Stay and cost by department', 'Average stay and total cost per department', {
+        groupBy: {
+          columns: ['{department}'],
+          aggregations: [
+            { column: '{stay}', type: 'avg' },
+            { column: '{cost}', type: 'sum' },
+          ],
+        },
+        orderBy: [{ column: '{cost}_sum', direction: 'desc' }],
+      }),
+    ],
+  },
+  {
+    id: 'builtin-general',
+    name: 'General overview',
+    category: 'general',
+    description: 'Row counts over time and by category for any dataset.',
+    recommendedCharts: ['{category}', '{date}'],
+    suggestedMetrics: ['count', 'distinctCount:{category}'],
+    sampleQueries: [
+      templateQuery('builtin-general-category', 'Rows by category', 'How rows split across categories', {
+        groupBy: { columns: ['{category}'], aggregations: [{ column: '{category}', type: 'count' }] },
+        orderBy: [{ column: '{category}_count', direction: 'desc' }],
+      }),
+    ],
+  },
+];
+
+// ---------- Roles ----------
+
+// Roles come from user-named columns, so "constructor" and friends must not hit the prototype
+const has = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+export function resolveRole(columns: string[], role: string): string | null {
+  if (has(SYNONYMS, role)) return resolveColumn(columns, role as ColumnKey);
+  return matchColumn(columns, has(EXTRA_SYNONYMS, role) ? EXTRA_SYNONYMS[role] : [role]);
+}
+
+function rolesIn(text: string): string[] {
+  return Array.from(text.matchAll(ROLE_PATTERN), (m) => m[1]);
+}
+
+export function templateRoles(template: AnalysisTemplate): string[] {
+  const texts = [
+    ...template.recommendedCharts,
+    ...template.suggestedMetrics,
+    ...template.sampleQueries.map((q) => JSON.stringify(q.config)),
+  ];
+  return Array.from(new Set(texts.flatMap(rolesIn)));
+}
+
+/** Replace {role} placeholders; null when a role has no column. */
+function fillRoles(text: string, resolved: Record<string, string>): string | null {
+  if (rolesIn(text).some((role) => !has(resolved, role))) return null;
+  return text.replace(ROLE_PATTERN, (_, role: string) => resolved[role]);
+}
+
+function fillConfig(value: unknown, resolved: Record<string, string>): unknown {
+  if (typeof value === 'string') return fillRoles(value, resolved);
+  if (Array.isArray(value)) {
+    const items = value.map((v) => fillConfig(v, resolved));
+    return items.includes(null) ? null : items;
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      const filled = fillConfig(v, resolved);
+      if (filled === null) return null;
+      out[key] = filled;
+    }
+    return out;
+  }
+  return value;
+}
+
+export function matchTemplate(template: AnalysisTemplate, columns: string[]): TemplateMatch {
+  const roles = templateRoles(template);
+  const resolved: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const role of roles) {
+    const column = resolveRole(columns, role);
+    if (column) resolved[role] = column;
+    else missing.push(role);
+  }
+  const score = roles.length === 0 ? 1 : (roles.length - missing.length) / roles.length;
+  return { template, score, resolved, missing };
+}
+
+/** Best fit first; ties keep the given order. */
+export function rankTemplates(templates: AnalysisTemplate[], columns: string[]): TemplateMatch[] {
+  return templates.map((t) => matchTemplate(t, columns)).sort((a, b) => b.score - a.score);
+}
+
+// ---------- Metrics ----------
+
+export function parseMetric(spec: string): { type: AggregationType; column: string | null } | null {
+  if (spec === 'count') return { type: 'count', column: null };
+  const at = spec.indexOf(':');
+  if (at < 0) return null;
+  const type = spec.slice(0, at) as AggregationType;
+  if (!METRIC_TYPES.includes(type)) return null;
+  return { type, column: spec.slice(at + 1) };
+}
+
+export function metricLabel(spec: string): string {
+  const metric = parseMetric(spec);
+  if (!metric) return spec;
+  if (!metric.column) return 'Rows';
+  return `${METRIC_LABELS[metric.type]} ${metric.column}`;
+}
+
+export function metricValue(rows: DataRow[], spec: string): string | number | null {
+  const metric = parseMetric(spec);
+  if (!metric) return null;
+  if (!metric.column) return rows.length;
+  const column = metric.column;
+  return aggregateValues(rows.map((r) => r[column]), metric.type);
+}
+
+// ---------- Applying ----------
+
+/** Concrete charts, KPIs and queries for the dataset; anything with an unmatched role is dropped. */
+export function instantiateTemplate(template: AnalysisTemplate, columns: string[]) {
+  const { resolved } = matchTemplate(template, columns);
+  const fill = (items: string[]) =>
+    Array.from(new Set(items.map((t) => fillRoles(t, resolved)).filter((t): t is string => t !== null)));
+  const charts = fill(template.recommendedCharts).filter((c) => columns.includes(c));
+  const metrics = fill(template.suggestedMetrics);
+  const queries: { query: SavedQuery; config: QueryConfig }[] = [];
+  for (const query of template.sampleQueries) {
+    const config = fillConfig(query.config, resolved);
+    if (config) queries.push({ query, config: config as QueryConfig });
+  }
+  const skipped =
+    template.recommendedCharts.length - charts.length +
+    (template.suggestedMetrics.length - metrics.length) +
+    (template.sampleQueries.length - queries.length);
+  return { charts, metrics, queries, skipped };
+}
+
+/**
+ * Point the dashboard at the template's charts and KPIs and add its queries to the
+ * library. Queries already there under the same name and config are not added again.
+ */
+export async function applyTemplate(
+  template: AnalysisTemplate,
+  columns: string[],
+  current: ChartConfig | undefined,
+  createdBy: string
+): Promise<TemplateApplication> {
+  if (matchTemplate(template, columns).score === 0) {
+    throw new Error(`None of the columns "${template.name}" needs are in this dataset.`);
+  }
+  const { charts, metrics, queries, skipped } = instantiateTemplate(template, columns);
+
+  const library = await listSavedQueries();
+  const known = new Set(library.map((q) => `${q.name}\n${JSON.stringify(savedQueryConfig(q))}`));
+  const savedQueries: SavedQuery[] = [];
+  for (const { query, config } of queries) {
+    if (known.has(`${query.name}\n${JSON.stringify(config)}`)) continue;
+    savedQueries.push(
+      await saveQuery({
+        name: query.name,
+        description: query.description,
+        tags: ['template', template.category, ...query.tags],
+        config,
+        createdBy,
+      })
+    );
+  }
+
+  return {
+    chartConfig: {
+      selectedColumn: charts[0] ?? current?.selectedColumn ?? columns[0] ?? '',
+      showStatistics: current?.showStatistics ?? true,
+      pinnedColumns: charts,
+      metrics,
+      template: { id: template.id, name: template.name },
+    },
+    savedQueries,
+    skipped,
+  };
+}
+
+// ---------- Authoring ----------
+
+function placeholder(value: string, columns: string[], outputs: string[]): string {
+  if (columns.includes(value)) return `{${value}}`;
+  // Aggregate outputs such as Revenue_sum keep their suffix
+  if (!outputs.includes(value)) return value;
+  const column = columns
+    .filter((c) => value.startsWith(`${c}_`))
+    .sort((a, b) => b.length - a.length)[0];
+  return column ? `{${column}}${value.slice(column.length)}` : value;
+}
+
+/** Rewrite the column references of a query config as {column} placeholders. */
+function toPlaceholders(value: unknown, columns: string[], outputs: string[], key = ''): unknown {
+  if (typeof value === 'string') {
+    return key === 'column' || key === 'columns' ? placeholder(value, columns, outputs) : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => toPlaceholders(v, columns, outputs, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlaceholders(v, columns, outputs, k)]));
+  }
+  return value;
+}
+
+/** Build a template from choices made on the current dataset; its column names become roles. */
+export function createTemplate(input: NewTemplateInput): AnalysisTemplate {
+  const name = input.name.trim();
+  if (!name) throw new Error('Give the template a name.');
+  if (input.charts.length === 0 && input.metrics.length === 0 && input.queries.length === 0) {
+    throw new Error('Pick at least one chart, KPI or query for the template.');
+  }
+
+  const id = `template-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  return {
+    id,
+    name,
+    category: input.category,
+    description: input.description?.trim() ?? '',
+    recommendedCharts: input.charts.map((c) => `{${c}}`),
+    suggestedMetrics: input.metrics.map((m) => (m.column ? `${m.type}:{${m.column}}` : 'count')),
+    sampleQueries: input.queries.map((q, i) => {
+      const config = savedQueryConfig(q);
+      const columns = referencedColumns(config);
+      const outputs = (config.groupBy?.aggregations ?? []).map(aggregationKey);
+      return {
+        ...q,
+        id: `${id}-q${i}`,
+        config: toPlaceholders(config, columns, outputs) as Record<string, unknown>,
+        lastRun: undefined,
+      };
+    }),
+    createdBy: input.createdBy,
+    createdAt: new Date(),
+  };
+}
+
+// ---------- Storage ----------
+
+function getDb(): Promise<IDBDatabase> {
+  return openDatabase(TEMPLATES_DB, 1, (db) => {
+    if (!db.objectStoreNames.contains(TEMPLATES_STORE)) db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+  });
+}
+
+export async function listCustomTemplates(): Promise<AnalysisTemplate[]> {
+  const db = await getDb();
+  const all = await withStore(db, TEMPLATES_STORE, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<AnalysisTemplate[]>)
+  );
+  return all.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+}
+
+export async function saveCustomTemplate(template: AnalysisTemplate): Promise<void> {
+  const db = await getDb();
+  await withStore(db, TEMPLATES_STORE, 'readwrite', (store) => requestToPromise(store.put(template)));
+}
+
+export async function deleteCustomTemplate(id: string): Promise<void> {
+  const db = await getDb();
+  await withStore(db, TEMPLATES_STORE, 'readwrite', (store) => requestToPromise(store.delete(id)));
+}
+
+// ---------- Import / export ----------
+
+export function exportTemplates(templates: AnalysisTemplate[]): string {
+  const payload: TemplateExport = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+function reviveTemplate(raw: unknown): AnalysisTemplate | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const t = raw as Record<string, unknown>;
+  if (typeof t.id !== 'string' || typeof t.name !== 'string') return null;
+  if (!(typeof t.category === 'string' && t.category in TEMPLATE_CATEGORY_LABELS)) return null;
+  const strings = (v: unknown) => (Array.isArray(v) ? v.map(String) : []);
+  const queries = Array.isArray(t.sampleQueries) ? t.sampleQueries : [];
+  // Applying a template saves these configs to the query library, so they get the same check as a query import
+  if (queries.some((q) => !q || typeof q !== 'object' || typeof q.name !== 'string' || !isQueryConfig(q.config))) {
+    return null;
+  }
+
+  const createdAt = new Date(String(t.createdAt));
+  return {
+    id: t.id,
+    name: t.name,
+    category: t.category as TemplateCategory,
+    description: typeof t.description === 'string' ? t.description : '',
+    recommendedCharts: strings(t.recommendedCharts),
+    suggestedMetrics: strings(t.suggestedMetrics).filter((m) => parseMetric(m) !== null),
+    sampleQueries: queries.map((q, i) => ({
+      id: typeof q.id === 'string' ? q.id : `${t.id}-q${i}`,
+      name: q.name,
+      description: typeof q.description === 'string' ? q.description : '',
+      config: { ...q.config },
+      createdAt: new Date(0),
+      createdBy: typeof t.createdBy === 'string' ? t.createdBy : 'Unknown',
+      tags: strings(q.tags),
+    })),
+    createdBy: typeof t.createdBy === 'string' ? t.createdBy : 'Unknown',
+    createdAt: Number.isNaN(createdAt.getTime()) ? new Date() : createdAt,
+  };
+}
+
+/** Store every template from an export file; ids are kept, so re-importing overwrites. */
+export async function importTemplates(json: string): Promise<AnalysisTemplate[]> {
+  let data: Partial<TemplateExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Template file is not valid JSON.');
+  }
+  if (data.format !== EXPORT_FORMAT) throw new Error('This file is not a template export.');
+  if (data.version !== 1) throw new Error(`Unsupported export version: ${String(data.version)}`);
+  if (!Array.isArray(data.templates)) throw new Error('Template export has no templates.');
+
+  const templates = data.templates.map(reviveTemplate);
+  if (templates.some((t) => t === null)) throw new Error('Some templates in this file are malformed.');
+
+  const db = await getDb();
+  await withStore(db, TEMPLATES_STORE, 'readwrite', async (store) => {
+    for (const t of templates as AnalysisTemplate[]) await requestToPromise(store.put(t));
+  });
+  return templates as AnalysisTemplate[];
+}
@@ -0,0 +1,391 @@
+// src/utils/workspace.ts
+// Several named datasets side by side. Each dataset carries its own raw rows, cleaning
+// pipeline and cleaned rows, so switching between them never loses work. Joins and unions
+// read the cleaned rows of their inputs and produce new datasets that behave like uploads.
+import type { ChartConfig, CleaningIssues, DataRow, DataSummary, ExperimentConfig, StatisticalTest } from "../types";
+import { createHistory, type PipelineHistory, type StepResult } from "./cleaningPipeline";
+import { isEmpty } from "./csvIngest";
+import { profileRecords } from "./importers";
+
+export interface WorkspaceDataset {
+  id: string;
+  name: string;
+  source: "upload" | "join" | "union";
+  description: string; // file name, or how the dataset was derived
+  createdAt: string; // ISO timestamp
+  rows: DataRow[]; // as loaded; cleaning replays over these
+  cleanedRows: DataRow[];
+  dataSummary: DataSummary;
+  cleaningIssues: CleaningIssues;
+  pipeline: PipelineHistory;
+  stepResults: StepResult[];
+  chartConfig?: ChartConfig;
+  statisticalTests?: StatisticalTest[]; // workbench results, newest first
+  experiment?: ExperimentConfig;
+}
+
+export interface Workspace {
+  datasets: WorkspaceDataset[];
+  activeId: string | null;
+}
+
+export type JoinType = "inner" | "left" | "right" | "full";
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+export interface JoinOptions {
+  type: JoinType;
+  keys: JoinKey[];
+}
+
+export interface JoinDiagnostics {
+  leftRows: number;
+  rightRows: number;
+  resultRows: number;
+  matchedLeftRows: number;
+  unmatchedLeftRows: number;
+  matchedRightRows: number;
+  unmatchedRightRows: number;
+  blankKeyRows: { left: number; right: number }; // rows whose key has a blank part never match
+  duplicateKeys: { left: number; right: number }; // distinct keys that occur more than once
+  maxMatchesPerRow: number; // largest number of right rows matched by a single left row
+  caseOrSpaceMismatches: number; // unmatched left keys that would match ignoring case and outer spaces
+  sampleUnmatchedLeft: string[];
+  sampleUnmatchedRight: string[];
+  renamedColumns: { from: string; to: string }[];
+  warnings: string[];
+}
+
+export interface JoinResult {
+  rows: DataRow[];
+  diagnostics: JoinDiagnostics;
+}
+
+export interface UnionResult {
+  rows: DataRow[];
+  columns: string[];
+  // Columns each input lacked; those cells are left empty in the union
+  missingColumns: { dataset: string; columns: string[] }[];
+}
+
+export const EMPTY_WORKSPACE: Workspace = { datasets: [], activeId: null };
+
+// Joins above this size are refused before any rows are built
+export const MAX_JOIN_ROWS = 2_000_000;
+
+const SAMPLE_SIZE = 5;
+
+// ---------- Workspace edits ----------
+
+export function createDataset(
+  name: string,
+  source: WorkspaceDataset["source"],
+  description: string,
+  rows: DataRow[],
+  profile: { dataSummary: DataSummary; cleaningIssues: CleaningIssues }
+): WorkspaceDataset {
+  return {
+    id: `ds-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name,
+    source,
+    description,
+    createdAt: new Date().toISOString(),
+    rows,
+    cleanedRows: rows,
+    dataSummary: profile.dataSummary,
+    cleaningIssues: profile.cleaningIssues,
+    pipeline: createHistory(),
+    stepResults: [],
+  };
+}
+
+/** Profile derived rows (join/union output) the same way an upload is profiled. */
+export function createDerivedDataset(
+  name: string,
+  source: "join" | "union",
+  description: string,
+  rows: DataRow[]
+): WorkspaceDataset {
+  const profile = profileRecords(rows);
+  return createDataset(name, source, description, profile.rows as DataRow[], profile);
+}
+
+/** "orders", "orders (2)", "orders (3)", ... */
+export function uniqueDatasetName(workspace: Workspace, base: string): string {
+  const taken = new Set(workspace.datasets.map((d) => d.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
+
+export function addDataset(workspace: Workspace, dataset: WorkspaceDataset): Workspace {
+  return { datasets: [...workspace.datasets, dataset], activeId: dataset.id };
+}
+
+export function updateDataset(workspace: Workspace, id: string, patch: Partial<WorkspaceDataset>): Workspace {
+  return { ...workspace, datasets: workspace.datasets.map((d) => (d.id === id ? { ...d, ...patch } : d)) };
+}
+
+export function renameDataset(workspace: Workspace, id: string, name: string): Workspace {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Dataset name cannot be empty.");
+  if (workspace.datasets.some((d) => d.id !== id && d.name === trimmed)) {
+    throw new Error(`A dataset named "${trimmed}" already exists.`);
+  }
+  return updateDataset(workspace, id, { name: trimmed });
+}
+
+/** Removing the active dataset activates its neighbour. */
+export function removeDataset(workspace: Workspace, id: string): Workspace {
+  const idx = workspace.datasets.findIndex((d) => d.id === id);
+  if (idx === -1) return workspace;
+  const datasets = workspace.datasets.filter((d) => d.id !== id);
+  const activeId =
+    workspace.activeId === id ? (datasets[Math.min(idx, datasets.length - 1)]?.id ?? null) : workspace.activeId;
+  return { datasets, activeId };
+}
+
+export function activeDataset(workspace: Workspace): WorkspaceDataset | null {
+  return workspace.datasets.find((d) => d.id === workspace.activeId) ?? null;
+}
+
+export function datasetColumns(dataset: WorkspaceDataset): string[] {
+  return dataset.dataSummary.columnDetails.map((c) => c.name);
+}
+
+// ---------- Joins ----------
+
+// Keys compare as text so 42 and "42" match; null when any part is blank
+function keyOf(row: DataRow, columns: string[]): string | null {
+  const parts: string[] = [];
+  for (const col of columns) {
+    const v = row[col];
+    if (isEmpty(v)) return null;
+    parts.push(String(v));
+  }
+  return JSON.stringify(parts);
+}
+
+const looseKey = (key: string) =>
+  JSON.stringify((JSON.parse(key) as string[]).map((part) => part.trim().toLowerCase()));
+
+const displayKey = (key: string) => (JSON.parse(key) as string[]).join(" | ");
+
+function indexRows(rows: DataRow[], columns: string[]): { index: Map<string, number[]>; blank: number } {
+  const index = new Map<string, number[]>();
+  let blank = 0;
+  rows.forEach((row, i) => {
+    const key = keyOf(row, columns);
+    if (key === null) {
+      blank++;
+      return;
+    }
+    const list = index.get(key);
+    if (list) list.push(i);
+    else index.set(key, [i]);
+  });
+  return { index, blank };
+}
+
+/**
+ * Join two datasets on one or more key columns. Keys are compared as text and rows with a
+ * blank key part never match. The left key columns are kept (filled from the right side for
+ * right-only rows); right key columns are dropped, and any other right column whose name is
+ * already taken is prefixed with the right dataset's name.
+ */
+export function joinDatasets(
+  left: { name: string; rows: DataRow[]; columns: string[] },
+  right: { name: string; rows: DataRow[]; columns: string[] },
+  options: JoinOptions
+): JoinResult {
+  const { type, keys } = options;
+  if (keys.length === 0) throw new Error("Pick at least one key column to join on.");
+  for (const key of keys) {
+    if (!left.columns.includes(key.left)) throw new Error(`"${left.name}" has no column "${key.left}".`);
+    if (!right.columns.includes(key.right)) throw new Error(`"${right.name}" has no column "${key.right}".`);
+  }
+
+  const leftKeyCols = keys.map((k) => k.left);
+  const rightKeyCols = keys.map((k) => k.right);
+
+  // Output columns: every left column, then the right's non-key columns (renamed on collision)
+  const taken = new Set(left.columns);
+  const renamedColumns: { from: string; to: string }[] = [];
+  const rightOutput: { from: string; to: string }[] = [];
+  for (const col of right.columns) {
+    if (rightKeyCols.includes(col)) continue;
+    let to = col;
+    if (taken.has(to)) {
+      to = `${right.name}.${col}`;
+      for (let n = 2; taken.has(to); n++) to = `${right.name}.${col} (${n})`;
+      renamedColumns.push({ from: col, to });
+    }
+    taken.add(to);
+    rightOutput.push({ from: col, to });
+  }
+
+  const { index: rightIndex, blank: rightBlank } = indexRows(right.rows, rightKeyCols);
+  const { index: leftIndex, blank: leftBlank } = indexRows(left.rows, leftKeyCols);
+
+  // Size the result before building it so a many-to-many join can be refused up front
+  const leftKeys = left.rows.map((row) => keyOf(row, leftKeyCols));
+  const keepUnmatchedLeft = type === "left" || type === "full";
+  const keepUnmatchedRight = type === "right" || type === "full";
+  let resultRows = 0;
+  let matchedLeftRows = 0;
+  let maxMatchesPerRow = 0;
+  for (const key of leftKeys) {
+    const matches = key === null ? 0 : (rightIndex.get(key)?.length ?? 0);
+    if (matches > 0) matchedLeftRows++;
+    maxMatchesPerRow = Math.max(maxMatchesPerRow, matches);
+    resultRows += matches > 0 ? matches : keepUnmatchedLeft ? 1 : 0;
+  }
+  let matchedRightRows = 0;
+  const unmatchedRightKeys: string[] = [];
+  rightIndex.forEach((indices, key) => {
+    if (leftIndex.has(key)) matchedRightRows += indices.length;
+    else unmatchedRightKeys.push(key);
+  });
+  const unmatchedRightRows = right.rows.length - matchedRightRows;
+  if (keepUnmatchedRight) resultRows += unmatchedRightRows;
+
+  if (resultRows > MAX_JOIN_ROWS) {
+    throw new Error(
+      `This join would produce ${resultRows.toLocaleString()} rows (limit ${MAX_JOIN_ROWS.toLocaleString()}). ` +
+        "The keys are probably not unique on either side."
+    );
+  }
+
+  // Build rows
+  const rows: DataRow[] = [];
+  const emptyRight = Object.fromEntries(rightOutput.map((c) => [c.to, null])) as DataRow;
+  const emptyLeft = Object.fromEntries(left.columns.map((c) => [c, null])) as DataRow;
+  const withRight = (base: DataRow, rightRow: DataRow) => {
+    const out: DataRow = { ...base };
+    for (const c of rightOutput) out[c.to] = rightRow[c.from] ?? null;
+    return out;
+  };
+
+  left.rows.forEach((leftRow, i) => {
+    const key = leftKeys[i];
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (matches) {
+      for (const j of matches) rows.push(withRight(leftRow, right.rows[j]));
+    } else if (keepUnmatchedLeft) {
+      rows.push({ ...leftRow, ...emptyRight });
+    }
+  });
+
+  if (keepUnmatchedRight) {
+    right.rows.forEach((rightRow) => {
+      const key = keyOf(rightRow, rightKeyCols);
+      if (key !== null && leftIndex.has(key)) return;
+      const base: DataRow = { ...emptyLeft };
+      keys.forEach((k) => {
+        base[k.left] = rightRow[k.right] ?? null;
+      });
+      rows.push(withRight(base, rightRow));
+    });
+  }
+
+  // Diagnostics
+  const unmatchedLeftKeys = Array.from(leftIndex.keys()).filter((key) => !rightIndex.has(key));
+  const looseRight = new Set(unmatchedRightKeys.map(looseKey));
+  const caseOrSpaceMismatches = unmatchedLeftKeys.filter((key) => looseRight.has(looseKey(key))).length;
+  const countDuplicates = (index: Map<string, number[]>) =>
+    Array.from(index.values()).filter((list) => list.length > 1).length;
+  const duplicateKeys = { left: countDuplicates(leftIndex), right: countDuplicates(rightIndex) };
+
+  const warnings: string[] = [];
+  if (matchedLeftRows === 0 && left.rows.length > 0 && right.rows.length > 0) {
+    warnings.push("No rows matched. Check that the key columns hold the same kind of values.");
+  }
+  if (caseOrSpaceMismatches > 0) {
+    warnings.push(
+      `${caseOrSpaceMismatches.toLocaleString()} key(s) only differ by letter case or surrounding spaces and did not match.`
+    );
+  }
+  if (duplicateKeys.left > 0 && duplicateKeys.right > 0) {
+    warnings.push("Keys repeat on both sides (many-to-many), so matching rows are multiplied.");
+  } else if (maxMatchesPerRow > 1) {
+    warnings.push(
+      `Some ${left.name} rows matched up to ${maxMatchesPerRow} ${right.name} rows, so the result has more rows than ${left.name}.`
+    );
+  }
+  if (leftBlank + rightBlank > 0) {
+    warnings.push(`${(leftBlank + rightBlank).toLocaleString()} row(s) have a blank key and cannot match.`);
+  }
+
+  return {
+    rows,
+    diagnostics: {
+      leftRows: left.rows.length,
+      rightRows: right.rows.length,
+      resultRows: rows.length,
+      matchedLeftRows,
+      unmatchedLeftRows: left.rows.length - matchedLeftRows,
+      matchedRightRows,
+      unmatchedRightRows,
+      blankKeyRows: { left: leftBlank, right: rightBlank },
+      duplicateKeys,
+      maxMatchesPerRow,
+      caseOrSpaceMismatches,
+      sampleUnmatchedLeft: unmatchedLeftKeys.slice(0, SAMPLE_SIZE).map(displayKey),
+      sampleUnmatchedRight: unmatchedRightKeys.slice(0, SAMPLE_SIZE).map(displayKey),
+      renamedColumns,
+      warnings,
+    },
+  };
+}
+
+export function describeJoin(leftName: string, rightName: string, options: JoinOptions): string {
+  const on = options.keys.map((k) => (k.left === k.right ? k.left : `${k.left} = ${k.right}`)).join(", ");
+  return `${options.type} join of ${leftName} and ${rightName} on ${on}`;
+}
+
+// ---------- Unions ----------
+
+/**
+ * Stack datasets by column name. Columns keep first-seen order; inputs without a column
+ * get empty cells. `sourceColumn`, when set, records which dataset each row came from.
+ */
+export function unionDatasets(
+  inputs: { name: string; rows: DataRow[]; columns: string[] }[],
+  sourceColumn?: string
+): UnionResult {
+  if (inputs.length < 2) throw new Error("Pick at least two datasets to union.");
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const input of inputs) {
+    for (const col of input.columns) {
+      if (!seen.has(col)) {
+        seen.add(col);
+        columns.push(col);
+      }
+    }
+  }
+  if (sourceColumn && seen.has(sourceColumn)) {
+    throw new Error(`Column "${sourceColumn}" already exists; pick another name for the source column.`);
+  }
+
+  const rows: DataRow[] = [];
+  for (const input of inputs) {
+    for (const row of input.rows) {
+      const out: DataRow = {};
+      for (const col of columns) out[col] = row[col] ?? null;
+      if (sourceColumn) out[sourceColumn] = input.name;
+      rows.push(out);
+    }
+  }
+
+  const missingColumns = inputs
+    .map((input) => ({ dataset: input.name, columns: columns.filter((c) => !input.columns.includes(c)) }))
+    .filter((m) => m.columns.length > 0);
+
+  return { rows, columns: sourceColumn ? [...columns, sourceColumn] : columns, missingColumns };
+}